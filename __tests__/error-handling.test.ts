@@ -274,15 +274,17 @@ describe('Error Handling System', () => {
         const systemData = {
           id: 'stanton',
           name: 'Stanton System',
+          description: 'Test system',
           objects: [
             {
               id: 'stanton-star',
               name: 'Stanton',
-              type: 'star',
-              mass: 1.0,
-              radius: 696000
+              classification: 'star',
+              geometry_type: 'star',
+              properties: { mass: 1.0, radius: 696000, temperature: 5778 }
             }
-          ]
+          ],
+          lighting: { primary_star: 'stanton-star', ambient_level: 0.1, stellar_influence_radius: 100 }
         };
 
         const result = Validator.validateSystemData(systemData);
@@ -297,8 +299,8 @@ describe('Error Handling System', () => {
 
         const result = Validator.validateSystemData(systemData);
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain('System data must have a valid ID');
-        expect(result.errors).toContain('System data must have an objects array');
+        expect(result.errors).toContain('/id: Missing required string');
+        expect(result.errors).toContain('/objects: Missing required array');
       });
 
       it('should validate nested objects', () => {
@@ -315,7 +317,7 @@ describe('Error Handling System', () => {
 
         const result = Validator.validateSystemData(systemData);
         expect(result.isValid).toBe(false);
-        expect(result.errors.some(e => e.includes('Object 0:'))).toBe(true);
+        expect(result.errors.some(e => e.startsWith('/objects/0/'))).toBe(true);
       });
     });
 
@@ -1,13 +1,7 @@
+import { Suspense } from "react"
 import { notFound } from "next/navigation"
-import { RealisticModeView } from "./realistic/realistic-mode-view"
-import { StarCitizenModeView } from "./star-citizen/star-citizen-mode-view"
-
-const validModes = ["realistic", "star-citizen"] as const
-type ValidMode = (typeof validModes)[number]
-
-function isValidMode(mode: string): mode is ValidMode {
-  return validModes.includes(mode as ValidMode)
-}
+import { discoverUniverses, findUniverse } from "@/engine/universes/discover"
+import { UniverseView } from "./universe-view"
 
 interface PageProps {
   params: Promise<{
@@ -17,41 +11,32 @@ interface PageProps {
 
 export default async function ModePage({ params }: PageProps) {
   const { mode } = await params
-  
-  if (!isValidMode(mode)) {
+  const universe = findUniverse(mode)
+
+  if (!universe) {
     notFound()
   }
 
-  switch (mode) {
-    case "realistic":
-      return <RealisticModeView />
-    case "star-citizen":
-      return <StarCitizenModeView />
-    default:
-      notFound()
-  }
+  // The view reads its state from the URL query, which is only known in the browser
+  return (
+    <Suspense>
+      <UniverseView universe={universe} />
+    </Suspense>
+  )
 }
 
+// One route per data folder with a universe.json
 export function generateStaticParams() {
-  return validModes.map((mode) => ({
-    mode,
+  return discoverUniverses().map((universe) => ({
+    mode: universe.id,
   }))
 }
 
 export async function generateMetadata({ params }: PageProps) {
   const { mode } = await params
-  
-  const titles = {
-    realistic: "Realistic Universe - Chart Citizen",
-    "star-citizen": "Star Citizen Universe - Chart Citizen"
-  }
-
-  const descriptions = {
-    realistic: "Scientifically accurate 3D space simulation and exploration",
-    "star-citizen": "Star Citizen game-inspired 3D universe exploration"
-  }
+  const universe = findUniverse(mode)
 
-  if (!isValidMode(mode)) {
+  if (!universe) {
     return {
       title: "Not Found - Chart Citizen",
       description: "The requested page could not be found."
@@ -59,7 +44,7 @@ export async function generateMetadata({ params }: PageProps) {
   }
 
   return {
-    title: titles[mode],
-    description: descriptions[mode],
+    title: `${universe.title} - Chart Citizen`,
+    description: universe.description,
   }
 }
@@ -2,35 +2,20 @@
 
 import { useState, useEffect } from "react"
 import { notFound, useParams } from "next/navigation"
-import { StarmapViewer } from "@/components/starmap/starmap-viewer"
+import { StarmapViewer } from "@/engine/components/starmap/starmap-viewer"
 import { SystemViewer } from "@/engine/components/system-viewer"
 import { Sidebar } from "@/engine/components/sidebar/sidebar"
 import { engineSystemLoader } from "@/engine/system-loader"
-
-const validModes = ["realistic", "star-citizen"] as const
-
-type ValidMode = (typeof validModes)[number]
-
-function isValidMode(mode: string): mode is ValidMode {
-  return validModes.includes(mode as ValidMode)
-}
-
-// Type for starmap system data
-interface StarmapSystem {
-  id: string
-  name: string
-  position: [number, number, number]
-  description?: string
-  jump_routes?: string[]
-  [key: string]: unknown
-}
+import { useUniverse } from "@/engine/hooks/use-universe"
+import { useLocalSystems } from "@/engine/hooks/use-local-systems"
+import { localSystemStore } from "@/engine/local-systems/local-system-store"
+import { universeHasFeature } from "@/engine/universes/manifest"
+import type { StarmapSystem } from "@/engine/types/orbital-system"
 
 export default function StarmapPage() {
   const { mode } = useParams() as { mode: string }
-  if (!isValidMode(mode)) {
-    notFound()
-  }
-
+  const { universe, loading } = useUniverse(mode)
+  const localSystems = useLocalSystems(mode)
   const [selectedSystem, setSelectedSystem] = useState<string | null>(null)
   const [availableSystems, setAvailableSystems] = useState<Record<string, StarmapSystem>>({})
 
@@ -50,6 +35,11 @@ export default function StarmapPage() {
     loadSystems()
   }, [mode])
 
+  // Only universes with a manifest that turns the starmap on have one
+  if (!loading && (!universe || !universeHasFeature(universe, "starmap"))) {
+    notFound()
+  }
+
   return (
     <div className="w-full h-screen bg-black">
       {selectedSystem ? (
@@ -76,12 +66,14 @@ export default function StarmapPage() {
                 availableSystems={availableSystems}
                 currentSystem="" // No current system in starmap
                 onSystemChange={setSelectedSystem} // Select system from sidebar
+                localSystems={localSystems}
+                onRemoveLocalSystem={(systemId) => localSystemStore.remove(mode, systemId)}
                 focusedName=""
                 focusedObjectSize={null}
                 onStopFollowing={() => {}}
                 error={null}
                 loadingProgress=""
-                mode={mode as "realistic" | "star-citizen"}
+                title={universe?.theme?.sidebar_title}
               />
             </div>
           </div>
@@ -1,36 +1,57 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { SystemViewer } from "@/engine/components/system-viewer"
+import { useViewerStateQuery } from "@/engine/components/system-viewer/hooks/use-viewer-state-query"
 import { engineSystemLoader } from "@/engine/system-loader"
+import { isLocalSystemId } from "@/engine/local-systems/local-system-store"
+import type { UniverseManifest } from "@/engine/universes/manifest"
 import type * as THREE from "three"
-// import type { ViewType } from "@lib/types/effects-level"
 
-const MODE = "realistic"
+interface UniverseViewProps {
+  universe: UniverseManifest
+}
 
-export function RealisticModeView() {
+export function UniverseView({ universe }: UniverseViewProps) {
   const [systemId, setSystemId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [availableSystems, setAvailableSystems] = useState<string[]>([])
+
+  // System, focus, view, clock and camera are kept in the URL
+  const { requestedState, reportState } = useViewerStateQuery()
+  const linkedSystemRef = useRef(requestedState.systemId)
 
   // Load available systems
   useEffect(() => {
     async function loadSystems() {
       try {
-        const systems = await engineSystemLoader.getAvailableSystems(MODE)
+        const systems = await engineSystemLoader.getAvailableSystems(universe.id)
         if (systems.length === 0) {
-          throw new Error("No systems found in realistic mode")
+          throw new Error(`No systems found in ${universe.title}`)
         }
-        setSystemId(systems[0]) // Select first system by default
+        setAvailableSystems(systems)
+        // Open the linked system, else the universe's default, else the first one
+        const linked = linkedSystemRef.current
+        const preferred = [linked, universe.default_system].find(id => id && systems.includes(id))
+        setSystemId(preferred ?? systems[0])
       } catch (error) {
-        setError(`Failed to load realistic universe: ${error instanceof Error ? error.message : "Unknown error"}`)
+        setError(`Failed to load ${universe.title}: ${error instanceof Error ? error.message : "Unknown error"}`)
       } finally {
         setLoading(false)
       }
     }
 
     loadSystems()
-  }, [])
+  }, [universe])
+
+  // Back and forward can move between systems, including local ones imported since the page loaded
+  useEffect(() => {
+    const linked = requestedState.systemId
+    if (linked && (availableSystems.includes(linked) || isLocalSystemId(linked))) {
+      setSystemId(linked)
+    }
+  }, [requestedState, availableSystems])
 
   // Handle system change
   const handleSystemChange = (newSystemId: string) => {
@@ -51,7 +72,7 @@ export function RealisticModeView() {
     return (
       <div className="flex items-center justify-center h-screen bg-black text-white">
         <div className="text-center">
-          <div className="text-2xl mb-4">Loading Realistic Universe...</div>
+          <div className="text-2xl mb-4">Loading {universe.title}...</div>
           <div className="text-gray-400">Please wait while we initialize the system.</div>
         </div>
       </div>
@@ -62,13 +83,13 @@ export function RealisticModeView() {
     return (
       <div className="flex items-center justify-center h-screen bg-black text-white">
         <div className="text-center">
-          <div className="text-red-500 text-xl mb-2">Error Loading Realistic Universe</div>
+          <div className="text-red-500 text-xl mb-2">Error Loading {universe.title}</div>
           <div className="text-gray-400 text-sm mb-4">{error}</div>
           <div className="text-gray-500 text-xs">
             Expected files:
             <ul className="list-disc list-inside mt-2">
-              <li>public/data/realistic/systems/*.json</li>
-              <li>public/data/realistic/catalog/*.json</li>
+              <li>public/data/{universe.id}/starmap-systems.json</li>
+              <li>public/data/{universe.id}/systems/*.json</li>
             </ul>
           </div>
         </div>
@@ -92,10 +113,12 @@ export function RealisticModeView() {
   return (
     <div className="relative w-full h-screen bg-black">
       <SystemViewer
-        mode="realistic"
+        mode={universe.id}
         systemId={systemId}
         onFocus={handleObjectFocus}
         onSystemChange={handleSystemChange}
+        requestedState={requestedState}
+        onStateChange={reportState}
       />
     </div>
   )
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { discoverUniverses } from "@/engine/universes/discover"
+
+// Built from the data folders, so a new universe folder shows up on the next build
+export const dynamic = "force-static"
+
+export function GET() {
+  return NextResponse.json({ universes: discoverUniverses() })
+}
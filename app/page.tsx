@@ -1,8 +1,13 @@
-import { redirect } from "next/navigation"
+import { notFound, redirect } from "next/navigation"
+import { discoverUniverses } from "@/engine/universes/discover"
 
 export default function RootPage() {
-  // Redirect to the default mode (realistic)
-  redirect("/realistic")
+  // Redirect to the first universe in public/data
+  const [firstUniverse] = discoverUniverses()
+  if (!firstUniverse) {
+    notFound()
+  }
+  redirect(`/${firstUniverse.id}`)
 }
 
 export const metadata = {
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { EngineSystemLoader } from '../system-loader';
 import type { OrbitalSystemData, CelestialObject } from '../types/orbital-system';
 import type { StarmapData } from '../types/orbital-system';
+import { ValidationError } from '../types/errors';
+import { localSystemStore } from '../local-systems/local-system-store';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -15,6 +17,7 @@ describe('EngineSystemLoader', () => {
   const validSystemData: OrbitalSystemData = {
     id: 'test-system',
     name: 'Test System',
+    description: 'A test system',
     objects: [
       {
         id: 'test-star',
@@ -48,8 +51,9 @@ describe('EngineSystemLoader', () => {
       }
     ],
     lighting: {
-      ambientColor: '#222222',
-      ambientIntensity: 0.1,
+      primary_star: 'test-star',
+      ambient_level: 0.1,
+      stellar_influence_radius: 100,
     }
   };
 
@@ -166,6 +170,51 @@ describe('EngineSystemLoader', () => {
         expect.any(Error)
       );
     });
+
+    it('should reject invalid starmap data with a ValidationError naming the path', async () => {
+      const brokenStarmap = {
+        ...validStarmapData,
+        systems: {
+          ...validStarmapData.systems,
+          'test-system': { ...validStarmapData.systems['test-system'], jump_routes: ['missing-system'] }
+        }
+      };
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(brokenStarmap), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+
+      const load = systemLoader.loadStarmap('test-mode');
+
+      await expect(load).rejects.toBeInstanceOf(ValidationError);
+      await expect(load).rejects.toThrow('/systems/test-system/jump_routes/0');
+    });
+  });
+
+  describe('loadStarCatalog', () => {
+    const catalog = {
+      stars: [{ id: 'sirius', ra: 101.287, dec: -16.716, distance: 8.6, mag: -1.46, bv: 0 }],
+      constellations: []
+    };
+
+    it('should load the shared catalog once', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(catalog), { status: 200 }));
+
+      expect(await systemLoader.loadStarCatalog()).toEqual(catalog);
+      expect(await systemLoader.loadStarCatalog()).toEqual(catalog);
+      expect(mockFetch).toHaveBeenCalledWith('/data/sky/bright-stars.json');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null for a catalog without stars', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ constellations: [] }), { status: 200 }));
+
+      expect(await systemLoader.loadStarCatalog()).toBeNull();
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to load star catalog'),
+        expect.objectContaining({ message: expect.stringContaining('missing stars array') })
+      );
+    });
   });
 
   describe('loadSystem', () => {
@@ -243,6 +292,65 @@ describe('EngineSystemLoader', () => {
       );
     });
 
+    it('should load systems with schema problems and warn with their paths', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const systemData = JSON.parse(JSON.stringify(validSystemData));
+      systemData.objects[1].orbit.parent = 'missing-star';
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(systemData), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+
+      const result = await systemLoader.loadSystem('test-mode', 'test-system');
+
+      expect(result).toEqual(systemData);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('/objects/1/orbit/parent: Unknown parent "missing-star"'));
+    });
+
+    it('should migrate legacy formats on load', async () => {
+      const legacySystem = {
+        id: 'legacy-system',
+        name: 'Legacy System',
+        objects: [
+          { id: 'star-1', type: 'star', name: 'Star', position: [0, 0, 0], radius: 1, mass: 1 },
+          {
+            id: 'planet-1',
+            type: 'planet',
+            name: 'Planet',
+            radius: 1,
+            mass: 1,
+            orbit: { parentId: 'star-1', semiMajorAxis: 1, eccentricity: 0, inclination: 0 }
+          }
+        ]
+      };
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(legacySystem), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+
+      const result = await systemLoader.loadSystem('test-mode', 'legacy-system');
+
+      expect(result?.metadata?.version).toBe('2.0');
+      expect(result?.objects[1]).toMatchObject({
+        classification: 'planet',
+        properties: { mass: 1, radius: 6371 },
+        orbit: { parent: 'star-1', semi_major_axis: 1 }
+      });
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Migrated system legacy-system from format 1.1 to 2.0'));
+    });
+
+    it('should not warn about schema-valid systems', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(validSystemData), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+
+      await systemLoader.loadSystem('test-mode', 'test-system');
+
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
     it('should detect HTML 404 pages', async () => {
       mockFetch.mockResolvedValueOnce(new Response('<!DOCTYPE html><html><body>404 Not Found</body></html>', {
         status: 200,
@@ -315,6 +423,30 @@ describe('EngineSystemLoader', () => {
     });
   });
 
+  describe('local systems', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should list local systems after the starmap systems', async () => {
+      systemLoader.loadStarmap = vi.fn().mockResolvedValue(validStarmapData);
+      localSystemStore.save('test-mode', { ...validSystemData, id: 'draft' });
+
+      expect(await systemLoader.getAvailableSystems('test-mode')).toEqual(['test-system', 'another-system', 'local:draft']);
+      expect(await systemLoader.getAvailableSystems('other-mode')).toEqual(['test-system', 'another-system']);
+    });
+
+    it('should load local systems from the store without fetching or caching them', async () => {
+      localSystemStore.save('test-mode', { ...validSystemData, id: 'draft' });
+      expect((await systemLoader.loadSystem('test-mode', 'local:draft'))?.name).toBe('Test System');
+
+      localSystemStore.save('test-mode', { ...validSystemData, id: 'draft', name: 'Reimported' });
+      expect((await systemLoader.loadSystem('test-mode', 'local:draft'))?.name).toBe('Reimported');
+      expect(await systemLoader.loadSystem('test-mode', 'local:missing')).toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cache management', () => {
     it('should clear specific mode cache', async () => {
       // Set up separate mock responses for each load
@@ -19,7 +19,7 @@ extend({ SpaceCurvatureMaterial })
 export interface InteractiveObjectProps {
   objectId: string
   objectName: string
-  objectType: "star" | "planet" | "moon" | "station"
+  objectType: "star" | "planet" | "moon" | "station" | "jump_point"
   radius: number
   position?: [number, number, number]
   visualSize?: number
@@ -79,7 +79,7 @@ export function InteractiveObject({
   const shouldShowLabel = useMemo(() => {
     if (!showLabel) return false
     if (objectType === "star" || objectType === "planet") return true
-    if (objectType === "moon" || objectType === "station") {
+    if (objectType === "moon" || objectType === "station" || objectType === "jump_point") {
       return planetSystemSelected || isHovered || isSelected || labelAlwaysVisible
     }
     return false
@@ -286,13 +286,15 @@ export function InteractiveObject({
                       ? "text-blue-300 hover:text-blue-200"
                       : objectType === "moon"
                         ? "text-purple-300 hover:text-purple-200"
-                        : "text-pink-300 hover:text-pink-200"
+                        : objectType === "jump_point"
+                          ? "text-cyan-300 hover:text-cyan-200"
+                          : "text-pink-300 hover:text-pink-200"
                 }`}
               >
                 {objectName.toUpperCase()}
               </div>
               <div className="text-xs text-gray-300 uppercase tracking-wider hover:text-gray-200 transition-colors duration-200">
-                {objectType}
+                {objectType.replace("_", " ")}
               </div>
             </div>
           </Html>
@@ -6,6 +6,7 @@ import * as THREE from 'three'
 import { useFrame } from '@react-three/fiber'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import type { ViewType } from '@/lib/types/effects-level'
+import { SimulationClock, SECONDS_PER_DAY } from '@/engine/ephemeris'
 
 // Mock useFrame
 vi.mock('@react-three/fiber', () => ({
@@ -21,8 +22,7 @@ describe('OrbitalPath', () => {
     inclination: 0,
     orbitalPeriod: 365,
     viewType: 'explorational' as ViewType,
-    timeMultiplier: 1,
-    isPaused: false,
+    clock: new SimulationClock({ rate: SECONDS_PER_DAY }),
   }
 
   // Helper function to render the component in a Canvas
@@ -73,14 +73,14 @@ describe('OrbitalPath', () => {
 
   it('handles time multiplier changes', () => {
     const { container } = render(
-      <OrbitalPath {...defaultProps} timeMultiplier={2} />
+      <OrbitalPath {...defaultProps} clock={new SimulationClock({ rate: 2 * SECONDS_PER_DAY })} />
     )
     expect(container).toBeTruthy()
   })
 
   it('handles paused state', () => {
     const { container } = render(
-      <OrbitalPath {...defaultProps} isPaused={true} />
+      <OrbitalPath {...defaultProps} clock={new SimulationClock({ paused: true })} />
     )
     expect(container).toBeTruthy()
   })
@@ -150,12 +150,12 @@ describe('OrbitalPath', () => {
 
   describe('Animation and Updates', () => {
     it('handles animation updates', () => {
-      const { container } = renderInCanvas({ isPaused: false })
+      const { container } = renderInCanvas({ clock: new SimulationClock({ paused: false }) })
       expect(container).toBeTruthy()
     })
 
     it('does not update position when paused', () => {
-      const { container } = renderInCanvas({ isPaused: true })
+      const { container } = renderInCanvas({ clock: new SimulationClock({ paused: true }) })
       expect(container).toBeTruthy()
     })
   })
@@ -92,6 +92,9 @@ vi.mock('../../skybox/starfield-skybox', () => ({
 }))
 
 vi.mock('@/engine/system-loader', () => ({
+  engineSystemLoader: {
+    loadObjectCatalog: vi.fn(async () => (await import('@/public/data/engine/object-catalog/catalog.json')).default),
+  },
   EngineSystemLoader: vi.fn(() => ({
     loadSystem: vi.fn((mode: string, systemId: string) => {
       if (systemId === 'invalid-object') {
@@ -203,10 +206,11 @@ describe('CelestialViewer Geometry Types', () => {
     expect(renderer).toHaveAttribute('data-object-id', 'g2v-main-sequence')
   })
 
-  it('renders canvas and essential UI components', () => {
+  it('renders canvas and essential UI components', async () => {
     render(<CelestialViewer initialObjectType="g2v-main-sequence" />)
     
-    expect(screen.getByTestId('canvas')).toBeInTheDocument()
+    // The object catalog loads before the first object is shown
+    expect(await screen.findByTestId('canvas')).toBeInTheDocument()
     expect(screen.getByTestId('object-catalog')).toBeInTheDocument()
     expect(screen.getByTestId('object-controls')).toBeInTheDocument()
     expect(screen.getByTestId('object-info')).toBeInTheDocument()
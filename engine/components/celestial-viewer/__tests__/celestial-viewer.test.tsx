@@ -34,6 +34,7 @@ vi.mock('../../../system-loader', () => ({
         position: [0, 0, 0]
       }]
     }),
+    loadObjectCatalog: vi.fn(async () => (await import('@/public/data/engine/object-catalog/catalog.json')).default),
     getAvailableSystems: vi.fn().mockResolvedValue([]),
     isSystemLoaded: vi.fn().mockReturnValue(false),
     isSystemLoading: vi.fn().mockReturnValue(false),
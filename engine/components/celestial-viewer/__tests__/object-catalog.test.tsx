@@ -3,6 +3,8 @@ import { render, screen, fireEvent } from '@testing-library/react'
 import '@testing-library/jest-dom'
 import React from 'react'
 import { ObjectCatalog } from '../object-catalog'
+import type { CatalogData } from '@/engine/types/catalog'
+import objectCatalog from '@/public/data/engine/object-catalog/catalog.json'
 
 describe('ObjectCatalog', () => {
   const mockOnSelect = vi.fn()
@@ -11,7 +13,9 @@ describe('ObjectCatalog', () => {
     mockOnSelect.mockClear()
   })
 
+  // The bundled object catalog, as CelestialViewer passes it in
   const defaultProps = {
+    categories: (objectCatalog as CatalogData).categories,
     selectedObjectId: 'g2v-main-sequence',
     onObjectSelect: mockOnSelect
   }
@@ -150,6 +154,20 @@ describe('ObjectCatalog', () => {
     })
   })
 
+  describe('loading', () => {
+    it('shows a placeholder until the catalog is in', () => {
+      render(
+        <ObjectCatalog
+          {...defaultProps}
+          categories={[]}
+          loading
+        />
+      )
+
+      expect(screen.getByText('Loading catalog...')).toBeInTheDocument()
+    })
+  })
+
   describe('search functionality', () => {
     it('filters objects based on search term', () => {
       render(
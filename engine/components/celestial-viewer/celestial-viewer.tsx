@@ -14,317 +14,8 @@ import { engineSystemLoader } from '@/engine/system-loader'
 import { CelestialObject } from '@/engine/types/orbital-system'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { CelestialObjectRenderer } from '../system-viewer/system-objects-renderer'
-
-// Add function to create celestial object data for catalog objects
-function createCatalogCelestialObject(objectId: string): CelestialObject | null {
-  const catalogObjects: Record<string, CelestialObject> = {
-    // Stars
-    'g2v-main-sequence': {
-      id: 'g2v-main-sequence',
-      name: 'G2V Main Sequence Star',
-      classification: 'star',
-      geometry_type: 'star',
-      properties: {
-        mass: 1.0,
-        radius: 695700,
-        temperature: 5778,
-        luminosity: 100,
-        stellar_class: 'G2V',
-        color_temperature: 5778,
-        solar_activity: 30,
-        corona_thickness: 25,
-        variability: 5
-      }
-    },
-    'm2v-red-dwarf': {
-      id: 'm2v-red-dwarf',
-      name: 'M2V Red Dwarf',
-      classification: 'star',
-      geometry_type: 'star',
-      properties: {
-        mass: 0.4,
-        radius: 278280,
-        temperature: 3500,
-        luminosity: 4,
-        stellar_class: 'M2V',
-        color_temperature: 3500,
-        solar_activity: 60,
-        corona_thickness: 10,
-        variability: 15
-      }
-    },
-    'protostar': {
-      id: 'protostar',
-      name: 'Protostar',
-      classification: 'star',
-      geometry_type: 'star',
-      properties: {
-        mass: 0.8,
-        radius: 1391400, // Larger than main sequence
-        temperature: 3000,
-        luminosity: 10,
-        stellar_class: 'T Tauri',
-        color_temperature: 3000,
-        solar_activity: 80,
-        corona_thickness: 40,
-        variability: 25,
-        nebula_density: 0.8,
-        accretion_rate: 0.5
-      }
-    },
-    
-    // Terrestrial Planets
-    'terrestrial-rocky': {
-      id: 'terrestrial-rocky',
-      name: 'Terrestrial Rocky Planet',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 0.8,
-        radius: 5500,
-        temperature: 280,
-        atmosphere: 15,
-        water: 5,
-        tectonics: 60,
-        population: 0,
-        soil_tint: 30,        // Rocky brown soil
-        temperature_class: 55, // Moderate temperature
-        geomagnetism: 40,     // Weak magnetic field
-        flora: 5              // Minimal vegetation
-      }
-    },
-    'terrestrial-oceanic': {
-      id: 'terrestrial-oceanic',
-      name: 'Oceanic Planet',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 1.2,
-        radius: 6800,
-        temperature: 290,
-        atmosphere: 80,
-        water: 95,
-        tectonics: 30,
-        population: 0,
-        soil_tint: 65,        // Dark oceanic sediment
-        temperature_class: 60, // Temperate
-        geomagnetism: 70,     // Strong magnetic field
-        flora: 40             // Aquatic flora
-      }
-    },
-    'smog-planet': {
-      id: 'smog-planet',
-      name: 'Smog Planet',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 0.9,
-        radius: 6000,
-        temperature: 450,
-        atmosphere: 95,
-        water: 0,
-        tectonics: 80,
-        population: 0,
-        soil_tint: 15,        // Polluted grey soil
-        temperature_class: 85, // Hot
-        geomagnetism: 20,     // Very weak magnetic field
-        flora: 0              // No vegetation
-      }
-    },
-    
-    // Habitable Planets
-    'earth-like': {
-      id: 'earth-like',
-      name: 'Earth-like World',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 1.0,
-        radius: 6371,
-        temperature: 288,
-        atmosphere: 70,
-        water: 70,
-        tectonics: 50,
-        population: 80,
-        soil_tint: 45,        // Earth-like brown soil
-        temperature_class: 60, // Temperate zone
-        geomagnetism: 75,     // Strong protective magnetic field
-        flora: 80             // Rich vegetation
-      }
-    },
-    'desert-world': {
-      id: 'desert-world',
-      name: 'Desert World',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 0.9,
-        radius: 6000,
-        temperature: 310,
-        atmosphere: 30,
-        water: 10,
-        tectonics: 40,
-        population: 20,
-        soil_tint: 25,        // Sandy desert soil
-        temperature_class: 75, // Hot but livable
-        geomagnetism: 50,     // Moderate magnetic field
-        flora: 15             // Desert vegetation
-      }
-    },
-    'ocean-world-habitable': {
-      id: 'ocean-world-habitable',
-      name: 'Ocean World',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 1.1,
-        radius: 6500,
-        temperature: 285,
-        atmosphere: 85,
-        water: 90,
-        tectonics: 20,
-        population: 60,
-        soil_tint: 70,        // Dark oceanic sediment
-        temperature_class: 58, // Temperate
-        geomagnetism: 80,     // Very strong magnetic field
-        flora: 70             // Rich aquatic flora
-      }
-    },
-    'ice-world': {
-      id: 'ice-world',
-      name: 'Ice World',
-      classification: 'planet',
-      geometry_type: 'terrestrial',
-      properties: {
-        mass: 0.8,
-        radius: 5800,
-        temperature: 250,
-        atmosphere: 40,
-        water: 80,
-        tectonics: 30,
-        population: 15,
-        soil_tint: 55,        // Frozen soil
-        temperature_class: 25, // Cold/ice world
-        geomagnetism: 60,     // Good magnetic field
-        flora: 10             // Hardy cold-weather flora
-      }
-    },
-    
-         // Gas Giants
-     'gas-giant': {
-       id: 'gas-giant',
-       name: 'Gas Giant',
-       classification: 'planet',
-       geometry_type: 'gas_giant',
-       properties: {
-         mass: 317.8,
-         radius: 69911,
-         temperature: 165,
-         band_contrast: 80,
-         storm_activity: 60,
-         ring_density: 'moderate' as const,
-         storm_intensity: 70,  // Great red spot activity
-         cloud_opacity: 85,    // Thick atmosphere
-         hue_shift: 30,        // Orange-brown tint
-         rotation_speed: 90    // Fast rotation
-       },
-       rings: [
-         {
-           id: 'gas-giant-ring-1',
-           geometry_type: 'ring',
-           name: 'Main Ring',
-           radius_start: 1.8,
-           radius_end: 2.5,
-           inclination: 0,
-           density: 'moderate' as const,
-           composition: ['ice', 'rock'],
-           opacity: 60,
-           color: '#c0c0c0'
-         }
-       ]
-     },
-     'gas-giant-ice': {
-       id: 'gas-giant-ice',
-       name: 'Ice Giant',
-       classification: 'planet',
-       geometry_type: 'gas_giant',
-       properties: {
-         mass: 17.1,
-         radius: 24622,
-         temperature: 76,
-         band_contrast: 40,
-         storm_activity: 30,
-         ring_density: 'sparse' as const,
-         storm_intensity: 25,  // Mild storm activity
-         cloud_opacity: 70,    // Visible but less dense
-         hue_shift: 70,        // Blue-green tint
-         rotation_speed: 75    // Moderate rotation
-       }
-     },
-     
-     // Rocky Bodies (Moons/Asteroids)
-     'rocky-moon': {
-       id: 'rocky-moon',
-       name: 'Rocky Moon',
-       classification: 'moon',
-       geometry_type: 'rocky',
-       properties: {
-         mass: 0.012,
-         radius: 1737,
-         temperature: 250,
-         albedo: 12,
-         surface_variance: 80,
-         crater_density: 90,
-         regolith_depth: 50,
-         surface_color: '#888888',
-         soil_tint: 40,          // Greyish lunar soil
-         ice_coverage: 5,        // Minimal polar ice
-         temperature_class: 45   // Cold but not extreme
-       }
-     },
-     'asteroid': {
-       id: 'asteroid',
-       name: 'Large Asteroid',
-       classification: 'belt',
-       geometry_type: 'rocky',
-       properties: {
-         mass: 0.0001,
-         radius: 500,
-         temperature: 200,
-         albedo: 8,
-         surface_variance: 95,
-         crater_density: 70,
-         regolith_depth: 20,
-         surface_color: '#666666',
-         soil_tint: 25,          // Dark metallic surface
-         ice_coverage: 0,        // No ice
-         temperature_class: 30   // Very cold
-       }
-     },
-     
-     // Special Objects
-     'black-hole': {
-       id: 'black-hole',
-       name: 'Black Hole',
-       classification: 'compact-object',
-       geometry_type: 'exotic',
-       properties: {
-         mass: 10.0, // Solar masses
-         radius: 30, // Schwarzschild radius in km
-         temperature: 0,
-         accretion_disk: true,
-         disk_temperature: 10000,
-         tint: '#ff4500',
-         intensity: 100,        // Maximum effect strength
-         distortion: 66,        // Strong gravitational lensing
-         disk_speed: 75,        // Rapid accretion disk rotation
-         disk_brightness: 80    // Bright accretion disk
-       }
-     }
-  }
-  
-  return catalogObjects[objectId] || null
-}
+import { useObjectCatalog } from '@/engine/hooks/use-object-catalog'
+import { catalogEntryToObject, findCatalogEntry } from '@/engine/object-catalog/object-catalog'
 
 interface CelestialViewerProps {
   initialObjectType?: string
@@ -388,17 +79,22 @@ export function CelestialViewer({ initialObjectType, mode }: CelestialViewerProp
     fragment: string | null
   }>({ vertex: null, fragment: null })
 
+  // Object catalog shared with the system editor
+  const { catalog, loading: catalogLoading } = useObjectCatalog()
+
   // Load celestial object data
   useEffect(() => {
+    // Until the catalog is in, catalog objects can't be told from system objects
+    if (catalogLoading) return
     console.time('loadObjectTimer');  // Start timing
     const loadObject = async () => {
       setIsLoading(true)
       setLoadError(null)
       try {
         // First try to create from catalog
-        const catalogObject = createCatalogCelestialObject(selectedObjectId)
-        if (catalogObject) {
-          setCelestialObject(catalogObject)
+        const catalogEntry = catalog ? findCatalogEntry(catalog, selectedObjectId) : undefined
+        if (catalogEntry) {
+          setCelestialObject(catalogEntryToObject(catalogEntry))
           // Clear property overrides when changing objects
           setObjectPropertyOverrides({})
         } else {
@@ -442,7 +138,7 @@ export function CelestialViewer({ initialObjectType, mode }: CelestialViewerProp
     }
 
     loadObject()
-  }, [selectedObjectId, currentMode])
+  }, [selectedObjectId, currentMode, catalog, catalogLoading])
 
   // Mouse event handlers for resizing
   const handleMouseMove = useCallback((e: MouseEvent) => {
@@ -553,6 +249,8 @@ export function CelestialViewer({ initialObjectType, mode }: CelestialViewerProp
         style={{ width: leftPanelWidth }}
       >
         <ObjectCatalog
+          categories={catalog?.categories ?? []}
+          loading={catalogLoading}
           selectedObjectId={selectedObjectId}
           onObjectSelect={handleObjectSelect}
         />
@@ -1,165 +1,19 @@
 "use client"
 
-import React, { useState, useEffect } from 'react'
+import React, { useState } from 'react'
+import type { CatalogCategory } from '@/engine/types/catalog'
 
 interface ObjectCatalogProps {
+  categories: CatalogCategory[] // from the object catalog
+  loading?: boolean
   selectedObjectId: string
   onObjectSelect: (id: string) => void
 }
 
-interface CatalogCategory {
-  name: string
-  objects: Array<{
-    id: string
-    name: string
-    description: string
-    category: string
-    subtype: string
-  }>
-}
-
-export function ObjectCatalog({ selectedObjectId, onObjectSelect }: ObjectCatalogProps) {
+export function ObjectCatalog({ categories, loading = false, selectedObjectId, onObjectSelect }: ObjectCatalogProps) {
   const [searchTerm, setSearchTerm] = useState("")
-  const [expandedCategories, setExpandedCategories] = useState<string[]>(['Stars', 'Terrestrial Planets', 'Habitable Planets', 'Gas Giants', 'Rocky Bodies', 'Special Objects'])
-
-  // Organize objects by category
-  const categories: CatalogCategory[] = [
-    {
-      name: 'Stars',
-      objects: [
-        {
-          id: 'g2v-main-sequence',
-          name: 'G2V Main Sequence Star',
-          description: 'A yellow main sequence star like our Sun',
-          category: 'main_sequence',
-          subtype: 'g2v'
-        },
-        {
-          id: 'm2v-red-dwarf',
-          name: 'M2V Red Dwarf',
-          description: 'A small, cool red dwarf star',
-          category: 'main_sequence',
-          subtype: 'm2v'
-        },
-        {
-          id: 'protostar',
-          name: 'Protostar',
-          description: 'A young star forming within a dusty nebula with volumetric effects',
-          category: 'protostar',
-          subtype: 'protostar'
-        }
-      ]
-    },
-    {
-      name: 'Terrestrial Planets',
-      objects: [
-        {
-          id: 'terrestrial-rocky',
-          name: 'Terrestrial Rocky Planet',
-          description: 'An Earth-like rocky planet with atmosphere',
-          category: 'terrestrial',
-          subtype: 'rocky'
-        },
-        {
-          id: 'terrestrial-oceanic',
-          name: 'Oceanic Planet',
-          description: 'A water-rich world with global oceans',
-          category: 'terrestrial',
-          subtype: 'oceanic'
-        },
-        {
-          id: 'smog-planet',
-          name: 'Smog Planet',
-          description: 'A Venus-like world with thick atmosphere',
-          category: 'terrestrial',
-          subtype: 'smog'
-        }
-      ]
-    },
-    {
-      name: 'Habitable Planets',
-      objects: [
-        {
-          id: 'earth-like',
-          name: 'Earth-like World',
-          description: 'A balanced habitable world with moderate climate',
-          category: 'habitable',
-          subtype: 'earth-like'
-        },
-        {
-          id: 'desert-world',
-          name: 'Desert World',
-          description: 'An arid planet with low humidity and sparse population',
-          category: 'habitable',
-          subtype: 'desert'
-        },
-        {
-          id: 'ocean-world-habitable',
-          name: 'Ocean World',
-          description: 'A water-dominated world with high humidity',
-          category: 'habitable',
-          subtype: 'oceanic'
-        },
-        {
-          id: 'ice-world',
-          name: 'Ice World',
-          description: 'A cold polar world with frozen landscapes',
-          category: 'habitable',
-          subtype: 'ice'
-        }
-      ]
-    },
-    {
-      name: 'Gas Giants',
-      objects: [
-        {
-          id: 'gas-giant',
-          name: 'Gas Giant',
-          description: 'A massive Jupiter-like planet',
-          category: 'jovian',
-          subtype: 'gas-giant'
-        },
-        {
-          id: 'gas-giant-ice',
-          name: 'Ice Giant',
-          description: 'A Neptune-like planet with icy composition',
-          category: 'jovian',
-          subtype: 'ice-giant'
-        }
-      ]
-    },
-    {
-      name: 'Rocky Bodies',
-      objects: [
-        {
-          id: 'rocky-moon',
-          name: 'Rocky Moon',
-          description: 'A cratered moon with regolith surface',
-          category: 'rocky',
-          subtype: 'moon'
-        },
-        {
-          id: 'asteroid',
-          name: 'Large Asteroid',
-          description: 'A heavily cratered asteroid with rough surface',
-          category: 'rocky',
-          subtype: 'asteroid'
-        }
-      ]
-    },
-    {
-      name: 'Special Objects',
-      objects: [
-        {
-          id: 'black-hole',
-          name: 'Black Hole',
-          description: 'Advanced black hole with gravitational lensing and realistic accretion disk',
-          category: 'compact_object',
-          subtype: 'black_hole'
-        }
-      ]
-    }
-  ]
+  // Categories start expanded, including ones the catalog adds later
+  const [collapsedCategories, setCollapsedCategories] = useState<string[]>([])
 
   // Filter objects based on search term
   const filteredCategories = categories.map(category => ({
@@ -171,7 +25,7 @@ export function ObjectCatalog({ selectedObjectId, onObjectSelect }: ObjectCatalo
   })).filter(category => category.objects.length > 0)
 
   const toggleCategory = (categoryName: string) => {
-    setExpandedCategories(prev => 
+    setCollapsedCategories(prev => 
       prev.includes(categoryName) 
         ? prev.filter(name => name !== categoryName)
         : [...prev, categoryName]
@@ -191,6 +45,7 @@ export function ObjectCatalog({ selectedObjectId, onObjectSelect }: ObjectCatalo
       />
       
       <div className="flex-1 overflow-y-auto">
+        {loading && <div className="px-3 py-2 text-sm text-gray-400">Loading catalog...</div>}
         {filteredCategories.map(category => (
           <div key={category.name} className="mb-4">
             <button
@@ -199,7 +54,7 @@ export function ObjectCatalog({ selectedObjectId, onObjectSelect }: ObjectCatalo
             >
               <span>{category.name}</span>
               <svg 
-                className={`w-4 h-4 transition-transform ${expandedCategories.includes(category.name) ? 'rotate-180' : ''}`}
+                className={`w-4 h-4 transition-transform ${!collapsedCategories.includes(category.name) ? 'rotate-180' : ''}`}
                 fill="currentColor" 
                 viewBox="0 0 20 20"
               >
@@ -207,7 +62,7 @@ export function ObjectCatalog({ selectedObjectId, onObjectSelect }: ObjectCatalo
               </svg>
             </button>
             
-            {expandedCategories.includes(category.name) && (
+            {!collapsedCategories.includes(category.name) && (
               <div className="mt-2 space-y-1 pl-4">
                 {category.objects.map(object => (
                   <button
@@ -224,7 +79,7 @@ export function ObjectCatalog({ selectedObjectId, onObjectSelect }: ObjectCatalo
                       {object.description}
                     </div>
                     <div className="text-xs text-gray-500 mt-1">
-                      {object.category} / {object.subtype}
+                      {[object.category, object.subtype].filter(Boolean).join(' / ')}
                     </div>
                   </button>
                 ))}
@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { engineSystemLoader } from "@/engine/system-loader"
+import { OBJECT_CATALOG_URL, catalogEntries, validateCatalogData } from "@/engine/object-catalog/object-catalog"
 
 export function DebugPanel() {
   const [isOpen, setIsOpen] = useState(false)
@@ -9,26 +10,28 @@ export function DebugPanel() {
 
   const testDataFiles = async () => {
     const results: string[] = []
-    const modes = ["realistic", "star-citizen"]
 
-    // Test shared catalog first
-    results.push(`\n=== Testing Shared Object Catalog ===`)
-    const catalogFiles = ["stars", "planets", "moons", "belts", "space-stations"]
-    for (const catalog of catalogFiles) {
-      try {
-        const catalogResponse = await fetch(`/data/shared/object-catalog/${catalog}.json`)
-        const status = catalogResponse.ok ? "✅ OK" : "❌ FAIL"
-        results.push(`Catalog ${catalog}: ${catalogResponse.status} - ${status}`)
+    // Every data folder with a universe.json
+    results.push(`\n=== Discovering Universes ===`)
+    let modes: string[] = []
+    try {
+      const universes = await engineSystemLoader.listUniverses()
+      modes = universes.map(universe => universe.id)
+      results.push(`Universes: ${modes.length > 0 ? modes.join(", ") : "❌ NONE"}`)
+    } catch (error) {
+      results.push(`Universes: ❌ ERROR - ${error}`)
+    }
 
-        if (!catalogResponse.ok) {
-          const text = await catalogResponse.text()
-          if (text.includes("<!DOCTYPE html>")) {
-            results.push(`  → File doesn't exist, got HTML instead`)
-          }
-        }
-      } catch (error) {
-        results.push(`Catalog ${catalog}: ❌ ERROR - ${error}`)
-      }
+    // Test the object catalog first
+    results.push(`\n=== Testing Object Catalog ===`)
+    const catalog = await engineSystemLoader.loadObjectCatalog()
+    if (!catalog) {
+      results.push(`Catalog ${OBJECT_CATALOG_URL}: ❌ FAIL - missing or invalid, see the console`)
+    } else {
+      const issues = validateCatalogData(catalog)
+      results.push(`Catalog ${OBJECT_CATALOG_URL}: ${issues.length === 0 ? "✅ OK" : "❌ INVALID"}`)
+      issues.forEach(issue => results.push(`  → ${issue.path}: ${issue.message}`))
+      results.push(`  ${catalog.categories.length} categories, ${catalogEntries(catalog).length} objects`)
     }
 
     // Test each mode
@@ -71,7 +74,7 @@ export function DebugPanel() {
       }
     }
 
-    // Test current mode specifically (test both modes)
+    // Load each universe through the system loader
     for (const testMode of modes) {
       results.push(`\n=== ${testMode} Mode Test ===`)
       try {
@@ -123,10 +126,10 @@ export function DebugPanel() {
         <div>Debug Mode: Active</div>
         <div>Expected structure:</div>
         <div className="ml-2 text-gray-400">
-          <div>• /data/shared/object-catalog/*.json</div>
-          <div>• /data/realistic/starmap-systems.json</div>
-          <div>• /data/star-citizen/starmap-systems.json</div>
-          <div>• /data/[mode]/systems/*.json</div>
+          <div>• {OBJECT_CATALOG_URL}</div>
+          <div>• /data/[universe]/universe.json</div>
+          <div>• /data/[universe]/starmap-systems.json</div>
+          <div>• /data/[universe]/systems/*.json</div>
         </div>
       </div>
 
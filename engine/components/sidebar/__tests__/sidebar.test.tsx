@@ -63,8 +63,7 @@ describe('Sidebar', () => {
     focusedObjectSize: 1000,
     onStopFollowing: vi.fn(),
     error: null,
-    loadingProgress: '100%',
-    mode: 'realistic' as const
+    loadingProgress: '100%'
   }
 
   beforeEach(() => {
@@ -79,7 +78,7 @@ describe('Sidebar', () => {
     })
 
     it('expands and collapses when toggle button is clicked', () => {
-      render(<Sidebar {...defaultProps} mode="star-citizen" />)
+      render(<Sidebar {...defaultProps} title="Chart Citizen" />)
       
       // Initially collapsed
       expect(screen.queryByRole('heading', { name: 'Chart Citizen' })).not.toBeInTheDocument()
@@ -183,12 +182,95 @@ describe('Sidebar', () => {
       
       // Test speed presets - these don't exist in the current implementation
       // so let's test the slider instead
+      // The slider is logarithmic in days per second
       const slider = screen.getByRole('slider')
-      fireEvent.change(slider, { target: { value: '2' } })
+      fireEvent.change(slider, { target: { value: String(Math.log10(2)) } })
       expect(defaultProps.onTimeMultiplierChange).toHaveBeenCalledWith(2)
     })
   })
 
+  describe('Sky Controls', () => {
+    it('switches to the real sky and toggles constellation lines', () => {
+      const onSkyModeChange = vi.fn()
+      const onShowConstellationsChange = vi.fn()
+      const { rerender } = render(
+        <Sidebar {...defaultProps} onSkyModeChange={onSkyModeChange} onShowConstellationsChange={onShowConstellationsChange} />
+      )
+
+      fireEvent.click(screen.getByTestId('sidebar-toggle'))
+      fireEvent.click(screen.getByText('Navigation'))
+      fireEvent.click(screen.getByText('Options'))
+
+      // Constellations only apply to the catalog sky
+      expect(screen.queryByLabelText('Constellation lines')).not.toBeInTheDocument()
+      fireEvent.click(screen.getByText('Real sky'))
+      expect(onSkyModeChange).toHaveBeenCalledWith('catalog')
+
+      rerender(
+        <Sidebar
+          {...defaultProps}
+          skyMode="catalog"
+          onSkyModeChange={onSkyModeChange}
+          onShowConstellationsChange={onShowConstellationsChange}
+        />
+      )
+      fireEvent.click(screen.getByLabelText('Constellation lines'))
+      expect(onShowConstellationsChange).toHaveBeenCalledWith(true)
+    })
+
+    it('is hidden when the viewer does not offer sky options', () => {
+      render(<Sidebar {...defaultProps} />)
+      fireEvent.click(screen.getByTestId('sidebar-toggle'))
+      fireEvent.click(screen.getByText('Navigation'))
+      fireEvent.click(screen.getByText('Options'))
+      expect(screen.queryByText('Real sky')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Overlay Controls', () => {
+    it('toggles gravitational domains and explains the shells', () => {
+      const onShowGravitationalDomainsChange = vi.fn()
+      const { rerender } = render(
+        <Sidebar {...defaultProps} onShowGravitationalDomainsChange={onShowGravitationalDomainsChange} />
+      )
+
+      fireEvent.click(screen.getByTestId('sidebar-toggle'))
+      fireEvent.click(screen.getByText('Navigation'))
+      fireEvent.click(screen.getByText('Options'))
+
+      fireEvent.click(screen.getByLabelText('Gravitational domains'))
+      expect(onShowGravitationalDomainsChange).toHaveBeenCalledWith(true)
+
+      rerender(
+        <Sidebar
+          {...defaultProps}
+          showGravitationalDomains
+          onShowGravitationalDomainsChange={onShowGravitationalDomainsChange}
+        />
+      )
+      expect(screen.getByText(/Hill sphere/)).toBeInTheDocument()
+      expect(screen.getByText(/Sphere of influence/)).toBeInTheDocument()
+    })
+
+    it('toggles the transfer planner', () => {
+      const onShowTransferPlannerChange = vi.fn()
+      render(
+        <Sidebar
+          {...defaultProps}
+          onShowGravitationalDomainsChange={vi.fn()}
+          onShowTransferPlannerChange={onShowTransferPlannerChange}
+        />
+      )
+
+      fireEvent.click(screen.getByTestId('sidebar-toggle'))
+      fireEvent.click(screen.getByText('Navigation'))
+      fireEvent.click(screen.getByText('Options'))
+
+      fireEvent.click(screen.getByLabelText('Transfer planner'))
+      expect(onShowTransferPlannerChange).toHaveBeenCalledWith(true)
+    })
+  })
+
   describe('System Navigation', () => {
     it('displays and updates system selection', () => {
       render(<Sidebar {...defaultProps} />)
@@ -200,6 +282,21 @@ describe('Sidebar', () => {
       fireEvent.click(screen.getByText('Other System'))
       expect(defaultProps.onSystemChange).toHaveBeenCalledWith('other-system')
     })
+
+    it('lists local systems with a badge and a remove button', () => {
+      const onRemoveLocalSystem = vi.fn()
+      const localSystems = [
+        { id: 'local:draft', name: 'Draft System', description: 'Work in progress', importedAt: '2026-01-01T00:00:00.000Z', data: mockSystemData }
+      ]
+      render(<Sidebar {...defaultProps} localSystems={localSystems} onRemoveLocalSystem={onRemoveLocalSystem} />)
+      fireEvent.click(screen.getByTestId('sidebar-toggle'))
+
+      expect(screen.getByText('local')).toBeVisible()
+      fireEvent.click(screen.getByText('Draft System'))
+      expect(defaultProps.onSystemChange).toHaveBeenCalledWith('local:draft')
+      fireEvent.click(screen.getByRole('button', { name: 'Remove local system Draft System' }))
+      expect(onRemoveLocalSystem).toHaveBeenCalledWith('local:draft')
+    })
   })
 
   describe('System Info', () => {
@@ -254,9 +351,9 @@ describe('Sidebar', () => {
     })
   })
 
-  describe('Mode Variations', () => {
-    it('displays correct title for star-citizen mode', () => {
-      render(<Sidebar {...defaultProps} mode="star-citizen" />)
+  describe('Universe Titles', () => {
+    it('displays the title from the universe theme', () => {
+      render(<Sidebar {...defaultProps} title="Chart Citizen" />)
       
       // Expand sidebar
       fireEvent.click(screen.getByTestId('sidebar-toggle'))
@@ -264,8 +361,8 @@ describe('Sidebar', () => {
       expect(screen.getByRole('heading', { name: 'Chart Citizen' })).toBeVisible()
     })
 
-    it('displays correct title for realistic mode', () => {
-      render(<Sidebar {...defaultProps} mode="realistic" />)
+    it('falls back to the default title', () => {
+      render(<Sidebar {...defaultProps} />)
       
       // Expand sidebar
       fireEvent.click(screen.getByTestId('sidebar-toggle'))
@@ -0,0 +1,89 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { TimeControls } from '../time-controls'
+import { SECONDS_PER_DAY } from '@/engine/ephemeris'
+
+describe('TimeControls', () => {
+  const simulationTime = Date.UTC(2954, 2, 14, 12, 0)
+
+  const defaultProps = {
+    timeMultiplier: 1,
+    onTimeMultiplierChange: vi.fn(),
+    isPaused: false,
+    onPauseToggle: vi.fn(),
+    simulationTime,
+    onSimulationTimeChange: vi.fn(),
+    isReversed: false,
+    onReverseToggle: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('shows the current simulation date and rate', () => {
+    render(<TimeControls {...defaultProps} timeMultiplier={2} />)
+    expect(screen.getByLabelText('Simulation date')).toHaveValue('2954-03-14 12:00 UTC')
+    expect(screen.getByText('2 days/s')).toBeInTheDocument()
+  })
+
+  it('jumps to a typed date on Enter', () => {
+    render(<TimeControls {...defaultProps} />)
+    const input = screen.getByLabelText('Simulation date')
+    fireEvent.focus(input)
+    fireEvent.change(input, { target: { value: '2950-01-01 06:30' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(defaultProps.onSimulationTimeChange).toHaveBeenCalledWith(Date.UTC(2950, 0, 1, 6, 30))
+  })
+
+  it('reports invalid typed dates without jumping', () => {
+    render(<TimeControls {...defaultProps} />)
+    const input = screen.getByLabelText('Simulation date')
+    fireEvent.focus(input)
+    fireEvent.change(input, { target: { value: 'next tuesday' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(defaultProps.onSimulationTimeChange).not.toHaveBeenCalled()
+    expect(screen.getByText('Use YYYY-MM-DD or YYYY-MM-DD HH:mm')).toBeInTheDocument()
+  })
+
+  it('keeps the time of day when a date is picked', () => {
+    render(<TimeControls {...defaultProps} />)
+    fireEvent.change(screen.getByLabelText('Jump to date'), { target: { value: '2955-07-04' } })
+    expect(defaultProps.onSimulationTimeChange).toHaveBeenCalledWith(Date.UTC(2955, 6, 4, 12, 0))
+  })
+
+  it('applies rate presets in days per second', () => {
+    render(<TimeControls {...defaultProps} />)
+    fireEvent.click(screen.getByText('1 hr/s'))
+    expect(defaultProps.onTimeMultiplierChange).toHaveBeenCalledWith(3600 / SECONDS_PER_DAY)
+    fireEvent.click(screen.getByText('1 yr/s'))
+    expect(defaultProps.onTimeMultiplierChange).toHaveBeenCalledWith(365.25)
+  })
+
+  it('spans the rate presets on a log-scale slider', () => {
+    render(<TimeControls {...defaultProps} timeMultiplier={365.25} />)
+    const slider = screen.getByLabelText('Time rate')
+    expect(Number(slider.getAttribute('min'))).toBeCloseTo(Math.log10(60 / SECONDS_PER_DAY))
+    expect(Number(slider.getAttribute('max'))).toBeCloseTo(Math.log10(365.25))
+    expect(Number((slider as HTMLInputElement).value)).toBeCloseTo(Math.log10(365.25))
+
+    fireEvent.change(slider, { target: { value: String(Math.log10(60 / SECONDS_PER_DAY)) } })
+    expect(defaultProps.onTimeMultiplierChange).toHaveBeenCalledWith(0.000694)
+  })
+
+  it('toggles reverse time and shows a negative rate', () => {
+    const { rerender } = render(<TimeControls {...defaultProps} />)
+    fireEvent.click(screen.getByLabelText('Run time backwards'))
+    expect(defaultProps.onReverseToggle).toHaveBeenCalled()
+
+    rerender(<TimeControls {...defaultProps} isReversed />)
+    expect(screen.getByLabelText('Run time forwards')).toBeInTheDocument()
+    expect(screen.getByText('-1 day/s')).toBeInTheDocument()
+  })
+
+  it('hides the calendar when no simulation time is provided', () => {
+    render(<TimeControls {...defaultProps} simulationTime={undefined} />)
+    expect(screen.queryByLabelText('Simulation date')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,72 @@
+"use client"
+
+import React from "react"
+
+interface OverlayControlsProps {
+  showGravitationalDomains: boolean
+  onShowGravitationalDomainsChange: (show: boolean) => void
+  showTransferPlanner?: boolean
+  onShowTransferPlannerChange?: (show: boolean) => void
+  isEditingSystem?: boolean
+  onEditingSystemChange?: (editing: boolean) => void
+}
+
+export function OverlayControls({
+  showGravitationalDomains,
+  onShowGravitationalDomainsChange,
+  showTransferPlanner = false,
+  onShowTransferPlannerChange,
+  isEditingSystem = false,
+  onEditingSystemChange,
+}: OverlayControlsProps) {
+  return (
+    <div>
+      <h4 className="font-medium mb-3 text-sm">Overlays</h4>
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-gray-300 px-1">
+          <input
+            type="checkbox"
+            checked={showGravitationalDomains}
+            onChange={(e) => onShowGravitationalDomainsChange(e.target.checked)}
+          />
+          Gravitational domains
+        </label>
+
+        {showGravitationalDomains && (
+          <div className="text-xs text-gray-400 px-1 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-[#9b7bff]" />
+              Hill sphere (can hold satellites)
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-[#4ac6ff]" />
+              Sphere of influence (captures, trajectories)
+            </div>
+          </div>
+        )}
+
+        {onShowTransferPlannerChange && (
+          <label className="flex items-center gap-2 text-xs text-gray-300 px-1">
+            <input
+              type="checkbox"
+              checked={showTransferPlanner}
+              onChange={(e) => onShowTransferPlannerChange(e.target.checked)}
+            />
+            Transfer planner
+          </label>
+        )}
+
+        {onEditingSystemChange && (
+          <label className="flex items-center gap-2 text-xs text-gray-300 px-1">
+            <input
+              type="checkbox"
+              checked={isEditingSystem}
+              onChange={(e) => onEditingSystemChange(e.target.checked)}
+            />
+            System editor
+          </label>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,14 +6,20 @@ import { ViewModeSelector } from "./view-mode-selector"
 import { TimeControls } from "./time-controls"
 import { SystemSelector } from "./system-selector"
 import { SystemInfo } from "./system-info"
+import { SkyControls, type SkyMode } from "./sky-controls"
+import { OverlayControls } from "./overlay-controls"
 import type { ViewType } from '@lib/types/effects-level'
 import type { SystemData } from "@/engine/system-loader"
+import { DEFAULT_SIDEBAR_TITLE } from "@/engine/universes/manifest"
+import type { LocalSystemEntry } from "@/engine/local-systems/local-system-store"
 
 // Memoized components to prevent unnecessary re-renders
 const MemoizedViewModeSelector = React.memo(ViewModeSelector)
 const MemoizedTimeControls = React.memo(TimeControls)
 const MemoizedSystemSelector = React.memo(SystemSelector)
 const MemoizedSystemInfo = React.memo(SystemInfo)
+const MemoizedSkyControls = React.memo(SkyControls)
+const MemoizedOverlayControls = React.memo(OverlayControls)
 
 interface SidebarProps {
   onViewTypeChange: (viewType: ViewType) => void
@@ -22,17 +28,33 @@ interface SidebarProps {
   currentViewType: ViewType
   currentTimeMultiplier: number
   isPaused: boolean
+  simulationTime?: number
+  onSimulationTimeChange?: (time: number) => void
+  isTimeReversed?: boolean
+  onReverseToggle?: () => void
   currentZoom: number
   systemData: SystemData | null
   availableSystems: Record<string, any>
   currentSystem: string
   onSystemChange: (systemId: string) => void
+  localSystems?: LocalSystemEntry[]
+  onRemoveLocalSystem?: (systemId: string) => void
   focusedName: string
   focusedObjectSize: number | null
   onStopFollowing: () => void
   error: string | null
   loadingProgress: string
-  mode?: "realistic" | "star-citizen"
+  title?: string // header, from the universe manifest's theme
+  skyMode?: SkyMode
+  onSkyModeChange?: (mode: SkyMode) => void
+  showConstellations?: boolean
+  onShowConstellationsChange?: (show: boolean) => void
+  showGravitationalDomains?: boolean
+  onShowGravitationalDomainsChange?: (show: boolean) => void
+  showTransferPlanner?: boolean
+  onShowTransferPlannerChange?: (show: boolean) => void
+  isEditingSystem?: boolean
+  onEditingSystemChange?: (editing: boolean) => void
 }
 
 export function Sidebar({
@@ -42,17 +64,33 @@ export function Sidebar({
   currentViewType,
   currentTimeMultiplier,
   isPaused,
+  simulationTime,
+  onSimulationTimeChange,
+  isTimeReversed = false,
+  onReverseToggle,
   currentZoom,
   systemData,
   availableSystems,
   currentSystem,
   onSystemChange,
+  localSystems,
+  onRemoveLocalSystem,
   focusedName,
   focusedObjectSize,
   onStopFollowing,
   error,
   loadingProgress,
-  mode = "realistic"
+  title,
+  skyMode = "procedural",
+  onSkyModeChange,
+  showConstellations = false,
+  onShowConstellationsChange,
+  showGravitationalDomains = false,
+  onShowGravitationalDomainsChange,
+  showTransferPlanner = false,
+  onShowTransferPlannerChange,
+  isEditingSystem = false,
+  onEditingSystemChange
 }: SidebarProps) {
   const [openSection, setOpenSection] = useState<string>("navigation")
   const [isCollapsed, setIsCollapsed] = useState(true)
@@ -66,10 +104,7 @@ export function Sidebar({
     return currentZoom.toFixed(2)
   }, [currentZoom])
 
-  // Memoize the header title
-  const headerTitle = useMemo(() => {
-    return mode === "star-citizen" ? "Chart Citizen" : "3D Starfield"
-  }, [mode])
+  const headerTitle = title || DEFAULT_SIDEBAR_TITLE
 
   return (
     <div
@@ -130,8 +165,32 @@ export function Sidebar({
                   onTimeMultiplierChange={onTimeMultiplierChange}
                   isPaused={isPaused}
                   onPauseToggle={onPauseToggle}
+                  simulationTime={simulationTime}
+                  onSimulationTimeChange={onSimulationTimeChange}
+                  isReversed={isTimeReversed}
+                  onReverseToggle={onReverseToggle}
                 />
 
+                {onSkyModeChange && onShowConstellationsChange && (
+                  <MemoizedSkyControls
+                    skyMode={skyMode}
+                    onSkyModeChange={onSkyModeChange}
+                    showConstellations={showConstellations}
+                    onShowConstellationsChange={onShowConstellationsChange}
+                  />
+                )}
+
+                {onShowGravitationalDomainsChange && (
+                  <MemoizedOverlayControls
+                    showGravitationalDomains={showGravitationalDomains}
+                    onShowGravitationalDomainsChange={onShowGravitationalDomainsChange}
+                    showTransferPlanner={showTransferPlanner}
+                    onShowTransferPlannerChange={onShowTransferPlannerChange}
+                    isEditingSystem={isEditingSystem}
+                    onEditingSystemChange={onEditingSystemChange}
+                  />
+                )}
+
                 {/* Version Info */}
                 <div className="pt-4 border-t border-white/10">
                   <div className="text-xs text-gray-400">
@@ -164,6 +223,8 @@ export function Sidebar({
                     onSystemChange(systemId)
                     setOpenSection("navigation") // Keep navigation open after system change
                   }}
+                  localSystems={localSystems}
+                  onRemoveLocalSystem={onRemoveLocalSystem}
                 />
               </div>
             )}
@@ -0,0 +1,63 @@
+"use client"
+
+import React from "react"
+import { Sparkles, Star } from "lucide-react"
+
+export type SkyMode = "procedural" | "catalog"
+
+interface SkyControlsProps {
+  skyMode: SkyMode
+  onSkyModeChange: (mode: SkyMode) => void
+  showConstellations: boolean
+  onShowConstellationsChange: (show: boolean) => void
+}
+
+const SKY_MODES = [
+  { id: "procedural" as const, label: "Procedural", description: "Generated stars and nebulae", icon: Sparkles },
+  { id: "catalog" as const, label: "Real sky", description: "Catalog stars as seen from this system", icon: Star },
+]
+
+export function SkyControls({
+  skyMode,
+  onSkyModeChange,
+  showConstellations,
+  onShowConstellationsChange,
+}: SkyControlsProps) {
+  return (
+    <div>
+      <h4 className="font-medium mb-3 text-sm">Sky</h4>
+      <div className="space-y-2">
+        {SKY_MODES.map((mode) => {
+          const ModeIcon = mode.icon
+          return (
+            <button
+              key={mode.id}
+              onClick={() => onSkyModeChange(mode.id)}
+              className={`w-full text-left px-3 py-2 rounded transition-colors flex items-center gap-2 ${
+                skyMode === mode.id ? "bg-blue-600 text-white" : "bg-white/10 hover:bg-white/20"
+              }`}
+              title={`${mode.label} - ${mode.description}`}
+            >
+              <ModeIcon className="w-4 h-4" />
+              <div>
+                <div className="font-medium text-sm">{mode.label}</div>
+                <div className="text-xs opacity-75">{mode.description}</div>
+              </div>
+            </button>
+          )
+        })}
+
+        {skyMode === "catalog" && (
+          <label className="flex items-center gap-2 text-xs text-gray-300 px-1 pt-1">
+            <input
+              type="checkbox"
+              checked={showConstellations}
+              onChange={(e) => onShowConstellationsChange(e.target.checked)}
+            />
+            Constellation lines
+          </label>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,37 +1,71 @@
 "use client"
 
 import React from 'react'
+import { X } from "lucide-react"
+import { isLocalSystemId, type LocalSystemEntry } from "@/engine/local-systems/local-system-store"
 
 interface SystemSelectorProps {
   availableSystems: Record<string, any>
   currentSystem: string
   onSystemChange: (systemId: string) => void
+  localSystems?: LocalSystemEntry[]
+  onRemoveLocalSystem?: (systemId: string) => void
 }
 
-export function SystemSelector({ availableSystems, currentSystem, onSystemChange }: SystemSelectorProps) {
-  // Handle both array and object formats
-  const systemEntries = Array.isArray(availableSystems)
+export function SystemSelector({
+  availableSystems,
+  currentSystem,
+  onSystemChange,
+  localSystems = [],
+  onRemoveLocalSystem
+}: SystemSelectorProps) {
+  // Handle both array and object formats; local systems come from their own list
+  const bundledEntries = (Array.isArray(availableSystems)
     ? availableSystems.map((systemId) => [systemId, { name: systemId }])
     : Object.entries(availableSystems)
+  ).filter(([systemId]) => !isLocalSystemId(systemId))
+  const systemEntries = [
+    ...bundledEntries,
+    ...localSystems.map((entry) => [entry.id, { name: entry.name, description: entry.description }])
+  ]
 
   return (
     <div className="text-gray-200">
       <h4 className="font-medium mb-3 text-sm">Available Systems</h4>
       <div className="space-y-1 max-h-64 overflow-y-auto no-scrollbar pr-1">
-        {systemEntries.map(([systemId, systemInfo]) => (
-          <button
-            key={systemId}
-            onClick={() => onSystemChange(systemId)}
-            className={`w-full text-left px-3 py-2 rounded transition-colors ${
-              currentSystem === systemId ? "bg-blue-600 text-white" : "bg-white/10 hover:bg-white/20 text-gray-200"
-            }`}
-          >
-            <div className="font-medium text-sm">
-              {typeof systemInfo === "string" ? systemInfo : systemInfo?.name || systemId}
+        {systemEntries.map(([systemId, systemInfo]) => {
+          const isLocal = isLocalSystemId(systemId)
+          return (
+            <div key={systemId} className="flex items-stretch gap-1">
+              <button
+                onClick={() => onSystemChange(systemId)}
+                className={`flex-1 min-w-0 text-left px-3 py-2 rounded transition-colors ${
+                  currentSystem === systemId ? "bg-blue-600 text-white" : "bg-white/10 hover:bg-white/20 text-gray-200"
+                }`}
+              >
+                <div className="font-medium text-sm flex items-center gap-2">
+                  <span className="truncate">
+                    {typeof systemInfo === "string" ? systemInfo : systemInfo?.name || systemId}
+                  </span>
+                  {isLocal && (
+                    <span className="px-1.5 rounded bg-amber-500/80 text-black text-[10px] uppercase tracking-wide">local</span>
+                  )}
+                </div>
+                {systemInfo?.description && <div className="text-xs text-gray-300 truncate">{systemInfo.description}</div>}
+              </button>
+              {isLocal && onRemoveLocalSystem && (
+                <button
+                  onClick={() => onRemoveLocalSystem(systemId)}
+                  className="px-2 rounded bg-white/10 hover:bg-red-600/80 text-gray-300"
+                  aria-label={`Remove local system ${systemInfo?.name || systemId}`}
+                  title="Remove local system"
+                >
+                  <X size={14} />
+                </button>
+              )}
             </div>
-            {systemInfo?.description && <div className="text-xs text-gray-300 truncate">{systemInfo.description}</div>}
-          </button>
-        ))}
+          )
+        })}
       </div>
     </div>
   )
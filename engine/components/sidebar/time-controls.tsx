@@ -1,13 +1,29 @@
 "use client"
 
-import React from "react"
-import { Play, Pause, FastForward } from "lucide-react"
+import React, { useState } from "react"
+import { Play, Pause, Rewind, CalendarDays } from "lucide-react"
+import {
+  SECONDS_PER_DAY,
+  TIME_RATE_PRESETS,
+  TIME_RATE_SLIDER_MIN,
+  TIME_RATE_SLIDER_MAX,
+  formatSimulationDate,
+  formatTimeRate,
+  parseSimulationDate,
+  sliderPositionToTimeRate,
+  timeRateToSliderPosition,
+  toDateInputValue,
+} from "@/engine/ephemeris"
 
 interface TimeControlsProps {
-  timeMultiplier: number
+  timeMultiplier: number // simulated days per real second
   onTimeMultiplierChange: (multiplier: number) => void
   isPaused: boolean
   onPauseToggle: () => void
+  simulationTime?: number
+  onSimulationTimeChange?: (time: number) => void
+  isReversed?: boolean
+  onReverseToggle?: () => void
 }
 
 export function TimeControls({
@@ -15,12 +31,91 @@ export function TimeControls({
   onTimeMultiplierChange,
   isPaused,
   onPauseToggle,
+  simulationTime,
+  onSimulationTimeChange,
+  isReversed = false,
+  onReverseToggle,
 }: TimeControlsProps) {
+  // Draft text while the user is typing a date; null shows the live clock
+  const [dateDraft, setDateDraft] = useState<string | null>(null)
+  const [dateError, setDateError] = useState<string | null>(null)
+
+  const rateSecondsPerSecond = (isReversed ? -1 : 1) * timeMultiplier * SECONDS_PER_DAY
+  const hasCalendar = simulationTime !== undefined && onSimulationTimeChange !== undefined
+
+  const commitDateDraft = () => {
+    if (dateDraft === null || !onSimulationTimeChange) return
+    const parsed = parseSimulationDate(dateDraft)
+    if (parsed === null) {
+      setDateError("Use YYYY-MM-DD or YYYY-MM-DD HH:mm")
+      return
+    }
+    onSimulationTimeChange(parsed)
+    setDateDraft(null)
+    setDateError(null)
+  }
+
+  // Picking a day keeps the current time of day
+  const handleDatePicked = (value: string) => {
+    if (!value || simulationTime === undefined || !onSimulationTimeChange) return
+    const day = parseSimulationDate(value)
+    if (day === null) return
+    const msIntoDay = ((simulationTime % 86400000) + 86400000) % 86400000
+    onSimulationTimeChange(day + msIntoDay)
+  }
+
   return (
     <div>
       <h4 className="font-medium mb-3 text-sm">Time Controls</h4>
       <div className="space-y-2">
+        {hasCalendar && (
+          <div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                aria-label="Simulation date"
+                value={dateDraft ?? formatSimulationDate(simulationTime)}
+                onFocus={() => setDateDraft(formatSimulationDate(simulationTime))}
+                onChange={(e) => setDateDraft(e.target.value)}
+                onBlur={() => {
+                  setDateDraft(null)
+                  setDateError(null)
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    commitDateDraft()
+                    e.currentTarget.blur()
+                  } else if (e.key === "Escape") {
+                    e.currentTarget.blur()
+                  }
+                }}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 text-sm font-mono"
+              />
+              <label className="relative p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors cursor-pointer" title="Jump to date">
+                <CalendarDays className="w-4 h-4" />
+                <input
+                  type="date"
+                  aria-label="Jump to date"
+                  value={toDateInputValue(simulationTime)}
+                  onChange={(e) => handleDatePicked(e.target.value)}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                />
+              </label>
+            </div>
+            {dateError && <div className="mt-1 text-xs text-red-400">{dateError}</div>}
+          </div>
+        )}
         <div className="flex items-center gap-2">
+          {onReverseToggle && (
+            <button
+              onClick={onReverseToggle}
+              aria-label={isReversed ? "Run time forwards" : "Run time backwards"}
+              aria-pressed={isReversed}
+              className={`p-2 rounded-lg transition-colors ${isReversed ? "bg-blue-500/40 hover:bg-blue-500/60" : "bg-white/10 hover:bg-white/20"}`}
+            >
+              <Rewind className="w-4 h-4" />
+            </button>
+          )}
           <button
             onClick={onPauseToggle}
             className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
@@ -30,15 +125,31 @@ export function TimeControls({
           <div className="flex-1">
             <input
               type="range"
-              min="0.1"
-              max="100"
-              step="0.1"
-              value={timeMultiplier}
-              onChange={(e) => onTimeMultiplierChange(parseFloat(e.target.value))}
+              aria-label="Time rate"
+              min={TIME_RATE_SLIDER_MIN}
+              max={TIME_RATE_SLIDER_MAX}
+              step="any"
+              value={timeRateToSliderPosition(timeMultiplier)}
+              onChange={(e) => onTimeMultiplierChange(sliderPositionToTimeRate(parseFloat(e.target.value)))}
               className="w-full"
             />
           </div>
-          <div className="text-sm">{timeMultiplier.toFixed(1)}x</div>
+          <div className="text-sm whitespace-nowrap">{formatTimeRate(rateSecondsPerSecond)}</div>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {TIME_RATE_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => onTimeMultiplierChange(preset.secondsPerSecond / SECONDS_PER_DAY)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                Math.abs(timeMultiplier * SECONDS_PER_DAY - preset.secondsPerSecond) < 1e-6
+                  ? "bg-white/30"
+                  : "bg-white/10 hover:bg-white/20"
+              }`}
+            >
+              {preset.label}
+            </button>
+          ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,145 @@
+"use client"
+
+import { useRef, useMemo, useEffect } from "react"
+import { useFrame, useThree } from "@react-three/fiber"
+import * as THREE from "three"
+import type { StarCatalogData } from "@/engine/types/star-catalog"
+import { projectSky, DEFAULT_LIMITING_MAGNITUDE } from "@/engine/utils/star-catalog"
+
+interface CatalogStarfieldProps {
+  catalog: StarCatalogData
+  observerPosition: [number, number, number] // galactic, light years from Sol
+  excludeSystemId?: string
+  showConstellations?: boolean
+  limitingMagnitude?: number
+  radius?: number
+}
+
+const CONSTELLATION_COLOR = new THREE.Color(0x4a6fa5)
+
+// Point size in pixels and brightness for an apparent magnitude
+function starPointSize(magnitude: number, limitingMagnitude: number): number {
+  return Math.min(Math.max(1.5 + (limitingMagnitude - magnitude) * 0.8, 1.5), 9)
+}
+
+function starBrightness(magnitude: number): number {
+  return Math.min(Math.max(Math.pow(10, -0.4 * (magnitude - 1)), 0.2), 1)
+}
+
+const vertexShader = `
+attribute float size;
+attribute vec3 starColor;
+varying vec3 vColor;
+
+void main() {
+  vColor = starColor;
+  gl_PointSize = size;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}`
+
+const fragmentShader = `
+varying vec3 vColor;
+
+void main() {
+  // Soft round point with a bright core
+  float d = length(gl_PointCoord - vec2(0.5));
+  if (d > 0.5) discard;
+  float alpha = exp(-d * d * 18.0);
+  gl_FragColor = vec4(vColor, alpha);
+}`
+
+/**
+ * Real-sky skybox: catalog stars drawn as points at their directions and
+ * magnitudes as seen from the current system, with optional constellation lines.
+ */
+export function CatalogStarfield({
+  catalog,
+  observerPosition,
+  excludeSystemId,
+  showConstellations = false,
+  limitingMagnitude = DEFAULT_LIMITING_MAGNITUDE,
+  radius = 1900,
+}: CatalogStarfieldProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const { camera } = useThree()
+
+  const sky = useMemo(
+    () => projectSky(catalog, observerPosition, { limitingMagnitude, excludeSystemId }),
+    [catalog, observerPosition, limitingMagnitude, excludeSystemId]
+  )
+
+  const starGeometry = useMemo(() => {
+    const positions = new Float32Array(sky.stars.length * 3)
+    const colors = new Float32Array(sky.stars.length * 3)
+    const sizes = new Float32Array(sky.stars.length)
+
+    sky.stars.forEach((star, i) => {
+      const brightness = starBrightness(star.magnitude)
+      for (let axis = 0; axis < 3; axis++) {
+        positions[i * 3 + axis] = star.direction[axis] * radius
+        colors[i * 3 + axis] = star.color[axis] * brightness
+      }
+      sizes[i] = starPointSize(star.magnitude, limitingMagnitude)
+    })
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+    geometry.setAttribute("starColor", new THREE.BufferAttribute(colors, 3))
+    geometry.setAttribute("size", new THREE.BufferAttribute(sizes, 1))
+    return geometry
+  }, [sky, radius, limitingMagnitude])
+
+  const lineGeometry = useMemo(() => {
+    const positions = new Float32Array(sky.constellationSegments.length * 6)
+    sky.constellationSegments.forEach(([from, to], i) => {
+      for (let axis = 0; axis < 3; axis++) {
+        positions[i * 6 + axis] = from[axis] * radius
+        positions[i * 6 + 3 + axis] = to[axis] * radius
+      }
+    })
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+    return geometry
+  }, [sky, radius])
+
+  const starMaterial = useMemo(() => new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  }), [])
+
+  const lineMaterial = useMemo(() => new THREE.LineBasicMaterial({
+    color: CONSTELLATION_COLOR,
+    transparent: true,
+    opacity: 0.35,
+    depthWrite: false,
+  }), [])
+
+  useEffect(() => () => {
+    starGeometry.dispose()
+    lineGeometry.dispose()
+  }, [starGeometry, lineGeometry])
+
+  useEffect(() => () => {
+    starMaterial.dispose()
+    lineMaterial.dispose()
+  }, [starMaterial, lineMaterial])
+
+  // Keep the sky centered on the camera like the procedural skybox
+  useFrame(() => {
+    if (groupRef.current) {
+      groupRef.current.position.copy(camera.position)
+    }
+  })
+
+  return (
+    <group ref={groupRef} renderOrder={-1}>
+      <points geometry={starGeometry} material={starMaterial} frustumCulled={false} />
+      {showConstellations && (
+        <lineSegments geometry={lineGeometry} material={lineMaterial} frustumCulled={false} />
+      )}
+    </group>
+  )
+}
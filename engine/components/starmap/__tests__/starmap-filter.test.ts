@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EMPTY_STARMAP_FILTER,
+  collectFacets,
+  matchesFilter,
+  getMatchingSystemIds,
+  filterFromQuery,
+  filterToQuery,
+} from '../starmap-filter'
+import type { StarmapData } from '@/engine/types/orbital-system'
+
+const createStarmap = (): StarmapData => ({
+  systems: {
+    stanton: { id: 'stanton', name: 'Stanton', position: [0, 0, 0], status: 'inhabited', tags: ['uee', 'industrial'], description: 'Corporate-owned system' },
+    pyro: { id: 'pyro', name: 'Pyro', position: [1, 0, 0], status: 'inhabited', tags: ['lawless', 'dangerous'] },
+    nyx: { id: 'nyx', name: 'Nyx', position: [2, 0, 0], status: 'unexplored', tags: ['lawless'] },
+    terra: { id: 'terra', name: 'Terra', position: [3, 0, 0], tags: ['uee'] },
+  },
+  metadata: {},
+})
+
+describe('starmap filter', () => {
+  it('collects tag and status facets with counts, most common first', () => {
+    const facets = collectFacets(createStarmap())
+    expect(facets.tags).toEqual([
+      { value: 'lawless', count: 2 },
+      { value: 'uee', count: 2 },
+      { value: 'dangerous', count: 1 },
+      { value: 'industrial', count: 1 },
+    ])
+    expect(facets.statuses).toEqual([
+      { value: 'inhabited', count: 2 },
+      { value: 'unexplored', count: 1 },
+    ])
+  })
+
+  it('matches any selected tag, but requires every facet and search term', () => {
+    const { systems } = createStarmap()
+    const filter = { ...EMPTY_STARMAP_FILTER, tags: ['uee', 'dangerous'] }
+    expect(matchesFilter(systems.stanton, filter)).toBe(true)
+    expect(matchesFilter(systems.pyro, filter)).toBe(true)
+    expect(matchesFilter(systems.nyx, filter)).toBe(false)
+
+    expect(matchesFilter(systems.terra, { ...filter, statuses: ['inhabited'] })).toBe(false)
+    expect(matchesFilter(systems.stanton, { ...filter, query: 'corporate stan' })).toBe(true)
+    expect(matchesFilter(systems.stanton, { ...filter, query: 'corporate pyro' })).toBe(false)
+  })
+
+  it('returns null when no filter is active', () => {
+    expect(getMatchingSystemIds(createStarmap(), EMPTY_STARMAP_FILTER)).toBeNull()
+    expect(getMatchingSystemIds(createStarmap(), { ...EMPTY_STARMAP_FILTER, query: '   ' })).toBeNull()
+    const ids = getMatchingSystemIds(createStarmap(), { ...EMPTY_STARMAP_FILTER, tags: ['lawless'] })
+    expect(Array.from(ids!).sort()).toEqual(['nyx', 'pyro'])
+  })
+
+  describe('URL state', () => {
+    it('round-trips a filter through query parameters', () => {
+      const filter = { tags: ['lawless', 'uee'], statuses: ['inhabited'], query: 'red giant' }
+      expect(filterFromQuery(filterToQuery(filter))).toEqual(filter)
+    })
+
+    it('keeps unrelated parameters and drops empty facets', () => {
+      const params = filterToQuery(
+        { ...EMPTY_STARMAP_FILTER, tags: ['uee'] },
+        new URLSearchParams('view=3d&status=inhabited&q=pyro')
+      )
+      expect(params.get('view')).toBe('3d')
+      expect(params.get('tags')).toBe('uee')
+      expect(params.has('status')).toBe(false)
+      expect(params.has('q')).toBe(false)
+    })
+
+    it('reads an empty filter from a URL without filter parameters', () => {
+      expect(filterFromQuery(new URLSearchParams('view=3d'))).toEqual(EMPTY_STARMAP_FILTER)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeHexLayout,
+  axialToPlane,
+  planeToAxial,
+  roundAxial,
+  axialDistance,
+  axialRing,
+} from '../starmap-hex-layout'
+import { generateStarmap } from '@/engine/utils/starmap-generator'
+import type { StarmapData } from '@/engine/types/orbital-system'
+
+const starmapFrom = (positions: Record<string, [number, number, number]>): StarmapData => ({
+  systems: Object.fromEntries(
+    Object.entries(positions).map(([id, position]) => [id, { id, name: id, position, jump_routes: [] }])
+  ),
+  metadata: {},
+})
+
+describe('starmap hex layout', () => {
+  describe('axial coordinates', () => {
+    it('round-trips hex centres through the plane', () => {
+      for (const cell of [{ q: 0, r: 0 }, { q: 3, r: -2 }, { q: -4, r: 5 }]) {
+        const [x, z] = axialToPlane(cell, 2)
+        expect(roundAxial(planeToAxial(x, z, 2))).toEqual(cell)
+      }
+    })
+
+    it('puts neighbouring hexes one hex width apart', () => {
+      const [x, z] = axialToPlane({ q: 1, r: 0 }, 1)
+      expect(Math.hypot(x, z)).toBeCloseTo(Math.sqrt(3))
+    })
+
+    it('builds rings of 6 × radius cells at that distance', () => {
+      const center = { q: 2, r: -1 }
+      expect(axialRing(center, 0)).toEqual([center])
+      const ring = axialRing(center, 3)
+      expect(ring).toHaveLength(18)
+      ring.forEach(cell => expect(axialDistance(cell, center)).toBe(3))
+    })
+  })
+
+  describe('computeHexLayout', () => {
+    it('places every system on its own hex', () => {
+      const layout = computeHexLayout(generateStarmap({ count: 300, seed: 5 }))
+      expect(layout.size).toBe(300)
+      const cells = new Set(Array.from(layout.values()).map(cell => `${cell.q},${cell.r}`))
+      expect(cells.size).toBe(300)
+    })
+
+    it('separates systems that share a position', () => {
+      const layout = computeHexLayout(starmapFrom({ a: [0, 0, 0], b: [0, 0, 0], c: [10, 0, 0] }))
+      const a = layout.get('a')!
+      const b = layout.get('b')!
+      expect(axialDistance(a, b)).toBe(1)
+    })
+
+    it('keeps the top-down arrangement of the map', () => {
+      const layout = computeHexLayout(starmapFrom({
+        west: [-20, 5, 0],
+        centre: [0, -3, 0],
+        east: [20, 0, 0],
+        north: [0, 0, -20],
+      }))
+      expect(layout.get('west')!.position[0]).toBeLessThan(layout.get('centre')!.position[0])
+      expect(layout.get('east')!.position[0]).toBeGreaterThan(layout.get('centre')!.position[0])
+      expect(layout.get('north')!.position[2]).toBeLessThan(layout.get('centre')!.position[2])
+      layout.forEach(cell => expect(cell.position[1]).toBe(0))
+    })
+
+    it('is independent of system order', () => {
+      const forward = starmapFrom({ a: [0, 0, 0], b: [0.1, 0, 0], c: [5, 0, 5] })
+      const reversed = starmapFrom({ c: [5, 0, 5], b: [0.1, 0, 0], a: [0, 0, 0] })
+      expect(computeHexLayout(forward).get('a')).toEqual(computeHexLayout(reversed).get('a'))
+      expect(computeHexLayout(forward).get('b')).toEqual(computeHexLayout(reversed).get('b'))
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildStarmapNodes,
+  blendStarmapNodes,
+  buildJumpLineBuffer,
+  buildRouteLineBuffer,
+  encodePickingColor,
+  decodePickingColor,
+  selectVisibleLabels,
+} from '../starmap-scene'
+import { generateStarmap } from '@/engine/utils/starmap-generator'
+import { findRoute } from '@/engine/utils/starmap-routing'
+import type { StarmapData } from '@/engine/types/orbital-system'
+
+const createStarmap = (): StarmapData => ({
+  systems: {
+    a: { id: 'a', name: 'Alpha', position: [0, 5, 0], jump_routes: ['b'] },
+    b: { id: 'b', name: 'Beta', position: [10, 0, 0], jump_routes: ['a', 'c'] },
+    c: { id: 'c', name: 'Gamma', position: [20, 0, 0], jump_routes: [] }, // one-way route from b
+  },
+  metadata: {},
+})
+
+describe('starmap scene', () => {
+  describe('layout', () => {
+    it('uses real positions in the spatial layout and the XZ plane in the hex layout', () => {
+      expect(buildStarmapNodes(createStarmap(), 'spatial')[0].position).toEqual([0, 5, 0])
+      expect(buildStarmapNodes(createStarmap(), 'hex').every(node => node.position[1] === 0)).toBe(true)
+    })
+
+    it('blends between layouts', () => {
+      const hex = buildStarmapNodes(createStarmap(), 'hex')
+      const spatial = buildStarmapNodes(createStarmap(), 'spatial')
+      expect(blendStarmapNodes(hex, spatial, 0)).toBe(hex)
+      expect(blendStarmapNodes(hex, spatial, 1)).toBe(spatial)
+      const halfway = blendStarmapNodes(hex, spatial, 0.5)
+      halfway.forEach((node, i) => {
+        node.position.forEach((value, axis) => {
+          expect(value).toBeCloseTo((hex[i].position[axis] + spatial[i].position[axis]) / 2)
+        })
+      })
+    })
+
+    it('draws each jump route once, including one-way routes', () => {
+      const starmap = createStarmap()
+      const buffer = buildJumpLineBuffer(starmap, buildStarmapNodes(starmap, 'spatial'))
+      // a↔b once, b→c once: two segments of two vertices
+      expect(buffer.length).toBe(2 * 2 * 3)
+    })
+
+    it('restricts the jump-line buffer to included routes', () => {
+      const starmap = createStarmap()
+      const nodes = buildStarmapNodes(starmap, 'spatial')
+      const buffer = buildJumpLineBuffer(starmap, nodes, (from, to) => from !== 'a' && to !== 'a')
+      expect(Array.from(buffer)).toEqual([10, 0, 0, 20, 0, 0])
+    })
+
+    it('builds route segments between consecutive systems', () => {
+      const starmap = createStarmap()
+      const buffer = buildRouteLineBuffer(['a', 'b', 'c'], buildStarmapNodes(starmap, 'spatial'))
+      expect(Array.from(buffer)).toEqual([0, 5, 0, 10, 0, 0, 10, 0, 0, 20, 0, 0])
+    })
+  })
+
+  describe('GPU picking colours', () => {
+    it('round-trips instance indices through 8-bit RGB', () => {
+      for (const index of [0, 1, 254, 255, 256, 65535, 999999]) {
+        const [r, g, b] = encodePickingColor(index).map(c => Math.round(c * 255))
+        expect(decodePickingColor(r, g, b)).toBe(index)
+      }
+    })
+
+    it('treats black as background', () => {
+      expect(decodePickingColor(0, 0, 0)).toBeNull()
+    })
+  })
+
+  describe('label culling', () => {
+    const nodes = buildStarmapNodes(createStarmap(), 'spatial')
+
+    it('labels the nearest systems within range', () => {
+      expect(selectVisibleLabels(nodes, [0, 0, 0], 12, 10)).toEqual(['a', 'b'])
+      expect(selectVisibleLabels(nodes, [0, 0, 0], 12, 1)).toEqual(['a'])
+    })
+
+    it('always labels pinned systems', () => {
+      expect(selectVisibleLabels(nodes, [0, 0, 0], 1, 10, ['c'])).toEqual(['c'])
+    })
+  })
+
+  describe('scale with 1,000 systems', () => {
+    const starmap = generateStarmap({ count: 1000, seed: 42 })
+    const ids = Object.keys(starmap.systems)
+
+    // Each pair of systems joined by a jump route, however many ends list it
+    const routePairs = new Set(
+      ids.flatMap(id => (starmap.systems[id].jump_routes ?? [])
+        .filter(target => starmap.systems[target])
+        .map(target => [id, target].sort().join('|')))
+    )
+
+    it('gives every system one instance of the star mesh', () => {
+      for (const layout of ['spatial', 'hex'] as const) {
+        const nodes = buildStarmapNodes(starmap, layout)
+        expect(nodes).toHaveLength(1000)
+        expect(nodes.map(node => node.index)).toEqual(ids.map((_, i) => i))
+        expect(new Set(nodes.map(node => node.id)).size).toBe(1000)
+      }
+    })
+
+    it('merges every jump route into one segment of one buffer', () => {
+      const buffer = buildJumpLineBuffer(starmap, buildStarmapNodes(starmap, 'spatial'))
+      expect(routePairs.size).toBeGreaterThan(0)
+      expect(buffer.length).toBe(routePairs.size * 2 * 3)
+    })
+
+    it('gives every system its own hex cell in the plane', () => {
+      const nodes = buildStarmapNodes(starmap, 'hex')
+      expect(nodes.every(node => node.position[1] === 0)).toBe(true)
+      expect(new Set(nodes.map(node => `${node.position[0]},${node.position[2]}`)).size).toBe(1000)
+    })
+
+    it('culls labels to the nearest systems within range', () => {
+      const nodes = buildStarmapNodes(starmap, 'spatial')
+      const inRange = nodes.filter(node => Math.hypot(...node.position) <= 30)
+      expect(inRange.length).toBeGreaterThan(0)
+
+      expect(selectVisibleLabels(nodes, [0, 0, 0], 30, 1000)).toHaveLength(inRange.length)
+      const labels = selectVisibleLabels(nodes, [0, 0, 0], 30, 40)
+      expect(labels).toHaveLength(Math.min(40, inRange.length))
+      expect(labels.every(id => inRange.some(node => node.id === id))).toBe(true)
+    })
+
+    it('routes across the whole map along jump routes', () => {
+      const route = findRoute(starmap, ids[0], ids[ids.length - 1])
+      expect(route).not.toBeNull()
+      const { systems } = route!
+      expect(systems[0]).toBe(ids[0])
+      expect(systems[systems.length - 1]).toBe(ids[ids.length - 1])
+      expect(route!.legs).toHaveLength(systems.length - 1)
+      systems.slice(1).forEach((id, i) => {
+        expect(routePairs.has([systems[i], id].sort().join('|'))).toBe(true)
+      })
+    })
+  })
+})
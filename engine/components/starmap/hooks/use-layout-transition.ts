@@ -0,0 +1,37 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+
+/**
+ * Eased progress (0–1) that animates towards `target` over `durationMs` whenever
+ * the target changes. A change mid-animation continues from the current progress.
+ */
+export function useLayoutTransition(target: 0 | 1, durationMs = 800): number {
+  const [progress, setProgress] = useState<number>(target)
+  // Linear progress; easing is applied on output
+  const linearRef = useRef<number>(target)
+
+  useEffect(() => {
+    const from = linearRef.current
+    if (from === target) return
+
+    const distance = Math.abs(target - from)
+    const start = performance.now()
+    let frame = 0
+
+    const step = (now: number) => {
+      const fraction = Math.min((now - start) / (durationMs * distance), 1)
+      const linear = from + (target - from) * fraction
+      linearRef.current = linear
+      setProgress(easeInOutCubic(linear))
+      if (fraction < 1) frame = requestAnimationFrame(step)
+    }
+
+    frame = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frame)
+  }, [target, durationMs])
+
+  return progress
+}
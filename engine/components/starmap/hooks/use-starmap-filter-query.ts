@@ -0,0 +1,31 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { usePathname, useSearchParams } from "next/navigation"
+import { filterFromQuery, filterToQuery, type StarmapFilter } from "../starmap-filter"
+
+/**
+ * Starmap filter state mirrored into the URL query (`tags`, `status`, `q`) so a
+ * filtered map can be shared. The URL is replaced rather than pushed, so typing a
+ * search doesn't flood the browser history.
+ */
+export function useStarmapFilterQuery(): [StarmapFilter, (filter: StarmapFilter) => void] {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [filter, setFilter] = useState<StarmapFilter>(() =>
+    filterFromQuery(new URLSearchParams(searchParams?.toString() ?? ""))
+  )
+  const isFirstRenderRef = useRef(true)
+
+  useEffect(() => {
+    // The initial state came from the URL; nothing to write back
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false
+      return
+    }
+    const query = filterToQuery(filter, new URLSearchParams(window.location.search)).toString()
+    window.history.replaceState(window.history.state, "", query ? `${pathname}?${query}` : pathname)
+  }, [filter, pathname])
+
+  return [filter, setFilter]
+}
@@ -0,0 +1,176 @@
+"use client"
+
+import { X } from "lucide-react"
+import type { StarmapRoute } from "@/engine/utils/starmap-routing"
+
+export type RouteOptimisation = "distance" | "jumps"
+
+export const AVOIDABLE_TAGS = ["dangerous", "lawless"] as const
+
+interface RoutePlannerSystem {
+  id: string
+  name: string
+}
+
+interface RoutePlannerPanelProps {
+  systems: RoutePlannerSystem[]
+  from: string
+  to: string
+  onFromChange: (id: string) => void
+  onToChange: (id: string) => void
+  optimisation: RouteOptimisation
+  onOptimisationChange: (optimisation: RouteOptimisation) => void
+  avoidTags: string[]
+  onAvoidTagsChange: (tags: string[]) => void
+  avoidSystems: string[]
+  onAvoidSystemsChange: (ids: string[]) => void
+  route: StarmapRoute | null
+  error: string | null
+  onClear: () => void
+}
+
+const formatCost = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1))
+
+/**
+ * Route planner overlay: pick a start and destination, choose what to avoid and
+ * read the resulting legs with their cumulative cost.
+ */
+export function RoutePlannerPanel({
+  systems,
+  from,
+  to,
+  onFromChange,
+  onToChange,
+  optimisation,
+  onOptimisationChange,
+  avoidTags,
+  onAvoidTagsChange,
+  avoidSystems,
+  onAvoidSystemsChange,
+  route,
+  error,
+  onClear,
+}: RoutePlannerPanelProps) {
+  const nameOf = (id: string) => systems.find((system) => system.id === id)?.name || id
+
+  const toggleTag = (tag: string) => {
+    onAvoidTagsChange(avoidTags.includes(tag) ? avoidTags.filter((t) => t !== tag) : [...avoidTags, tag])
+  }
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 w-72 max-h-[45vh] overflow-y-auto bg-black/80 backdrop-blur-sm text-white text-sm rounded-lg p-4 space-y-3">
+      <h4 className="font-medium">Route Planner</h4>
+
+      <div className="grid grid-cols-[3rem_1fr] items-center gap-2">
+        <label htmlFor="route-from" className="text-gray-400 text-xs">From</label>
+        <select
+          id="route-from"
+          value={from}
+          onChange={(e) => onFromChange(e.target.value)}
+          className="px-2 py-1 rounded bg-white/10"
+        >
+          <option value="">Select system</option>
+          {systems.map((system) => (
+            <option key={system.id} value={system.id}>{system.name}</option>
+          ))}
+        </select>
+        <label htmlFor="route-to" className="text-gray-400 text-xs">To</label>
+        <select
+          id="route-to"
+          value={to}
+          onChange={(e) => onToChange(e.target.value)}
+          className="px-2 py-1 rounded bg-white/10"
+        >
+          <option value="">Select system</option>
+          {systems.map((system) => (
+            <option key={system.id} value={system.id}>{system.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-1">
+        {(["distance", "jumps"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => onOptimisationChange(option)}
+            aria-pressed={optimisation === option}
+            className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+              optimisation === option ? "bg-white/30" : "bg-white/10 hover:bg-white/20"
+            }`}
+          >
+            {option === "distance" ? "Shortest distance" : "Fewest jumps"}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {AVOIDABLE_TAGS.map((tag) => (
+          <label key={tag} className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={avoidTags.includes(tag)} onChange={() => toggleTag(tag)} />
+            Avoid {tag} systems
+          </label>
+        ))}
+        <select
+          aria-label="Avoid system"
+          value=""
+          onChange={(e) => e.target.value && onAvoidSystemsChange([...avoidSystems, e.target.value])}
+          className="w-full px-2 py-1 rounded bg-white/10 text-xs"
+        >
+          <option value="">Avoid system…</option>
+          {systems
+            .filter((system) => !avoidSystems.includes(system.id))
+            .map((system) => (
+              <option key={system.id} value={system.id}>{system.name}</option>
+            ))}
+        </select>
+        {avoidSystems.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {avoidSystems.map((id) => (
+              <span key={id} className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-900/60 text-xs">
+                {nameOf(id)}
+                <button
+                  aria-label={`Stop avoiding ${nameOf(id)}`}
+                  onClick={() => onAvoidSystemsChange(avoidSystems.filter((a) => a !== id))}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {route && route.legs.length > 0 && (
+        <div>
+          <ol className="space-y-1 text-xs" aria-label="Route legs">
+            {route.legs.map((leg, index) => (
+              <li key={`${leg.from}-${leg.to}-${index}`} className="flex justify-between gap-2">
+                <span>
+                  {index + 1}. {nameOf(leg.from)} → {nameOf(leg.to)}
+                </span>
+                <span className="text-gray-400 font-mono whitespace-nowrap">
+                  +{formatCost(leg.cost)} = {formatCost(leg.cumulativeCost)}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="mt-2 flex justify-between text-xs text-gray-300">
+            <span>{route.legs.length} {route.legs.length === 1 ? "jump" : "jumps"}</span>
+            <span className="font-mono">Total {formatCost(route.totalCost)}</span>
+          </div>
+        </div>
+      )}
+
+      {(route || error) && (
+        <button
+          onClick={onClear}
+          className="w-full px-3 py-1 bg-red-700 rounded hover:bg-red-600 text-xs"
+        >
+          Clear Route
+        </button>
+      )}
+    </div>
+  )
+}
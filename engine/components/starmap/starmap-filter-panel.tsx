@@ -0,0 +1,93 @@
+"use client"
+
+import { Search, X } from "lucide-react"
+import { isFilterActive, EMPTY_STARMAP_FILTER, type StarmapFacets, type StarmapFilter } from "./starmap-filter"
+
+interface StarmapFilterPanelProps {
+  facets: StarmapFacets
+  filter: StarmapFilter
+  onFilterChange: (filter: StarmapFilter) => void
+  matchCount: number | null // null when no filter is active
+  totalCount: number
+}
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+
+/**
+ * Filter overlay: free-text search, tag chips and status toggles. Facets only
+ * appear when the map's systems actually carry them.
+ */
+export function StarmapFilterPanel({ facets, filter, onFilterChange, matchCount, totalCount }: StarmapFilterPanelProps) {
+  const active = isFilterActive(filter)
+
+  return (
+    <div className="absolute top-16 left-4 z-10 w-72 max-h-[40vh] overflow-y-auto bg-black/80 backdrop-blur-sm text-white text-sm rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Filter Systems</h4>
+        {matchCount !== null && (
+          <span className="text-xs text-gray-400" aria-live="polite">
+            {matchCount} of {totalCount}
+          </span>
+        )}
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-gray-400" />
+        <input
+          type="search"
+          aria-label="Search systems"
+          placeholder="Name or description"
+          value={filter.query}
+          onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+          className="w-full pl-7 pr-2 py-1 rounded bg-white/10 text-sm"
+        />
+      </div>
+
+      {facets.statuses.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Status">
+          {facets.statuses.map(({ value, count }) => (
+            <button
+              key={value}
+              onClick={() => onFilterChange({ ...filter, statuses: toggleValue(filter.statuses, value) })}
+              aria-pressed={filter.statuses.includes(value)}
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                filter.statuses.includes(value) ? "bg-white/30" : "bg-white/10 hover:bg-white/20"
+              }`}
+            >
+              {value} <span className="text-gray-400">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {facets.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Tags">
+          {facets.tags.map(({ value, count }) => (
+            <button
+              key={value}
+              onClick={() => onFilterChange({ ...filter, tags: toggleValue(filter.tags, value) })}
+              aria-pressed={filter.tags.includes(value)}
+              className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                filter.tags.includes(value)
+                  ? "bg-cyan-500/40 border-cyan-300/60"
+                  : "bg-white/5 border-white/20 hover:bg-white/15"
+              }`}
+            >
+              {value} <span className="text-gray-400">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {active && (
+        <button
+          onClick={() => onFilterChange(EMPTY_STARMAP_FILTER)}
+          className="flex items-center gap-1 text-xs text-gray-300 hover:text-white"
+        >
+          <X className="w-3 h-3" /> Clear filters
+        </button>
+      )}
+    </div>
+  )
+}
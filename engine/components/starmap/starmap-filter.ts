@@ -0,0 +1,102 @@
+import type { StarmapData, StarmapSystem } from "@/engine/types/orbital-system"
+
+/**
+ * Starmap filter. Selected values within a facet are alternatives (any tag may
+ * match); facets and the text query must all match.
+ */
+export interface StarmapFilter {
+  tags: string[]
+  statuses: string[]
+  query: string // free text over name, id and description
+}
+
+export interface FacetValue {
+  value: string
+  count: number
+}
+
+export interface StarmapFacets {
+  tags: FacetValue[]
+  statuses: FacetValue[]
+}
+
+export const EMPTY_STARMAP_FILTER: StarmapFilter = { tags: [], statuses: [], query: "" }
+
+// URL query parameter names
+const TAGS_PARAM = "tags"
+const STATUS_PARAM = "status"
+const QUERY_PARAM = "q"
+
+export function isFilterActive(filter: StarmapFilter): boolean {
+  return filter.tags.length > 0 || filter.statuses.length > 0 || filter.query.trim() !== ""
+}
+
+function countValues(values: string[]): FacetValue[] {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+/**
+ * Tag and status values present in the map, most common first
+ */
+export function collectFacets(starmap: StarmapData): StarmapFacets {
+  const systems = Object.values(starmap.systems)
+  return {
+    tags: countValues(systems.flatMap(system => system.tags ?? [])),
+    statuses: countValues(systems.map(system => system.status).filter((s): s is string => typeof s === "string")),
+  }
+}
+
+export function matchesFilter(system: StarmapSystem, filter: StarmapFilter): boolean {
+  if (filter.tags.length > 0) {
+    const tags = system.tags ?? []
+    if (!filter.tags.some(tag => tags.includes(tag))) return false
+  }
+
+  if (filter.statuses.length > 0 && (system.status === undefined || !filter.statuses.includes(system.status))) return false
+
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length > 0) {
+    const haystack = [system.name, system.id, system.description].filter(Boolean).join(" ").toLowerCase()
+    if (!terms.every(term => haystack.includes(term))) return false
+  }
+
+  return true
+}
+
+/**
+ * Ids of the systems matching the filter, or null when no filter is active
+ */
+export function getMatchingSystemIds(starmap: StarmapData, filter: StarmapFilter): Set<string> | null {
+  if (!isFilterActive(filter)) return null
+  return new Set(
+    Object.values(starmap.systems)
+      .filter(system => matchesFilter(system, filter))
+      .map(system => system.id)
+  )
+}
+
+const splitList = (value: string | null) => (value ? value.split(",").map(v => v.trim()).filter(Boolean) : [])
+
+export function filterFromQuery(params: URLSearchParams): StarmapFilter {
+  return {
+    tags: splitList(params.get(TAGS_PARAM)),
+    statuses: splitList(params.get(STATUS_PARAM)),
+    query: params.get(QUERY_PARAM) || "",
+  }
+}
+
+/**
+ * Writes the filter into a copy of `params`, leaving unrelated parameters alone
+ * and dropping empty facets so an unfiltered map has a clean URL
+ */
+export function filterToQuery(filter: StarmapFilter, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const setOrDelete = (key: string, value: string) => (value ? next.set(key, value) : next.delete(key))
+  setOrDelete(TAGS_PARAM, filter.tags.join(","))
+  setOrDelete(STATUS_PARAM, filter.statuses.join(","))
+  setOrDelete(QUERY_PARAM, filter.query)
+  return next
+}
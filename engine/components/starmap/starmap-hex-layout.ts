@@ -0,0 +1,140 @@
+import type { StarmapData } from "@/engine/types/orbital-system"
+
+/**
+ * Axial hex coordinates (pointy-top). The third cube coordinate is s = -q - r.
+ */
+export interface AxialCoord {
+  q: number
+  r: number
+}
+
+export interface HexLayoutCell extends AxialCoord {
+  position: [number, number, number] // scene position on the XZ plane
+}
+
+const SQRT3 = Math.sqrt(3)
+
+const AXIAL_DIRECTIONS: AxialCoord[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 },
+]
+
+const cellKey = ({ q, r }: AxialCoord) => `${q},${r}`
+
+export function axialToPlane({ q, r }: AxialCoord, size: number): [number, number] {
+  return [size * SQRT3 * (q + r / 2), size * 1.5 * r]
+}
+
+/**
+ * Fractional axial coordinates of a point on the plane
+ */
+export function planeToAxial(x: number, z: number, size: number): AxialCoord {
+  return { q: ((SQRT3 / 3) * x - z / 3) / size, r: ((2 / 3) * z) / size }
+}
+
+export function roundAxial({ q, r }: AxialCoord): AxialCoord {
+  const s = -q - r
+  let rq = Math.round(q)
+  let rr = Math.round(r)
+  const rs = Math.round(s)
+  const dq = Math.abs(rq - q)
+  const dr = Math.abs(rr - r)
+  const ds = Math.abs(rs - s)
+  if (dq > dr && dq > ds) rq = -rr - rs
+  else if (dr > ds) rr = -rq - rs
+  // Normalise -0 so keys and comparisons stay stable
+  return { q: rq + 0, r: rr + 0 }
+}
+
+export function axialDistance(a: AxialCoord, b: AxialCoord): number {
+  return (Math.abs(a.q - b.q) + Math.abs(a.r - b.r) + Math.abs(a.q + a.r - b.q - b.r)) / 2
+}
+
+/**
+ * Cells exactly `radius` steps from the centre
+ */
+export function axialRing(center: AxialCoord, radius: number): AxialCoord[] {
+  if (radius === 0) return [center]
+  const ring: AxialCoord[] = []
+  let cell = { q: center.q + AXIAL_DIRECTIONS[4].q * radius, r: center.r + AXIAL_DIRECTIONS[4].r * radius }
+  for (let side = 0; side < 6; side++) {
+    for (let step = 0; step < radius; step++) {
+      ring.push(cell)
+      cell = { q: cell.q + AXIAL_DIRECTIONS[side].q, r: cell.r + AXIAL_DIRECTIONS[side].r }
+    }
+  }
+  return ring
+}
+
+/**
+ * Median distance from each system to its nearest neighbour on the XZ plane
+ */
+function medianNearestNeighbourDistance(points: [number, number][]): number {
+  if (points.length < 2) return 1
+  const nearest = points.map((a, i) => {
+    let best = Infinity
+    points.forEach((b, j) => {
+      if (i !== j) best = Math.min(best, Math.hypot(a[0] - b[0], a[1] - b[1]))
+    })
+    return best
+  })
+  nearest.sort((a, b) => a - b)
+  return nearest[Math.floor(nearest.length / 2)] || 1
+}
+
+/**
+ * Schematic hex-grid layout for the 2-D starmap. Each system is snapped to the hex
+ * nearest its top-down position, with one hex spanning the typical gap between
+ * neighbouring systems, so the layout keeps the map's overall shape at about the
+ * same scale as the 3-D view. Systems closest to a hex centre claim it first;
+ * the rest move to the nearest free hex, so no two systems overlap.
+ */
+export function computeHexLayout(starmap: StarmapData): Map<string, HexLayoutCell> {
+  const systems = Object.values(starmap.systems) as { id: string; position?: unknown }[]
+  const planar = systems.map((system): [number, number] => {
+    const position = Array.isArray(system.position) ? system.position : [0, 0, 0]
+    return [position[0] || 0, position[2] || 0]
+  })
+
+  const size = medianNearestNeighbourDistance(planar) / SQRT3
+  const ideals = planar.map(([x, z]) => planeToAxial(x, z, size))
+
+  const order = systems
+    .map((system, index) => {
+      const ideal = ideals[index]
+      const rounded = roundAxial(ideal)
+      return { index, id: system.id, error: Math.hypot(ideal.q - rounded.q, ideal.r - rounded.r) }
+    })
+    .sort((a, b) => a.error - b.error || a.id.localeCompare(b.id))
+
+  const occupied = new Set<string>()
+  const layout = new Map<string, HexLayoutCell>()
+
+  for (const { index, id } of order) {
+    const ideal = ideals[index]
+    const home = roundAxial(ideal)
+    let cell: AxialCoord | null = null
+
+    for (let radius = 0; cell === null; radius++) {
+      const free = axialRing(home, radius).filter(c => !occupied.has(cellKey(c)))
+      if (free.length === 0) continue
+      // Of the free cells at this distance, take the one closest to where the system really is
+      const [idealX, idealZ] = axialToPlane(ideal, size)
+      cell = free.reduce((best, candidate) => {
+        const [bx, bz] = axialToPlane(best, size)
+        const [cx, cz] = axialToPlane(candidate, size)
+        return Math.hypot(cx - idealX, cz - idealZ) < Math.hypot(bx - idealX, bz - idealZ) ? candidate : best
+      })
+    }
+
+    occupied.add(cellKey(cell))
+    const [x, z] = axialToPlane(cell, size)
+    layout.set(id, { q: cell.q, r: cell.r, position: [x, 0, z] })
+  }
+
+  return layout
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { useFrame } from "@react-three/fiber"
+import { Html } from "@react-three/drei"
+import { selectVisibleLabels, type StarmapNode } from "./starmap-scene"
+
+// Label set is recomputed a few times per second rather than every frame
+const LABEL_UPDATE_INTERVAL = 0.25
+
+interface StarmapLabelsProps {
+  nodes: StarmapNode[]
+  pinnedIds: string[] // always labelled (hovered system, route)
+  maxDistance: number
+  maxLabels?: number
+}
+
+/**
+ * Names of the systems nearest the camera. Only a bounded number of HTML labels
+ * exist at once, however large the map.
+ */
+export function StarmapLabels({ nodes, pinnedIds, maxDistance, maxLabels = 40 }: StarmapLabelsProps) {
+  const [visibleIds, setVisibleIds] = useState<string[]>([])
+  const elapsedRef = useRef(LABEL_UPDATE_INTERVAL)
+  const byId = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes])
+  const pinnedKey = pinnedIds.join("|")
+  const lastPinnedKeyRef = useRef(pinnedKey)
+
+  useFrame(({ camera }, delta) => {
+    elapsedRef.current += delta
+    // Hovering or changing the route updates labels straight away
+    const pinnedChanged = lastPinnedKeyRef.current !== pinnedKey
+    if (!pinnedChanged && elapsedRef.current < LABEL_UPDATE_INTERVAL) return
+    lastPinnedKeyRef.current = pinnedKey
+    elapsedRef.current = 0
+
+    const next = selectVisibleLabels(
+      nodes,
+      camera.position.toArray() as [number, number, number],
+      maxDistance,
+      maxLabels,
+      pinnedKey ? pinnedKey.split("|") : []
+    )
+    setVisibleIds((current) => (current.join("|") === next.join("|") ? current : next))
+  })
+
+  return (
+    <>
+      {visibleIds.map((id) => {
+        const node = byId.get(id)
+        if (!node) return null
+        return (
+          <Html key={id} position={node.position} distanceFactor={8} style={{ pointerEvents: "none" }}>
+            <div className="px-2 py-1 bg-black/70 text-white text-xs rounded whitespace-nowrap">
+              {node.name}
+            </div>
+          </Html>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useLayoutEffect, useMemo } from "react"
+import * as THREE from "three"
+
+interface StarmapLinesProps {
+  positions: Float32Array // line-segment vertex pairs
+  color: string
+  opacity?: number
+}
+
+/**
+ * One draw call for a whole set of line segments (all jump routes, or the planned route)
+ */
+export function StarmapLines({ positions, color, opacity = 1 }: StarmapLinesProps) {
+  const geometry = useMemo(() => new THREE.BufferGeometry(), [])
+
+  // Reuse the vertex buffer when the segment count is unchanged (e.g. during layout transitions)
+  useLayoutEffect(() => {
+    const attribute = geometry.getAttribute("position") as THREE.BufferAttribute | undefined
+    if (attribute && attribute.array.length === positions.length) {
+      ;(attribute.array as Float32Array).set(positions)
+      attribute.needsUpdate = true
+    } else {
+      geometry.setAttribute("position", new THREE.BufferAttribute(positions.slice(), 3))
+    }
+    geometry.computeBoundingSphere()
+  }, [geometry, positions])
+
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  if (positions.length === 0) return null
+
+  return (
+    <lineSegments geometry={geometry} raycast={() => null}>
+      <lineBasicMaterial color={color} transparent={opacity < 1} opacity={opacity} />
+    </lineSegments>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useEffect, useMemo, useRef } from "react"
+import * as THREE from "three"
+import type { StarmapNode } from "./starmap-scene"
+
+export const STARMAP_NODE_RADIUS = 0.4
+
+const NODE_COLOR = new THREE.Color("#ffffff")
+const ROUTE_COLOR = new THREE.Color("#ff9900")
+const HOVER_COLOR = new THREE.Color("#ffaa00")
+const MATCH_COLOR = new THREE.Color("#66ddff")
+const DIMMED_COLOR = new THREE.Color("#333344")
+
+interface StarmapNodesProps {
+  nodes: StarmapNode[]
+  hoveredId: string | null
+  routeIds: string[]
+  matchIds?: Set<string> | null // systems matching the active filter; null when not filtering
+}
+
+/**
+ * Every system drawn as one instance of a single sphere mesh. Picking is done on
+ * the GPU by `StarmapPicker`, so the mesh opts out of raycasting.
+ */
+export function StarmapNodes({ nodes, hoveredId, routeIds, matchIds = null }: StarmapNodesProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null)
+  const geometry = useMemo(() => new THREE.SphereGeometry(STARMAP_NODE_RADIUS, 12, 12), [])
+  const material = useMemo(() => new THREE.MeshBasicMaterial(), [])
+
+  useEffect(() => () => {
+    geometry.dispose()
+    material.dispose()
+  }, [geometry, material])
+
+  // Instance transforms only change when the layout does
+  useEffect(() => {
+    const mesh = meshRef.current
+    if (!mesh) return
+    const matrix = new THREE.Matrix4()
+    nodes.forEach((node) => {
+      matrix.makeTranslation(node.position[0], node.position[1], node.position[2])
+      mesh.setMatrixAt(node.index, matrix)
+    })
+    mesh.instanceMatrix.needsUpdate = true
+    mesh.computeBoundingSphere()
+  }, [nodes])
+
+  useEffect(() => {
+    const mesh = meshRef.current
+    if (!mesh) return
+    const onRoute = new Set(routeIds)
+    nodes.forEach((node) => {
+      let color = NODE_COLOR
+      if (node.id === hoveredId) color = HOVER_COLOR
+      else if (onRoute.has(node.id)) color = ROUTE_COLOR
+      else if (matchIds) color = matchIds.has(node.id) ? MATCH_COLOR : DIMMED_COLOR
+      mesh.setColorAt(node.index, color)
+    })
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+  }, [nodes, hoveredId, routeIds, matchIds])
+
+  return (
+    <instancedMesh
+      // Remount when the node count changes; instance buffers have a fixed size
+      key={nodes.length}
+      ref={meshRef}
+      args={[geometry, material, nodes.length]}
+      raycast={() => null}
+      frustumCulled={false}
+    />
+  )
+}
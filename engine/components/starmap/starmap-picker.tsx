@@ -0,0 +1,153 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef } from "react"
+import { useFrame, useThree } from "@react-three/fiber"
+import * as THREE from "three"
+import { encodePickingColor, decodePickingColor, type StarmapNode } from "./starmap-scene"
+
+// Pick targets are a little larger than the drawn nodes so small systems are easy to hit
+const PICK_RADIUS_SCALE = 1.6
+// Pointer travel (px) beyond which a press is treated as a camera drag, not a click
+const CLICK_TOLERANCE = 4
+
+const pickingVertexShader = /* glsl */ `
+  attribute vec3 pickingColor;
+  varying vec3 vPickingColor;
+  void main() {
+    vPickingColor = pickingColor;
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  }
+`
+
+const pickingFragmentShader = /* glsl */ `
+  varying vec3 vPickingColor;
+  void main() {
+    gl_FragColor = vec4(vPickingColor, 1.0);
+  }
+`
+
+interface StarmapPickerProps {
+  nodes: StarmapNode[]
+  nodeRadius: number
+  onHover: (id: string | null) => void
+  onClick: (id: string, event: MouseEvent) => void
+}
+
+/**
+ * GPU picking for the instanced starmap: the nodes are rendered into a 1×1 target
+ * under the cursor with their index encoded as colour, so a pick costs one tiny
+ * draw instead of a raycast against every system.
+ */
+export function StarmapPicker({ nodes, nodeRadius, onHover, onClick }: StarmapPickerProps) {
+  const { gl, camera } = useThree()
+  const pointerRef = useRef<{ x: number; y: number } | null>(null)
+  const pressRef = useRef<{ x: number; y: number } | null>(null)
+  const hoveredRef = useRef<string | null>(null)
+  const handlersRef = useRef({ onHover, onClick })
+  handlersRef.current = { onHover, onClick }
+
+  const { scene, target, pixel } = useMemo(() => {
+    const pickingScene = new THREE.Scene()
+    pickingScene.background = new THREE.Color(0, 0, 0)
+    return {
+      scene: pickingScene,
+      target: new THREE.WebGLRenderTarget(1, 1),
+      pixel: new Uint8Array(4),
+    }
+  }, [])
+
+  // Picking mesh mirrors the node layout with per-instance id colours
+  useEffect(() => {
+    const geometry = new THREE.SphereGeometry(nodeRadius * PICK_RADIUS_SCALE, 8, 8)
+    const colors = new Float32Array(nodes.length * 3)
+    nodes.forEach((node) => colors.set(encodePickingColor(node.index), node.index * 3))
+    geometry.setAttribute("pickingColor", new THREE.InstancedBufferAttribute(colors, 3))
+    const material = new THREE.ShaderMaterial({
+      vertexShader: pickingVertexShader,
+      fragmentShader: pickingFragmentShader,
+    })
+    const mesh = new THREE.InstancedMesh(geometry, material, nodes.length)
+    mesh.frustumCulled = false
+    const matrix = new THREE.Matrix4()
+    nodes.forEach((node) => {
+      matrix.makeTranslation(node.position[0], node.position[1], node.position[2])
+      mesh.setMatrixAt(node.index, matrix)
+    })
+    scene.add(mesh)
+    return () => {
+      scene.remove(mesh)
+      geometry.dispose()
+      material.dispose()
+    }
+  }, [nodes, nodeRadius, scene])
+
+  useEffect(() => () => target.dispose(), [target])
+
+  const pick = useCallback((x: number, y: number): string | null => {
+    const canvas = gl.domElement
+    const dpr = gl.getPixelRatio()
+    const perspective = camera as THREE.PerspectiveCamera
+    perspective.setViewOffset(canvas.width, canvas.height, Math.floor(x * dpr), Math.floor(y * dpr), 1, 1)
+    gl.setRenderTarget(target)
+    gl.render(scene, camera)
+    gl.setRenderTarget(null)
+    perspective.clearViewOffset()
+    gl.readRenderTargetPixels(target, 0, 0, 1, 1, pixel)
+    const index = decodePickingColor(pixel[0], pixel[1], pixel[2])
+    return index === null ? null : nodes[index]?.id ?? null
+  }, [gl, camera, scene, target, pixel, nodes])
+
+  useEffect(() => {
+    const canvas = gl.domElement
+    const toLocal = (event: PointerEvent | MouseEvent) => {
+      const rect = canvas.getBoundingClientRect()
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+    }
+    const handleMove = (event: PointerEvent) => {
+      pointerRef.current = toLocal(event)
+    }
+    const handleLeave = () => {
+      pointerRef.current = null
+      if (hoveredRef.current !== null) {
+        hoveredRef.current = null
+        handlersRef.current.onHover(null)
+      }
+    }
+    const handleDown = (event: PointerEvent) => {
+      pressRef.current = toLocal(event)
+    }
+    const handleClick = (event: MouseEvent) => {
+      const point = toLocal(event)
+      const press = pressRef.current
+      pressRef.current = null
+      if (press && Math.hypot(point.x - press.x, point.y - press.y) > CLICK_TOLERANCE) return
+      const id = pick(point.x, point.y)
+      if (id) handlersRef.current.onClick(id, event)
+    }
+
+    canvas.addEventListener("pointermove", handleMove)
+    canvas.addEventListener("pointerleave", handleLeave)
+    canvas.addEventListener("pointerdown", handleDown)
+    canvas.addEventListener("click", handleClick)
+    return () => {
+      canvas.removeEventListener("pointermove", handleMove)
+      canvas.removeEventListener("pointerleave", handleLeave)
+      canvas.removeEventListener("pointerdown", handleDown)
+      canvas.removeEventListener("click", handleClick)
+    }
+  }, [gl, pick])
+
+  // Hover picks at most once per frame, after the pointer has moved
+  useFrame(() => {
+    const pointer = pointerRef.current
+    if (!pointer) return
+    pointerRef.current = null
+    const id = pick(pointer.x, pointer.y)
+    if (id !== hoveredRef.current) {
+      hoveredRef.current = id
+      handlersRef.current.onHover(id)
+    }
+  })
+
+  return null
+}
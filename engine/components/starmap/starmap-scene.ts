@@ -0,0 +1,151 @@
+import type { StarmapData } from "@/engine/types/orbital-system"
+import { computeHexLayout } from "./starmap-hex-layout"
+
+export type Vec3 = [number, number, number]
+
+// 'hex' is the 2-D schematic; 'spatial' uses the systems' real 3-D positions
+export type StarmapLayout = 'hex' | 'spatial'
+
+/**
+ * A system as placed in the starmap scene. `index` is its instance index in the
+ * node mesh, jump-line buffer and picking buffer.
+ */
+export interface StarmapNode {
+  id: string
+  name: string
+  index: number
+  position: Vec3
+  tags: string[]
+}
+
+export function buildStarmapNodes(starmap: StarmapData, layout: StarmapLayout): StarmapNode[] {
+  const hexLayout = layout === 'hex' ? computeHexLayout(starmap) : null
+  return Object.values(starmap.systems).map((system: any, index) => {
+    const spatial: Vec3 = Array.isArray(system.position) ? [...system.position] as Vec3 : [0, 0, 0]
+    return {
+      id: system.id,
+      name: system.name || system.id,
+      index,
+      position: hexLayout?.get(system.id)?.position ?? spatial,
+      tags: Array.isArray(system.tags) ? system.tags : [],
+    }
+  })
+}
+
+/**
+ * Nodes part-way between two layouts of the same map (t = 0 → `from`, t = 1 → `to`)
+ */
+export function blendStarmapNodes(from: StarmapNode[], to: StarmapNode[], t: number): StarmapNode[] {
+  if (t <= 0) return from
+  if (t >= 1) return to
+  return to.map((node, i) => {
+    const start = from[i]?.position ?? node.position
+    return {
+      ...node,
+      position: [
+        start[0] + (node.position[0] - start[0]) * t,
+        start[1] + (node.position[1] - start[1]) * t,
+        start[2] + (node.position[2] - start[2]) * t,
+      ],
+    }
+  })
+}
+
+/**
+ * All jump routes as one line-segment buffer (two vertices per segment). A route
+ * listed by both of its systems is only drawn once. `include` restricts the buffer
+ * to some routes, e.g. those between systems matching a filter.
+ */
+export function buildJumpLineBuffer(
+  starmap: StarmapData,
+  nodes: StarmapNode[],
+  include?: (fromId: string, toId: string) => boolean
+): Float32Array {
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const segments: number[] = []
+
+  for (const node of nodes) {
+    const routes: unknown = starmap.systems[node.id]?.jump_routes
+    if (!Array.isArray(routes)) continue
+    for (const targetId of routes) {
+      const target = byId.get(targetId)
+      if (!target) continue
+      // Draw each undirected route from its lower-index end only, unless the
+      // other end doesn't list it back
+      const reverseListed = Array.isArray(starmap.systems[targetId]?.jump_routes) &&
+        starmap.systems[targetId].jump_routes.includes(node.id)
+      if (reverseListed && target.index < node.index) continue
+      if (include && !include(node.id, target.id)) continue
+      segments.push(...node.position, ...target.position)
+    }
+  }
+
+  return new Float32Array(segments)
+}
+
+/**
+ * Line-segment buffer for consecutive systems of a route
+ */
+export function buildRouteLineBuffer(route: string[], nodes: StarmapNode[]): Float32Array {
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const segments: number[] = []
+  for (let i = 1; i < route.length; i++) {
+    const from = byId.get(route[i - 1])
+    const to = byId.get(route[i])
+    if (from && to) segments.push(...from.position, ...to.position)
+  }
+  return new Float32Array(segments)
+}
+
+/**
+ * Radius of the sphere around the origin that contains every node
+ */
+export function getStarmapExtent(nodes: StarmapNode[]): number {
+  return nodes.reduce((max, node) => Math.max(max, Math.hypot(...node.position)), 0)
+}
+
+/**
+ * Picking colour for an instance: index + 1 packed into 24-bit RGB, so black
+ * (0) means "nothing under the cursor".
+ */
+export function encodePickingColor(index: number): Vec3 {
+  const id = index + 1
+  return [((id >> 16) & 0xff) / 255, ((id >> 8) & 0xff) / 255, (id & 0xff) / 255]
+}
+
+/**
+ * Instance index from a picked pixel (0–255 per channel), or null for background
+ */
+export function decodePickingColor(r: number, g: number, b: number): number | null {
+  const id = (r << 16) | (g << 8) | b
+  return id === 0 ? null : id - 1
+}
+
+/**
+ * Ids of the systems whose labels should be shown: pinned ones (hovered, on the
+ * route) plus the nearest systems to the camera within `maxDistance`, up to `maxLabels`.
+ */
+export function selectVisibleLabels(
+  nodes: StarmapNode[],
+  cameraPosition: Vec3,
+  maxDistance: number,
+  maxLabels: number,
+  pinnedIds: Iterable<string> = []
+): string[] {
+  const pinned = new Set(pinnedIds)
+  const maxDistanceSq = maxDistance * maxDistance
+  const candidates: { id: string; distanceSq: number }[] = []
+
+  for (const node of nodes) {
+    if (pinned.has(node.id)) continue
+    const dx = node.position[0] - cameraPosition[0]
+    const dy = node.position[1] - cameraPosition[1]
+    const dz = node.position[2] - cameraPosition[2]
+    const distanceSq = dx * dx + dy * dy + dz * dz
+    if (distanceSq <= maxDistanceSq) candidates.push({ id: node.id, distanceSq })
+  }
+
+  candidates.sort((a, b) => a.distanceSq - b.distanceSq)
+  const nearest = candidates.slice(0, Math.max(maxLabels - pinned.size, 0)).map(c => c.id)
+  return [...Array.from(pinned), ...nearest]
+}
@@ -2,9 +2,29 @@
 
 import { useState, useEffect, useMemo, useCallback } from "react"
 import { Canvas } from "@react-three/fiber"
-import { OrbitControls, Html, Preload } from "@react-three/drei"
-import * as THREE from "three"
+import { OrbitControls, Preload } from "@react-three/drei"
 import { engineSystemLoader, type StarmapData } from "@/engine/system-loader"
+import { findRoute, describeRoute, validateRoute, type RouteWeights } from "@/engine/utils/starmap-routing"
+import { RoutePlannerPanel, type RouteOptimisation } from "./route-planner-panel"
+import { StarmapNodes, STARMAP_NODE_RADIUS } from "./starmap-nodes"
+import { StarmapLines } from "./starmap-lines"
+import { StarmapPicker } from "./starmap-picker"
+import { StarmapLabels } from "./starmap-labels"
+import { useLayoutTransition } from "./hooks/use-layout-transition"
+import { useStarmapFilterQuery } from "./hooks/use-starmap-filter-query"
+import { StarmapFilterPanel } from "./starmap-filter-panel"
+import { collectFacets, getMatchingSystemIds } from "./starmap-filter"
+import {
+  buildStarmapNodes,
+  blendStarmapNodes,
+  buildJumpLineBuffer,
+  buildRouteLineBuffer,
+  getStarmapExtent,
+} from "./starmap-scene"
+
+// Entering a system with an avoided tag costs this much extra, so such systems are
+// only used when there is no other way through
+const AVOIDED_TAG_PENALTY = 1000
 
 interface StarmapViewerProps {
   mode: string
@@ -16,13 +36,25 @@ interface StarmapViewerProps {
  */
 export function StarmapViewer({ mode, onSystemSelect }: StarmapViewerProps) {
   const [starmap, setStarmap] = useState<StarmapData | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [view3D, setView3D] = useState(false)
   const [hoveredId, setHoveredId] = useState<string | null>(null)
   const [route, setRoute] = useState<string[]>([])
+  const [routeError, setRouteError] = useState<string | null>(null)
+  const [routeFrom, setRouteFrom] = useState("")
+  const [routeTo, setRouteTo] = useState("")
+  const [optimisation, setOptimisation] = useState<RouteOptimisation>("distance")
+  const [avoidTags, setAvoidTags] = useState<string[]>([])
+  const [avoidSystems, setAvoidSystems] = useState<string[]>([])
+  const [filter, setFilter] = useStarmapFilterQuery()
 
   // Load starmap once
   useEffect(() => {
-    engineSystemLoader.loadStarmap(mode).then((data) => setStarmap(data))
+    setLoadError(null)
+    engineSystemLoader
+      .loadStarmap(mode)
+      .then((data) => setStarmap(data))
+      .catch((error: Error) => setLoadError(error.message))
   }, [mode])
 
   // Memo of systems array
@@ -31,6 +63,37 @@ export function StarmapViewer({ mode, onSystemSelect }: StarmapViewerProps) {
   // Derived map for quick lookup
   const systemMap = useMemo(() => starmap?.systems || {}, [starmap])
 
+  const routeWeights = useMemo<Partial<RouteWeights>>(() => ({
+    ...(optimisation === "jumps" ? { distance: 0, jump: 1 } : { distance: 1, jump: 0 }),
+    tagPenalties: Object.fromEntries(avoidTags.map((tag) => [tag, AVOIDED_TAG_PENALTY])),
+  }), [optimisation, avoidTags])
+
+  // Legs and cumulative costs of the current route, however it was built
+  const routeDetails = useMemo(
+    () => (starmap && route.length > 0 ? describeRoute(route, starmap, routeWeights) : null),
+    [starmap, route, routeWeights]
+  )
+
+  // Recompute the planned route whenever the start, destination or preferences change
+  useEffect(() => {
+    if (!starmap || !routeFrom || !routeTo) return
+    const planned = findRoute(starmap, routeFrom, routeTo, { weights: routeWeights, avoid: avoidSystems })
+    if (planned) {
+      setRoute(planned.systems)
+      setRouteError(null)
+    } else {
+      setRoute([])
+      setRouteError(`No route from ${systemMap[routeFrom]?.name || routeFrom} to ${systemMap[routeTo]?.name || routeTo}`)
+    }
+  }, [starmap, systemMap, routeFrom, routeTo, routeWeights, avoidSystems])
+
+  const clearRoute = useCallback(() => {
+    setRoute([])
+    setRouteError(null)
+    setRouteFrom("")
+    setRouteTo("")
+  }, [])
+
   // Toggle 2d/3d
   const toggleDim = () => setView3D((v) => !v)
 
@@ -38,64 +101,62 @@ export function StarmapViewer({ mode, onSystemSelect }: StarmapViewerProps) {
   const handleSystemClick = useCallback(
     (id: string, event: MouseEvent) => {
       if (event.shiftKey) {
-        setRoute((prev) => {
-          // First entry is always allowed
-          if (prev.length === 0) return [id]
-          const last = prev[prev.length - 1]
-          // Validate adjacency
-          const lastSystem = systemMap[last]
-          if (lastSystem?.jump_routes?.includes(id)) {
-            return [...prev, id]
-          }
-          return prev // ignore invalid
-        })
+        if (!starmap) return
+        // A hand-built route replaces the planned one
+        setRouteFrom("")
+        setRouteTo("")
+        const next = [...route, id]
+        const validation = validateRoute(next, starmap)
+        if (validation.valid) {
+          setRoute(next)
+          setRouteError(null)
+        } else {
+          setRouteError(validation.error || "Invalid route")
+        }
       } else {
         onSystemSelect(id)
       }
     },
-    [onSystemSelect, systemMap]
+    [onSystemSelect, starmap, route]
+  )
+
+  // Both layouts are computed once per map; switching animates between them
+  const hexNodes = useMemo(() => (starmap ? buildStarmapNodes(starmap, "hex") : []), [starmap])
+  const spatialNodes = useMemo(() => (starmap ? buildStarmapNodes(starmap, "spatial") : []), [starmap])
+  const layoutProgress = useLayoutTransition(view3D ? 1 : 0)
+  const nodes = useMemo(
+    () => blendStarmapNodes(hexNodes, spatialNodes, layoutProgress),
+    [hexNodes, spatialNodes, layoutProgress]
+  )
+  // Picking targets the destination layout so its GPU buffers aren't rebuilt every animation frame
+  const pickingNodes = view3D ? spatialNodes : hexNodes
+  const facets = useMemo(() => (starmap ? collectFacets(starmap) : { tags: [], statuses: [] }), [starmap])
+  const matchIds = useMemo(() => (starmap ? getMatchingSystemIds(starmap, filter) : null), [starmap, filter])
+  // While filtering, routes between two matching systems are drawn separately and emphasised
+  const jumpLinePositions = useMemo(
+    () => (starmap
+      ? buildJumpLineBuffer(starmap, nodes, matchIds ? (a, b) => !(matchIds.has(a) && matchIds.has(b)) : undefined)
+      : new Float32Array(0)),
+    [starmap, nodes, matchIds]
+  )
+  const matchedJumpLinePositions = useMemo(
+    () => (starmap && matchIds
+      ? buildJumpLineBuffer(starmap, nodes, (a, b) => matchIds.has(a) && matchIds.has(b))
+      : new Float32Array(0)),
+    [starmap, nodes, matchIds]
+  )
+  const routeLinePositions = useMemo(() => buildRouteLineBuffer(route, nodes), [route, nodes])
+  const extent = useMemo(
+    () => Math.max(getStarmapExtent(hexNodes), getStarmapExtent(spatialNodes), 10),
+    [hexNodes, spatialNodes]
+  )
+  const pinnedLabelIds = useMemo(
+    () => (hoveredId && !route.includes(hoveredId) ? [hoveredId, ...route] : route),
+    [hoveredId, route]
   )
 
-  // Build line segments for all jump routes
-  const jumpLines = useMemo(() => {
-    if (!starmap) return [] as [THREE.Vector3, THREE.Vector3][]
-    const lines: [THREE.Vector3, THREE.Vector3][] = []
-    Object.values(starmap.systems).forEach((sys: any) => {
-      const from = new THREE.Vector3(...sys.position)
-      sys.jump_routes?.forEach((toId: string) => {
-        const toSys = starmap.systems[toId]
-        if (toSys) lines.push([from, new THREE.Vector3(...toSys.position)])
-      })
-    })
-    return lines
-  }, [starmap])
-
-  // Helper component for a single star node
-  const StarNode = ({ sys }: { sys: any }) => {
-    const pos = useMemo(() => {
-      const [x, y, z] = sys.position
-      return view3D ? [x, y, z] : [x, 0, z]
-    }, [sys.position, view3D]) as [number, number, number]
-
-    return (
-      <mesh
-        position={pos}
-        onPointerOver={() => setHoveredId(sys.id)}
-        onPointerOut={() => setHoveredId((id) => (id === sys.id ? null : id))}
-        onClick={(e) => handleSystemClick(sys.id, e.nativeEvent)}
-      >
-        <sphereGeometry args={[0.4, 16, 16]} />
-        <meshBasicMaterial color={hoveredId === sys.id ? "#ffaa00" : "#ffffff"} />
-        {/* Label */}
-        {hoveredId === sys.id && (
-          <Html distanceFactor={8} style={{ pointerEvents: "none" }}>
-            <div className="px-2 py-1 bg-black/70 text-white text-xs rounded">
-              {sys.name}
-            </div>
-          </Html>
-        )}
-      </mesh>
-    )
+  if (loadError) {
+    return <div className="text-red-400 p-4 whitespace-pre-wrap">Could not load starmap: {loadError}</div>
   }
 
   if (!starmap) {
@@ -110,71 +171,48 @@ export function StarmapViewer({ mode, onSystemSelect }: StarmapViewerProps) {
           className="px-3 py-1 bg-gray-800 text-white rounded hover:bg-gray-700"
           onClick={toggleDim}
         >
-          {view3D ? "2-D" : "3-D"}
+          {view3D ? "Hex schematic" : "3-D"}
         </button>
-        {route.length > 0 && (
-          <button
-            className="px-3 py-1 bg-red-700 text-white rounded hover:bg-red-600"
-            onClick={() => setRoute([])}
-          >
-            Clear Route
-          </button>
-        )}
       </div>
 
-      <Canvas camera={{ position: [0, 0, 40], fov: 45 }}>
-        {/* Jump route lines */}
-        {jumpLines.map(([a, b], idx) => (
-          <line key={idx}>
-            <bufferGeometry attach="geometry">
-              {/* @ts-ignore */}
-              <bufferAttribute
-                attach="attributes-position"
-                array={new Float32Array([...a.toArray(), ...b.toArray()])}
-                itemSize={3}
-              />
-            </bufferGeometry>
-            <lineBasicMaterial
-              attach="material"
-              color={"#4444ff"}
-              linewidth={1}
-              opacity={0.5}
-              transparent
-            />
-          </line>
-        ))}
-
-        {/* Route lines */}
-        {route.map((id, index) => {
-          if (index === 0) return null
-          const from = systemMap[route[index - 1]]
-          const to = systemMap[id]
-          if (!from || !to) return null
-          const a = new THREE.Vector3(...from.position)
-          const b = new THREE.Vector3(...to.position)
-          if (!view3D) {
-            a.y = 0
-            b.y = 0
-          }
-          return (
-            <line key={`route-${index}`}>
-              <bufferGeometry attach="geometry">
-                {/* @ts-ignore */}
-                <bufferAttribute
-                  attach="attributes-position"
-                  array={new Float32Array([...a.toArray(), ...b.toArray()])}
-                  itemSize={3}
-                />
-              </bufferGeometry>
-              <lineBasicMaterial color="#ff9900" linewidth={2} />
-            </line>
-          )
-        })}
-
-        {/* Star nodes */}
-        {systems.map((sys: any) => (
-          <StarNode key={sys.id} sys={sys} />
-        ))}
+      <StarmapFilterPanel
+        facets={facets}
+        filter={filter}
+        onFilterChange={setFilter}
+        matchCount={matchIds ? matchIds.size : null}
+        totalCount={systems.length}
+      />
+
+      <RoutePlannerPanel
+        systems={systems.map((sys: any) => ({ id: sys.id, name: sys.name }))}
+        from={routeFrom}
+        to={routeTo}
+        onFromChange={setRouteFrom}
+        onToChange={setRouteTo}
+        optimisation={optimisation}
+        onOptimisationChange={setOptimisation}
+        avoidTags={avoidTags}
+        onAvoidTagsChange={setAvoidTags}
+        avoidSystems={avoidSystems}
+        onAvoidSystemsChange={setAvoidSystems}
+        route={routeDetails}
+        error={routeError}
+        onClear={clearRoute}
+      />
+
+      {/* Start looking down on the map so the hex schematic reads top-down */}
+      <Canvas camera={{ position: [0, Math.max(40, extent * 2), extent * 0.1], fov: 45, far: extent * 10 }}>
+        <StarmapLines positions={jumpLinePositions} color="#4444ff" opacity={matchIds ? 0.15 : 0.5} />
+        <StarmapLines positions={matchedJumpLinePositions} color="#66ddff" opacity={0.9} />
+        <StarmapLines positions={routeLinePositions} color="#ff9900" />
+        <StarmapNodes nodes={nodes} hoveredId={hoveredId} routeIds={route} matchIds={matchIds} />
+        <StarmapPicker
+          nodes={pickingNodes}
+          nodeRadius={STARMAP_NODE_RADIUS}
+          onHover={setHoveredId}
+          onClick={handleSystemClick}
+        />
+        <StarmapLabels nodes={nodes} pinnedIds={pinnedLabelIds} maxDistance={extent * 0.6} />
 
         <OrbitControls makeDefault enablePan enableRotate enableZoom />
         <Preload all />
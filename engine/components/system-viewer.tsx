@@ -10,16 +10,37 @@ import { UnifiedCameraController, type UnifiedCameraControllerRef } from "./syst
 import { SystemObjectsRenderer } from "./system-viewer/system-objects-renderer"
 import { LoadingState, ErrorState } from "./system-viewer/loading-states"
 import { StarfieldSkybox } from "./skybox/starfield-skybox"
+import { CatalogStarfield } from "./skybox/catalog-starfield"
 import { useSystemData } from "./system-viewer/hooks/use-system-data"
 import { useObjectSelection } from "./system-viewer/hooks/use-object-selection"
+import { useStarCatalog } from "./system-viewer/hooks/use-star-catalog"
 import { BackButton } from "./system-viewer/components/back-button"
+import { SystemTimeline } from "./system-viewer/components/system-timeline"
+import { TransferPlannerPanel } from "./system-viewer/components/transfer-planner-panel"
+import { LocalSystemImport } from "./system-viewer/components/local-system-import"
+import { SystemEditorPanel } from "./system-viewer/components/system-editor-panel"
+import { OrbitDragHandle } from "./system-viewer/components/orbit-drag-handle"
 import { SystemBreadcrumb } from "./system-viewer/system-breadcrumb"
 import { Sidebar } from "./sidebar/sidebar"
+import type { SkyMode } from "./sidebar/sky-controls"
 import { ObjectDetailsPanel } from "./system-viewer/object-details-panel"
 import { SceneLighting } from "./system-viewer/components/scene-lighting"
 import { ZoomTracker } from "./system-viewer/components/zoom-tracker"
-import { isPlanet } from "../types/orbital-system"
+import { SimulationClockDriver } from "./system-viewer/components/simulation-clock-driver"
+import { SimulationClock, SECONDS_PER_DAY, type SimulationTime } from "../ephemeris"
+import { useSimulationClock } from "./system-viewer/hooks/use-simulation-clock"
+import { useTransferPlan, useTransferArc, transferCandidates } from "../hooks/use-transfer-plan"
+import type { ViewerState } from "./system-viewer/viewer-state"
+import { isOrbitData, isPlanet, type CelestialObject, type OrbitalSystemData } from "../types/orbital-system"
 import { calculateSystemOrbitalMechanics } from "../utils/orbital-mechanics-calculator"
+import { collectTimelineEvents, type SystemTimelineEvent } from "../utils/timeline"
+import { engineSystemLoader } from "../system-loader"
+import { useUniverse } from "../hooks/use-universe"
+import { useLocalSystems } from "../hooks/use-local-systems"
+import { useSystemEditor } from "../hooks/use-system-editor"
+import { dragOrbitTo, reparentObject } from "../editor/system-editor"
+import { localSystemStore } from "../local-systems/local-system-store"
+import { universeHasFeature } from "../universes/manifest"
 
 // Add JSX namespace declaration
 declare global {
@@ -30,20 +51,30 @@ declare global {
   }
 }
 
+const NO_OBJECTS: CelestialObject[] = []
+
+// How long a restored state waits for its focused object to appear in the scene
+const RESTORE_FOCUS_TIMEOUT_MS = 5000
+
 interface SystemViewerProps {
   mode: string
   systemId: string
   onFocus?: (object: THREE.Object3D, name: string) => void
   onSystemChange?: (systemId: string) => void
+  requestedState?: ViewerState // from a shared link or the browser history; applied whenever a new one is passed
+  onStateChange?: (state: ViewerState) => void
 }
 
 // Create context for system viewer state
 interface SystemViewerContextType {
   timeMultiplier: number
   isPaused: boolean
+  simulationClock: SimulationClock
+  simulationTime: SimulationTime
   viewType: ViewType
   currentZoom: number
   setTimeMultiplier: (multiplier: number) => void
+  setSimulationTime: (time: SimulationTime) => void
   togglePause: () => void
   setViewType: (type: ViewType) => void
   setCurrentZoom: (zoom: number) => void
@@ -60,9 +91,7 @@ export function useSystemViewer() {
   return context
 }
 
-export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: SystemViewerProps) {
-  const [timeMultiplier, setTimeMultiplier] = useState(0.1)
-  const [isPaused, setIsPaused] = useState(false)
+export function SystemViewer({ mode, systemId, onFocus, onSystemChange, requestedState, onStateChange }: SystemViewerProps) {
   // Initialize viewType - app mode is separate from view mode
   // The "realistic" and "star-citizen" are app modes, not view modes
   // View modes are only: explorational, navigational, profile, scientific
@@ -72,24 +101,51 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
   const [isSystemSelected, setIsSystemSelected] = useState(false)
   const [cameraOrbitRadius, setCameraOrbitRadius] = useState<number>(0)
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [travelError, setTravelError] = useState<string | null>(null)
+  const [skyMode, setSkyMode] = useState<SkyMode>("procedural")
+  const [showConstellations, setShowConstellations] = useState(false)
+  const [showGravitationalDomains, setShowGravitationalDomains] = useState(false)
+  const [showTransferPlanner, setShowTransferPlanner] = useState(false)
+  const [transferFrom, setTransferFrom] = useState("")
+  const [transferTo, setTransferTo] = useState("")
+  const [transferBiElliptic, setTransferBiElliptic] = useState(false)
+  const [transferApoapsisRatio, setTransferApoapsisRatio] = useState(2)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isDraggingOrbit, setIsDraggingOrbit] = useState(false)
+
+  // One simulation clock per viewer; every orbiting body reads its time from it.
+  // It starts at the current date, running at 0.1 days per second.
+  const [simulationClock] = useState(() => new SimulationClock({
+    startTime: Date.now(),
+    rate: 0.1 * SECONDS_PER_DAY,
+  }))
+
+  // Time multiplier, pause state and calendar date are all driven by the clock
+  const {
+    simulationTime,
+    timeMultiplier,
+    isReversed,
+    isPaused,
+    setSimulationTime,
+    setTimeMultiplier,
+    toggleReverse,
+    setPaused,
+    togglePause,
+  } = useSimulationClock(simulationClock)
 
   // Handle time multiplier change
   const handleTimeMultiplierChange = useCallback((multiplier: number) => {
     setTimeMultiplier(multiplier)
-  }, [])
-  // Handle pause toggle
-  const togglePause = useCallback(() => {
-    setIsPaused(prev => !prev)
-  }, [])
+  }, [setTimeMultiplier])
 
   // Explicit pause and unpause functions for object selection
   const pauseSimulation = useCallback(() => {
-    setIsPaused(true)
-  }, [])
+    setPaused(true)
+  }, [setPaused])
 
   const unpauseSimulation = useCallback(() => {
-    setIsPaused(false)
-  }, [])
+    setPaused(false)
+  }, [setPaused])
 
   // Handle profile view time controls
   useEffect(() => {
@@ -99,7 +155,50 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
   }, [viewType, pauseSimulation])
 
   // Load system data
-  const { systemData, loading, error, loadingProgress, availableSystems } = useSystemData(mode, systemId)
+  const { systemData: loadedSystemData, loading, error, loadingProgress, availableSystems } = useSystemData(mode, systemId)
+
+  // While editing, the scene shows the editor's copy; edits start over when another system opens
+  const systemEditor = useSystemEditor(loadedSystemData)
+  const systemData = isEditing && systemEditor.system ? systemEditor.system : loadedSystemData
+
+  // Optional controls are turned on per universe by its manifest
+  const { universe } = useUniverse(mode)
+  const catalogSkyEnabled = universeHasFeature(universe, "catalog-sky")
+  const jumpTravelEnabled = universeHasFeature(universe, "jump-travel")
+  const transferPlannerEnabled = universeHasFeature(universe, "transfer-planner")
+  const transferPlannerOpen = showTransferPlanner && transferPlannerEnabled
+  const catalogSkyShown = skyMode === "catalog" && catalogSkyEnabled
+
+  // Systems imported from the user's own files
+  const localSystems = useLocalSystems(mode)
+  const handleRemoveLocalSystem = useCallback((localSystemId: string) => {
+    localSystemStore.remove(mode, localSystemId)
+  }, [mode])
+
+  // Transfer between the two bodies picked in the planner
+  const transferBodies = useMemo(() => systemData ? transferCandidates(systemData.objects) : [], [systemData])
+  const transferRequest = useMemo(() => ({
+    fromId: transferPlannerOpen ? transferFrom : "",
+    toId: transferPlannerOpen ? transferTo : "",
+    biElliptic: transferBiElliptic,
+    apoapsisRatio: transferApoapsisRatio,
+  }), [transferPlannerOpen, transferFrom, transferTo, transferBiElliptic, transferApoapsisRatio])
+  const transferPlan = useTransferPlan(systemData?.objects ?? NO_OBJECTS, transferRequest, simulationTime)
+  const transferArc = useTransferArc(transferPlan)
+
+  const handleTransferFromChange = useCallback((id: string) => {
+    setTransferFrom(id)
+    setTransferTo("")
+  }, [])
+
+  // Selections belong to the system they were made in
+  useEffect(() => {
+    setTransferFrom("")
+    setTransferTo("")
+  }, [systemId])
+
+  // Real-sky catalog, fetched the first time the catalog sky is chosen
+  const { catalog: starCatalog, observerPosition } = useStarCatalog(mode, systemId, catalogSkyShown)
 
   // Create ref for object map
   const objectRefsMap = useRef<Map<string, THREE.Object3D>>(new Map())
@@ -139,6 +238,11 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
   } = useObjectSelection(systemData, viewType, setTimeMultiplier, pauseSimulation, unpauseSimulation, isPaused)
 
 
+  // State asked for by requestedState, held until its object is focused and framed
+  const pendingStateRef = useRef<ViewerState | null>(null)
+  const restoreFocusIssuedRef = useRef(false)
+  const restoreFocusRef = useRef<(objectId: string) => void>(() => {})
+
   // Get focused object properties for unified camera controller
   const focusedObjectProperties = useMemo(() => {
     if (!selectedObjectData || !focusedName) return null
@@ -212,13 +316,16 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
   const contextValue = useMemo(() => ({
     timeMultiplier,
     isPaused,
+    simulationClock,
+    simulationTime,
     viewType,
     currentZoom,
     setTimeMultiplier,
+    setSimulationTime,
     togglePause,
     setViewType,
     setCurrentZoom
-  }), [timeMultiplier, isPaused, viewType, currentZoom, setTimeMultiplier, togglePause, setViewType, setCurrentZoom])
+  }), [timeMultiplier, isPaused, simulationClock, simulationTime, viewType, currentZoom, setTimeMultiplier, setSimulationTime, togglePause, setViewType, setCurrentZoom])
 
   // Memoize callbacks
   const handleObjectHoverCallback = useCallback((objectId: string | null) => 
@@ -230,6 +337,10 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
   const registerRefCallback = useCallback((id: string, ref: THREE.Object3D | null) => {
     if (ref) {
       objectRefsMap.current.set(id, ref)
+      // A restored focus waits for its object to reach the scene
+      if (pendingStateRef.current?.objectId === id && !restoreFocusIssuedRef.current) {
+        restoreFocusRef.current(id)
+      }
     } else {
       objectRefsMap.current.delete(id)
     }
@@ -247,7 +358,9 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
     dampingFactor: 0.05,
     rotateSpeed: 0.5,
     zoomSpeed: 0.8,
-  }), [viewType])
+    // The camera holds still while an orbit is dragged
+    enabled: !isDraggingOrbit,
+  }), [viewType, isDraggingOrbit])
 
   // Memoize SystemObjectsRenderer props
   const systemObjectsProps = useMemo(() => {
@@ -259,13 +372,17 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
       selectedObjectId,
       timeMultiplier,
       isPaused,
+      showGravitationalDomains,
+      transferArc,
     }
   }, [
     systemData,
     viewType,
     selectedObjectId,
     timeMultiplier,
-    isPaused
+    isPaused,
+    showGravitationalDomains,
+    transferArc
   ])
 
   // Handle system name click in breadcrumb - show birds-eye view and select system
@@ -298,6 +415,105 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
     handleObjectSelect(objectId, object, name) // Call the original handler
   }, [handleObjectSelect, setCameraOrbitRadius])
 
+  // Timeline events from every object in the system, oldest first
+  const timelineEvents = useMemo(
+    () => (systemData ? collectTimelineEvents(systemData) : []),
+    [systemData]
+  )
+
+  // Focus and select an object by ID, as the breadcrumb does; false if it isn't in the scene
+  const focusObjectById = useCallback((objectId: string) => {
+    if (!systemData) return false
+    const object = objectRefsMap.current.get(objectId)
+    const objectData = systemData.objects.find(obj => obj.id === objectId)
+    if (!object || !objectData) return false
+
+    const visualSize = getObjectSizing(objectId).visualSize
+    enhancedObjectFocus(object, objectData.name, visualSize, objectData.properties?.radius)
+    wrappedHandleObjectSelect(objectId, object, objectData.name)
+    return true
+  }, [systemData, getObjectSizing, enhancedObjectFocus, wrappedHandleObjectSelect])
+
+  // Jump the clock to an event's date and focus the object it belongs to
+  const handleTimelineEventSelect = useCallback((event: SystemTimelineEvent) => {
+    setSimulationTime(event.time)
+    if (event.objectId) focusObjectById(event.objectId)
+  }, [setSimulationTime, focusObjectById])
+
+  // The camera pose and pause state of a restored state go last: focusing
+  // reframes the camera and pauses the clock until the framing is done
+  const finishRestore = useCallback(() => {
+    const pending = pendingStateRef.current
+    if (!pending) return
+    pendingStateRef.current = null
+    restoreFocusIssuedRef.current = false
+
+    if (pending.camera) cameraControllerRef.current?.setCameraPose(pending.camera)
+    if (pending.paused !== undefined) setPaused(pending.paused)
+  }, [setPaused])
+
+  restoreFocusRef.current = (objectId: string) => {
+    if (focusObjectById(objectId)) restoreFocusIssuedRef.current = true
+  }
+
+  const handleCameraAnimationComplete = useCallback(() => {
+    handleAnimationComplete()
+    if (restoreFocusIssuedRef.current) finishRestore()
+  }, [handleAnimationComplete, finishRestore])
+
+  // Move to each new requested state once its system has loaded
+  const appliedStateRef = useRef<ViewerState | undefined>(undefined)
+  useEffect(() => {
+    if (!requestedState || requestedState === appliedStateRef.current) return
+    if (loading || !systemData || (requestedState.systemId && requestedState.systemId !== systemId)) return
+    appliedStateRef.current = requestedState
+    pendingStateRef.current = requestedState
+    restoreFocusIssuedRef.current = false
+
+    if (requestedState.viewType) setViewTypeState(requestedState.viewType)
+    if (requestedState.time !== undefined) setSimulationTime(requestedState.time)
+    if (requestedState.rate !== undefined) simulationClock.setRate(requestedState.rate * SECONDS_PER_DAY)
+
+    const { objectId } = requestedState
+    if (objectId && systemData.objects.some(obj => obj.id === objectId)) {
+      // Already focused, or not in the scene yet (registerRefCallback picks it up)
+      if (objectId === selectedObjectId && focusedObject) {
+        finishRestore()
+      } else {
+        restoreFocusRef.current(objectId)
+        // Don't hold the rest of the state back forever for an object that never appears
+        setTimeout(() => {
+          if (pendingStateRef.current === requestedState) finishRestore()
+        }, RESTORE_FOCUS_TIMEOUT_MS)
+      }
+    } else {
+      handleStopFollowing()
+      finishRestore()
+    }
+  }, [requestedState, loading, systemData, systemId, selectedObjectId, focusedObject, simulationClock, setSimulationTime, handleStopFollowing, finishRestore])
+
+  // Report the viewer's state, except while a requested one is still being restored
+  const reportState = useCallback(() => {
+    if (!onStateChange || loading || !systemData || pendingStateRef.current) return
+    const focusedId = focusedObject && selectedObjectId && systemData.objects.some(obj => obj.id === selectedObjectId)
+      ? selectedObjectId
+      : undefined
+
+    onStateChange({
+      systemId,
+      objectId: focusedId,
+      viewType,
+      time: simulationTime,
+      rate: isReversed ? -timeMultiplier : timeMultiplier,
+      paused: isPaused,
+      camera: cameraControllerRef.current?.getCameraPose() ?? undefined,
+    })
+  }, [onStateChange, loading, systemData, focusedObject, selectedObjectId, systemId, viewType, simulationTime, isReversed, timeMultiplier, isPaused])
+
+  useEffect(() => {
+    reportState()
+  }, [reportState])
+
   // Handle system change
   const handleSystemChange = useCallback((newSystemId: string) => {
     if (!newSystemId || typeof newSystemId !== "string") {
@@ -314,6 +530,42 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
     }
   }, [onSystemChange])
 
+  // System editor: orbit drags and breadcrumb drops are undoable edits like the panel's
+  const { apply: applySystemEdit } = systemEditor
+  const handleOrbitDrop = useCallback((objectId: string, orbitDistance: number) => {
+    applySystemEdit(system => dragOrbitTo(system, objectId, orbitDistance, viewType))
+  }, [applySystemEdit, viewType])
+  const handleReparent = useCallback((objectId: string, parentId: string) => {
+    applySystemEdit(system => reparentObject(system, objectId, parentId))
+  }, [applySystemEdit])
+  const handleSaveLocal = useCallback((system: OrbitalSystemData) => {
+    handleSystemChange(localSystemStore.save(mode, system))
+  }, [mode, handleSystemChange])
+
+  const selectedOrbit = isEditing && viewType !== "profile"
+    ? systemData?.objects.find(obj => obj.id === selectedObjectId)?.orbit
+    : undefined
+  const selectedOrbitDistance = selectedObjectId ? orbitalMechanics.get(selectedObjectId)?.orbitDistance : undefined
+
+  // Travel through a jump point - load the destination first so a missing system doesn't strand the user
+  const handleJumpPointTravel = useCallback(async (destinationId: string) => {
+    setTravelError(null)
+    console.log(`🌀 Travelling to destination system: ${destinationId}`)
+
+    const destination = await engineSystemLoader.loadSystem(mode, destinationId)
+    if (!destination) {
+      setTravelError(`Destination system "${destinationId}" could not be loaded`)
+      return
+    }
+
+    handleSystemChange(destinationId)
+  }, [mode, handleSystemChange])
+
+  // A travel error only applies to the jump point it came from
+  useEffect(() => {
+    setTravelError(null)
+  }, [selectedObjectId, systemId])
+
   if (loading) {
     return <LoadingState systemId={systemId} loadingProgress={loadingProgress} />
   }
@@ -345,6 +597,7 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
           }}
           onSystemNameClick={handleSystemNameClick}
           getObjectSizing={getObjectSizing}
+          onReparent={isEditing ? handleReparent : undefined}
         />
 
         {/* Object Details Panel */}
@@ -356,6 +609,8 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
           cameraOrbitRadius={cameraOrbitRadius}
           selectedObjectId={selectedObjectId}
           selectedObjectData={selectedObjectData}
+          onTravelToSystem={onSystemChange && jumpTravelEnabled ? handleJumpPointTravel : undefined}
+          travelError={travelError}
         />
 
         {/* Canvas */}
@@ -365,6 +620,9 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
           onPointerMissed={handleCanvasClick}
         >
           <Suspense fallback={null}>
+            {/* Advances the shared simulation clock once per frame */}
+            <SimulationClockDriver clock={simulationClock} />
+
             {/* Zoom tracker */}
             <ZoomTracker onZoomChange={setCurrentZoom} />
 
@@ -383,16 +641,17 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
               isPaused={isPaused}
               systemData={systemData}
               objectRefsMap={objectRefsMap}
-              onAnimationComplete={handleAnimationComplete}
+              onAnimationComplete={handleCameraAnimationComplete}
             />
 
             {/* OrbitControls with improved settings */}
-            <OrbitControls {...orbitControlsProps} />
+            <OrbitControls {...orbitControlsProps} onEnd={reportState} />
 
             {/* System objects */}
             {systemObjectsProps && (
               <SystemObjectsRenderer
                 {...systemObjectsProps}
+                simulationClock={simulationClock}
                 objectRefsMap={objectRefsMap}
                 onObjectHover={handleObjectHoverCallback}
                 onObjectSelect={wrappedHandleObjectSelect}
@@ -401,11 +660,31 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
               />
             )}
 
-            {/* Scene lighting */}
-            <SceneLighting systemData={systemData} viewType={viewType} />
+            {/* Drag handle on the orbit being edited */}
+            {selectedObjectId && selectedOrbit && isOrbitData(selectedOrbit) && selectedOrbitDistance && (
+              <OrbitDragHandle
+                parentId={selectedOrbit.parent}
+                orbitDistance={selectedOrbitDistance}
+                objectRefsMap={objectRefsMap}
+                onDraggingChange={setIsDraggingOrbit}
+                onDrop={(orbitDistance) => handleOrbitDrop(selectedObjectId, orbitDistance)}
+              />
+            )}
 
-            {/* Starfield skybox with nebula effects */}
-            <StarfieldSkybox nebulaIntensity={0.6} nebulaParallax={0.8} />
+            {/* Scene lighting */}
+            <SceneLighting systemData={systemData} viewType={viewType} objectRefsMap={objectRefsMap} />
+
+            {/* Real sky from the star catalog, or the procedural starfield with nebula effects */}
+            {catalogSkyShown && starCatalog ? (
+              <CatalogStarfield
+                catalog={starCatalog}
+                observerPosition={observerPosition}
+                excludeSystemId={systemId}
+                showConstellations={showConstellations}
+              />
+            ) : (
+              <StarfieldSkybox nebulaIntensity={0.6} nebulaParallax={0.8} />
+            )}
 
             <Preload all />
           </Suspense>
@@ -418,6 +697,53 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
             <BackButton onClick={handleBackButtonClick} />
           )}
 
+          {/* Dropped or pasted system files open as local systems */}
+          {onSystemChange && (
+            <LocalSystemImport mode={mode} onImported={handleSystemChange} />
+          )}
+
+          {/* System timeline */}
+          <div className="pointer-events-auto">
+            <SystemTimeline
+              events={timelineEvents}
+              simulationTime={simulationTime}
+              onTimeChange={setSimulationTime}
+              onEventSelect={handleTimelineEventSelect}
+              selectedObjectId={selectedObjectId}
+            />
+          </div>
+
+          {/* Transfer planner */}
+          {transferPlannerOpen && (
+            <div className="pointer-events-auto">
+              <TransferPlannerPanel
+                bodies={transferBodies}
+                from={transferFrom}
+                to={transferTo}
+                onFromChange={handleTransferFromChange}
+                onToChange={setTransferTo}
+                biElliptic={transferBiElliptic}
+                onBiEllipticChange={setTransferBiElliptic}
+                apoapsisRatio={transferApoapsisRatio}
+                onApoapsisRatioChange={setTransferApoapsisRatio}
+                plan={transferPlan.plan}
+                error={transferPlan.error}
+                simulationTime={simulationTime}
+                onClose={() => setShowTransferPlanner(false)}
+              />
+            </div>
+          )}
+
+          {/* System editor */}
+          {isEditing && (
+            <SystemEditorPanel
+              editor={systemEditor}
+              selectedObjectId={selectedObjectId}
+              onSaveLocal={onSystemChange ? handleSaveLocal : undefined}
+              onClose={() => setIsEditing(false)}
+            />
+          )}
+
           {/* Sidebar */}
           <div className="pointer-events-auto">
             <Sidebar
@@ -427,17 +753,33 @@ export function SystemViewer({ mode, systemId, onFocus, onSystemChange }: System
               currentViewType={viewType}
               currentTimeMultiplier={timeMultiplier}
               isPaused={isPaused}
+              simulationTime={simulationTime}
+              onSimulationTimeChange={setSimulationTime}
+              isTimeReversed={isReversed}
+              onReverseToggle={toggleReverse}
               currentZoom={currentZoom}
               systemData={systemData}
               availableSystems={availableSystems}
               currentSystem={systemId}
               onSystemChange={onSystemChange || (() => {})}
+              localSystems={localSystems}
+              onRemoveLocalSystem={handleRemoveLocalSystem}
               focusedName={focusedName || ""}
               focusedObjectSize={focusedObjectSize}
               onStopFollowing={handleStopFollowing}
               error={error}
               loadingProgress={loadingProgress}
-              mode={mode as "realistic" | "star-citizen"}
+              title={universe?.theme?.sidebar_title}
+              skyMode={skyMode}
+              onSkyModeChange={catalogSkyEnabled ? setSkyMode : undefined}
+              showConstellations={showConstellations}
+              onShowConstellationsChange={setShowConstellations}
+              showGravitationalDomains={showGravitationalDomains}
+              onShowGravitationalDomainsChange={setShowGravitationalDomains}
+              showTransferPlanner={transferPlannerOpen}
+              onShowTransferPlannerChange={transferPlannerEnabled ? setShowTransferPlanner : undefined}
+              isEditingSystem={isEditing}
+              onEditingSystemChange={setIsEditing}
             />
           </div>
         </div>
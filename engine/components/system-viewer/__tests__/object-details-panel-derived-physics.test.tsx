@@ -0,0 +1,58 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { ObjectDetailsPanel } from '../object-details-panel'
+import type { OrbitalSystemData, CelestialObject } from '@/engine/types/orbital-system'
+
+const createSystem = (planet: CelestialObject): OrbitalSystemData => ({
+  id: 'sol',
+  name: 'Sol',
+  description: 'Test system',
+  objects: [
+    {
+      id: 'sol-star',
+      name: 'Sol',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778, luminosity: 1 },
+      position: [0, 0, 0],
+    },
+    planet,
+  ],
+  lighting: { primary_star: 'sol-star', ambient_level: 0.1, stellar_influence_radius: 100 },
+})
+
+const mercury = (properties: Record<string, number> = {}): CelestialObject => ({
+  id: 'mercury',
+  name: 'Mercury',
+  classification: 'planet',
+  geometry_type: 'rocky',
+  properties: { mass: 0.055, radius: 2439.7, temperature: 440, ...properties },
+  orbit: { parent: 'sol-star', semi_major_axis: 0.387, eccentricity: 0.2056, inclination: 7, orbital_period: 88 },
+})
+
+const openDerivedPhysics = (planet: CelestialObject) => {
+  render(
+    <ObjectDetailsPanel systemData={createSystem(planet)} focusedName={planet.name} focusedObjectSize={1} selectedObjectId={planet.id} />
+  )
+  fireEvent.click(screen.getByRole('button', { name: /Derived Physics/ }))
+}
+
+describe('ObjectDetailsPanel - derived physics', () => {
+  it('shows values derived from mass, radius and orbit', () => {
+    openDerivedPhysics(mercury())
+
+    expect(screen.getByText('0.3756 g')).toBeInTheDocument()
+    expect(screen.getByText('4.239 km/s')).toBeInTheDocument()
+    expect(screen.getByText('Hill Sphere:')).toBeInTheDocument()
+    expect(screen.queryByText(/Data says/)).not.toBeInTheDocument()
+  })
+
+  it('flags hand-entered values that disagree', () => {
+    openDerivedPhysics(mercury({ gravity: 1, escape_velocity: 11.186 }))
+
+    expect(screen.getByLabelText('Data disagrees with derived values')).toBeInTheDocument()
+    expect(screen.getByText('Data says 1 g')).toBeInTheDocument()
+    expect(screen.getByText('Data says 11.19 km/s')).toBeInTheDocument()
+  })
+})
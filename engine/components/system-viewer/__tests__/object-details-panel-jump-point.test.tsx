@@ -0,0 +1,91 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { ObjectDetailsPanel } from '../object-details-panel'
+import type { OrbitalSystemData, CelestialObject } from '@/engine/types/orbital-system'
+
+const createJumpPoint = (overrides: Partial<CelestialObject> = {}): CelestialObject => ({
+  id: 'stanton-pyro-jump',
+  name: 'Stanton-Pyro Jump Point',
+  classification: 'jump_point',
+  geometry_type: 'jump_point',
+  destination: 'pyro',
+  properties: { mass: 0, radius: 5 },
+  orbit: {
+    parent: 'stanton-star',
+    semi_major_axis: 2.9,
+    eccentricity: 0,
+    inclination: 0,
+    orbital_period: 1806,
+  },
+  ...overrides,
+})
+
+const createSystem = (jumpPoint: CelestialObject): OrbitalSystemData => ({
+  id: 'stanton',
+  name: 'Stanton',
+  description: 'Test system',
+  objects: [
+    {
+      id: 'stanton-star',
+      name: 'Stanton',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+    jumpPoint,
+  ],
+  lighting: { primary_star: 'stanton-star', ambient_level: 0.1, stellar_influence_radius: 100 },
+})
+
+describe('ObjectDetailsPanel - jump points', () => {
+  it('shows the destination and travels there when asked', () => {
+    const onTravelToSystem = vi.fn()
+    const jumpPoint = createJumpPoint()
+    render(
+      <ObjectDetailsPanel
+        systemData={createSystem(jumpPoint)}
+        focusedName={jumpPoint.name}
+        focusedObjectSize={1}
+        selectedObjectId={jumpPoint.id}
+        onTravelToSystem={onTravelToSystem}
+      />
+    )
+
+    expect(screen.getByText('Jump Point')).toBeInTheDocument()
+    expect(screen.getByText('pyro')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Travel to destination system' }))
+    expect(onTravelToSystem).toHaveBeenCalledWith('pyro')
+  })
+
+  it('does not offer travel through an inactive jump point', () => {
+    const jumpPoint = createJumpPoint({ properties: { mass: 0, radius: 5, jump_status: 'inactive' } })
+    render(
+      <ObjectDetailsPanel
+        systemData={createSystem(jumpPoint)}
+        focusedName={jumpPoint.name}
+        focusedObjectSize={1}
+        onTravelToSystem={vi.fn()}
+      />
+    )
+
+    expect(screen.getByRole('button', { name: 'Travel to destination system' })).toBeDisabled()
+  })
+
+  it('shows travel errors', () => {
+    const jumpPoint = createJumpPoint()
+    render(
+      <ObjectDetailsPanel
+        systemData={createSystem(jumpPoint)}
+        focusedName={jumpPoint.name}
+        focusedObjectSize={1}
+        onTravelToSystem={vi.fn()}
+        travelError='Destination system "pyro" could not be loaded'
+      />
+    )
+
+    expect(screen.getByText('Destination system "pyro" could not be loaded')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,66 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { ObjectDetailsPanel } from '../object-details-panel'
+import type { OrbitalSystemData } from '@/engine/types/orbital-system'
+
+const system: OrbitalSystemData = {
+  id: 'sol',
+  name: 'Sol',
+  description: 'Test system',
+  objects: [
+    {
+      id: 'sol-star',
+      name: 'Sol',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778, luminosity: 1 },
+      position: [0, 0, 0],
+    },
+    {
+      id: 'earth',
+      name: 'Earth',
+      classification: 'planet',
+      geometry_type: 'terrestrial',
+      properties: { mass: 1, radius: 6371, temperature: 288 },
+      orbit: { parent: 'sol-star', semi_major_axis: 1, eccentricity: 0.0167, inclination: 0, orbital_period: 365.25 },
+    },
+  ],
+  lighting: { primary_star: 'sol-star', ambient_level: 0.1, stellar_influence_radius: 100 },
+}
+
+const renderProperties = (objectId: string) => {
+  const object = system.objects.find(obj => obj.id === objectId)!
+  const result = render(
+    <ObjectDetailsPanel systemData={system} focusedName={object.name} focusedObjectSize={1} selectedObjectId={objectId} />
+  )
+  fireEvent.click(screen.getByRole('button', { name: /Properties/ }))
+  return result
+}
+
+describe('ObjectDetailsPanel - property units', () => {
+  it('shows mass and radius in their declared units', () => {
+    renderProperties('earth')
+
+    expect(screen.getByLabelText('Mass unit')).toHaveValue('M⊕')
+    expect(screen.getByLabelText('Radius unit')).toHaveValue('km')
+    expect(screen.getByText('6,371')).toBeInTheDocument()
+  })
+
+  it('uses solar masses for stars and shows luminosity', () => {
+    renderProperties('sol-star')
+
+    expect(screen.getByLabelText('Mass unit')).toHaveValue('M☉')
+    expect(screen.getByText('1 L☉')).toBeInTheDocument()
+  })
+
+  it('converts to the selected units', () => {
+    renderProperties('sol-star')
+
+    fireEvent.change(screen.getByLabelText('Radius unit'), { target: { value: 'R⊕' } })
+    expect(screen.getByText('109.2')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Mass unit'), { target: { value: 'kg' } })
+    expect(screen.getByText('1.988e30')).toBeInTheDocument()
+  })
+})
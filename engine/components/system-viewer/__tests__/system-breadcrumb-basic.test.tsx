@@ -1,5 +1,6 @@
 import React from 'react'
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
 import { SystemBreadcrumb } from '../system-breadcrumb'
 import type * as THREE from 'three'
 
@@ -55,4 +56,44 @@ describe('SystemBreadcrumb Component', () => {
     // Check that the main breadcrumb container is present
     expect(container.querySelector('.fixed.top-6')).toBeInTheDocument()
   })
+
+  describe('re-parenting while editing', () => {
+    const orbit = (parent: string) => ({ parent, semi_major_axis: 1, eccentricity: 0, inclination: 0, orbital_period: 365 })
+    const systemWithMoons = {
+      ...mockSystemData,
+      objects: [
+        ...mockSystemData.objects,
+        { id: 'planet-a', name: 'Planet A', classification: 'planet' as const, geometry_type: 'rocky' as const, properties: { radius: 6000, mass: 1, temperature: 288 }, orbit: orbit('star-1') },
+        { id: 'planet-b', name: 'Planet B', classification: 'planet' as const, geometry_type: 'rocky' as const, properties: { radius: 6000, mass: 1, temperature: 288 }, orbit: orbit('star-1') },
+        { id: 'moon-a', name: 'Moon A', classification: 'moon' as const, geometry_type: 'rocky' as const, properties: { radius: 1000, mass: 0.01, temperature: 200 }, orbit: orbit('planet-a') },
+      ]
+    }
+
+    // Enough of a DataTransfer for the breadcrumb's handlers
+    const dataTransfer = () => {
+      const data = new Map<string, string>()
+      return {
+        get types() { return Array.from(data.keys()) },
+        setData: (type: string, value: string) => { data.set(type, value) },
+        getData: (type: string) => data.get(type) ?? '',
+      }
+    }
+
+    it('drops a moon onto a planet', () => {
+      const onReparent = vi.fn()
+      render(<SystemBreadcrumb {...mockProps} systemData={systemWithMoons} focusedName="Moon A" onReparent={onReparent} />)
+
+      const transfer = dataTransfer()
+      fireEvent.dragStart(screen.getByTitle('Moon A'), { dataTransfer: transfer })
+      fireEvent.dragOver(screen.getByTitle('Planet B'), { dataTransfer: transfer })
+      fireEvent.drop(screen.getByTitle('Planet B'), { dataTransfer: transfer })
+
+      expect(onReparent).toHaveBeenCalledWith('moon-a', 'planet-b')
+    })
+
+    it('leaves moons undraggable outside edit mode', () => {
+      render(<SystemBreadcrumb {...mockProps} systemData={systemWithMoons} focusedName="Moon A" />)
+      expect(screen.getByTitle('Moon A')).not.toHaveAttribute('draggable')
+    })
+  })
 }) 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { isSameFocus, viewerStateFromQuery, viewerStateToQuery, type ViewerState } from '../viewer-state'
+
+const state: ViewerState = {
+  systemId: 'stanton',
+  objectId: 'hurston',
+  viewType: 'profile',
+  time: Date.UTC(2954, 2, 1, 12),
+  rate: -2.5,
+  paused: true,
+  camera: { position: [10, 5.25, -3], target: [1, 0, 0] },
+}
+
+describe('viewer state query', () => {
+  it('round-trips a full viewer state', () => {
+    expect(viewerStateFromQuery(viewerStateToQuery(state))).toEqual(state)
+  })
+
+  it('writes readable dates and compact camera poses', () => {
+    const params = viewerStateToQuery({
+      ...state,
+      camera: { position: [1.23456, 0, 0], target: [0, 0, 0] },
+    })
+    expect(params.get('t')).toBe('2954-03-01T12:00:00.000Z')
+    expect(params.get('paused')).toBe('1')
+    expect(params.get('cam')).toBe('1.235,0,0,0,0,0')
+  })
+
+  it('keeps unrelated parameters and drops unset fields', () => {
+    const params = viewerStateToQuery({ systemId: 'pyro' }, new URLSearchParams('debug=1&object=hurston&view=profile'))
+    expect(params.get('debug')).toBe('1')
+    expect(params.get('system')).toBe('pyro')
+    expect(params.has('object')).toBe(false)
+    expect(params.has('view')).toBe(false)
+  })
+
+  it('ignores values it cannot trust', () => {
+    expect(viewerStateFromQuery(new URLSearchParams('view=sideways&t=soon&rate=fast&cam=1,2,3'))).toEqual({})
+  })
+
+  it('reads a link that names only part of the state', () => {
+    expect(viewerStateFromQuery(new URLSearchParams('system=stanton&paused=0'))).toEqual({ systemId: 'stanton', paused: false })
+  })
+})
+
+describe('isSameFocus', () => {
+  it('compares the system and focused object only', () => {
+    expect(isSameFocus(state, { ...state, time: 0, viewType: 'explorational' })).toBe(true)
+    expect(isSameFocus(state, { ...state, objectId: 'arccorp' })).toBe(false)
+    expect(isSameFocus({ systemId: 'stanton' }, { systemId: 'stanton', objectId: undefined })).toBe(true)
+  })
+})
@@ -0,0 +1,127 @@
+import React from 'react'
+import { render, screen, act, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { LocalSystemImport } from '../local-system-import'
+import { localSystemStore } from '@/engine/local-systems/local-system-store'
+import { engineSystemLoader } from '@/engine/system-loader'
+import type { CatalogData } from '@/engine/types/catalog'
+import objectCatalog from '@/public/data/engine/object-catalog/catalog.json'
+
+const systemJson = JSON.stringify({
+  id: 'draft',
+  name: 'Draft System',
+  description: 'Work in progress',
+  objects: [
+    {
+      id: 'draft-star',
+      name: 'Draft Star',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+  ],
+  lighting: { primary_star: 'draft-star', ambient_level: 0.1, stellar_influence_radius: 100 },
+})
+
+// The same system with its star taken from the object catalog
+const catalogSystemJson = JSON.stringify({
+  ...JSON.parse(systemJson),
+  objects: [{ id: 'draft-star', catalog_ref: 'g2v-main-sequence', position: [0, 0, 0] }],
+})
+
+function paste(text: string, target: EventTarget = window) {
+  const event = new Event('paste', { bubbles: true, cancelable: true })
+  Object.defineProperty(event, 'clipboardData', { value: { getData: () => text } })
+  act(() => {
+    target.dispatchEvent(event)
+  })
+}
+
+function drop(file: File) {
+  const event = new Event('drop', { bubbles: true, cancelable: true })
+  Object.defineProperty(event, 'dataTransfer', { value: { types: ['Files'], files: [file] } })
+  act(() => {
+    window.dispatchEvent(event)
+  })
+}
+
+describe('LocalSystemImport', () => {
+  const onImported = vi.fn()
+
+  beforeEach(() => {
+    onImported.mockClear()
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+    vi.restoreAllMocks()
+  })
+
+  it('imports pasted system JSON and opens it', () => {
+    render(<LocalSystemImport mode="realistic" onImported={onImported} />)
+    paste(systemJson)
+
+    expect(onImported).toHaveBeenCalledWith('local:draft')
+    expect(localSystemStore.list('realistic').map(entry => entry.name)).toEqual(['Draft System'])
+    expect(screen.getByRole('status')).toHaveTextContent('Imported "Draft System" as a local system')
+  })
+
+  it('imports a dropped file', async () => {
+    render(<LocalSystemImport mode="realistic" onImported={onImported} />)
+    drop(new File([systemJson], 'draft.json', { type: 'application/json' }))
+
+    await waitFor(() => expect(onImported).toHaveBeenCalledWith('local:draft'))
+  })
+
+  it('refuses invalid systems with their issues', () => {
+    render(<LocalSystemImport mode="realistic" onImported={onImported} />)
+    paste(JSON.stringify({ ...JSON.parse(systemJson), objects: [] }))
+
+    expect(onImported).not.toHaveBeenCalled()
+    expect(localSystemStore.list('realistic')).toEqual([])
+    expect(screen.getByRole('alert')).toHaveTextContent('Pasted JSON is not a valid system')
+    expect(screen.getByRole('alert')).toHaveTextContent('/objects')
+  })
+
+  it('fills in catalog_ref objects from the object catalog', async () => {
+    const loadObjectCatalog = vi.spyOn(engineSystemLoader, 'loadObjectCatalog').mockResolvedValue(objectCatalog as CatalogData)
+    render(<LocalSystemImport mode="realistic" onImported={onImported} />)
+    paste(catalogSystemJson)
+
+    await waitFor(() => expect(onImported).toHaveBeenCalledWith('local:draft'))
+    expect(localSystemStore.list('realistic')[0].data.objects[0].properties.radius).toBe(695700)
+
+    // Systems without catalog_ref don't wait for the catalog
+    paste(systemJson)
+    expect(loadObjectCatalog).toHaveBeenCalledTimes(1)
+  })
+
+  it('says so when a catalog_ref system arrives and the object catalog cannot be loaded', async () => {
+    vi.spyOn(engineSystemLoader, 'loadObjectCatalog')
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error('offline'))
+    render(<LocalSystemImport mode="realistic" onImported={onImported} />)
+
+    paste(catalogSystemJson)
+    expect(await screen.findByRole('alert')).toHaveTextContent('Pasted JSON uses catalog_ref, but the object catalog could not be loaded')
+
+    drop(new File([catalogSystemJson], 'draft.json', { type: 'application/json' }))
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('draft.json uses catalog_ref'))
+    expect(onImported).not.toHaveBeenCalled()
+  })
+
+  it('leaves pastes into text fields and non-JSON pastes alone', () => {
+    render(
+      <>
+        <input aria-label="field" />
+        <LocalSystemImport mode="realistic" onImported={onImported} />
+      </>
+    )
+    paste(systemJson, screen.getByLabelText('field'))
+    paste('just some text')
+
+    expect(onImported).not.toHaveBeenCalled()
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,135 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { SystemEditorPanel } from '../system-editor-panel'
+import { useSystemEditor } from '@/engine/hooks/use-system-editor'
+import { engineSystemLoader } from '@/engine/system-loader'
+import type { OrbitalSystemData } from '@/engine/types/orbital-system'
+import type { CatalogData } from '@/engine/types/catalog'
+import objectCatalog from '@/public/data/engine/object-catalog/catalog.json'
+
+const system: OrbitalSystemData = {
+  id: 'draft',
+  name: 'Draft System',
+  description: 'Work in progress',
+  objects: [
+    {
+      id: 'draft-star',
+      name: 'Draft Star',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+    {
+      id: 'draft-planet',
+      name: 'Draft Planet',
+      classification: 'planet',
+      geometry_type: 'rocky',
+      properties: { mass: 1, radius: 6371, temperature: 288 },
+      orbit: { parent: 'draft-star', semi_major_axis: 1, eccentricity: 0, inclination: 0, orbital_period: 365.25 },
+    },
+  ],
+  lighting: { primary_star: 'draft-star', ambient_level: 0.1, stellar_influence_radius: 100 },
+}
+
+function Harness({ selectedObjectId = null, onSaveLocal }: { selectedObjectId?: string | null; onSaveLocal?: (system: OrbitalSystemData) => void }) {
+  const editor = useSystemEditor(system)
+  return (
+    <>
+      <div data-testid="object-count">{editor.system?.objects.length}</div>
+      <SystemEditorPanel editor={editor} selectedObjectId={selectedObjectId} onSaveLocal={onSaveLocal} onClose={() => {}} />
+    </>
+  )
+}
+
+const objectCount = () => screen.getByTestId('object-count').textContent
+
+describe('SystemEditorPanel', () => {
+  beforeEach(() => {
+    vi.spyOn(engineSystemLoader, 'loadObjectCatalog').mockResolvedValue(objectCatalog as CatalogData)
+  })
+
+  it('adds a catalog body as an undoable step', async () => {
+    render(<Harness />)
+    expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled()
+
+    // Catalog entries come from the bundled object catalog
+    await screen.findByRole('option', { name: 'Earth-like World' })
+    fireEvent.change(screen.getByLabelText('Catalog object'), { target: { value: 'earth-like' } })
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Add' })).toBeEnabled())
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }))
+    expect(objectCount()).toBe('3')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }))
+    expect(objectCount()).toBe('2')
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true, shiftKey: true })
+    expect(objectCount()).toBe('3')
+  })
+
+  it('validates edits live and holds back export of an invalid system', () => {
+    render(<Harness selectedObjectId="draft-planet" />)
+    expect(screen.getByText('Valid system')).toBeInTheDocument()
+
+    const eccentricity = screen.getByLabelText('Eccentricity')
+    fireEvent.change(eccentricity, { target: { value: '1.5' } })
+    fireEvent.blur(eccentricity)
+
+    expect(screen.getByText('1 error')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Export JSON/ })).toBeDisabled()
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true })
+    expect(screen.getByText('Valid system')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Export JSON/ })).toBeEnabled()
+  })
+
+  it('treats clearing a number field as cancelling the edit', () => {
+    render(<Harness selectedObjectId="draft-planet" />)
+    const axis = screen.getByLabelText('Semi-major axis (AU)')
+    fireEvent.change(axis, { target: { value: '' } })
+    fireEvent.blur(axis)
+
+    expect(axis).toHaveValue(1)
+    expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled()
+  })
+
+  it('shows why an edit was refused', () => {
+    render(<Harness selectedObjectId="draft-star" />)
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Draft Star' }))
+    expect(screen.getByRole('alert')).toHaveTextContent('lit by draft-star')
+    expect(objectCount()).toBe('2')
+  })
+
+  it('saves the edited system locally', () => {
+    const onSaveLocal = vi.fn()
+    render(<Harness selectedObjectId="draft-planet" onSaveLocal={onSaveLocal} />)
+
+    const temperature = screen.getByLabelText('temperature')
+    fireEvent.change(temperature, { target: { value: '300' } })
+    fireEvent.keyDown(temperature, { key: 'Enter' })
+    fireEvent.click(screen.getByRole('button', { name: /Save local/ }))
+
+    const saved: OrbitalSystemData = onSaveLocal.mock.calls[0][0]
+    expect(saved.objects.find(obj => obj.id === 'draft-planet')!.properties.temperature).toBe(300)
+  })
+
+  it('keeps the export URL alive until the download has started', () => {
+    // jsdom has no object URLs
+    const revokeObjectURL = vi.fn()
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:draft'), revokeObjectURL })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    vi.useFakeTimers()
+    try {
+      render(<Harness />)
+      fireEvent.click(screen.getByRole('button', { name: /Export JSON/ }))
+      expect(click).toHaveBeenCalled()
+      expect(revokeObjectURL).not.toHaveBeenCalled()
+
+      vi.runAllTimers()
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:draft')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
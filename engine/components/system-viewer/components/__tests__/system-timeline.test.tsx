@@ -0,0 +1,95 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { SystemTimeline } from '../system-timeline'
+import type { SystemTimelineEvent } from '@/engine/utils/timeline'
+
+// jsdom has no PointerEvent, so pointer events would otherwise drop clientX
+if (typeof window.PointerEvent === 'undefined') {
+  (window as any).PointerEvent = MouseEvent
+}
+
+const events: SystemTimelineEvent[] = [
+  {
+    id: 'earth:0',
+    objectId: 'earth',
+    objectName: 'Earth',
+    date: '1969-07-20',
+    time: Date.UTC(1969, 6, 20),
+    title: 'Apollo 11',
+    description: 'First crewed landing',
+  },
+  {
+    id: 'sol:0',
+    date: '2000-01-01',
+    time: Date.UTC(2000, 0, 1),
+    title: 'Survey',
+    description: 'System-wide event',
+  },
+]
+
+describe('SystemTimeline', () => {
+  const defaultProps = {
+    events,
+    simulationTime: Date.UTC(1980, 0, 1),
+    onTimeChange: vi.fn(),
+    onEventSelect: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('renders nothing when there are no events', () => {
+    const { container } = render(<SystemTimeline {...defaultProps} events={[]} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('renders a marker per event and reports the selected one', () => {
+    render(<SystemTimeline {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apollo 11 (1969-07-20)' }))
+    expect(defaultProps.onEventSelect).toHaveBeenCalledWith(events[0])
+    expect(screen.getByRole('button', { name: 'Survey (2000-01-01)' })).toBeInTheDocument()
+  })
+
+  it('clicking a marker does not also scrub the track', () => {
+    render(<SystemTimeline {...defaultProps} />)
+
+    const marker = screen.getByRole('button', { name: 'Survey (2000-01-01)' })
+    fireEvent.pointerDown(marker, { clientX: 10 })
+    expect(defaultProps.onTimeChange).not.toHaveBeenCalled()
+  })
+
+  it('scrubs the clock when dragging along the track', () => {
+    render(<SystemTimeline {...defaultProps} />)
+    const track = screen.getByRole('slider', { name: 'System timeline' })
+    track.getBoundingClientRect = () => ({ left: 0, width: 200, top: 0, height: 24, right: 200, bottom: 24, x: 0, y: 0, toJSON: () => ({}) })
+
+    fireEvent.pointerDown(track, { clientX: 0 })
+    fireEvent.pointerMove(track, { clientX: 200 })
+    fireEvent.pointerUp(track, { clientX: 200 })
+    fireEvent.pointerMove(track, { clientX: 100 })
+
+    const calls = defaultProps.onTimeChange.mock.calls.map(([time]) => time)
+    expect(calls).toHaveLength(2)
+    expect(calls[0]).toBeLessThan(events[0].time)
+    expect(calls[1]).toBeGreaterThan(events[1].time)
+  })
+
+  it('steps the clock with the arrow keys', () => {
+    render(<SystemTimeline {...defaultProps} />)
+    const track = screen.getByRole('slider', { name: 'System timeline' })
+
+    fireEvent.keyDown(track, { key: 'ArrowRight' })
+    expect(defaultProps.onTimeChange.mock.calls[0][0]).toBeGreaterThan(defaultProps.simulationTime)
+  })
+
+  it('hides the cursor when the clock is outside the event range', () => {
+    const { rerender } = render(<SystemTimeline {...defaultProps} />)
+    expect(screen.getByTestId('timeline-cursor')).toBeInTheDocument()
+
+    rerender(<SystemTimeline {...defaultProps} simulationTime={Date.UTC(2950, 0, 1)} />)
+    expect(screen.queryByTestId('timeline-cursor')).not.toBeInTheDocument()
+  })
+})
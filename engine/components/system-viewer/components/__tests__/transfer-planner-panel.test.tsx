@@ -0,0 +1,93 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { TransferPlannerPanel } from '../transfer-planner-panel'
+import { J2000_EPOCH_MS, planTransfer } from '@/engine/ephemeris'
+import type { CelestialObject, OrbitData } from '@/engine/types/orbital-system'
+
+const orbit = (parent: string, semi_major_axis: number, orbital_period: number): OrbitData => ({
+  parent, semi_major_axis, eccentricity: 0, inclination: 0, orbital_period,
+})
+
+const bodies: CelestialObject[] = [
+  {
+    id: 'earth',
+    name: 'Earth',
+    classification: 'planet',
+    geometry_type: 'terrestrial',
+    properties: { mass: 1, radius: 6371, temperature: 288 },
+    orbit: orbit('sol', 1, 365.25),
+  },
+  {
+    id: 'mars',
+    name: 'Mars',
+    classification: 'planet',
+    geometry_type: 'rocky',
+    properties: { mass: 0.107, radius: 3389.5, temperature: 210 },
+    orbit: orbit('sol', 1.524, 686.98),
+  },
+  {
+    id: 'luna',
+    name: 'Luna',
+    classification: 'moon',
+    geometry_type: 'rocky',
+    properties: { mass: 0.0123, radius: 1737.4, temperature: 220 },
+    orbit: orbit('earth', 0.00257, 27.3),
+  },
+]
+
+describe('TransferPlannerPanel', () => {
+  const defaultProps = {
+    bodies,
+    from: '',
+    to: '',
+    onFromChange: vi.fn(),
+    onToChange: vi.fn(),
+    biElliptic: false,
+    onBiEllipticChange: vi.fn(),
+    apoapsisRatio: 2,
+    onApoapsisRatioChange: vi.fn(),
+    plan: null,
+    error: null,
+    simulationTime: J2000_EPOCH_MS,
+    onClose: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('only offers destinations orbiting the same primary', () => {
+    render(<TransferPlannerPanel {...defaultProps} from="earth" />)
+    const destinations = Array.from((screen.getByLabelText('To') as HTMLSelectElement).options).map(option => option.value)
+    expect(destinations).toEqual(['', 'mars'])
+
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: 'mars' } })
+    expect(defaultProps.onToChange).toHaveBeenCalledWith('mars')
+  })
+
+  it('shows the plan and its launch window', () => {
+    const plan = planTransfer(bodies[0].orbit as OrbitData, bodies[1].orbit as OrbitData, 1.989e30, J2000_EPOCH_MS)
+    render(<TransferPlannerPanel {...defaultProps} from="earth" to="mars" plan={plan} />)
+
+    expect(screen.getByText('Total Δv')).toBeInTheDocument()
+    expect(screen.getByText(`${plan.phaseAngle.toFixed(1)}°`)).toBeInTheDocument()
+    expect(screen.getByText('Next window')).toBeInTheDocument()
+    expect(screen.getByText('Windows every')).toBeInTheDocument()
+  })
+
+  it('asks for an apoapsis when bi-elliptic is chosen', () => {
+    const { rerender } = render(<TransferPlannerPanel {...defaultProps} />)
+    fireEvent.click(screen.getByLabelText('Bi-elliptic transfer'))
+    expect(defaultProps.onBiEllipticChange).toHaveBeenCalledWith(true)
+
+    rerender(<TransferPlannerPanel {...defaultProps} biElliptic />)
+    fireEvent.change(screen.getByLabelText('Bi-elliptic apoapsis'), { target: { value: '4' } })
+    expect(defaultProps.onApoapsisRatioChange).toHaveBeenCalledWith(4)
+  })
+
+  it('shows planning errors', () => {
+    render(<TransferPlannerPanel {...defaultProps} error="Luna and Mars don't orbit the same body" />)
+    expect(screen.getByText("Luna and Mars don't orbit the same body")).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,154 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+import type { ViewType } from "@lib/types/effects-level"
+import type { BinaryPair } from "@/engine/utils/binary-systems"
+
+const UNSTABLE_COLOR = new THREE.Color(0xff4433)
+
+// Zone opacity per view mode (the edge band is drawn a little stronger)
+const ZONE_OPACITY: Partial<Record<ViewType, number>> = {
+  explorational: 0.08,
+  navigational: 0.12,
+  scientific: 0.1,
+}
+const DEFAULT_OPACITY = 0.08
+
+const vertexShader = /* glsl */ `
+  varying vec3 vWorldPosition;
+  void main() {
+    vec4 world = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = world.xyz;
+    gl_Position = projectionMatrix * viewMatrix * world;
+  }
+`
+
+// Shades the region where no orbit is stable: inside the circumbinary (P-type)
+// limit around the barycenter, but outside each star's own (S-type) limit
+const fragmentShader = /* glsl */ `
+  uniform vec3 uBarycenter;
+  uniform vec3 uPrimary;
+  uniform vec3 uSecondary;
+  uniform float uPTypeLimit;
+  uniform float uPrimaryLimit;
+  uniform float uSecondaryLimit;
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    float fromBarycenter = distance(vWorldPosition.xz, uBarycenter.xz);
+    float fromPrimary = distance(vWorldPosition.xz, uPrimary.xz);
+    float fromSecondary = distance(vWorldPosition.xz, uSecondary.xz);
+    if (fromBarycenter > uPTypeLimit || fromPrimary < uPrimaryLimit || fromSecondary < uSecondaryLimit) discard;
+
+    // Emphasise the stability boundaries with a thin band
+    float band = uPTypeLimit * 0.015;
+    float edge = min(uPTypeLimit - fromBarycenter, min(fromPrimary - uPrimaryLimit, fromSecondary - uSecondaryLimit));
+    float alpha = edge < band ? uOpacity * 3.0 : uOpacity;
+    gl_FragColor = vec4(uColor, alpha);
+  }
+`
+
+interface BinaryZoneProps {
+  pair: BinaryPair
+  scale: number // scene units per AU for this binary
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+  opacity: number
+}
+
+function BinaryZone({ pair, scale, objectRefsMap, opacity }: BinaryZoneProps) {
+  const meshRef = useRef<THREE.Mesh>(null)
+  const pTypeLimit = pair.pTypeLimit * scale
+
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(pTypeLimit * 2, pTypeLimit * 2)
+    plane.rotateX(-Math.PI / 2) // Make it horizontal
+    return plane
+  }, [pTypeLimit])
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uBarycenter: { value: new THREE.Vector3() },
+      uPrimary: { value: new THREE.Vector3() },
+      uSecondary: { value: new THREE.Vector3() },
+      uPTypeLimit: { value: pTypeLimit },
+      uPrimaryLimit: { value: pair.sTypeLimits[pair.primary.id] * scale },
+      uSecondaryLimit: { value: pair.sTypeLimits[pair.secondary.id] * scale },
+      uColor: { value: UNSTABLE_COLOR },
+      uOpacity: { value: opacity },
+    },
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  }), [pair, scale, pTypeLimit, opacity])
+
+  useEffect(() => () => {
+    geometry.dispose()
+    material.dispose()
+  }, [geometry, material])
+
+  // Follow the barycenter and both stars as they move
+  useFrame(() => {
+    const mesh = meshRef.current
+    if (!mesh) return
+    const { uBarycenter, uPrimary, uSecondary } = material.uniforms
+    const barycenter = objectRefsMap.current.get(pair.barycenterId)
+    if (barycenter) barycenter.getWorldPosition(uBarycenter.value)
+    objectRefsMap.current.get(pair.primary.id)?.getWorldPosition(uPrimary.value)
+    objectRefsMap.current.get(pair.secondary.id)?.getWorldPosition(uSecondary.value)
+    mesh.position.copy(uBarycenter.value)
+    if (mesh.parent) mesh.parent.worldToLocal(mesh.position)
+  })
+
+  return <mesh ref={meshRef} geometry={geometry} material={material} renderOrder={-1} />
+}
+
+interface BinaryStabilityZonesProps {
+  pairs: BinaryPair[]
+  orbitalMechanics: Map<string, { orbitDistance?: number }>
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+  viewType: ViewType
+  showZones?: boolean
+}
+
+/**
+ * Shaded regions around each binary star where planetary orbits are unstable
+ * (Holman & Wiegert limits). Circumbinary planets need to orbit outside the
+ * shading, and planets around one star need to stay inside its clear disc.
+ */
+export function BinaryStabilityZones({
+  pairs,
+  orbitalMechanics,
+  objectRefsMap,
+  viewType,
+  showZones = true,
+}: BinaryStabilityZonesProps) {
+  if (!showZones || pairs.length === 0) return null
+  const opacity = ZONE_OPACITY[viewType] ?? DEFAULT_OPACITY
+
+  return (
+    <group name="binary-stability-zones">
+      {pairs.map((pair) => {
+        // Limits scale with the binary's rendered separation, which may be widened for visibility
+        const renderedSeparation =
+          (orbitalMechanics.get(pair.primary.id)?.orbitDistance || 0) +
+          (orbitalMechanics.get(pair.secondary.id)?.orbitDistance || 0)
+        if (renderedSeparation <= 0 || pair.separation <= 0) return null
+        return (
+          <BinaryZone
+            key={pair.barycenterId}
+            pair={pair}
+            scale={renderedSeparation / pair.separation}
+            objectRefsMap={objectRefsMap}
+            opacity={opacity}
+          />
+        )
+      })}
+    </group>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+import type { ViewType } from "@lib/types/effects-level"
+import type { CelestialObject } from "@/engine/types/orbital-system"
+import {
+  useGravitationalDomains,
+  calculateDomainOpacity,
+  type ScaledGravitationalDomain,
+} from "@/engine/hooks/use-gravitational-domains"
+
+const HILL_COLOR = new THREE.Color(0x9b7bff)
+const SOI_COLOR = new THREE.Color(0x4ac6ff)
+
+const vertexShader = /* glsl */ `
+  varying vec3 vNormal;
+  varying vec3 vViewDirection;
+  void main() {
+    vec4 view = modelViewMatrix * vec4(position, 1.0);
+    vNormal = normalize(normalMatrix * normal);
+    vViewDirection = normalize(-view.xyz);
+    gl_Position = projectionMatrix * view;
+  }
+`
+
+// Rim-lit shell: faint face-on, brighter towards the silhouette so nested
+// domains stay readable
+const fragmentShader = /* glsl */ `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  varying vec3 vNormal;
+  varying vec3 vViewDirection;
+  void main() {
+    float rim = 1.0 - abs(dot(normalize(vNormal), normalize(vViewDirection)));
+    gl_FragColor = vec4(uColor, uOpacity * (0.25 + 0.75 * rim * rim));
+  }
+`
+
+function createShellMaterial(color: THREE.Color, opacity: number) {
+  return new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uColor: { value: color },
+      uOpacity: { value: opacity },
+    },
+    transparent: true,
+    depthWrite: false,
+  })
+}
+
+interface DomainShellsProps {
+  domain: ScaledGravitationalDomain
+  geometry: THREE.SphereGeometry
+  hillMaterial: THREE.ShaderMaterial
+  soiMaterial: THREE.ShaderMaterial
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+}
+
+function DomainShells({ domain, geometry, hillMaterial, soiMaterial, objectRefsMap }: DomainShellsProps) {
+  const groupRef = useRef<THREE.Group>(null)
+
+  // Follow the body as it orbits
+  useFrame(() => {
+    const group = groupRef.current
+    const body = objectRefsMap.current.get(domain.objectId)
+    if (!group || !body) return
+    body.getWorldPosition(group.position)
+    if (group.parent) group.parent.worldToLocal(group.position)
+  })
+
+  return (
+    <group ref={groupRef} name={`gravitational-domain-${domain.objectId}`}>
+      <mesh geometry={geometry} material={hillMaterial} scale={domain.hillRadius} renderOrder={-1} />
+      <mesh geometry={geometry} material={soiMaterial} scale={domain.sphereOfInfluence} renderOrder={-1} />
+    </group>
+  )
+}
+
+interface GravitationalDomainsProps {
+  objects: CelestialObject[]
+  orbitalMechanics: Map<string, { orbitDistance?: number; visualRadius?: number }>
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+  viewType: ViewType
+  showDomains?: boolean
+}
+
+/**
+ * Translucent shells around each body for its Hill sphere (violet), the
+ * region where it can hold satellites, and its sphere of influence (blue),
+ * where its gravity dominates the primary's for trajectories and captures.
+ * Sizes come from true masses and orbits, scaled to the view mode's orbits.
+ */
+export function GravitationalDomains({
+  objects,
+  orbitalMechanics,
+  objectRefsMap,
+  viewType,
+  showDomains = true,
+}: GravitationalDomainsProps) {
+  const domains = useGravitationalDomains(objects, orbitalMechanics, { showDomains })
+
+  const geometry = useMemo(() => new THREE.SphereGeometry(1, 48, 24), [])
+
+  const materials = useMemo(() => {
+    const opacity = calculateDomainOpacity(viewType)
+    return {
+      hill: createShellMaterial(HILL_COLOR, opacity.hill),
+      soi: createShellMaterial(SOI_COLOR, opacity.soi),
+    }
+  }, [viewType])
+
+  useEffect(() => () => geometry.dispose(), [geometry])
+  useEffect(() => () => {
+    materials.hill.dispose()
+    materials.soi.dispose()
+  }, [materials])
+
+  if (domains.length === 0) return null
+
+  return (
+    <group name="gravitational-domains">
+      {domains.map((domain) => (
+        <DomainShells
+          key={domain.objectId}
+          domain={domain}
+          geometry={geometry}
+          hillMaterial={materials.hill}
+          soiMaterial={materials.soi}
+          objectRefsMap={objectRefsMap}
+        />
+      ))}
+    </group>
+  )
+}
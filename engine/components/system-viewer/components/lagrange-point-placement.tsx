@@ -0,0 +1,84 @@
+"use client"
+
+import React, { useMemo, useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+import type { ViewType } from "@/lib/types/effects-level"
+import {
+  lagrangeMassRatio,
+  lagrangePointPosition,
+  orbitalAngularMomentumAxis,
+} from "@/engine/ephemeris"
+import { isOrbitData, type CelestialObject, type LagrangePlacement } from "@/engine/types/orbital-system"
+
+// Stars carry masses in solar units, everything else in Earth units
+const EARTH_MASSES_PER_SOLAR_MASS = 332946
+
+interface LagrangePointPlacementProps {
+  placement: LagrangePlacement
+  objects: CelestialObject[]
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+  viewType: ViewType
+  minSecondaryOffset?: number // keeps L1/L2 clear of the secondary's rendered body
+  children?: React.ReactNode
+}
+
+function massInEarthUnits(object: CelestialObject | undefined): number {
+  if (!object) return 0
+  const mass = object.properties.mass || 0
+  return object.classification === "star" ? mass * EARTH_MASSES_PER_SOLAR_MASS : mass
+}
+
+/**
+ * Places its children at a Lagrange point of the primary/secondary pair, recomputed
+ * every frame from where both bodies are rendered so the point follows their orbits.
+ */
+export function LagrangePointPlacement({
+  placement,
+  objects,
+  objectRefsMap,
+  viewType,
+  minSecondaryOffset = 0,
+  children,
+}: LagrangePointPlacementProps) {
+  const groupRef = useRef<THREE.Group>(null)
+
+  const { massRatio, axis } = useMemo(() => {
+    const primary = objects.find((obj) => obj.id === placement.primary)
+    const secondary = objects.find((obj) => obj.id === placement.secondary)
+    // Profile and navigational modes flatten orbits into the ecliptic
+    const inclination =
+      viewType !== "profile" && viewType !== "navigational" && secondary?.orbit && isOrbitData(secondary.orbit)
+        ? secondary.orbit.inclination
+        : 0
+    return {
+      massRatio: lagrangeMassRatio(massInEarthUnits(primary), massInEarthUnits(secondary)),
+      axis: orbitalAngularMomentumAxis(inclination),
+    }
+  }, [objects, placement.primary, placement.secondary, viewType])
+
+  useFrame(() => {
+    const group = groupRef.current
+    const primary = objectRefsMap.current.get(placement.primary)
+    const secondary = objectRefsMap.current.get(placement.secondary)
+    if (!group || !primary || !secondary) return
+
+    const primaryPosition = primary.getWorldPosition(new THREE.Vector3())
+    const secondaryPosition = secondary.getWorldPosition(new THREE.Vector3())
+    const point = new THREE.Vector3(
+      ...lagrangePointPosition(
+        primaryPosition.toArray() as [number, number, number],
+        secondaryPosition.toArray() as [number, number, number],
+        placement.point,
+        massRatio,
+        axis,
+        minSecondaryOffset
+      )
+    )
+
+    if (group.parent) group.parent.worldToLocal(point)
+    group.position.copy(point)
+  })
+
+  return <group ref={groupRef}>{children}</group>
+}
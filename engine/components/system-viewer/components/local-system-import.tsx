@@ -0,0 +1,175 @@
+"use client"
+
+import React, { useCallback, useEffect, useRef, useState } from "react"
+import { X } from "lucide-react"
+import {
+  localSystemStore,
+  parseSystemJson,
+  readLocalSystem,
+  type LocalSystemImport as ParsedSystem,
+} from "@/engine/local-systems/local-system-store"
+import { engineSystemLoader } from "@/engine/system-loader"
+import { referencesCatalog } from "@/engine/object-catalog/object-catalog"
+import type { ValidationIssue } from "@/engine/validation/validators"
+import { IssueList, isEditableTarget } from "./overlay-shared"
+
+interface LocalSystemImportProps {
+  mode: string
+  onImported: (systemId: string) => void
+}
+
+interface ImportStatus {
+  kind: "success" | "error"
+  message: string
+  issues: ValidationIssue[]
+}
+
+const STATUS_TIMEOUT_MS = 4000
+
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+const hasFiles = (event: DragEvent) => Array.from(event.dataTransfer?.types ?? []).includes("Files")
+
+/**
+ * Imports a system JSON file dropped anywhere on the viewer, or pasted while
+ * no text field has focus. Valid systems go into the local system store and
+ * open at once; invalid ones are refused with the offending paths.
+ */
+export function LocalSystemImport({ mode, onImported }: LocalSystemImportProps) {
+  const [isDragging, setIsDragging] = useState(false)
+  const [status, setStatus] = useState<ImportStatus | null>(null)
+  const dragDepthRef = useRef(0)
+
+  const saveImport = useCallback((result: ParsedSystem, source: string) => {
+    if (!result.system) {
+      setStatus({ kind: "error", message: `${source} is not a valid system`, issues: result.issues })
+      return
+    }
+
+    try {
+      const systemId = localSystemStore.save(mode, result.system)
+      setStatus({ kind: "success", message: `Imported "${result.system.name}" as a local system`, issues: result.warnings })
+      onImported(systemId)
+    } catch (error) {
+      setStatus({ kind: "error", message: error instanceof Error ? error.message : String(error), issues: [] })
+    }
+  }, [mode, onImported])
+
+  const importText = useCallback(async (text: string, source: string) => {
+    const { data, issues } = parseSystemJson(text)
+    if (issues.length > 0) {
+      saveImport({ system: null, issues, warnings: [] }, source)
+      return
+    }
+
+    // The object catalog is only fetched for systems built on its entries
+    if (!referencesCatalog(data)) {
+      saveImport(readLocalSystem(data), source)
+      return
+    }
+    const catalog = await engineSystemLoader.loadObjectCatalog().catch(() => null)
+    if (!catalog) {
+      setStatus({ kind: "error", message: `${source} uses catalog_ref, but the object catalog could not be loaded`, issues: [] })
+      return
+    }
+    saveImport(readLocalSystem(data, catalog), source)
+  }, [saveImport])
+
+  useEffect(() => {
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      dragDepthRef.current += 1
+      setIsDragging(true)
+    }
+    const handleDragOver = (event: DragEvent) => {
+      if (hasFiles(event)) event.preventDefault() // allows the drop
+    }
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+      if (dragDepthRef.current === 0) setIsDragging(false)
+    }
+    const handleDrop = async (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      dragDepthRef.current = 0
+      setIsDragging(false)
+
+      const file = event.dataTransfer?.files[0]
+      if (!file) return
+      let text: string
+      try {
+        text = await readFileText(file)
+      } catch {
+        setStatus({ kind: "error", message: `Could not read ${file.name}`, issues: [] })
+        return
+      }
+      await importText(text, file.name)
+    }
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target)) return
+      const text = event.clipboardData?.getData("text/plain")?.trim()
+      // Only JSON objects are taken as systems; any other paste is left alone
+      if (!text || !text.startsWith("{")) return
+      event.preventDefault()
+      importText(text, "Pasted JSON")
+    }
+
+    window.addEventListener("dragenter", handleDragEnter)
+    window.addEventListener("dragover", handleDragOver)
+    window.addEventListener("dragleave", handleDragLeave)
+    window.addEventListener("drop", handleDrop)
+    window.addEventListener("paste", handlePaste)
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter)
+      window.removeEventListener("dragover", handleDragOver)
+      window.removeEventListener("dragleave", handleDragLeave)
+      window.removeEventListener("drop", handleDrop)
+      window.removeEventListener("paste", handlePaste)
+    }
+  }, [importText])
+
+  // Successes clear themselves; errors stay until dismissed
+  useEffect(() => {
+    if (status?.kind !== "success") return
+    const timeout = setTimeout(() => setStatus(null), STATUS_TIMEOUT_MS)
+    return () => clearTimeout(timeout)
+  }, [status])
+
+  return (
+    <>
+      {isDragging && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-blue-900/40 border-4 border-dashed border-blue-400 pointer-events-none">
+          <div className="text-white text-lg font-medium">Drop a system JSON file to preview it</div>
+        </div>
+      )}
+
+      {status && (
+        <div
+          role={status.kind === "error" ? "alert" : "status"}
+          className={`absolute bottom-24 left-1/2 -translate-x-1/2 z-40 max-w-md px-4 py-3 rounded-lg text-sm text-white pointer-events-auto ${
+            status.kind === "error" ? "bg-red-900/90" : "bg-green-900/90"
+          }`}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="font-medium">{status.message}</div>
+            <button onClick={() => setStatus(null)} aria-label="Dismiss" className="text-gray-300 hover:text-white">
+              <X size={14} />
+            </button>
+          </div>
+          {status.issues.length > 0 && (
+            <IssueList issues={status.issues} className="mt-2 text-xs text-gray-200 space-y-0.5" />
+          )}
+        </div>
+      )}
+    </>
+  )
+}
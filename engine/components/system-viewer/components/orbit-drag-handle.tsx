@@ -0,0 +1,103 @@
+"use client"
+
+import React, { useRef, useState } from "react"
+import { useFrame, type ThreeEvent } from "@react-three/fiber"
+import * as THREE from "three"
+
+const HANDLE_COLOR = "#4ade80"
+
+// Ring width as a share of its radius, with a floor so small orbits can still be grabbed
+const HANDLE_WIDTH_RATIO = 0.03
+const MIN_HANDLE_WIDTH = 0.05
+
+interface OrbitDragHandleProps {
+  parentId: string
+  orbitDistance: number // the orbit's rendered radius in scene units
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+  onDraggingChange: (dragging: boolean) => void
+  onDrop: (orbitDistance: number) => void // the new radius in scene units
+}
+
+/**
+ * Ring on the selected body's orbit, centred on its parent, that the system
+ * editor drags in or out. The ring follows the pointer on the parent's
+ * horizontal plane and reports the radius it's let go at, so the whole drag is
+ * one edit.
+ */
+export function OrbitDragHandle({
+  parentId,
+  orbitDistance,
+  objectRefsMap,
+  onDraggingChange,
+  onDrop,
+}: OrbitDragHandleProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const [dragRadius, setDragRadius] = useState<number | null>(null)
+  const [hovered, setHovered] = useState(false)
+
+  const radius = dragRadius ?? orbitDistance
+  const width = Math.max(radius * HANDLE_WIDTH_RATIO, MIN_HANDLE_WIDTH)
+
+  // Stay centred on the parent
+  useFrame(() => {
+    const group = groupRef.current
+    const parent = objectRefsMap.current.get(parentId)
+    if (!group || !parent) return
+    parent.getWorldPosition(group.position)
+    if (group.parent) group.parent.worldToLocal(group.position)
+  })
+
+  const radiusUnderPointer = (event: ThreeEvent<PointerEvent>): number | null => {
+    const group = groupRef.current
+    if (!group) return null
+    const centre = group.getWorldPosition(new THREE.Vector3())
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -centre.y)
+    const point = event.ray.intersectPlane(plane, new THREE.Vector3())
+    return point ? Math.hypot(point.x - centre.x, point.z - centre.z) : null
+  }
+
+  const handlePointerDown = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation()
+    ;(event.target as Element).setPointerCapture(event.pointerId)
+    setDragRadius(orbitDistance)
+    onDraggingChange(true)
+  }
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (dragRadius === null) return
+    event.stopPropagation()
+    const next = radiusUnderPointer(event)
+    if (next && next > 0) setDragRadius(next)
+  }
+
+  const handlePointerUp = (event: ThreeEvent<PointerEvent>) => {
+    if (dragRadius === null) return
+    event.stopPropagation()
+    ;(event.target as Element).releasePointerCapture(event.pointerId)
+    setDragRadius(null)
+    onDraggingChange(false)
+    if (dragRadius !== orbitDistance) onDrop(dragRadius)
+  }
+
+  return (
+    <group ref={groupRef}>
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerOver={() => setHovered(true)}
+        onPointerOut={() => setHovered(false)}
+      >
+        <ringGeometry args={[Math.max(radius - width, 0), radius + width, 128]} />
+        <meshBasicMaterial
+          color={HANDLE_COLOR}
+          transparent
+          opacity={dragRadius !== null || hovered ? 0.6 : 0.25}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+    </group>
+  )
+}
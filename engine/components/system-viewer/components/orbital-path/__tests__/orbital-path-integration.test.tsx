@@ -4,6 +4,7 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitalPath } from '../orbital-path';
 import { describe, it, expect, vi } from 'vitest';
 import type { ViewType } from '@/lib/types/effects-level';
+import { SimulationClock, SECONDS_PER_DAY } from '@/engine/ephemeris';
 
 // Mock useFrame to prevent R3F hook errors
 vi.mock('@react-three/fiber', async () => {
@@ -23,8 +24,7 @@ describe('OrbitalPath Integration Tests', () => {
     inclination: 0,
     orbitalPeriod: 365,
     showOrbit: true,
-    timeMultiplier: 1,
-    isPaused: false,
+    clock: new SimulationClock({ rate: SECONDS_PER_DAY }),
     viewType: 'explorational' as ViewType,
     objectRefsMap: mockObjectRefsMap,
   };
@@ -63,14 +63,14 @@ describe('OrbitalPath Integration Tests', () => {
 
     it('handles time progression controls from system viewer', () => {
       // Test paused state
-      const { container: pausedContainer } = renderInCanvas({ isPaused: true });
+      const { container: pausedContainer } = renderInCanvas({ clock: new SimulationClock({ paused: true }) });
       expect(pausedContainer).toBeTruthy();
 
       // Test different time multipliers
-      const { container: fastContainer } = renderInCanvas({ timeMultiplier: 5 });
+      const { container: fastContainer } = renderInCanvas({ clock: new SimulationClock({ rate: 5 * SECONDS_PER_DAY }) });
       expect(fastContainer).toBeTruthy();
 
-      const { container: slowContainer } = renderInCanvas({ timeMultiplier: 0.5 });
+      const { container: slowContainer } = renderInCanvas({ clock: new SimulationClock({ rate: 0.5 * SECONDS_PER_DAY }) });
       expect(slowContainer).toBeTruthy();
     });
 
@@ -140,7 +140,7 @@ describe('OrbitalPath Integration Tests', () => {
               {...defaultProps} 
               semiMajorAxis={10 + i}
               viewType={i % 2 === 0 ? 'explorational' : 'navigational'}
-              timeMultiplier={1 + i * 0.1}
+              clock={new SimulationClock({ rate: (1 + i * 0.1) * SECONDS_PER_DAY })}
             />
           </Canvas>
         );
@@ -179,8 +179,7 @@ describe('OrbitalPath Integration Tests', () => {
         inclination: 30,
         orbitalPeriod: 500,
         showOrbit: true,
-        timeMultiplier: 2,
-        isPaused: false,
+        clock: new SimulationClock({ rate: 2 * SECONDS_PER_DAY }),
         viewType: 'navigational',
         parentObjectId: 'test-parent',
         objectRefsMap: mockObjectRefsMap,
@@ -3,6 +3,7 @@ import { render } from '@testing-library/react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitalPath } from '../orbital-path';
 import { describe, it, expect, vi } from 'vitest';
+import { SimulationClock, SECONDS_PER_DAY } from '@/engine/ephemeris';
 
 // Mock useFrame to prevent R3F hook errors
 vi.mock('@react-three/fiber', async () => {
@@ -19,8 +20,7 @@ const mockProps = {
   inclination: 0,
   orbitalPeriod: 365,
   showOrbit: true,
-  timeMultiplier: 1,
-  isPaused: false,
+  clock: new SimulationClock({ rate: SECONDS_PER_DAY }),
   viewType: 'explorational' as const,
 };
 
@@ -62,10 +62,10 @@ describe('OrbitalPath', () => {
   });
 
   it('renders with different time settings', () => {
-    const { container: fastTime } = renderInCanvas({ timeMultiplier: 2 });
+    const { container: fastTime } = renderInCanvas({ clock: new SimulationClock({ rate: 2 * SECONDS_PER_DAY }) });
     expect(fastTime).toBeTruthy();
 
-    const { container: paused } = renderInCanvas({ isPaused: true });
+    const { container: paused } = renderInCanvas({ clock: new SimulationClock({ paused: true }) });
     expect(paused).toBeTruthy();
   });
 }); 
\ No newline at end of file
@@ -4,92 +4,64 @@ import React, { useRef, useMemo, useEffect, useCallback } from "react"
 import { useFrame } from "@react-three/fiber"
 import * as THREE from "three"
 import type { ViewType } from "@/lib/types/effects-level"
+import type { OrbitData } from "@/engine/types/orbital-system"
+import {
+  J2000_EPOCH_MS,
+  meanAnomalyAt,
+  orbitalPositionFromMeanAnomaly,
+  type SimulationClock,
+  type SimulationTime,
+} from "@/engine/ephemeris"
 
 export interface OrbitalPathProps {
   semiMajorAxis: number
   eccentricity: number
   inclination: number
-  orbitalPeriod: number
+  orbitalPeriod: number // days
+  epoch?: SimulationTime // reference epoch for meanAnomalyAtEpoch (defaults to J2000)
+  meanAnomalyAtEpoch?: number // degrees
+  clock?: SimulationClock // shared simulation clock; without one the body stays at its epoch position
   showOrbit?: boolean
-  timeMultiplier?: number
-  isPaused?: boolean
   parentObjectId?: string
   objectRefsMap?: React.MutableRefObject<Map<string, THREE.Object3D>>
   viewType?: ViewType
   children?: React.ReactNode
-  binaryStarIndex?: number // Index for binary star positioning (0 = primary, 1 = secondary)
+  binaryStarIndex?: number // Binary star role (0 = primary, 1 = secondary); the secondary is mirrored through the barycenter
 }
 
-// Calculate the true anomaly from mean anomaly using Kepler's equation
-// This provides realistic orbital mechanics with variable angular velocity
-const solveKeplersEquation = (meanAnomaly: number, eccentricity: number): number => {
-  // Solve Kepler's equation: M = E - e*sin(E) for eccentric anomaly E
-  let eccentricAnomaly = meanAnomaly // Initial guess
-  const tolerance = 1e-6
-  let iterations = 0
-  const maxIterations = 10
-  
-  // Newton-Raphson method
-  while (iterations < maxIterations) {
-    const f = eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly) - meanAnomaly
-    const df = 1 - eccentricity * Math.cos(eccentricAnomaly)
-    const correction = f / df
-    eccentricAnomaly -= correction
-    
-    if (Math.abs(correction) < tolerance) break
-    iterations++
-  }
-  
-  // Convert eccentric anomaly to true anomaly
-  const trueAnomaly = 2 * Math.atan2(
-    Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
-    Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2)
-  )
-  
-  return trueAnomaly
-}
-
-// Calculate orbital position based on angle and parameters
+// Calculate orbital position from the mean anomaly and orbital parameters
 const calculateOrbitalPosition = (
-  angle: number,
+  meanAnomaly: number,
   semiMajorAxis: number,
   eccentricity: number,
   inclination: number,
   viewType: ViewType
 ): THREE.Vector3 => {
-  let x, y, z
-
-  if (viewType === 'profile') {
-    // Profile mode: Use fixed circular orbits at the exact calculated distance
-    // Ignore eccentricity and inclination for clean diagrammatic layout
-    x = semiMajorAxis * Math.cos(angle)
-    y = 0 // Keep all objects in the same plane for profile view
-    z = semiMajorAxis * Math.sin(angle)
-  } else if (viewType === 'navigational') {
-    // Navigational mode: Use clean circular orbits for better navigation UX
+  if (viewType === 'profile' || viewType === 'navigational') {
+    // Profile and navigational modes: clean circular orbits in a single plane
     // Ignore eccentricity and inclination for a clean, readable layout
-    x = semiMajorAxis * Math.cos(angle)
-    y = 0 // Keep all objects in the same plane for easy navigation
-    z = semiMajorAxis * Math.sin(angle)
-  } else {
-    // Elliptical orbit for explorational and scientific modes with proper Kepler mechanics
-    
-    // For realistic orbital mechanics, treat the input angle as mean anomaly
-    // and solve Kepler's equation to get the true anomaly
-    const trueAnomaly = eccentricity > 0.001 ? solveKeplersEquation(angle, eccentricity) : angle
-    
-    // Calculate position in orbital plane using true anomaly
-    // This gives correct variable orbital velocity (faster at periapsis, slower at apoapsis)
-    const r = (semiMajorAxis * (1 - eccentricity * eccentricity)) / (1 + eccentricity * Math.cos(trueAnomaly))
-    x = r * Math.cos(trueAnomaly)
-    const yFlat = r * Math.sin(trueAnomaly)
-
-    // Apply inclination rotation
-    z = yFlat * Math.cos((inclination * Math.PI) / 180)
-    y = yFlat * Math.sin((inclination * Math.PI) / 180)
+    return new THREE.Vector3(
+      semiMajorAxis * Math.cos(meanAnomaly),
+      0,
+      semiMajorAxis * Math.sin(meanAnomaly)
+    )
   }
 
-  return new THREE.Vector3(x, y, z)
+  // Elliptical orbit for explorational and scientific modes with proper Kepler mechanics
+  // (faster at periapsis, slower at apoapsis)
+  return new THREE.Vector3(
+    ...orbitalPositionFromMeanAnomaly(meanAnomaly, semiMajorAxis, eccentricity, inclination)
+  )
+}
+
+// Move the orbiting child group of an OrbitalPath to the given position
+const applyOrbitalPosition = (group: THREE.Group | null, position: THREE.Vector3) => {
+  // Safety check for test environments
+  if (!group?.children || typeof group.children.find !== 'function') return
+  const orbitingObject = group.children.find((child) => child.type === "Group")
+  if (orbitingObject) {
+    orbitingObject.position.copy(position)
+  }
 }
 
 export function OrbitalPath({
@@ -97,9 +69,10 @@ export function OrbitalPath({
   eccentricity,
   inclination,
   orbitalPeriod,
+  epoch,
+  meanAnomalyAtEpoch,
+  clock,
   showOrbit = true,
-  timeMultiplier = 1,
-  isPaused = false,
   parentObjectId,
   objectRefsMap,
   viewType = "explorational",
@@ -108,54 +81,55 @@ export function OrbitalPath({
 }: OrbitalPathProps) {
   const groupRef = useRef<THREE.Group>(null)
   const lineRef = useRef<THREE.Line>(null)
-  const timeRef = useRef<number>(0)
-  
-  // Calculate starting angle based on binary star positioning or view mode
-  const calculateStartAngle = useCallback(() => {
+  const lastTimeRef = useRef<number | null>(null)
+
+  const orbitElements = useMemo<OrbitData>(() => ({
+    parent: parentObjectId ?? "",
+    semi_major_axis: semiMajorAxis,
+    eccentricity,
+    inclination,
+    orbital_period: orbitalPeriod,
+  }), [parentObjectId, semiMajorAxis, eccentricity, inclination, orbitalPeriod])
+
+  // Mean anomaly at a simulation time, read from the ephemeris so positions
+  // depend only on the clock and never on frame rate
+  const getMeanAnomaly = useCallback((time: SimulationTime) => {
+    // Profile view is a static diagram: everything sits at the reference angle
+    if (viewType === 'profile') return 0
+
+    return meanAnomalyAt(orbitElements, time, { epoch, meanAnomalyAtEpoch })
+  }, [orbitElements, epoch, meanAnomalyAtEpoch, viewType])
+
+  // The two stars of a binary share one relative orbit: the secondary is always
+  // diametrically opposite the primary through the barycenter, on its own
+  // (mass-ratio scaled) ellipse
+  const getPosition = useCallback((meanAnomaly: number) => {
+    const position = calculateOrbitalPosition(meanAnomaly, semiMajorAxis, eccentricity, inclination, viewType)
+    return binaryStarIndex === 1 ? position.negate() : position
+  }, [semiMajorAxis, eccentricity, inclination, viewType, binaryStarIndex])
+
+  const getSimulationTime = useCallback(
+    () => clock?.getTime() ?? epoch ?? J2000_EPOCH_MS,
+    [clock, epoch]
+  )
+
+  // Update orbital position immediately when view mode or orbital parameters change
+  // This ensures correct positioning even when paused
+  useEffect(() => {
+    if (!groupRef.current) return;
+
+    const time = getSimulationTime()
+    const position = getPosition(getMeanAnomaly(time))
+    lastTimeRef.current = time
+
     if (binaryStarIndex !== undefined) {
-      // Binary star system: position stars opposite each other
-      return binaryStarIndex * Math.PI // 0° for primary (index 0), 180° for secondary (index 1)
-    } else if (viewType === 'profile' || viewType === 'navigational') {
-      return 0 // Clean layout modes start at 0°
+      console.log(`🌟 BINARY STAR UPDATE: Star ${binaryStarIndex} positioned at:`, position)
     } else {
-      return Math.random() * Math.PI * 2 // Random start for other modes
+      console.log(`🔄 LAYOUT UPDATE (${viewType.toUpperCase()}): Object with semiMajorAxis ${semiMajorAxis} positioned at:`, position)
     }
-  }, [binaryStarIndex, viewType])
-  
-  const startAngleRef = useRef<number>(calculateStartAngle())
 
-  // Update starting angle when view mode changes or binary star configuration changes
-  useEffect(() => {
-    const newStartAngle = calculateStartAngle();
-    startAngleRef.current = newStartAngle;
-    timeRef.current = 0; // Reset time to ensure consistent positioning
-    
-    // Force immediate position update
-    if (groupRef.current) {
-      const position = calculateOrbitalPosition(
-        newStartAngle,
-        semiMajorAxis,
-        eccentricity,
-        inclination,
-        viewType
-      )
-      
-      if (binaryStarIndex !== undefined) {
-        console.log(`🌟 BINARY STAR UPDATE: Star ${binaryStarIndex} positioned at angle ${newStartAngle} (${newStartAngle * 180 / Math.PI}°):`, position)
-      } else {
-        console.log(`🔄 LAYOUT UPDATE (${viewType.toUpperCase()}): Object with semiMajorAxis ${semiMajorAxis} positioned at:`, position)
-      }
-      
-      // Apply position to the orbiting object immediately
-      if (groupRef.current.children && typeof groupRef.current.children.find === 'function') {
-        const orbitingObject = groupRef.current.children.find((child) => child.type === "Group")
-        if (orbitingObject) {
-          orbitingObject.position.copy(position)
-          console.log(`✅ Updated object position to`, orbitingObject.position)
-        }
-      }
-    }
-  }, [viewType, semiMajorAxis, eccentricity, inclination, binaryStarIndex, calculateStartAngle]);
+    applyOrbitalPosition(groupRef.current, position)
+  }, [viewType, semiMajorAxis, binaryStarIndex, getMeanAnomaly, getPosition, getSimulationTime]);
 
   // Calculate orbit points for visualization
   const orbitPoints = useMemo(() => {
@@ -164,11 +138,11 @@ export function OrbitalPath({
 
     for (let i = 0; i <= segments; i++) {
       const angle = (i / segments) * Math.PI * 2
-      points.push(calculateOrbitalPosition(angle, semiMajorAxis, eccentricity, inclination, viewType))
+      points.push(getPosition(angle))
     }
 
     return points
-  }, [semiMajorAxis, eccentricity, inclination, viewType])
+  }, [getPosition])
 
   // Create orbit geometry
   const orbitGeometry = useMemo(() => {
@@ -201,8 +175,8 @@ export function OrbitalPath({
     )
   }, [orbitGeometry, orbitColor, orbitOpacity])
 
-  // Update position based on time
-  useFrame((_, delta) => {
+  // Update position from the shared simulation clock
+  useFrame(() => {
     if (!groupRef.current) return;
 
     // If we have a parent object, follow its position
@@ -219,25 +193,15 @@ export function OrbitalPath({
       // If parent not found, don't update position to prevent jumps
     }
 
-    // Skip dynamic orbital motion if paused or when in static profile view mode
-    if (isPaused || viewType === 'profile') return;
-
-    // Update time – use a consistent time step to avoid jitter
-    const timeStep = delta * (timeMultiplier || 1) * (1 / Math.max(0.1, orbitalPeriod)) * 0.1
-    timeRef.current += timeStep
+    // Skip dynamic orbital motion in static profile view mode
+    if (viewType === 'profile') return;
 
-    // Calculate position on orbit
-    const angle = timeRef.current + startAngleRef.current
-    const position = calculateOrbitalPosition(angle, semiMajorAxis, eccentricity, inclination, viewType)
+    // Nothing to do while the clock is paused
+    const time = getSimulationTime()
+    if (time === lastTimeRef.current) return;
+    lastTimeRef.current = time
 
-    // Apply position to the orbiting object (children)
-    // Safety check for test environments
-    if (groupRef.current.children && typeof groupRef.current.children.find === 'function') {
-      const orbitingObject = groupRef.current.children.find((child) => child.type === "Group")
-      if (orbitingObject) {
-        orbitingObject.position.copy(position)
-      }
-    }
+    applyOrbitalPosition(groupRef.current, getPosition(getMeanAnomaly(time)))
   })
 
   // Set initial position relative to parent when parent becomes available
@@ -252,51 +216,6 @@ export function OrbitalPath({
     }
   }, [parentObjectId, objectRefsMap])
 
-  // Update orbital position immediately when view mode or orbital parameters change
-  // This ensures correct positioning even when paused
-  useEffect(() => {
-    if (!groupRef.current) return;
-
-    const position = calculateOrbitalPosition(
-      timeRef.current + startAngleRef.current,
-      semiMajorAxis,
-      eccentricity,
-      inclination,
-      viewType
-    )
-
-    // Apply position to the orbiting object immediately
-    // Safety check for test environments
-    if (groupRef.current.children && typeof groupRef.current.children.find === 'function') {
-      const orbitingObject = groupRef.current.children.find((child) => child.type === "Group")
-      if (orbitingObject) {
-        orbitingObject.position.copy(position)
-      }
-    }
-  }, [semiMajorAxis, eccentricity, inclination, viewType])
-
-  // Set initial position only once when component mounts
-  useEffect(() => {
-    if (!groupRef.current) return;
-
-    const position = calculateOrbitalPosition(
-      startAngleRef.current,
-      semiMajorAxis,
-      eccentricity,
-      inclination,
-      viewType
-    )
-
-    // Apply initial position to the orbiting object
-    // Safety check for test environments
-    if (groupRef.current.children && typeof groupRef.current.children.find === 'function') {
-      const orbitingObject = groupRef.current.children.find((child) => child.type === "Group")
-      if (orbitingObject) {
-        orbitingObject.position.copy(position)
-      }
-    }
-  }, []) // Empty dependency array - only run on mount
-
   return (
     <group ref={groupRef}>
       {/* Orbit visualization */}
@@ -0,0 +1,30 @@
+"use client"
+
+import React from "react"
+import type { ValidationIssue } from "@/engine/validation/validators"
+
+// Shared by the overlays that take keyboard input and report validation issues
+// (local system import and the system editor)
+
+// Issues listed before the rest are summarised as a count
+export const MAX_LISTED_ISSUES = 5
+
+// Window-wide shortcuts and pastes leave form fields to themselves
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+/**
+ * Validation issues as `path: message` lines, the first few in full
+ */
+export function IssueList({ issues, className }: { issues: ValidationIssue[]; className?: string }) {
+  return (
+    <ul className={className}>
+      {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+        <li key={index} className="font-mono">{issue.path || "/"}: {issue.message}</li>
+      ))}
+      {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>}
+    </ul>
+  )
+}
@@ -1,41 +1,76 @@
 "use client"
 
+import React, { useMemo, useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
 import { OrbitalSystemData, isStar } from "@/engine/types/orbital-system"
+import { computeStarLights, type StarLight } from "@/engine/utils/stellar-lighting"
 import type { ViewType } from '@lib/types/effects-level'
 
 interface SceneLightingProps {
   systemData: OrbitalSystemData
   viewType: ViewType
+  objectRefsMap?: React.MutableRefObject<Map<string, THREE.Object3D>>
 }
 
-export function SceneLighting({ systemData, viewType }: SceneLightingProps) {
-  const stars = systemData.objects.filter(isStar)
+// Used until a star's object is rendered, and in viewers without object refs
+function getFallbackPosition(viewType: ViewType): [number, number, number] {
+  return viewType === "profile" ? [-600, 500, 0] : [0, 500, 0]
+}
+
+interface StarPointLightProps {
+  light: StarLight
+  fallbackPosition: [number, number, number]
+  objectRefsMap?: React.MutableRefObject<Map<string, THREE.Object3D>>
+}
+
+/**
+ * Point light that follows its star's rendered position every frame
+ */
+function StarPointLight({ light, fallbackPosition, objectRefsMap }: StarPointLightProps) {
+  const lightRef = useRef<THREE.PointLight>(null)
+
+  useFrame(() => {
+    const pointLight = lightRef.current
+    const star = objectRefsMap?.current.get(light.id)
+    if (!pointLight || !star) return
+    star.getWorldPosition(pointLight.position)
+    if (pointLight.parent) pointLight.parent.worldToLocal(pointLight.position)
+  })
+
+  return (
+    <pointLight
+      ref={lightRef}
+      position={fallbackPosition}
+      intensity={light.intensity}
+      color={light.color}
+      distance={0} // No cut-off: the light has to reach every orbit from the star itself
+      decay={1} // Reduced decay for better distant lighting
+    />
+  )
+}
+
+export function SceneLighting({ systemData, viewType, objectRefsMap }: SceneLightingProps) {
+  const lights = useMemo(
+    () => computeStarLights(systemData.objects.filter(isStar), systemData.lighting),
+    [systemData]
+  )
+  const fallbackPosition = useMemo(() => getFallbackPosition(viewType), [viewType])
 
   return (
     <>
       {/* Very minimal ambient light - just enough to see objects */}
       <ambientLight intensity={0.05} color="#ffffff" />
 
-      {/* Point lights from stars - primary lighting source with increased intensity */}
-      {stars.map((star) => {
-        const starPosition =
-          (viewType === "profile"
-            ? ([-600, 500, 0] as [number, number, number]) // Profile position for star lighting
-            : ([0, 500, 0] as [number, number, number]))
-        const isPrimary = star.id === systemData.lighting.primary_star
-        const intensity = isPrimary ? 25.0 : 15.0 // Significantly increased intensity
-
-        return (
-          <pointLight
-            key={star.id}
-            position={starPosition}
-            intensity={intensity}
-            color="#ffaa44"
-            distance={2000} // Increased distance for farther reach
-            decay={1} // Reduced decay for better distant lighting
-          />
-        )
-      })}
+      {/* One point light per star, coloured by its temperature and weighted by luminosity and role */}
+      {lights.map((light) => (
+        <StarPointLight
+          key={light.id}
+          light={light}
+          fallbackPosition={fallbackPosition}
+          objectRefsMap={objectRefsMap}
+        />
+      ))}
     </>
   )
 }
@@ -0,0 +1,20 @@
+"use client"
+
+import { useFrame } from "@react-three/fiber"
+import type { SimulationClock } from "@/engine/ephemeris"
+
+// Cap a single frame's contribution so returning to a backgrounded tab doesn't
+// fast-forward the simulation by the whole time the tab was hidden
+const MAX_FRAME_DELTA_SECONDS = 0.1
+
+interface SimulationClockDriverProps {
+  clock: SimulationClock
+}
+
+export function SimulationClockDriver({ clock }: SimulationClockDriverProps) {
+  useFrame((_, delta) => {
+    clock.tick(Math.min(delta, MAX_FRAME_DELTA_SECONDS))
+  })
+
+  return null
+}
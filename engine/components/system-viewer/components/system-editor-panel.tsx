@@ -0,0 +1,310 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from "react"
+import { Download, Redo2, Save, Trash2, Undo2, X } from "lucide-react"
+import type { SystemEditor } from "@/engine/hooks/use-system-editor"
+import { isOrbitData, type OrbitalSystemData } from "@/engine/types/orbital-system"
+import { useObjectCatalog } from "@/engine/hooks/use-object-catalog"
+import { catalogEntries, catalogEntryToObject, findCatalogEntry } from "@/engine/object-catalog/object-catalog"
+import {
+  addBody,
+  canHaveChildren,
+  descendantIds,
+  exportSystemJson,
+  removeBody,
+  reparentObject,
+  updateOrbit,
+  updateProperties,
+  type EditableOrbitField,
+} from "@/engine/editor/system-editor"
+import { IssueList, isEditableTarget } from "./overlay-shared"
+
+interface SystemEditorPanelProps {
+  editor: SystemEditor
+  selectedObjectId: string | null
+  onSaveLocal?: (system: OrbitalSystemData) => void
+  onClose: () => void
+}
+
+const ORBIT_FIELDS: { field: EditableOrbitField; label: string }[] = [
+  { field: "semi_major_axis", label: "Semi-major axis (AU)" },
+  { field: "eccentricity", label: "Eccentricity" },
+  { field: "inclination", label: "Inclination (°)" },
+  { field: "orbital_period", label: "Period (days)" },
+  { field: "mean_anomaly_at_epoch", label: "Mean anomaly (°)" },
+]
+
+/**
+ * Text input that commits on Enter or blur, so typing a value is one undo
+ * step rather than one per keystroke. Clearing a number field cancels the edit.
+ */
+function FieldInput({
+  label,
+  value,
+  numeric,
+  onCommit,
+}: {
+  label: string
+  value: string | number | undefined
+  numeric: boolean
+  onCommit: (value: string) => void
+}) {
+  const shown = value === undefined ? "" : String(value)
+  const [draft, setDraft] = useState(shown)
+
+  useEffect(() => {
+    setDraft(shown)
+  }, [shown])
+
+  const commit = () => {
+    // Number("") is 0, so an emptied number field would otherwise commit a real value
+    if (numeric && draft.trim() === "") setDraft(shown)
+    else if (draft !== shown) onCommit(draft)
+  }
+
+  return (
+    <label className="contents">
+      <span className="text-gray-400 truncate" title={label}>{label}</span>
+      <input
+        aria-label={label}
+        type={numeric ? "number" : "text"}
+        step="any"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit()
+          if (e.key === "Escape") setDraft(shown)
+        }}
+        className="w-full px-1 rounded bg-white/10 font-mono"
+      />
+    </label>
+  )
+}
+
+function downloadSystem(system: OrbitalSystemData) {
+  const url = URL.createObjectURL(new Blob([exportSystemJson(system)], { type: "application/json" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${system.id}.json`
+  link.click()
+  // Revoking at once can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * System editor overlay: adds catalog bodies, edits the selected body's orbit
+ * elements, parent and properties, and exports the result once it validates.
+ * Undo and redo are also on Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y).
+ */
+export function SystemEditorPanel({ editor, selectedObjectId, onSaveLocal, onClose }: SystemEditorPanelProps) {
+  const { system, validation, error, canUndo, canRedo, apply, undo, redo } = editor
+  const { catalog } = useObjectCatalog()
+  const templates = useMemo(() => (catalog ? catalogEntries(catalog) : []), [catalog])
+  const [templateId, setTemplateId] = useState("")
+  const [addParentId, setAddParentId] = useState("")
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const selected = system?.objects.find((obj) => obj.id === selectedObjectId) ?? null
+  const keplerOrbit = selected?.orbit && isOrbitData(selected.orbit) ? selected.orbit : null
+  const parents = useMemo(() => system?.objects.filter(canHaveChildren) ?? [], [system])
+  // A body can't orbit itself or anything that orbits it
+  const reparentTargets = useMemo(() => {
+    if (!system || !selected) return []
+    const excluded = descendantIds(system, selected.id)
+    return parents.filter((obj) => !excluded.includes(obj.id))
+  }, [system, selected, parents])
+
+  useEffect(() => {
+    if (!addParentId && parents.length > 0) setAddParentId(parents[0].id)
+  }, [parents, addParentId])
+
+  useEffect(() => {
+    if (!templateId && templates.length > 0) setTemplateId(templates[0].id)
+  }, [templates, templateId])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
+  if (!system) return null
+
+  const issues = validation?.issues ?? []
+  const warnings = validation?.warningIssues ?? []
+  const isValid = !!validation?.isValid
+
+  const saveLocal = () => {
+    if (!onSaveLocal) return
+    try {
+      onSaveLocal(system)
+      setSaveError(null)
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const addFromCatalog = () => {
+    const entry = catalog && findCatalogEntry(catalog, templateId)
+    if (entry) apply((current) => addBody(current, catalogEntryToObject(entry), addParentId).system)
+  }
+
+  const commitProperty = (key: string, raw: string, numeric: boolean) => {
+    if (!selected) return
+    apply((current) => updateProperties(current, selected.id, { [key]: numeric ? Number(raw) : raw }))
+  }
+
+  return (
+    <div className="absolute bottom-24 right-16 z-10 w-80 max-h-[60vh] overflow-y-auto bg-black/80 backdrop-blur-sm text-white text-sm rounded-lg p-4 space-y-3 pointer-events-auto">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Edit System</h4>
+        <div className="flex items-center gap-1">
+          <button aria-label="Undo" title="Undo (Ctrl+Z)" onClick={undo} disabled={!canUndo} className="hover:bg-white/10 rounded p-1 disabled:opacity-40">
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button aria-label="Redo" title="Redo (Ctrl+Shift+Z)" onClick={redo} disabled={!canRedo} className="hover:bg-white/10 rounded p-1 disabled:opacity-40">
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button aria-label="Close editor" onClick={onClose} className="hover:bg-white/10 rounded p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {(error || saveError) && <div role="alert" className="text-xs text-red-400">{error || saveError}</div>}
+
+      <section className="space-y-1" aria-label="Add body">
+        <div className="text-xs text-gray-400">Add from catalog</div>
+        <select
+          aria-label="Catalog object"
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          className="w-full px-2 py-1 rounded bg-white/10"
+        >
+          {templates.map((entry) => (
+            <option key={entry.id} value={entry.id}>{entry.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <select
+            aria-label="Orbiting"
+            value={addParentId}
+            onChange={(e) => setAddParentId(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10"
+          >
+            {parents.map((obj) => (
+              <option key={obj.id} value={obj.id}>{obj.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addFromCatalog}
+            disabled={!addParentId || !templateId}
+            className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-40"
+          >
+            Add
+          </button>
+        </div>
+      </section>
+
+      {selected ? (
+        <section className="space-y-2" aria-label={`Edit ${selected.name}`}>
+          <div className="flex items-center justify-between">
+            <div className="font-medium">{selected.name}</div>
+            <button
+              aria-label={`Remove ${selected.name}`}
+              title="Remove with everything orbiting it"
+              onClick={() => apply((current) => removeBody(current, selected.id))}
+              className="hover:bg-red-600/60 rounded p-1"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {selected.orbit && (
+            <div className="grid grid-cols-[1fr_7rem] items-center gap-x-2 gap-y-1 text-xs">
+              <label htmlFor="editor-parent" className="text-gray-400">Orbits</label>
+              <select
+                id="editor-parent"
+                value={selected.orbit.parent}
+                onChange={(e) => apply((current) => reparentObject(current, selected.id, e.target.value))}
+                className="w-full px-1 rounded bg-white/10"
+              >
+                {reparentTargets.map((obj) => (
+                  <option key={obj.id} value={obj.id}>{obj.name}</option>
+                ))}
+              </select>
+              {keplerOrbit && ORBIT_FIELDS.map(({ field, label }) => (
+                <FieldInput
+                  key={field}
+                  label={label}
+                  numeric
+                  value={keplerOrbit[field]}
+                  onCommit={(raw) => apply((current) => updateOrbit(current, selected.id, { [field]: Number(raw) }))}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-[1fr_7rem] items-center gap-x-2 gap-y-1 text-xs">
+            {Object.entries(selected.properties)
+              .filter(([, value]) => typeof value === "number" || typeof value === "string")
+              .map(([key, value]) => (
+                <FieldInput
+                  key={key}
+                  label={key}
+                  numeric={typeof value === "number"}
+                  value={value}
+                  onCommit={(raw) => commitProperty(key, raw, typeof value === "number")}
+                />
+              ))}
+          </div>
+          {keplerOrbit && (
+            <p className="text-xs text-gray-500">Drag the orbit ring in the scene to move the body in or out.</p>
+          )}
+        </section>
+      ) : (
+        <p className="text-xs text-gray-400">Select a body to edit its orbit and properties.</p>
+      )}
+
+      <section className="space-y-1 text-xs" aria-label="Validation">
+        <div className={isValid ? "text-green-400" : "text-red-400"}>
+          {isValid ? "Valid system" : `${issues.length} error${issues.length === 1 ? "" : "s"}`}
+          {warnings.length > 0 && <span className="text-yellow-400"> · {warnings.length} warning{warnings.length === 1 ? "" : "s"}</span>}
+        </div>
+        {issues.length > 0 && (
+          <IssueList issues={issues} className="space-y-0.5 text-gray-300" />
+        )}
+      </section>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadSystem(system)}
+          disabled={!isValid}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" /> Export JSON
+        </button>
+        {onSaveLocal && (
+          <button
+            onClick={saveLocal}
+            disabled={!isValid}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          >
+            <Save className="w-4 h-4" /> Save local
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import React, { useMemo, useRef, useCallback } from "react"
+import { formatSimulationDate, toDateInputValue } from "@/engine/ephemeris"
+import {
+  getTimelineRange,
+  timeToFraction,
+  fractionToTime,
+  type SystemTimelineEvent,
+} from "@/engine/utils/timeline"
+
+interface SystemTimelineProps {
+  events: SystemTimelineEvent[]
+  simulationTime: number
+  onTimeChange: (time: number) => void
+  onEventSelect: (event: SystemTimelineEvent) => void
+  selectedObjectId?: string | null
+}
+
+const KEYBOARD_STEP_FRACTION = 0.01
+
+/**
+ * Horizontal bar of the system's timeline events. Dragging along the track scrubs
+ * the simulation clock; clicking a marker jumps to that event.
+ */
+export function SystemTimeline({
+  events,
+  simulationTime,
+  onTimeChange,
+  onEventSelect,
+  selectedObjectId,
+}: SystemTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const isScrubbingRef = useRef(false)
+
+  const range = useMemo(() => getTimelineRange(events), [events])
+
+  const scrubTo = useCallback((clientX: number) => {
+    const track = trackRef.current
+    if (!track || !range) return
+    const rect = track.getBoundingClientRect()
+    if (rect.width <= 0) return
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1)
+    onTimeChange(fractionToTime(fraction, range))
+  }, [range, onTimeChange])
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    isScrubbingRef.current = true
+    e.currentTarget.setPointerCapture?.(e.pointerId)
+    scrubTo(e.clientX)
+  }, [scrubTo])
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (isScrubbingRef.current) scrubTo(e.clientX)
+  }, [scrubTo])
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    isScrubbingRef.current = false
+    e.currentTarget.releasePointerCapture?.(e.pointerId)
+  }, [])
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!range) return
+    const step = (range.end - range.start) * KEYBOARD_STEP_FRACTION
+    if (e.key === "ArrowLeft") {
+      e.preventDefault()
+      onTimeChange(simulationTime - step)
+    } else if (e.key === "ArrowRight") {
+      e.preventDefault()
+      onTimeChange(simulationTime + step)
+    }
+  }, [range, simulationTime, onTimeChange])
+
+  if (!range) return null
+
+  const cursorFraction = timeToFraction(simulationTime, range)
+  const cursorInRange = cursorFraction >= 0 && cursorFraction <= 1
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(720px,60vw)] bg-black/70 backdrop-blur-sm text-white px-4 py-2 rounded-lg">
+      <div className="flex justify-between text-[10px] text-gray-400 font-mono mb-1">
+        <span>{toDateInputValue(range.start)}</span>
+        <span className="text-gray-200">
+          {!cursorInRange && cursorFraction < 0 && "◀ "}
+          {formatSimulationDate(simulationTime)}
+          {!cursorInRange && cursorFraction > 1 && " ▶"}
+        </span>
+        <span>{toDateInputValue(range.end)}</span>
+      </div>
+
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="System timeline"
+        aria-valuemin={range.start}
+        aria-valuemax={range.end}
+        aria-valuenow={simulationTime}
+        aria-valuetext={formatSimulationDate(simulationTime)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        className="relative h-6 cursor-pointer touch-none select-none"
+      >
+        {/* Track line */}
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-white/30" />
+
+        {/* Event markers */}
+        {events.map((event) => {
+          const isSelected = !!event.objectId && event.objectId === selectedObjectId
+          return (
+            <button
+              key={event.id}
+              type="button"
+              aria-label={`${event.title} (${event.date})`}
+              title={`${event.date} — ${event.title}${event.objectName ? ` (${event.objectName})` : ""}\n${event.description}`}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onEventSelect(event)}
+              className={`absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border transition-colors ${
+                isSelected
+                  ? "bg-blue-400 border-blue-200"
+                  : "bg-yellow-400/80 border-yellow-200/60 hover:bg-yellow-300"
+              }`}
+              style={{ left: `${timeToFraction(event.time, range) * 100}%` }}
+            />
+          )
+        })}
+
+        {/* Current time cursor (hidden when the clock is outside the event range) */}
+        {cursorInRange && (
+          <div
+            data-testid="timeline-cursor"
+            className="absolute top-0 bottom-0 w-0.5 -translate-x-1/2 bg-blue-400 pointer-events-none"
+            style={{ left: `${cursorFraction * 100}%` }}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+import type { ViewType } from "@lib/types/effects-level"
+import type { TransferArc } from "@/engine/hooks/use-transfer-plan"
+import { computeOrbitalState, meanAnomalyAt, transferArcPoints } from "@/engine/ephemeris"
+
+const TRANSFER_COLOR = "#ffb347"
+
+interface TransferOrbitProps {
+  arc: TransferArc
+  orbitalMechanics: Map<string, { orbitDistance?: number }>
+  objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
+  viewType: ViewType
+}
+
+/**
+ * The planned transfer drawn about the shared primary: a half ellipse from the
+ * origin's orbit to the target's (two for a bi-elliptic transfer), starting
+ * where the origin will be at departure. Radii use the view mode's orbit
+ * distances, like `OrbitalPath`.
+ */
+export function TransferOrbit({
+  arc,
+  orbitalMechanics,
+  objectRefsMap,
+  viewType,
+}: TransferOrbitProps) {
+  const groupRef = useRef<THREE.Group>(null)
+
+  const { originId, targetId, originOrbit, radii, departureTime } = arc
+
+  const line = useMemo(() => {
+    const startRadius = orbitalMechanics.get(originId)?.orbitDistance
+    const endRadius = orbitalMechanics.get(targetId)?.orbitDistance
+    if (!startRadius || !endRadius) return null
+
+    // OrbitalPath places navigational orbits by mean anomaly and the others by true anomaly
+    const departureAngle = viewType === "navigational"
+      ? meanAnomalyAt(originOrbit, departureTime)
+      : computeOrbitalState(originOrbit, departureTime).trueAnomaly
+
+    // A bi-elliptic apoapsis keeps its true proportion to the outer of the two orbits
+    const last = radii.length - 1
+    const outwards = radii[last] >= radii[0]
+    const [outerAU, outerScene] = outwards ? [radii[last], endRadius] : [radii[0], startRadius]
+    const sceneRadii = radii.map((radius, i) =>
+      i === 0 ? startRadius : i === last ? endRadius : outerScene * radius / outerAU
+    )
+    const points = sceneRadii.slice(1).flatMap((radius, leg) =>
+      transferArcPoints(sceneRadii[leg], radius, departureAngle + leg * Math.PI)
+    )
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(points.flat(), 3))
+    return new THREE.Line(
+      geometry,
+      new THREE.LineBasicMaterial({ color: TRANSFER_COLOR, transparent: true, opacity: 0.9 })
+    )
+  }, [originId, targetId, originOrbit, radii, departureTime, orbitalMechanics, viewType])
+
+  useEffect(() => () => {
+    if (!line) return
+    line.geometry.dispose()
+    ;(line.material as THREE.Material).dispose()
+  }, [line])
+
+  // Stay centred on the shared primary
+  useFrame(() => {
+    const group = groupRef.current
+    const primary = objectRefsMap.current.get(originOrbit.parent)
+    if (!group || !primary) return
+    primary.getWorldPosition(group.position)
+    if (group.parent) group.parent.worldToLocal(group.position)
+  })
+
+  if (!line) return null
+
+  return (
+    <group ref={groupRef} name="transfer-orbit">
+      <primitive object={line} />
+    </group>
+  )
+}
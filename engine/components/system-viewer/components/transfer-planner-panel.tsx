@@ -0,0 +1,149 @@
+"use client"
+
+import React from "react"
+import { X } from "lucide-react"
+import type { CelestialObject } from "@/engine/types/orbital-system"
+import { formatSimulationDate, type SimulationTime, type TransferPlan } from "@/engine/ephemeris"
+import { formatQuantity } from "@/engine/units/units"
+
+interface TransferPlannerPanelProps {
+  bodies: CelestialObject[]
+  from: string
+  to: string
+  onFromChange: (id: string) => void
+  onToChange: (id: string) => void
+  biElliptic: boolean
+  onBiEllipticChange: (biElliptic: boolean) => void
+  apoapsisRatio: number
+  onApoapsisRatioChange: (ratio: number) => void
+  plan: TransferPlan | null
+  error: string | null
+  simulationTime: SimulationTime
+  onClose: () => void
+}
+
+const formatDays = (days: number) =>
+  days >= 730 ? `${formatQuantity(days / 365.25)} years` : `${formatQuantity(days)} days`
+
+/**
+ * Transfer planner overlay: pick two bodies orbiting the same primary and read
+ * the delta-v, flight time, phase angle and next launch window for a Hohmann
+ * or bi-elliptic transfer between them.
+ */
+export function TransferPlannerPanel({
+  bodies,
+  from,
+  to,
+  onFromChange,
+  onToChange,
+  biElliptic,
+  onBiEllipticChange,
+  apoapsisRatio,
+  onApoapsisRatioChange,
+  plan,
+  error,
+  simulationTime,
+  onClose,
+}: TransferPlannerPanelProps) {
+  const origin = bodies.find((body) => body.id === from)
+  // Destinations share the origin's primary
+  const destinations = origin ? bodies.filter((body) => body.id !== from && body.orbit?.parent === origin.orbit?.parent) : []
+
+  return (
+    <div className="absolute top-4 right-16 z-10 w-72 max-h-[60vh] overflow-y-auto bg-black/80 backdrop-blur-sm text-white text-sm rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Transfer Planner</h4>
+        <button aria-label="Close transfer planner" onClick={onClose} className="hover:bg-white/10 rounded p-1">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[3rem_1fr] items-center gap-2">
+        <label htmlFor="transfer-from" className="text-gray-400 text-xs">From</label>
+        <select
+          id="transfer-from"
+          value={from}
+          onChange={(e) => onFromChange(e.target.value)}
+          className="px-2 py-1 rounded bg-white/10"
+        >
+          <option value="">Select body</option>
+          {bodies.map((body) => (
+            <option key={body.id} value={body.id}>{body.name}</option>
+          ))}
+        </select>
+        <label htmlFor="transfer-to" className="text-gray-400 text-xs">To</label>
+        <select
+          id="transfer-to"
+          value={to}
+          onChange={(e) => onToChange(e.target.value)}
+          disabled={!origin}
+          className="px-2 py-1 rounded bg-white/10"
+        >
+          <option value="">Select body</option>
+          {destinations.map((body) => (
+            <option key={body.id} value={body.id}>{body.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={biElliptic} onChange={(e) => onBiEllipticChange(e.target.checked)} />
+          Bi-elliptic transfer
+        </label>
+        {biElliptic && (
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            Apoapsis
+            <input
+              type="number"
+              aria-label="Bi-elliptic apoapsis"
+              min={1}
+              step={0.5}
+              value={apoapsisRatio}
+              onChange={(e) => onApoapsisRatioChange(Number(e.target.value))}
+              className="w-16 px-1 rounded bg-white/10"
+            />
+            × outer orbit
+          </label>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {plan && (
+        <dl className="grid grid-cols-[1fr_auto] gap-x-2 gap-y-1 text-xs" aria-label="Transfer plan">
+          {plan.burns.map((burn, index) => (
+            <div key={index} className="contents">
+              <dt className="text-gray-400">Burn {index + 1}</dt>
+              <dd className="font-mono text-right">{formatQuantity(burn, "km/s")}</dd>
+            </div>
+          ))}
+          <dt className="text-gray-400">Total Δv</dt>
+          <dd className="font-mono text-right">{formatQuantity(plan.totalDeltaV, "km/s")}</dd>
+          <dt className="text-gray-400">Time of flight</dt>
+          <dd className="font-mono text-right">{formatDays(plan.timeOfFlight)}</dd>
+          <dt className="text-gray-400">Phase angle</dt>
+          <dd className="font-mono text-right">{plan.phaseAngle.toFixed(1)}°</dd>
+          <dt className="text-gray-400">Current phase</dt>
+          <dd className="font-mono text-right">{plan.currentPhaseAngle.toFixed(1)}°</dd>
+          <dt className="text-gray-400">Next window</dt>
+          <dd className="font-mono text-right">
+            {plan.launchWindow === null ? "Never" : formatSimulationDate(plan.launchWindow)}
+          </dd>
+          {plan.launchWindow !== null && (
+            <>
+              <dt className="text-gray-400">Wait</dt>
+              <dd className="font-mono text-right">{formatDays((plan.launchWindow - simulationTime) / 86400000)}</dd>
+            </>
+          )}
+          {Number.isFinite(plan.synodicPeriod) && (
+            <>
+              <dt className="text-gray-400">Windows every</dt>
+              <dd className="font-mono text-right">{formatDays(plan.synodicPeriod)}</dd>
+            </>
+          )}
+        </dl>
+      )}
+    </div>
+  )
+}
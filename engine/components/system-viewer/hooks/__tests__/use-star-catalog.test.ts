@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useStarCatalog } from '../use-star-catalog';
+import { engineSystemLoader } from '@/engine/system-loader';
+import { catalogStarPosition, projectSky } from '@/engine/utils/star-catalog';
+import type { StarCatalogData } from '@/engine/types/star-catalog';
+import brightStars from '@/public/data/sky/bright-stars.json';
+import realisticStarmap from '@/public/data/realistic/starmap-systems.json';
+
+vi.mock('@/engine/system-loader', () => ({
+  engineSystemLoader: {
+    loadStarCatalog: vi.fn(),
+    loadStarmap: vi.fn(),
+  }
+}));
+
+const mockSystemLoader = engineSystemLoader as any;
+const catalog = brightStars as StarCatalogData;
+const catalogStar = (id: string) => catalog.stars.find(star => star.id === id)!;
+
+const observerFor = async (systemId: string) => {
+  const { result } = renderHook(() => useStarCatalog('realistic', systemId, true));
+  await waitFor(() => expect(result.current.catalog).not.toBeNull());
+  return result.current.observerPosition;
+};
+
+describe('useStarCatalog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSystemLoader.loadStarCatalog.mockResolvedValue(catalog);
+    mockSystemLoader.loadStarmap.mockResolvedValue(realisticStarmap);
+  });
+
+  it('fetches nothing until enabled', () => {
+    renderHook(() => useStarCatalog('realistic', 'sol', false));
+    expect(mockSystemLoader.loadStarCatalog).not.toHaveBeenCalled();
+  });
+
+  it("observes from the system's catalog star", async () => {
+    const observer = await observerFor('alpha-centauri');
+    expect(observer).toEqual(catalogStarPosition(catalogStar('alpha-centauri-a')));
+
+    // The Sun is a bright star in Cassiopeia seen from Alpha Centauri
+    const sky = projectSky(catalog, observer, { excludeSystemId: 'alpha-centauri' });
+    const sun = sky.stars.find(star => star.id === 'sol')!;
+    expect(sun.magnitude).toBeCloseTo(0.47, 1);
+    expect(sky.stars.some(star => star.id === 'alpha-centauri-a')).toBe(false);
+  });
+
+  it('sees Sol from the origin', async () => {
+    expect(Math.hypot(...await observerFor('sol'))).toBe(0);
+  });
+
+  it('falls back to the starmap position for systems outside the catalog', async () => {
+    mockSystemLoader.loadStarmap.mockResolvedValue({
+      ...realisticStarmap,
+      systems: { ...realisticStarmap.systems, 'new-system': { id: 'new-system', name: 'New', position: [10, 0, 0] } },
+    });
+    expect(await observerFor('new-system')).toEqual([10, 0, 0]);
+  });
+});
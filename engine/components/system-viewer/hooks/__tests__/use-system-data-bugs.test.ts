@@ -8,6 +8,7 @@ vi.mock('@/engine/system-loader', () => ({
   engineSystemLoader: {
     getAvailableSystems: vi.fn(),
     loadSystem: vi.fn(),
+    loadUniverse: vi.fn(),
   }
 }));
 
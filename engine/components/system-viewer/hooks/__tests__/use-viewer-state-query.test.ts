@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useViewerStateQuery } from '../use-viewer-state-query'
+
+vi.mock('next/navigation', () => ({
+  usePathname: () => '/star-citizen',
+  useSearchParams: () => new URLSearchParams(window.location.search),
+}))
+
+describe('useViewerStateQuery', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/star-citizen?system=stanton&object=hurston&view=profile')
+    vi.spyOn(window.history, 'pushState')
+    vi.spyOn(window.history, 'replaceState')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('requests the state named by the URL', () => {
+    const { result } = renderHook(() => useViewerStateQuery())
+    expect(result.current.requestedState).toEqual({ systemId: 'stanton', objectId: 'hurston', viewType: 'profile' })
+  })
+
+  it('replaces the opening entry, then pushes one entry per focus change', () => {
+    const { result } = renderHook(() => useViewerStateQuery())
+
+    act(() => result.current.reportState({ systemId: 'stanton', objectId: 'hurston', viewType: 'profile', time: 0 }))
+    expect(window.history.replaceState).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toContain('t=1970-01-01')
+
+    act(() => result.current.reportState({ systemId: 'stanton', objectId: 'arccorp', viewType: 'profile', time: 0 }))
+    expect(window.history.pushState).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toContain('object=arccorp')
+
+    act(() => result.current.reportState({ systemId: 'stanton', objectId: 'arccorp', viewType: 'explorational', time: 0 }))
+    expect(window.history.pushState).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toContain('view=explorational')
+  })
+
+  it('writes clock-only changes at most once a second', () => {
+    const { result } = renderHook(() => useViewerStateQuery())
+
+    act(() => result.current.reportState({ systemId: 'stanton', time: 0 }))
+    act(() => result.current.reportState({ systemId: 'stanton', time: 1000 }))
+    expect(window.history.replaceState).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toContain('t=1970-01-01T00%3A00%3A00')
+  })
+
+  it('requests the state of the entry the browser moves back to', () => {
+    const { result } = renderHook(() => useViewerStateQuery())
+
+    act(() => {
+      window.history.replaceState(null, '', '/star-citizen?system=pyro&object=pyro-i')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+    })
+    expect(result.current.requestedState).toEqual({ systemId: 'pyro', objectId: 'pyro-i' })
+  })
+})
@@ -0,0 +1,81 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { SECONDS_PER_DAY, type SimulationClock, type SimulationTime } from "@/engine/ephemeris"
+
+interface SimulationClockSnapshot {
+  time: SimulationTime
+  rate: number
+  paused: boolean
+}
+
+const readClock = (clock: SimulationClock): SimulationClockSnapshot => ({
+  time: clock.getTime(),
+  rate: clock.getRate(),
+  paused: clock.isPaused(),
+})
+
+/**
+ * React view of a SimulationClock. The clock ticks every frame, so while it is
+ * running the reported time is throttled to `displayIntervalMs`; rate, pause and
+ * jumps while paused are reported immediately.
+ *
+ * `timeMultiplier` is the rate in simulated days per real second (1x = 1 day/s),
+ * always positive; the direction is reported separately as `isReversed`.
+ */
+export function useSimulationClock(clock: SimulationClock, displayIntervalMs = 250) {
+  const [snapshot, setSnapshot] = useState<SimulationClockSnapshot>(() => readClock(clock))
+  const lastReportRef = useRef<number>(0)
+
+  useEffect(() => {
+    setSnapshot(readClock(clock))
+
+    return clock.subscribe((current) => {
+      const next = readClock(current)
+      const now = Date.now()
+
+      setSnapshot(prev => {
+        const isTimeOnlyUpdate = !next.paused && prev.rate === next.rate && prev.paused === next.paused
+        if (isTimeOnlyUpdate && now - lastReportRef.current < displayIntervalMs) {
+          return prev
+        }
+        lastReportRef.current = now
+        return next
+      })
+    })
+  }, [clock, displayIntervalMs])
+
+  const setSimulationTime = useCallback((time: SimulationTime) => {
+    clock.setTime(time)
+  }, [clock])
+
+  const setTimeMultiplier = useCallback((multiplier: number) => {
+    const direction = clock.getRate() < 0 ? -1 : 1
+    clock.setRate(direction * Math.abs(multiplier) * SECONDS_PER_DAY)
+  }, [clock])
+
+  const toggleReverse = useCallback(() => {
+    clock.setRate(-clock.getRate())
+  }, [clock])
+
+  const setPaused = useCallback((paused: boolean) => {
+    clock.setPaused(paused)
+  }, [clock])
+
+  const togglePause = useCallback(() => {
+    clock.setPaused(!clock.isPaused())
+  }, [clock])
+
+  return {
+    simulationTime: snapshot.time,
+    rate: snapshot.rate,
+    timeMultiplier: Math.abs(snapshot.rate) / SECONDS_PER_DAY,
+    isReversed: snapshot.rate < 0,
+    isPaused: snapshot.paused,
+    setSimulationTime,
+    setTimeMultiplier,
+    toggleReverse,
+    setPaused,
+    togglePause,
+  }
+}
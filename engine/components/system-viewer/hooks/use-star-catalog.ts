@@ -0,0 +1,46 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { engineSystemLoader } from "@/engine/system-loader"
+import type { StarCatalogData } from "@/engine/types/star-catalog"
+import { skyObserverPosition, starmapPositionInLightYears } from "@/engine/utils/star-catalog"
+
+const SOL_POSITION: [number, number, number] = [0, 0, 0]
+
+/**
+ * Star catalog and observer position for the real-sky skybox. The observer is
+ * the system's own catalog star; systems without one are placed by their
+ * starmap position in light years, and systems missing from the starmap too
+ * see the sky from Sol. Nothing is fetched until `enabled`.
+ */
+export function useStarCatalog(mode: string, systemId: string, enabled: boolean) {
+  const [catalog, setCatalog] = useState<StarCatalogData | null>(null)
+  const [observerPosition, setObserverPosition] = useState<[number, number, number]>(SOL_POSITION)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+
+    const load = async () => {
+      const [starCatalog, starmap] = await Promise.all([
+        engineSystemLoader.loadStarCatalog(),
+        engineSystemLoader.loadStarmap(mode).catch(() => null),
+      ])
+      if (cancelled) return
+
+      const system = starmap?.systems[systemId]
+      const starmapPosition = system
+        ? starmapPositionInLightYears(system.position, starmap?.metadata?.distance_unit)
+        : SOL_POSITION
+      setCatalog(starCatalog)
+      setObserverPosition(starCatalog ? skyObserverPosition(starCatalog, systemId, starmapPosition) : starmapPosition)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [mode, systemId, enabled])
+
+  return { catalog, observerPosition }
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { engineSystemLoader } from "@/engine/system-loader"
+import { localSystemStore, isLocalSystemId } from "@/engine/local-systems/local-system-store"
 import { OrbitalSystemData } from "@/engine/types/orbital-system"
 
 export function useSystemData(mode: string, systemId: string) {
@@ -10,6 +11,16 @@ export function useSystemData(mode: string, systemId: string) {
   const [error, setError] = useState<string | null>(null)
   const [loadingProgress, setLoadingProgress] = useState<string>("")
   const [availableSystems, setAvailableSystems] = useState<string[]>([])
+  const [localRevision, setLocalRevision] = useState(0)
+
+  // Importing or removing a local system changes the list, and re-importing
+  // the open one changes what is shown
+  useEffect(() => {
+    return localSystemStore.subscribe(() => {
+      engineSystemLoader.getAvailableSystems(mode).then(setAvailableSystems)
+      if (isLocalSystemId(systemId)) setLocalRevision(revision => revision + 1)
+    })
+  }, [mode, systemId])
 
   useEffect(() => {
     const loadSystemData = async () => {
@@ -29,20 +40,15 @@ export function useSystemData(mode: string, systemId: string) {
         console.log(`🔄 Switching to system: ${systemId} in mode: ${mode}`)
         console.log(`Available systems for mode ${mode}:`, systems)
 
-        // Define fallback systems for each mode
-        const fallbackSystems: Record<string, string[]> = {
-          realistic: ["sol", "proxima-centauri", "alpha-centauri", "wolf-359", "kepler-442"],
-          "star-citizen": ["stanton", "sol", "terra", "pyro", "magnus", "nyx"],
-        }
-
         let systemToLoad = systemId
         let isUsingFallback = false
 
-        // If the requested system is not in the available list, try fallbacks
+        // If the requested system is not in the available list, fall back to the universe's default system
         if (!systems.includes(systemId)) {
           console.warn(`System ${systemId} not found in starmap. Trying fallbacks...`)
 
-          const fallbacks = fallbackSystems[mode] || []
+          const universe = await engineSystemLoader.loadUniverse(mode)
+          const fallbacks = universe ? [universe.default_system] : []
           let foundFallback = false
 
           // Try each fallback system
@@ -170,7 +176,7 @@ export function useSystemData(mode: string, systemId: string) {
     }
 
     loadSystemData()
-  }, [mode, systemId])
+  }, [mode, systemId, localRevision])
 
   return {
     systemData,
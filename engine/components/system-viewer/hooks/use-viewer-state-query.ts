@@ -0,0 +1,66 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { usePathname, useSearchParams } from "next/navigation"
+import { isSameFocus, viewerStateFromQuery, viewerStateToQuery, type ViewerState } from "../viewer-state"
+
+// Changes that only move the clock or camera are written at most this often
+const REPLACE_INTERVAL_MS = 1000
+
+/**
+ * System viewer state mirrored into the URL query so a view can be shared.
+ *
+ * `requestedState` is what the URL asks for: read on load, and again whenever
+ * the browser goes back or forward. The viewer reports its state through
+ * `reportState`; a new focus (object or system) pushes a history entry, while
+ * anything else replaces the current one so a running clock doesn't flood the
+ * history. The first report fills in the URL the page was opened with.
+ */
+export function useViewerStateQuery(): {
+  requestedState: ViewerState
+  reportState: (state: ViewerState) => void
+} {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [requestedState, setRequestedState] = useState<ViewerState>(() =>
+    viewerStateFromQuery(new URLSearchParams(searchParams?.toString() ?? ""))
+  )
+  const writtenStateRef = useRef<ViewerState>(requestedState)
+  const lastReplaceRef = useRef(0)
+  const hasWrittenRef = useRef(false)
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = viewerStateFromQuery(new URLSearchParams(window.location.search))
+      writtenStateRef.current = state
+      setRequestedState(state)
+    }
+    window.addEventListener("popstate", handlePopState)
+    return () => window.removeEventListener("popstate", handlePopState)
+  }, [])
+
+  const reportState = useCallback((state: ViewerState) => {
+    const query = viewerStateToQuery(state, new URLSearchParams(window.location.search)).toString()
+    if (query === window.location.search.replace(/^\?/, "")) return
+
+    const url = query ? `${pathname}?${query}` : pathname
+    const previous = writtenStateRef.current
+    const now = Date.now()
+
+    if (hasWrittenRef.current && !isSameFocus(previous, state)) {
+      window.history.pushState(window.history.state, "", url)
+    } else {
+      const onlyClockOrCamera = previous.viewType === state.viewType &&
+        previous.rate === state.rate &&
+        previous.paused === state.paused
+      if (hasWrittenRef.current && onlyClockOrCamera && now - lastReplaceRef.current < REPLACE_INTERVAL_MS) return
+      window.history.replaceState(window.history.state, "", url)
+    }
+
+    writtenStateRef.current = state
+    lastReplaceRef.current = now
+    hasWrittenRef.current = true
+  }, [pathname])
+
+  return { requestedState, reportState }
+}
@@ -1,9 +1,20 @@
 "use client"
 
 import React, { useState } from "react"
-import { Star, Circle, Globe, Camera, ChevronDown, ChevronRight, Info, Settings } from "lucide-react"
+import { Star, Circle, Globe, Camera, ChevronDown, ChevronRight, Info, Settings, Orbit, Calculator, AlertTriangle } from "lucide-react"
 import { OrbitalSystemData } from "@/engine/types/orbital-system"
 import { engineSystemLoader } from "@/engine/system-loader"
+import {
+  convertLength,
+  convertMass,
+  formatQuantity,
+  MASS_DISPLAY_UNITS,
+  RADIUS_DISPLAY_UNITS,
+  type LengthUnit,
+  type MassUnit,
+} from "@/engine/units/units"
+import { massUnitFor, radiusUnitFor } from "@/engine/units/property-units"
+import { derivePhysics, findPhysicsDisagreements, type DerivedPhysics } from "@/engine/utils/derived-physics"
 
 interface ObjectDetailsPanelProps {
   systemData: OrbitalSystemData | null
@@ -13,6 +24,42 @@ interface ObjectDetailsPanelProps {
   cameraOrbitRadius?: number
   selectedObjectId?: string | null
   selectedObjectData?: any | null
+  onTravelToSystem?: (systemId: string) => void
+  travelError?: string | null
+}
+
+// Rows of the Derived Physics section, in display order
+const DERIVED_ROWS: Array<{ key: keyof DerivedPhysics; label: string; unit: string }> = [
+  { key: "gravity", label: "Surface Gravity", unit: "g" },
+  { key: "escape_velocity", label: "Escape Velocity", unit: "km/s" },
+  { key: "density", label: "Mean Density", unit: "g/cm³" },
+  { key: "orbital_period", label: "Orbital Period", unit: "days" },
+  { key: "hill_radius", label: "Hill Sphere", unit: "AU" },
+  { key: "sphere_of_influence", label: "Sphere of Influence", unit: "AU" },
+  { key: "roche_limit", label: "Roche Limit", unit: "km" },
+  { key: "equilibrium_temperature", label: "Equilibrium Temp.", unit: "K" },
+]
+
+interface UnitSelectProps<Unit extends string> {
+  label: string
+  units: Unit[]
+  value: Unit
+  onChange: (unit: Unit) => void
+}
+
+function UnitSelect<Unit extends string>({ label, units, value, onChange }: UnitSelectProps<Unit>) {
+  return (
+    <select
+      aria-label={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value as Unit)}
+      className="bg-white/10 rounded px-1 text-xs"
+    >
+      {units.map((unit) => (
+        <option key={unit} value={unit}>{unit}</option>
+      ))}
+    </select>
+  )
 }
 
 export function ObjectDetailsPanel({
@@ -23,9 +70,14 @@ export function ObjectDetailsPanel({
   cameraOrbitRadius,
   selectedObjectId,
   selectedObjectData,
+  onTravelToSystem,
+  travelError,
 }: ObjectDetailsPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [openSection, setOpenSection] = useState<string>("details")
+  // Display units chosen in the Properties section; null shows the declared unit
+  const [massUnit, setMassUnit] = useState<MassUnit | null>(null)
+  const [radiusUnit, setRadiusUnit] = useState<LengthUnit | null>(null)
 
   const toggleSection = (section: string) => {
     setOpenSection(openSection === section ? "" : section)
@@ -252,14 +304,25 @@ export function ObjectDetailsPanel({
     )
   }
 
+  // Values computed from mass, radius and orbit, and hand-entered values that disagree
+  const derived = focusedObject.properties ? derivePhysics(focusedObject, systemData.objects) : {}
+  const derivedRows = DERIVED_ROWS.flatMap((row) => {
+    const value = derived[row.key]
+    return value === undefined ? [] : [{ ...row, value }]
+  })
+  const disagreements = focusedObject.properties ? findPhysicsDisagreements(focusedObject, derived) : []
+
   const objectType = focusedObject.classification === 'star' ? 'Star' : 
                      focusedObject.classification === 'planet' ? 'Planet' : 
                      focusedObject.classification === 'moon' ? 'Moon' : 
+                     focusedObject.classification === 'jump_point' ? 'Jump Point' : 
                      focusedObject.classification
   const objectIcon = focusedObject.classification === 'star' ? 
                      <Star size={20} className="fill-current text-yellow-300" /> : 
                      focusedObject.classification === 'planet' ? 
                      <Circle size={16} className="fill-current text-blue-300" /> :
+                     focusedObject.classification === 'jump_point' ?
+                     <Orbit size={18} className="text-cyan-300" /> :
                      <Circle size={14} className="fill-current text-purple-300" />
 
   return (
@@ -334,6 +397,35 @@ export function ObjectDetailsPanel({
                     <span className="text-white text-sm">{focusedObject.geometry_type}</span>
                   </div>
 
+                  {focusedObject.classification === 'jump_point' && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-white/60 text-sm">Destination:</span>
+                        <span className="text-white text-sm">{focusedObject.destination || 'Unknown'}</span>
+                      </div>
+
+                      <div className="flex justify-between">
+                        <span className="text-white/60 text-sm">Status:</span>
+                        <span className="text-white text-sm">{focusedObject.properties?.jump_status || 'active'}</span>
+                      </div>
+
+                      {focusedObject.destination && onTravelToSystem && (
+                        <button
+                          onClick={() => onTravelToSystem(focusedObject.destination)}
+                          disabled={focusedObject.properties?.jump_status === 'inactive'}
+                          className="w-full flex items-center justify-center gap-2 p-2 rounded bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-100 text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Orbit size={16} />
+                          <span>Travel to destination system</span>
+                        </button>
+                      )}
+
+                      {travelError && (
+                        <div className="text-xs text-red-400">{travelError}</div>
+                      )}
+                    </>
+                  )}
+
                   {focusedObject.position && (
                     <div className="flex justify-between">
                       <span className="text-white/60 text-sm">Position:</span>
@@ -431,25 +523,86 @@ export function ObjectDetailsPanel({
 
               {openSection === "properties" && (
                 <div className="p-4 pt-0 space-y-2">
-                  {focusedObject.properties.mass && (
+                  {typeof focusedObject.properties.mass === "number" && (() => {
+                    const declared = massUnitFor(focusedObject.classification)
+                    const unit = massUnit ?? declared
+                    return (
+                      <div className="flex justify-between items-center">
+                        <span className="text-white/60 text-sm">Mass:</span>
+                        <span className="text-white text-sm flex items-center gap-1">
+                          {formatQuantity(convertMass(focusedObject.properties.mass, declared, unit))}
+                          <UnitSelect label="Mass unit" units={MASS_DISPLAY_UNITS} value={unit} onChange={setMassUnit} />
+                        </span>
+                      </div>
+                    )
+                  })()}
+                  {typeof focusedObject.properties.radius === "number" && (() => {
+                    const declared = radiusUnitFor()
+                    const unit = radiusUnit ?? declared
+                    return (
+                      <div className="flex justify-between items-center">
+                        <span className="text-white/60 text-sm">Radius:</span>
+                        <span className="text-white text-sm flex items-center gap-1">
+                          {formatQuantity(convertLength(focusedObject.properties.radius, declared, unit))}
+                          <UnitSelect label="Radius unit" units={RADIUS_DISPLAY_UNITS} value={unit} onChange={setRadiusUnit} />
+                        </span>
+                      </div>
+                    )
+                  })()}
+                  {typeof focusedObject.properties.temperature === "number" && (
                     <div className="flex justify-between">
-                      <span className="text-white/60 text-sm">Mass:</span>
-                      <span className="text-white text-sm">{focusedObject.properties.mass} M☉</span>
+                      <span className="text-white/60 text-sm">Temperature:</span>
+                      <span className="text-white text-sm">{formatQuantity(focusedObject.properties.temperature, "K")}</span>
                     </div>
                   )}
-                  {focusedObject.properties.radius && (
+                  {typeof focusedObject.properties.luminosity === "number" && (
                     <div className="flex justify-between">
-                      <span className="text-white/60 text-sm">Radius:</span>
-                      <span className="text-white text-sm">{focusedObject.properties.radius} R☉</span>
+                      <span className="text-white/60 text-sm">Luminosity:</span>
+                      <span className="text-white text-sm">{formatQuantity(focusedObject.properties.luminosity, "L☉")}</span>
                     </div>
                   )}
-                  {focusedObject.properties.temperature && (
-                    <div className="flex justify-between">
-                      <span className="text-white/60 text-sm">Temperature:</span>
-                      <span className="text-white text-sm">{focusedObject.properties.temperature} K</span>
-                    </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Derived Physics Section */}
+          {derivedRows.length > 0 && (
+            <div className="border-b border-white/10">
+              <button
+                className="w-full p-4 flex items-center justify-between hover:bg-white/5"
+                onClick={() => toggleSection("derived")}
+              >
+                <div className="flex items-center gap-2">
+                  <Calculator size={18} />
+                  <span>Derived Physics</span>
+                  {disagreements.length > 0 && (
+                    <AlertTriangle size={14} className="text-amber-400" aria-label="Data disagrees with derived values" />
                   )}
                 </div>
+                {openSection === "derived" ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+              </button>
+
+              {openSection === "derived" && (
+                <div className="p-4 pt-0 space-y-2">
+                  {derivedRows.map(({ key, label, unit, value }) => {
+                    const disagreement = disagreements.find((d) => d.property === key)
+                    return (
+                      <div key={key}>
+                        <div className="flex justify-between">
+                          <span className="text-white/60 text-sm">{label}:</span>
+                          <span className="text-white text-sm">{formatQuantity(value, unit)}</span>
+                        </div>
+                        {disagreement && (
+                          <div className="flex items-center justify-end gap-1 text-amber-400 text-xs">
+                            <AlertTriangle size={12} />
+                            <span>Data says {formatQuantity(disagreement.declared, unit)}</span>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
               )}
             </div>
           )}
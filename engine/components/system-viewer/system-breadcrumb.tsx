@@ -18,8 +18,12 @@ interface SystemBreadcrumbProps {
   onSystemNameClick?: () => void
   // Add function to get object sizing for consistency
   getObjectSizing?: (objectId: string) => { visualSize: number }
+  // Given while editing: moons can be dragged onto a planet to orbit it instead
+  onReparent?: (objectId: string, parentId: string) => void
 }
 
+const DRAGGED_OBJECT_TYPE = "application/x-celestial-object-id"
+
 export function SystemBreadcrumb({
   systemData,
   objectRefsMap,
@@ -29,8 +33,36 @@ export function SystemBreadcrumb({
   onBackToStarmap,
   onSystemNameClick,
   getObjectSizing,
+  onReparent,
 }: SystemBreadcrumbProps) {
   const [selectedPlanetId, setSelectedPlanetId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  // Drag and drop props for re-parenting; nothing is draggable outside edit mode
+  const dragSourceProps = (objectId: string) => onReparent ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData(DRAGGED_OBJECT_TYPE, objectId)
+      e.dataTransfer.effectAllowed = "move"
+    },
+  } : {}
+
+  const dropTargetProps = (parentId: string) => onReparent ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAGGED_OBJECT_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+      setDropTargetId(parentId)
+    },
+    onDragLeave: () => setDropTargetId(null),
+    onDrop: (e: React.DragEvent) => {
+      const objectId = e.dataTransfer.getData(DRAGGED_OBJECT_TYPE)
+      setDropTargetId(null)
+      if (!objectId || objectId === parentId) return
+      e.preventDefault()
+      onReparent(objectId, parentId)
+    },
+  } : {}
 
   const handleObjectClick = (objectId: string, name: string) => {
     console.log('🍞 BREADCRUMB CLICKED:', name)
@@ -187,9 +219,10 @@ export function SystemBreadcrumb({
           <button
             key={planet.id}
             onClick={() => handlePlanetClick(planet.id, planet.name)}
+            {...dropTargetProps(planet.id)}
             className={`flex items-center gap-1 px-2 py-1 rounded-full transition-all duration-200 hover:bg-white/20 ${
               focusedName === planet.name ? "bg-blue-600/40 text-blue-100 border border-blue-400/50" : "text-white/80 hover:text-white"
-            }`}
+            } ${dropTargetId === planet.id ? "ring-2 ring-green-400" : ""}`}
             title={planet.name}
           >
             <Circle size={12} className="fill-current" />
@@ -216,6 +249,7 @@ export function SystemBreadcrumb({
                 <button
                   key={moon.id}
                   onClick={() => handleObjectClick(moon.id, moon.name)}
+                  {...dragSourceProps(moon.id)}
                   className={`flex items-center gap-1 px-2 py-1 rounded-full transition-all duration-200 hover:bg-white/20 ${
                     focusedName === moon.name ? "bg-purple-600/40 text-purple-100 border border-purple-400/50" : "text-white/80 hover:text-white"
                   }`}
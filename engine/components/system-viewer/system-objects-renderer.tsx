@@ -6,15 +6,22 @@ import * as THREE from "three"
 import { InteractiveObject } from "../3d-ui/interactive-object"
 import { OrbitalPath } from "./components/orbital-path"
 import { StellarZones } from "./components/stellar-zones"
+import { BinaryStabilityZones } from "./components/binary-stability-zones"
+import { GravitationalDomains } from "./components/gravitational-domains"
+import { TransferOrbit } from "./components/transfer-orbit"
+import { LagrangePointPlacement } from "./components/lagrange-point-placement"
 import { 
   calculateSystemOrbitalMechanics,
   clearOrbitalMechanicsCache
 } from "@/engine/utils/orbital-mechanics-calculator"
 import { getOrbitalMechanicsConfig } from "@/engine/core/view-modes/compatibility"
+import { findBinaryPairs, getBinaryStarIndex } from "@/engine/utils/binary-systems"
 // Import view modes to ensure they are registered
 import "@/engine/core/view-modes"
 import { GeometryRendererFactory } from "@/engine/renderers/geometry-renderers"
+import { parseEpoch, resolveOrbitalPeriodDays, type SimulationClock } from "@/engine/ephemeris"
 import type { ViewType } from "@lib/types/effects-level"
+import type { TransferArc } from "@/engine/hooks/use-transfer-plan"
 import { 
   OrbitalSystemData, 
   CelestialObject, 
@@ -35,11 +42,14 @@ interface SystemObjectsRendererProps {
   timeMultiplier: number
   isPaused: boolean
   viewType: ViewType
+  simulationClock?: SimulationClock
   objectRefsMap: React.MutableRefObject<Map<string, THREE.Object3D>>
   onObjectHover: (objectId: string | null) => void
   onObjectSelect?: (id: string, object: THREE.Object3D, name: string) => void
   onObjectFocus?: (object: THREE.Object3D, name: string, size: number, radius?: number, mass?: number, orbitRadius?: number) => void
   registerRef: (id: string, ref: THREE.Object3D | null) => void
+  showGravitationalDomains?: boolean
+  transferArc?: TransferArc | null
 }
 
 // Celestial Object Component - renders any celestial object based on its geometry type
@@ -74,7 +84,7 @@ export const CelestialObjectRenderer = React.memo(({
     diskBrightness?: number
   }
   showLabel?: boolean
-  onHover: (objectId: string | null) => void
+  onHover?: (objectId: string | null) => void
   onSelect?: (id: string, object: THREE.Object3D, name: string) => void
   onFocus?: (object: THREE.Object3D, name: string, size: number, radius?: number, mass?: number, orbitRadius?: number) => void
   registerRef: (id: string, ref: THREE.Object3D | null) => void
@@ -108,11 +118,14 @@ export function SystemObjectsRenderer({
   timeMultiplier,
   isPaused,
   viewType,
+  simulationClock,
   objectRefsMap,
   onObjectHover,
   onObjectSelect,
   onObjectFocus,
   registerRef,
+  showGravitationalDomains = false,
+  transferArc = null,
 }: SystemObjectsRendererProps) {
   // Removed selectedObjectIdRef - using selectedObjectId prop directly for immediate updates
 
@@ -135,6 +148,8 @@ export function SystemObjectsRenderer({
     return result;
   }, [systemData.objects, viewType]);
 
+  const binaryPairs = useMemo(() => findBinaryPairs(systemData.objects), [systemData.objects])
+
   // Get object sizing from orbital mechanics calculator
   const getObjectSizing = useCallback((objectId: string) => {
     const mechanicsData = orbitalMechanics.get(objectId);
@@ -145,11 +160,6 @@ export function SystemObjectsRenderer({
     }
   }, [orbitalMechanics])
 
-  // Calculate orbital period for objects
-  const calculateOrbitalPeriod = useCallback((semiMajorAxis: number) => {
-    return Math.sqrt(Math.pow(semiMajorAxis, 3)) * 2.0
-  }, [])
-
   // PERFORMANCE FIX: Create a stable selection info function using ref instead of dependency
   const getHierarchicalSelectionInfo = useCallback((object: CelestialObject) => {
     const currentSelectedId = selectedObjectId; // Use actual prop instead of ref to avoid timing issues
@@ -266,42 +276,24 @@ export function SystemObjectsRenderer({
         return null;
       }
 
-      // Detect binary stars for opposite positioning
-      let binaryStarIndex: number | undefined = undefined;
-      if (object.orbit?.parent === 'barycenter' && object.classification === 'star') {
-        // Find all stars with the same parent (barycenter) to determine binary star order
-        const binaryStars = systemData.objects.filter(obj => 
-          obj.orbit?.parent === 'barycenter' && 
-          obj.classification === 'star'
-        ).sort((a, b) => {
-          // Sort by semi_major_axis to maintain consistent ordering
-          const aAU = a.orbit && isOrbitData(a.orbit) ? a.orbit.semi_major_axis : 0;
-          const bAU = b.orbit && isOrbitData(b.orbit) ? b.orbit.semi_major_axis : 0;
-          return aAU - bAU;
-        });
-        
-        if (binaryStars.length >= 2) {
-          binaryStarIndex = binaryStars.findIndex(star => star.id === object.id);
-          console.log(`🌟 Binary star detected: ${object.name} is star ${binaryStarIndex} of ${binaryStars.length}`);
-        }
-      }
+      // Both stars of a binary move on the primary's orbital elements, on opposite sides of the barycenter
+      const binaryStarIndex = getBinaryStarIndex(object.id, binaryPairs)
+      const binaryPair = binaryStarIndex !== undefined
+        ? binaryPairs.find(pair => pair.primary.id === object.id || pair.secondary.id === object.id)
+        : undefined
+      const elements = binaryPair?.primary.orbit && isOrbitData(binaryPair.primary.orbit) ? binaryPair.primary.orbit : orbit
 
       return (
         <group key={object.id} visible={isVisible}>
           <MemoizedOrbitalPath
             semiMajorAxis={semiMajorAxis}
-            eccentricity={orbit.eccentricity}
-            inclination={orbit.inclination}
-            orbitalPeriod={
-              // For binary stars, use the actual period from data to ensure synchronization
-              // For other objects, calculate period using Kepler's 3rd law
-              (object.orbit?.parent === 'barycenter' && object.classification === 'star') 
-                ? orbit.orbital_period 
-                : calculateOrbitalPeriod(orbit.semi_major_axis)
-            }
+            eccentricity={elements.eccentricity}
+            inclination={elements.inclination}
+            orbitalPeriod={resolveOrbitalPeriodDays(elements)}
+            epoch={parseEpoch(elements.epoch)}
+            meanAnomalyAtEpoch={elements.mean_anomaly_at_epoch}
+            clock={simulationClock}
             showOrbit={isVisible} // Only show orbits for visible objects
-            timeMultiplier={timeMultiplier}
-            isPaused={isPaused}
             parentObjectId={orbit.parent}
             objectRefsMap={objectRefsMap}
             viewType={viewType}
@@ -363,6 +355,35 @@ export function SystemObjectsRenderer({
           />
         </group>
       )
+    } else if (object.lagrange) {
+      // Stations and Lagrange points that follow a primary/secondary pair
+      const secondarySize = getObjectSizing(object.lagrange.secondary).visualSize;
+      return (
+        <group key={object.id} visible={isVisible}>
+          <LagrangePointPlacement
+            placement={object.lagrange}
+            objects={systemData.objects}
+            objectRefsMap={objectRefsMap}
+            viewType={viewType}
+            minSecondaryOffset={secondarySize * 3}
+          >
+            <CelestialObjectRenderer
+              object={object}
+              scale={scale}
+              starPosition={primaryStarPosition}
+              isSelected={isSelected}
+              planetSystemSelected={planetSystemSelected}
+              timeMultiplier={timeMultiplier}
+              isPaused={isPaused}
+              showLabel={shouldShowLabel}
+              onHover={isVisible ? onObjectHover : undefined}
+              onSelect={isVisible ? onObjectSelect : undefined}
+              onFocus={isVisible ? onObjectFocus : undefined}
+              registerRef={registerRef}
+            />
+          </LagrangePointPlacement>
+        </group>
+      )
     } else {
       // Objects without orbits (stars, barycenters)
       return (
@@ -386,10 +407,11 @@ export function SystemObjectsRenderer({
     }
   }, [
     systemData.objects,
+    binaryPairs,
     // selectedObjectId removed - handled by getHierarchicalSelectionInfo
     primaryStarPosition,
     getObjectSizing,
-    calculateOrbitalPeriod,
+    simulationClock,
     timeMultiplier,
     isPaused,
     objectRefsMap,
@@ -478,6 +500,28 @@ export function SystemObjectsRenderer({
         orbitalScale={orbitalScaling}
         showZones={viewType !== "profile"} // Hide zones in profile mode for clarity
       />
+      <BinaryStabilityZones
+        pairs={binaryPairs}
+        orbitalMechanics={orbitalMechanics}
+        objectRefsMap={objectRefsMap}
+        viewType={viewType}
+        showZones={viewType !== "profile"}
+      />
+      <GravitationalDomains
+        objects={systemData.objects}
+        orbitalMechanics={orbitalMechanics}
+        objectRefsMap={objectRefsMap}
+        viewType={viewType}
+        showDomains={showGravitationalDomains && viewType !== "profile"}
+      />
+      {transferArc && viewType !== "profile" && (
+        <TransferOrbit
+          arc={transferArc}
+          orbitalMechanics={orbitalMechanics}
+          objectRefsMap={objectRefsMap}
+          viewType={viewType}
+        />
+      )}
       {renderedObjects}
     </group>
   )
@@ -7,6 +7,7 @@ import * as THREE from "three"
 import { createDualProperties, type DualObjectProperties } from "@/engine/types/view-mode-config"
 import { getViewModeConfig } from "@/engine/core/view-modes/compatibility"
 import type { ViewType } from "@lib/types/effects-level"
+import type { CameraPose } from "./viewer-state"
 
 interface UnifiedCameraControllerProps {
   focusObject: THREE.Object3D | null
@@ -27,6 +28,8 @@ export interface UnifiedCameraControllerRef {
   setBirdsEyeView: () => void
   getCurrentOrbitRadius: () => number
   getObjectProperties: () => DualObjectProperties | null
+  getCameraPose: () => CameraPose | null
+  setCameraPose: (pose: CameraPose) => void
 }
 
 export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, UnifiedCameraControllerProps>(
@@ -49,9 +52,13 @@ export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, Un
     const animatingRef = useRef(false)
     const lastObjectPositionRef = useRef<THREE.Vector3>(new THREE.Vector3())
     const initialViewSetRef = useRef(false)
+    const pendingPoseRef = useRef<CameraPose | null>(null)
     const currentObjectPropertiesRef = useRef<DualObjectProperties | null>(null)
     // Track last object that triggered a focus animation so we can debounce
     const lastFocusedRef = useRef<THREE.Object3D | null>(null)
+    // Default clipping/zoom limits, restored after framing a tiny object (stations, Lagrange points)
+    const defaultNearRef = useRef<number | null>(null)
+    const defaultControlsMinDistanceRef = useRef<number | null>(null)
     // Track the fake outermost point for "No orbiting bodies" label
     const [noOrbitingBodiesLabel, setNoOrbitingBodiesLabel] = useState<{ position: THREE.Vector3; visible: boolean } | null>(null)
 
@@ -273,6 +280,21 @@ export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, Un
       animate()
     }, [camera, calculateMaxOrbitRadius, viewConfig, viewMode, createEasingFunction, onAnimationComplete])
 
+    // Move the camera to a saved pose. While following an object the pose's
+    // offset is kept but the target stays on the object, which may have moved.
+    const applyCameraPose = useCallback((pose: CameraPose) => {
+      if (!controlsRef.current) return
+      const target = new THREE.Vector3(...pose.target)
+      const offset = new THREE.Vector3(...pose.position).sub(target)
+      if (focusObject && isFollowingRef.current) {
+        focusObject.getWorldPosition(target)
+        lastObjectPositionRef.current.copy(target)
+      }
+      controlsRef.current.target.copy(target)
+      camera.position.copy(target).add(offset)
+      controlsRef.current.update()
+    }, [camera, focusObject])
+
     // Set initial system view
     useEffect(() => {
       if (!initialViewSetRef.current && controlsRef.current) {
@@ -316,8 +338,13 @@ export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, Un
         if (controlsRef.current.saveState) {
           controlsRef.current.saveState()
         }
+
+        if (pendingPoseRef.current) {
+          applyCameraPose(pendingPoseRef.current)
+          pendingPoseRef.current = null
+        }
       }
-    }, [camera, controls, calculateMaxOrbitRadius, viewConfig, viewMode])
+    }, [camera, controls, calculateMaxOrbitRadius, viewConfig, viewMode, applyCameraPose])
 
     // Handle view mode changes when object is already focused
     useEffect(() => {
@@ -499,12 +526,32 @@ export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, Un
       return currentObjectPropertiesRef.current
     }, [])
 
+    // Current camera position and orbit target
+    const getCameraPose = useCallback((): CameraPose | null => {
+      if (!controlsRef.current) return null
+      return {
+        position: camera.position.toArray() as [number, number, number],
+        target: controlsRef.current.target.toArray() as [number, number, number],
+      }
+    }, [camera])
+
+    // Poses set before the initial view wait for it rather than being overwritten
+    const setCameraPose = useCallback((pose: CameraPose) => {
+      if (!controlsRef.current || !initialViewSetRef.current) {
+        pendingPoseRef.current = pose
+        return
+      }
+      applyCameraPose(pose)
+    }, [applyCameraPose])
+
     // Expose functions to parent components
     useImperativeHandle(ref, () => ({
       resetToBookmarkView,
       setBirdsEyeView,
       getCurrentOrbitRadius,
-      getObjectProperties
+      getObjectProperties,
+      getCameraPose,
+      setCameraPose
     }))
 
     // Handle object focus with unified logic
@@ -569,7 +616,14 @@ export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, Un
         
         // Apply view-mode specific absolute constraints but use consistent relative distances
         const cameraConfig = viewConfig.cameraConfig
-        const absoluteMinDistance = (cameraConfig as any).absoluteMinDistance || 0.1
+        const focusedObjectData = systemData?.objects?.find((obj: any) =>
+          obj.name?.toLowerCase() === focusName.toLowerCase()
+        )
+        // Stations and Lagrange points are far smaller than the view mode's minimum framing
+        // distance, so they are framed purely by their visual size
+        const isTinyObject = focusedObjectData?.classification === 'station' ||
+          focusedObjectData?.classification === 'lagrange_point'
+        const absoluteMinDistance = isTinyObject ? 0 : ((cameraConfig as any).absoluteMinDistance || 0.1)
         const absoluteMaxDistance = (cameraConfig as any).absoluteMaxDistance || 1000
         
         // Apply constraints while maintaining consistent framing
@@ -581,6 +635,23 @@ export const UnifiedCameraController = forwardRef<UnifiedCameraControllerRef, Un
           Math.max(minDistance, actualVisualSize * 2.0) // Safety margin: never closer than 2x radius
         )
 
+        // Pull the near plane and zoom limit in for tiny objects so they aren't clipped; restore otherwise
+        const perspectiveCamera = camera as THREE.PerspectiveCamera
+        if (defaultNearRef.current === null) defaultNearRef.current = perspectiveCamera.near
+        if (defaultControlsMinDistanceRef.current === null) {
+          defaultControlsMinDistanceRef.current = controlsRef.current.minDistance ?? 0
+        }
+        const near = isTinyObject
+          ? Math.min(defaultNearRef.current, targetDistance * 0.1)
+          : defaultNearRef.current
+        if (perspectiveCamera.near !== near) {
+          perspectiveCamera.near = near
+          perspectiveCamera.updateProjectionMatrix()
+        }
+        controlsRef.current.minDistance = isTinyObject
+          ? Math.min(defaultControlsMinDistanceRef.current!, actualVisualSize * 2.0)
+          : defaultControlsMinDistanceRef.current
+
         // Update the stored properties with the corrected distance
         currentObjectPropertiesRef.current = {
           ...objectProperties,
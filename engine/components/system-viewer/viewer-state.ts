@@ -0,0 +1,115 @@
+import type { ViewType } from "@lib/types/effects-level"
+import type { SimulationTime } from "@/engine/ephemeris"
+
+type Vec3 = [number, number, number]
+
+export interface CameraPose {
+  position: Vec3
+  target: Vec3 // the point the camera orbits and looks at
+}
+
+/**
+ * Everything needed to reopen the system viewer as someone else saw it. Every
+ * field is optional: a link only pins down what it names.
+ */
+export interface ViewerState {
+  systemId?: string
+  objectId?: string // focused object
+  viewType?: ViewType
+  time?: SimulationTime
+  rate?: number // simulated days per real second; negative runs backwards
+  paused?: boolean
+  camera?: CameraPose
+}
+
+// URL query parameter names
+const SYSTEM_PARAM = "system"
+const OBJECT_PARAM = "object"
+const VIEW_PARAM = "view"
+const TIME_PARAM = "t"
+const RATE_PARAM = "rate"
+const PAUSED_PARAM = "paused"
+const CAMERA_PARAM = "cam"
+
+const VIEW_TYPES: readonly ViewType[] = ["explorational", "navigational", "profile", "scientific"]
+
+// Camera coordinates are kept to this many decimals so links stay short
+const CAMERA_PRECISION = 3
+
+const isViewType = (value: string | null): value is ViewType => VIEW_TYPES.includes(value as ViewType)
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function parseCamera(value: string | null): CameraPose | undefined {
+  const numbers = (value || "").split(",").map(part => parseNumber(part))
+  if (numbers.length !== 6 || numbers.some(number => number === undefined)) return undefined
+  const [px, py, pz, tx, ty, tz] = numbers as number[]
+  return { position: [px, py, pz], target: [tx, ty, tz] }
+}
+
+const roundCoordinate = (value: number) => Number(value.toFixed(CAMERA_PRECISION))
+
+/**
+ * Viewer state named by a URL query. Unknown view types, unparseable dates and
+ * malformed camera poses are left out rather than guessed at.
+ */
+export function viewerStateFromQuery(params: URLSearchParams): ViewerState {
+  const state: ViewerState = {}
+
+  const systemId = params.get(SYSTEM_PARAM)
+  if (systemId) state.systemId = systemId
+  const objectId = params.get(OBJECT_PARAM)
+  if (objectId) state.objectId = objectId
+
+  const viewType = params.get(VIEW_PARAM)
+  if (isViewType(viewType)) state.viewType = viewType
+
+  const time = params.get(TIME_PARAM)
+  const parsedTime = time ? Date.parse(time) : NaN
+  if (Number.isFinite(parsedTime)) state.time = parsedTime
+
+  const rate = parseNumber(params.get(RATE_PARAM))
+  if (rate !== undefined) state.rate = rate
+
+  const paused = params.get(PAUSED_PARAM)
+  if (paused !== null) state.paused = paused !== "0" && paused !== "false"
+
+  const camera = parseCamera(params.get(CAMERA_PARAM))
+  if (camera) state.camera = camera
+
+  return state
+}
+
+/**
+ * Writes the state into a copy of `params`, leaving unrelated parameters alone
+ * and dropping fields the state doesn't set. Times are written as ISO dates.
+ */
+export function viewerStateToQuery(state: ViewerState, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const setOrDelete = (key: string, value: string | undefined) => (value ? next.set(key, value) : next.delete(key))
+
+  setOrDelete(SYSTEM_PARAM, state.systemId)
+  setOrDelete(OBJECT_PARAM, state.objectId)
+  setOrDelete(VIEW_PARAM, state.viewType)
+  setOrDelete(TIME_PARAM, state.time !== undefined && Number.isFinite(state.time) ? new Date(state.time).toISOString() : undefined)
+  setOrDelete(RATE_PARAM, state.rate !== undefined && Number.isFinite(state.rate) ? String(state.rate) : undefined)
+  setOrDelete(PAUSED_PARAM, state.paused === undefined ? undefined : state.paused ? "1" : "0")
+  setOrDelete(
+    CAMERA_PARAM,
+    state.camera ? [...state.camera.position, ...state.camera.target].map(roundCoordinate).join(",") : undefined
+  )
+  return next
+}
+
+/**
+ * Whether two states look at the same thing. Moving between focuses (or
+ * systems) is a step in the browser history; changes of time, rate, view mode
+ * or camera within one focus are not.
+ */
+export function isSameFocus(a: ViewerState, b: ViewerState): boolean {
+  return (a.systemId || "") === (b.systemId || "") && (a.objectId || "") === (b.objectId || "")
+}
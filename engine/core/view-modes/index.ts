@@ -29,7 +29,10 @@ import { viewModeRegistry } from './registry'
  * This function is called automatically when the module is imported.
  */
 function initializeViewModes(): void {
-  console.log('🚀 Initializing View Mode System...')
+  // Startup is reported in the browser console; scripts that lay systems out
+  // headlessly (the data lint) import the view modes as well
+  const quiet = typeof window === 'undefined'
+  if (!quiet) console.log('🚀 Initializing View Mode System...')
   
   // Register all built-in view modes
   const builtInModes = [
@@ -45,7 +48,8 @@ function initializeViewModes(): void {
     try {
       const success = viewModeRegistry.register(mode, { 
         validate: true,
-        replace: false 
+        replace: false,
+        quiet
       })
       
       if (success) {
@@ -56,6 +60,7 @@ function initializeViewModes(): void {
     }
   }
   
+  if (quiet) return
   console.log(`✅ View Mode System initialized with ${registeredCount}/${builtInModes.length} modes`)
   
   // Log registry stats
@@ -162,7 +162,7 @@ export class ViewModeRegistry {
    * Register a new view mode
    */
   register(mode: ViewModeDefinition, options: ViewModeRegistrationOptions = {}): boolean {
-    const { replace = false, validate = true } = options
+    const { replace = false, validate = true, quiet = false } = options
     
     // Validate if requested
     if (validate) {
@@ -201,7 +201,7 @@ export class ViewModeRegistry {
     this.modes.set(mode.id, completeMode)
     this.notifyListeners('registered', mode.id)
     
-    console.log(`✅ Registered view mode: ${mode.name} (${mode.id})`)
+    if (!quiet) console.log(`✅ Registered view mode: ${mode.name} (${mode.id})`)
     return true
   }
   
@@ -177,4 +177,5 @@ export interface ViewModeValidationResult {
 export interface ViewModeRegistrationOptions {
   replace?: boolean  // Allow replacing existing mode with same ID
   validate?: boolean // Validate mode definition before registration
+  quiet?: boolean    // Don't log the registration
 }
\ No newline at end of file
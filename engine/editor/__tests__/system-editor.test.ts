@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addBody,
+  descendantIds,
+  dragOrbitTo,
+  exportSystemJson,
+  removeBody,
+  reparentObject,
+  scaleOrbit,
+  uniqueObjectId,
+  updateOrbit,
+  updateProperties,
+} from '../system-editor'
+import { createHistory, pushHistory, redoHistory, undoHistory, MAX_HISTORY_STEPS } from '../edit-history'
+import { UserInputError } from '../../types/errors'
+import { Validator } from '../../validation/validators'
+import { calculateSystemOrbitalMechanics } from '../../utils/orbital-mechanics-calculator'
+import type { CelestialObject, OrbitData, OrbitalSystemData } from '../../types/orbital-system'
+
+const system = (): OrbitalSystemData => ({
+  id: 'draft',
+  name: 'Draft System',
+  description: 'Work in progress',
+  objects: [
+    {
+      id: 'sun',
+      name: 'Sun',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+    {
+      id: 'earth',
+      name: 'Earth',
+      classification: 'planet',
+      geometry_type: 'terrestrial',
+      properties: { mass: 1, radius: 6371, temperature: 288 },
+      orbit: { parent: 'sun', semi_major_axis: 1, eccentricity: 0.017, inclination: 0, orbital_period: 365.25 },
+    },
+    {
+      id: 'luna',
+      name: 'Luna',
+      classification: 'moon',
+      geometry_type: 'rocky',
+      properties: { mass: 0.0123, radius: 1737, temperature: 250 },
+      orbit: { parent: 'earth', semi_major_axis: 0.00257, eccentricity: 0.055, inclination: 5.1, orbital_period: 27.3 },
+    },
+    {
+      id: 'mars',
+      name: 'Mars',
+      classification: 'planet',
+      geometry_type: 'rocky',
+      properties: { mass: 0.107, radius: 3390, temperature: 210 },
+      orbit: { parent: 'sun', semi_major_axis: 1.524, eccentricity: 0.093, inclination: 1.85, orbital_period: 687 },
+    },
+  ],
+  lighting: { primary_star: 'sun', ambient_level: 0.1, stellar_influence_radius: 100 },
+})
+
+const template: CelestialObject = {
+  id: 'terrestrial-planet',
+  name: 'Terrestrial Planet',
+  classification: 'planet',
+  geometry_type: 'terrestrial',
+  properties: { mass: 1, radius: 6371, temperature: 288 },
+  position: [0, 0, 0],
+}
+
+const orbitOf = (data: OrbitalSystemData, id: string) => data.objects.find(obj => obj.id === id)!.orbit as OrbitData
+
+describe('addBody', () => {
+  it('adds a copy beyond the outermost sibling with a Kepler period', () => {
+    const { system: edited, objectId } = addBody(system(), template, 'sun')
+    const orbit = orbitOf(edited, objectId)
+
+    expect(objectId).toBe('terrestrial-planet')
+    expect(orbit.parent).toBe('sun')
+    expect(orbit.semi_major_axis).toBeCloseTo(1.524 * 1.5)
+    expect(orbit.orbital_period).toBeCloseTo(365.25 * Math.pow(1.524 * 1.5, 1.5), -1)
+    expect(edited.objects.find(obj => obj.id === objectId)!.position).toBeUndefined()
+    expect(Validator.validateSystemData(edited).isValid).toBe(true)
+  })
+
+  it('gives repeated additions unique IDs', () => {
+    const first = addBody(system(), template, 'sun').system
+    const second = addBody(first, template, 'sun')
+    expect(second.objectId).toBe('terrestrial-planet-2')
+    expect(uniqueObjectId(second.system, 'terrestrial-planet')).toBe('terrestrial-planet-3')
+  })
+
+  it('makes a planet placed around a planet a moon', () => {
+    const { system: edited, objectId } = addBody(system(), template, 'mars')
+    expect(edited.objects.find(obj => obj.id === objectId)!.classification).toBe('moon')
+    expect(orbitOf(edited, objectId).semi_major_axis).toBeGreaterThan(0)
+  })
+
+  it('leaves the original system alone', () => {
+    const original = system()
+    addBody(original, template, 'sun')
+    expect(original.objects).toHaveLength(4)
+  })
+})
+
+describe('orbit edits', () => {
+  it('sets orbit elements and refuses non-numbers', () => {
+    const edited = updateOrbit(system(), 'mars', { eccentricity: 0.2 })
+    expect(orbitOf(edited, 'mars').eccentricity).toBe(0.2)
+    expect(() => updateOrbit(system(), 'mars', { inclination: NaN })).toThrow(UserInputError)
+  })
+
+  it('scales the period with the orbit by Kepler\'s third law', () => {
+    const edited = scaleOrbit(system(), 'earth', 4)
+    expect(orbitOf(edited, 'earth').semi_major_axis).toBe(4)
+    expect(orbitOf(edited, 'earth').orbital_period).toBeCloseTo(365.25 * 8)
+    expect(() => scaleOrbit(system(), 'earth', 0)).toThrow(UserInputError)
+  })
+
+  describe('dragOrbitTo', () => {
+    const orbitDistance = (edited: OrbitalSystemData, id: string, viewType: 'explorational' | 'navigational') =>
+      calculateSystemOrbitalMechanics(edited.objects, viewType, false, { quiet: true }).get(id)!.orbitDistance!
+
+    it('leaves the body where the drag was let go', () => {
+      for (const viewType of ['explorational', 'navigational'] as const) {
+        const dropped = orbitDistance(system(), 'mars', viewType) * 1.5
+        const edited = dragOrbitTo(system(), 'mars', dropped, viewType)
+        expect(orbitDistance(edited, 'mars', viewType)).toBeCloseTo(dropped, 3)
+        expect(orbitOf(edited, 'mars').orbital_period / 687).toBeCloseTo(Math.pow(orbitOf(edited, 'mars').semi_major_axis / 1.524, 1.5))
+      }
+
+      // Navigational spacing isn't proportional to AU, so scaling the orbit by the drag's ratio would miss
+      const dropped = orbitDistance(system(), 'mars', 'navigational') * 1.5
+      expect(orbitOf(dragOrbitTo(system(), 'mars', dropped, 'navigational'), 'mars').semi_major_axis).toBeGreaterThan(1.524 * 3)
+    })
+
+    it('refuses a drop inside the clearance the layout keeps', () => {
+      expect(() => dragOrbitTo(system(), 'luna', 1e-6, 'navigational')).toThrow(UserInputError)
+    })
+  })
+})
+
+describe('reparentObject', () => {
+  it('moves a moon to another planet and recomputes its period', () => {
+    const edited = reparentObject(system(), 'luna', 'mars')
+    const orbit = orbitOf(edited, 'luna')
+    expect(orbit.parent).toBe('mars')
+    expect(orbit.semi_major_axis).toBe(0.00257)
+    // Mars is about a tenth of Earth's mass, so the same orbit takes about three times as long
+    expect(orbit.orbital_period / 27.3).toBeGreaterThan(2.5)
+  })
+
+  it('refuses to put a body in orbit around its own satellite', () => {
+    expect(descendantIds(system(), 'earth')).toEqual(['earth', 'luna'])
+    expect(() => reparentObject(system(), 'earth', 'luna')).toThrow(UserInputError)
+  })
+})
+
+describe('updateProperties and removeBody', () => {
+  it('keeps the properties that are not changed', () => {
+    const edited = updateProperties(system(), 'mars', { temperature: 230, water: 10 })
+    expect(edited.objects.find(obj => obj.id === 'mars')!.properties).toMatchObject({ mass: 0.107, temperature: 230, water: 10 })
+  })
+
+  it('removes a body with its moons but never the lighting star', () => {
+    const edited = removeBody(system(), 'earth')
+    expect(edited.objects.map(obj => obj.id)).toEqual(['sun', 'mars'])
+    expect(() => removeBody(system(), 'sun')).toThrow(UserInputError)
+  })
+})
+
+describe('exportSystemJson', () => {
+  it('writes a file that reads back as the same valid system', () => {
+    const edited = addBody(system(), template, 'earth').system
+    const json = exportSystemJson(edited)
+    expect(json.endsWith('}\n')).toBe(true)
+    expect(JSON.parse(json)).toEqual(edited)
+    expect(Validator.validateSystemData(JSON.parse(json)).isValid).toBe(true)
+  })
+})
+
+describe('edit history', () => {
+  it('undoes and redoes steps, and a new step clears the redo stack', () => {
+    let history = pushHistory(pushHistory(createHistory(1), 2), 3)
+    history = undoHistory(undoHistory(history))
+    expect(history.present).toBe(1)
+    history = redoHistory(history)
+    expect(history.present).toBe(2)
+    history = pushHistory(history, 4)
+    expect(history.future).toEqual([])
+    expect(history.past).toEqual([1, 2])
+  })
+
+  it(`keeps at most ${MAX_HISTORY_STEPS} steps`, () => {
+    let history = createHistory(0)
+    for (let step = 1; step <= MAX_HISTORY_STEPS + 10; step++) history = pushHistory(history, step)
+    expect(history.past).toHaveLength(MAX_HISTORY_STEPS)
+    expect(history.past[0]).toBe(10)
+  })
+})
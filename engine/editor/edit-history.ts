@@ -0,0 +1,43 @@
+// Undo/redo history for the system editor
+
+// Steps kept for undo; older ones are dropped
+export const MAX_HISTORY_STEPS = 100
+
+export interface EditHistory<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+export const createHistory = <T>(present: T): EditHistory<T> => ({ past: [], present, future: [] })
+
+/**
+ * Makes `next` the present. Redo steps are lost, as after any edit. Pushing the
+ * present again changes nothing.
+ */
+export function pushHistory<T>(history: EditHistory<T>, next: T): EditHistory<T> {
+  if (next === history.present) return history
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY_STEPS),
+    present: next,
+    future: [],
+  }
+}
+
+export function undoHistory<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.past.length === 0) return history
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  }
+}
+
+export function redoHistory<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.future.length === 0) return history
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  }
+}
@@ -0,0 +1,250 @@
+// Edits to a system for the in-browser editor. Every operation returns a new
+// system and leaves its input alone, so the edit history can keep each step.
+
+import {
+  isBarycenter,
+  isOrbitData,
+  isStar,
+  type CelestialObject,
+  type CelestialProperties,
+  type OrbitData,
+  type OrbitalSystemData,
+} from '../types/orbital-system'
+import { UserInputError } from '../types/errors'
+import { keplerOrbitalPeriod, objectMassKg, primaryMassKg } from '../utils/derived-physics'
+import { convertLength } from '../units/units'
+import { semiMajorAxisForOrbitDistance } from '../utils/orbital-mechanics-calculator'
+import type { ViewType } from '@lib/types/effects-level'
+
+export type EditableOrbitField = 'semi_major_axis' | 'eccentricity' | 'inclination' | 'orbital_period' | 'mean_anomaly_at_epoch'
+
+// Bodies placed around a star start this far out when nothing orbits it yet (AU)
+const FIRST_PLANET_DISTANCE_AU = 1
+// ...and around a planet or moon, this many of its radii
+const FIRST_MOON_DISTANCE_RADII = 60
+// Each new body goes this much further out than the outermost sibling
+const NEXT_ORBIT_SPACING = 1.5
+
+const CHILDLESS_CLASSIFICATIONS = ['belt', 'ring', 'jump_point', 'station', 'lagrange_point']
+
+function requireObject(system: OrbitalSystemData, objectId: string): CelestialObject {
+  const object = system.objects.find(obj => obj.id === objectId)
+  if (!object) throw new UserInputError(`No object "${objectId}" in ${system.name}`, { objectId })
+  return object
+}
+
+const replaceObject = (system: OrbitalSystemData, objectId: string, update: (object: CelestialObject) => CelestialObject): OrbitalSystemData => ({
+  ...system,
+  objects: system.objects.map(obj => (obj.id === objectId ? update(obj) : obj)),
+})
+
+// Stars, compact objects and barycenters hold planets; everything else holds moons
+const isStellarParent = (object: CelestialObject | undefined) =>
+  !object || isStar(object) || isBarycenter(object) || object.classification === 'compact-object'
+
+/**
+ * Whether other bodies can orbit `object`: belts, rings, jump points, stations
+ * and Lagrange points can't hold anything
+ */
+export function canHaveChildren(object: CelestialObject): boolean {
+  return !CHILDLESS_CLASSIFICATIONS.includes(object.classification)
+}
+
+/**
+ * `objectId` and every object orbiting it, directly or further down
+ */
+export function descendantIds(system: OrbitalSystemData, objectId: string): string[] {
+  const ids = [objectId]
+  for (let i = 0; i < ids.length; i++) {
+    system.objects.forEach(obj => {
+      if (obj.orbit?.parent === ids[i] && !ids.includes(obj.id)) ids.push(obj.id)
+    })
+  }
+  return ids
+}
+
+/**
+ * `base`, or `base-2`, `base-3`… when the system already uses it
+ */
+export function uniqueObjectId(system: OrbitalSystemData, base: string): string {
+  const taken = new Set(system.objects.map(obj => obj.id))
+  if (!taken.has(base)) return base
+  let suffix = 2
+  while (taken.has(`${base}-${suffix}`)) suffix++
+  return `${base}-${suffix}`
+}
+
+// Period in days from Kepler's third law, or null when the primary's mass is unknown
+function keplerPeriodAbout(system: OrbitalSystemData, object: CelestialObject, parentId: string, semiMajorAxisAU: number): number | null {
+  const centralMass = primaryMassKg(parentId, system.objects)
+  return centralMass > 0 && semiMajorAxisAU > 0
+    ? keplerOrbitalPeriod(semiMajorAxisAU, centralMass, objectMassKg(object))
+    : null
+}
+
+/**
+ * A circular, uninclined orbit about `parentId` just outside the outermost body
+ * already there, with the period Kepler's third law gives
+ */
+export function defaultOrbit(system: OrbitalSystemData, parentId: string, object: CelestialObject): OrbitData {
+  const parent = system.objects.find(obj => obj.id === parentId)
+  const siblingAxes = system.objects
+    .filter(obj => obj.orbit?.parent === parentId && isOrbitData(obj.orbit))
+    .map(obj => (obj.orbit as OrbitData).semi_major_axis)
+
+  const firstOrbit = isStellarParent(parent)
+    ? FIRST_PLANET_DISTANCE_AU
+    : convertLength((parent?.properties.radius || 1) * FIRST_MOON_DISTANCE_RADII, 'km', 'AU')
+  const semiMajorAxis = siblingAxes.length > 0 ? Math.max(...siblingAxes) * NEXT_ORBIT_SPACING : firstOrbit
+
+  return {
+    parent: parentId,
+    semi_major_axis: semiMajorAxis,
+    eccentricity: 0,
+    inclination: 0,
+    orbital_period: keplerPeriodAbout(system, object, parentId, semiMajorAxis) ?? 365.25 * Math.pow(semiMajorAxis, 1.5),
+  }
+}
+
+// A planet placed around a planet is a moon, and a moon placed around a star a planet
+function classificationAbout(template: CelestialObject, parent: CelestialObject): CelestialObject['classification'] {
+  const stellar = isStellarParent(parent)
+  if (!stellar && (template.classification === 'planet' || template.classification === 'dwarf-planet')) return 'moon'
+  if (stellar && template.classification === 'moon') return 'planet'
+  return template.classification
+}
+
+/**
+ * Adds a copy of `template` (e.g. a catalog object) orbiting `parentId`
+ */
+export function addBody(system: OrbitalSystemData, template: CelestialObject, parentId: string): { system: OrbitalSystemData; objectId: string } {
+  const parent = requireObject(system, parentId)
+  if (!canHaveChildren(parent)) {
+    throw new UserInputError(`Nothing can orbit ${parent.name}`, { parentId })
+  }
+
+  const objectId = uniqueObjectId(system, template.id)
+  const object: CelestialObject = {
+    ...template,
+    id: objectId,
+    classification: classificationAbout(template, parent),
+    properties: { ...template.properties },
+  }
+  // The template's own placement doesn't carry over; the body gets a fresh orbit
+  delete object.position
+  delete object.lagrange
+  object.orbit = defaultOrbit(system, parentId, object)
+
+  return { system: { ...system, objects: [...system.objects, object] }, objectId }
+}
+
+/**
+ * Sets orbit elements of a body with a Keplerian orbit. The parent is changed
+ * with `reparentObject`.
+ */
+export function updateOrbit(system: OrbitalSystemData, objectId: string, changes: Partial<Pick<OrbitData, EditableOrbitField>>): OrbitalSystemData {
+  const object = requireObject(system, objectId)
+  if (!object.orbit || !isOrbitData(object.orbit)) {
+    throw new UserInputError(`${object.name} has no orbit elements to edit`, { objectId })
+  }
+  const invalid = Object.entries(changes).find(([, value]) => value !== undefined && !Number.isFinite(value))
+  if (invalid) {
+    throw new UserInputError(`${invalid[0]} must be a number`, { objectId, field: invalid[0] })
+  }
+
+  const orbit = object.orbit
+  return replaceObject(system, objectId, obj => ({ ...obj, orbit: { ...orbit, ...changes } }))
+}
+
+/**
+ * Scales a body's orbit by `ratio` (as when it's dragged outwards or inwards),
+ * keeping its period in step by Kepler's third law
+ */
+export function scaleOrbit(system: OrbitalSystemData, objectId: string, ratio: number): OrbitalSystemData {
+  if (!Number.isFinite(ratio) || ratio <= 0) {
+    throw new UserInputError('Orbits can only be scaled by a positive ratio', { objectId, ratio })
+  }
+  const object = requireObject(system, objectId)
+  if (!object.orbit || !isOrbitData(object.orbit)) {
+    throw new UserInputError(`${object.name} has no orbit to scale`, { objectId })
+  }
+
+  return updateOrbit(system, objectId, {
+    semi_major_axis: object.orbit.semi_major_axis * ratio,
+    orbital_period: object.orbit.orbital_period * Math.pow(ratio, 1.5),
+  })
+}
+
+/**
+ * Resizes a body's orbit so the `viewType` layout draws it `orbitDistance`
+ * scene units from its parent, as where an orbit drag was let go
+ */
+export function dragOrbitTo(system: OrbitalSystemData, objectId: string, orbitDistance: number, viewType: ViewType): OrbitalSystemData {
+  const object = requireObject(system, objectId)
+  if (!object.orbit || !isOrbitData(object.orbit)) {
+    throw new UserInputError(`${object.name} has no orbit to scale`, { objectId })
+  }
+  const semiMajorAxis = semiMajorAxisForOrbitDistance(system.objects, objectId, orbitDistance, viewType)
+  if (semiMajorAxis === null) {
+    throw new UserInputError(`${object.name} can't orbit that close to its parent in this view`, { objectId, orbitDistance })
+  }
+  return scaleOrbit(system, objectId, semiMajorAxis / object.orbit.semi_major_axis)
+}
+
+/**
+ * Moves a body (with everything orbiting it) to orbit `parentId`. The orbit's
+ * size is kept and its period recomputed about the new primary when both
+ * masses are known.
+ */
+export function reparentObject(system: OrbitalSystemData, objectId: string, parentId: string): OrbitalSystemData {
+  const object = requireObject(system, objectId)
+  const parent = requireObject(system, parentId)
+  if (!object.orbit) {
+    throw new UserInputError(`${object.name} does not orbit anything`, { objectId })
+  }
+  if (object.orbit.parent === parentId) return system
+  if (descendantIds(system, objectId).includes(parentId)) {
+    throw new UserInputError(`${object.name} can't orbit ${parent.name}, which orbits it`, { objectId, parentId })
+  }
+  if (!canHaveChildren(parent)) {
+    throw new UserInputError(`Nothing can orbit ${parent.name}`, { objectId, parentId })
+  }
+
+  const orbit = object.orbit
+  if (!isOrbitData(orbit)) {
+    return replaceObject(system, objectId, obj => ({ ...obj, orbit: { ...orbit, parent: parentId } }))
+  }
+  const period = keplerPeriodAbout(system, object, parentId, orbit.semi_major_axis)
+  return replaceObject(system, objectId, obj => ({
+    ...obj,
+    orbit: { ...orbit, parent: parentId, orbital_period: period ?? orbit.orbital_period },
+  }))
+}
+
+/**
+ * Sets properties of a body; other properties are kept
+ */
+export function updateProperties(system: OrbitalSystemData, objectId: string, changes: Partial<CelestialProperties>): OrbitalSystemData {
+  requireObject(system, objectId)
+  return replaceObject(system, objectId, obj => ({ ...obj, properties: { ...obj.properties, ...changes } }))
+}
+
+/**
+ * Removes a body and everything orbiting it. The star that lights the system
+ * can't be removed.
+ */
+export function removeBody(system: OrbitalSystemData, objectId: string): OrbitalSystemData {
+  const object = requireObject(system, objectId)
+  const removed = descendantIds(system, objectId)
+  if (removed.includes(system.lighting.primary_star)) {
+    throw new UserInputError(`${object.name} can't be removed: the system is lit by ${system.lighting.primary_star}`, { objectId })
+  }
+  return { ...system, objects: system.objects.filter(obj => !removed.includes(obj.id)) }
+}
+
+/**
+ * The system as a file, in the layout of the bundled system files
+ */
+export function exportSystemJson(system: OrbitalSystemData): string {
+  return `${JSON.stringify(system, null, 2)}\n`
+}
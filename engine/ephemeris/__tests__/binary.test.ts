@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  binaryOrbitRadii,
+  binaryPeriodDays,
+  sTypeStabilityLimit,
+  pTypeStabilityLimit,
+  isBinaryOrbitStable,
+} from '../index'
+
+// Alpha Centauri AB: a ≈ 23 AU, e ≈ 0.52, masses 1.08 and 0.91 M☉
+const ALPHA_CEN_SEPARATION = 23
+const ALPHA_CEN_E = 0.52
+const ALPHA_CEN_MU = 0.91 / (1.08 + 0.91)
+
+describe('binaryOrbitRadii', () => {
+  it('splits the separation in inverse proportion to mass', () => {
+    const [a1, a2] = binaryOrbitRadii(10, 3, 1)
+    expect(a1).toBeCloseTo(2.5)
+    expect(a2).toBeCloseTo(7.5)
+    expect(a1 + a2).toBeCloseTo(10)
+  })
+
+  it('splits evenly for massless pairs', () => {
+    expect(binaryOrbitRadii(4, 0, 0)).toEqual([2, 2])
+  })
+})
+
+describe('binaryPeriodDays', () => {
+  it('follows Kepler’s third law for the total mass', () => {
+    expect(binaryPeriodDays(1, 1)).toBeCloseTo(365.25)
+    // Alpha Centauri AB orbit each other in about 80 years
+    expect(binaryPeriodDays(ALPHA_CEN_SEPARATION, 1.99) / 365.25).toBeCloseTo(78, 0)
+  })
+
+  it('returns 0 for degenerate input', () => {
+    expect(binaryPeriodDays(0, 1)).toBe(0)
+  })
+})
+
+describe('stability limits', () => {
+  it('matches the published Alpha Centauri limits', () => {
+    // Holman & Wiegert: S-type ≈ 2.5–3 AU around A, P-type ≈ 75–90 AU
+    expect(sTypeStabilityLimit(ALPHA_CEN_SEPARATION, ALPHA_CEN_E, ALPHA_CEN_MU)).toBeCloseTo(2.7, 1)
+    expect(pTypeStabilityLimit(ALPHA_CEN_SEPARATION, ALPHA_CEN_E, ALPHA_CEN_MU)).toBeCloseTo(85.5, 0)
+  })
+
+  it('shrinks the S-type limit around the lighter star', () => {
+    const aroundPrimary = sTypeStabilityLimit(10, 0.2, 0.3)
+    const aroundSecondary = sTypeStabilityLimit(10, 0.2, 0.7)
+    expect(aroundSecondary).toBeLessThan(aroundPrimary)
+  })
+
+  it('widens the P-type limit with eccentricity', () => {
+    expect(pTypeStabilityLimit(10, 0.5, 0.3)).toBeGreaterThan(pTypeStabilityLimit(10, 0, 0.3))
+  })
+
+  it('never returns a negative S-type limit', () => {
+    expect(sTypeStabilityLimit(10, 0.8, 0.9)).toBeGreaterThanOrEqual(0)
+  })
+})
+
+describe('isBinaryOrbitStable', () => {
+  it('requires S-type orbits inside and P-type orbits outside the limit', () => {
+    expect(isBinaryOrbitStable('S-type', 1, 2)).toBe(true)
+    expect(isBinaryOrbitStable('S-type', 3, 2)).toBe(false)
+    expect(isBinaryOrbitStable('P-type', 3, 2)).toBe(true)
+    expect(isBinaryOrbitStable('P-type', 1, 2)).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatSimulationDate,
+  formatTimeRate,
+  parseSimulationDate,
+  toDateInputValue,
+  toDateTimeInputValue,
+  sliderPositionToTimeRate,
+  timeRateToSliderPosition,
+  SECONDS_PER_DAY,
+  TIME_RATE_PRESETS,
+} from '../index'
+
+describe('Simulation calendar', () => {
+  const stardate = Date.UTC(2954, 2, 14, 9, 5)
+
+  it('formats dates in UTC', () => {
+    expect(formatSimulationDate(stardate)).toBe('2954-03-14 09:05 UTC')
+    expect(toDateInputValue(stardate)).toBe('2954-03-14')
+    expect(toDateTimeInputValue(stardate)).toBe('2954-03-14T09:05')
+  })
+
+  it('parses typed and picked dates as UTC', () => {
+    expect(parseSimulationDate('2954-03-14')).toBe(Date.UTC(2954, 2, 14))
+    expect(parseSimulationDate('2954-03-14 09:05')).toBe(stardate)
+    expect(parseSimulationDate('2954-03-14T09:05')).toBe(stardate)
+    expect(parseSimulationDate(' 2954-03-14 09:05 UTC ')).toBe(stardate)
+  })
+
+  it('round-trips formatted dates', () => {
+    expect(parseSimulationDate(formatSimulationDate(stardate))).toBe(stardate)
+  })
+
+  it('handles years before 100 AD', () => {
+    expect(new Date(parseSimulationDate('0050-06-01')!).getUTCFullYear()).toBe(50)
+  })
+
+  it('rejects malformed and overflowing dates', () => {
+    expect(parseSimulationDate('yesterday')).toBeNull()
+    expect(parseSimulationDate('2020-02-31')).toBeNull()
+    expect(parseSimulationDate('2020-01-01 25:00')).toBeNull()
+  })
+
+  it('formats clock rates with readable units', () => {
+    expect(formatTimeRate(3600)).toBe('1 hour/s')
+    expect(formatTimeRate(SECONDS_PER_DAY)).toBe('1 day/s')
+    expect(formatTimeRate(2.5 * SECONDS_PER_DAY)).toBe('2.5 days/s')
+    expect(formatTimeRate(-365.25 * SECONDS_PER_DAY)).toBe('-1 year/s')
+    expect(formatTimeRate(0)).toBe('stopped')
+  })
+
+  it('puts every rate preset on the log-scale rate slider', () => {
+    const presetRates = TIME_RATE_PRESETS.map(preset => preset.secondsPerSecond / SECONDS_PER_DAY)
+    const positions = presetRates.map(timeRateToSliderPosition)
+    expect(positions).toEqual(presetRates.map(Math.log10))
+    expect(positions[0]).toBeCloseTo(Math.log10(60 / SECONDS_PER_DAY))
+    expect(positions[positions.length - 1]).toBeCloseTo(Math.log10(365.25))
+
+    expect(sliderPositionToTimeRate(timeRateToSliderPosition(2))).toBe(2)
+    expect(sliderPositionToTimeRate(positions[positions.length - 1])).toBe(365)
+    // Rates beyond the presets stay at the slider's ends
+    expect(timeRateToSliderPosition(10000)).toBe(positions[positions.length - 1])
+    expect(timeRateToSliderPosition(0)).toBe(positions[0])
+  })
+})
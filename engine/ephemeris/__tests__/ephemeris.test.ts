@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import type { OrbitData } from '@/engine/types/orbital-system'
+import {
+  J2000_EPOCH_MS,
+  SECONDS_PER_DAY,
+  parseEpoch,
+  keplerPeriodDays,
+  resolveOrbitalPeriodDays,
+  meanAnomalyAt,
+  computeOrbitalState,
+  orbitalPositionFromMeanAnomaly,
+  solveKeplersEquation,
+  normalizeAngle,
+} from '../index'
+
+const DAY_MS = SECONDS_PER_DAY * 1000
+
+const earthOrbit: OrbitData = {
+  parent: 'sol-star',
+  semi_major_axis: 1,
+  eccentricity: 0.0167,
+  inclination: 0,
+  orbital_period: 365.25,
+}
+
+const length = (v: [number, number, number]) => Math.hypot(v[0], v[1], v[2])
+
+describe('Ephemeris', () => {
+  describe('Kepler solver', () => {
+    it('returns the mean anomaly for circular orbits', () => {
+      expect(solveKeplersEquation(1.2, 0)).toBeCloseTo(1.2, 10)
+    })
+
+    it('satisfies Kepler\'s equation for high eccentricity', () => {
+      const M = 0.3
+      const e = 0.95
+      const E = solveKeplersEquation(M, e)
+      expect(E - e * Math.sin(E)).toBeCloseTo(M, 8)
+    })
+
+    it('normalises angles into [0, 2π)', () => {
+      expect(normalizeAngle(-Math.PI / 2)).toBeCloseTo(1.5 * Math.PI, 10)
+      expect(normalizeAngle(5 * Math.PI)).toBeCloseTo(Math.PI, 10)
+    })
+  })
+
+  describe('Epochs and periods', () => {
+    it('parses ISO epochs and falls back to J2000', () => {
+      expect(parseEpoch('2000-01-01T12:00:00Z')).toBe(J2000_EPOCH_MS)
+      expect(parseEpoch('2950-06-01')).toBe(Date.UTC(2950, 5, 1))
+      expect(parseEpoch(undefined)).toBe(J2000_EPOCH_MS)
+      expect(parseEpoch('not a date')).toBe(J2000_EPOCH_MS)
+    })
+
+    it('prefers the declared orbital period over Kepler\'s third law', () => {
+      expect(resolveOrbitalPeriodDays(earthOrbit)).toBe(365.25)
+      expect(resolveOrbitalPeriodDays({ ...earthOrbit, semi_major_axis: 4, orbital_period: 0 })).toBeCloseTo(8 * 365.25, 6)
+      expect(keplerPeriodDays(1)).toBeCloseTo(365.25, 6)
+    })
+  })
+
+  describe('Mean anomaly', () => {
+    it('uses the mean anomaly at epoch', () => {
+      const orbit = { ...earthOrbit, epoch: '2020-01-01', mean_anomaly_at_epoch: 90 }
+      expect(meanAnomalyAt(orbit, Date.UTC(2020, 0, 1))).toBeCloseTo(Math.PI / 2, 10)
+    })
+
+    it('advances linearly with time and wraps after one period', () => {
+      const quarter = J2000_EPOCH_MS + (365.25 / 4) * DAY_MS
+      expect(meanAnomalyAt(earthOrbit, quarter)).toBeCloseTo(Math.PI / 2, 8)
+      expect(meanAnomalyAt(earthOrbit, J2000_EPOCH_MS + 365.25 * DAY_MS)).toBeCloseTo(0, 6)
+    })
+
+    it('runs backwards for timestamps before the epoch', () => {
+      const before = J2000_EPOCH_MS - (365.25 / 4) * DAY_MS
+      expect(meanAnomalyAt(earthOrbit, before)).toBeCloseTo(1.5 * Math.PI, 8)
+    })
+  })
+
+  describe('Orbital state', () => {
+    it('is deterministic for a given timestamp', () => {
+      const t = Date.UTC(2954, 2, 14)
+      expect(computeOrbitalState(earthOrbit, t)).toEqual(computeOrbitalState(earthOrbit, t))
+    })
+
+    it('places the body at periapsis at the epoch with zero mean anomaly', () => {
+      const orbit = { ...earthOrbit, eccentricity: 0.2 }
+      const state = computeOrbitalState(orbit, J2000_EPOCH_MS)
+      expect(state.distance).toBeCloseTo(0.8, 10)
+      expect(state.position[0]).toBeCloseTo(0.8, 10)
+      expect(state.position[2]).toBeCloseTo(0, 10)
+    })
+
+    it('matches the vis-viva speed', () => {
+      const orbit = { ...earthOrbit, eccentricity: 0.3 }
+      const t = J2000_EPOCH_MS + 40 * DAY_MS
+      const state = computeOrbitalState(orbit, t)
+      const n = (2 * Math.PI) / (orbit.orbital_period * SECONDS_PER_DAY)
+      const mu = n * n * Math.pow(orbit.semi_major_axis, 3)
+      const expectedSpeed = Math.sqrt(mu * (2 / state.distance - 1 / orbit.semi_major_axis))
+      expect(length(state.velocity)).toBeCloseTo(expectedSpeed, 12)
+    })
+
+    it('velocity agrees with the change in position', () => {
+      const t = J2000_EPOCH_MS + 100 * DAY_MS
+      const dt = 60 // seconds
+      const a = computeOrbitalState(earthOrbit, t)
+      const b = computeOrbitalState(earthOrbit, t + dt * 1000)
+      for (let axis = 0; axis < 3; axis++) {
+        expect((b.position[axis] - a.position[axis]) / dt).toBeCloseTo(a.velocity[axis], 10)
+      }
+    })
+
+    it('tilts the orbit plane by the inclination', () => {
+      const orbit = { ...earthOrbit, eccentricity: 0, inclination: 90 }
+      const quarter = J2000_EPOCH_MS + (365.25 / 4) * DAY_MS
+      const state = computeOrbitalState(orbit, quarter)
+      expect(state.position[1]).toBeCloseTo(1, 6)
+      expect(state.position[2]).toBeCloseTo(0, 6)
+    })
+
+    it('scales positions to an overridden semi-major axis', () => {
+      const t = J2000_EPOCH_MS + 12 * DAY_MS
+      const real = computeOrbitalState(earthOrbit, t)
+      const scaled = computeOrbitalState(earthOrbit, t, { semiMajorAxis: 50 })
+      expect(scaled.position[0]).toBeCloseTo(real.position[0] * 50, 10)
+      expect(scaled.trueAnomaly).toBeCloseTo(real.trueAnomaly, 10)
+    })
+
+    it('agrees with the mean-anomaly position helper', () => {
+      const t = J2000_EPOCH_MS + 200 * DAY_MS
+      const state = computeOrbitalState({ ...earthOrbit, inclination: 7 }, t)
+      const position = orbitalPositionFromMeanAnomaly(state.meanAnomaly, 1, earthOrbit.eccentricity, 7)
+      position.forEach((value, axis) => expect(value).toBeCloseTo(state.position[axis], 10))
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  lagrangeMassRatio,
+  hillFraction,
+  lagrangePointPosition,
+  orbitalAngularMomentumAxis,
+  orbitalPositionFromMeanAnomaly,
+} from '../index'
+
+const EARTH_SUN_RATIO = lagrangeMassRatio(332946, 1)
+
+describe('lagrangeMassRatio', () => {
+  it('returns m2 / (m1 + m2)', () => {
+    expect(lagrangeMassRatio(3, 1)).toBeCloseTo(0.25)
+  })
+
+  it('handles massless pairs', () => {
+    expect(lagrangeMassRatio(0, 0)).toBe(0)
+  })
+})
+
+describe('lagrangePointPosition', () => {
+  const primary: [number, number, number] = [0, 0, 0]
+  const secondary: [number, number, number] = [1, 0, 0]
+
+  it('places L1 and L2 either side of the secondary at the Hill distance', () => {
+    const hill = hillFraction(EARTH_SUN_RATIO)
+    // Sun–Earth L1/L2 are about 0.01 AU from Earth
+    expect(hill).toBeCloseTo(0.01, 2)
+
+    const l1 = lagrangePointPosition(primary, secondary, 1, EARTH_SUN_RATIO)
+    const l2 = lagrangePointPosition(primary, secondary, 2, EARTH_SUN_RATIO)
+    expect(l1[0]).toBeCloseTo(1 - hill)
+    expect(l2[0]).toBeCloseTo(1 + hill)
+    expect(l1[1]).toBeCloseTo(0)
+    expect(l2[2]).toBeCloseTo(0)
+  })
+
+  it('places L3 opposite the secondary', () => {
+    const l3 = lagrangePointPosition(primary, secondary, 3, EARTH_SUN_RATIO)
+    expect(l3[0]).toBeCloseTo(-1)
+    expect(l3[2]).toBeCloseTo(0)
+  })
+
+  it('places L4 60° ahead of the secondary along its orbit and L5 60° behind', () => {
+    const inclination = 20
+    const current = orbitalPositionFromMeanAnomaly(0.5, 1, 0, inclination)
+    const ahead = orbitalPositionFromMeanAnomaly(0.5 + Math.PI / 3, 1, 0, inclination)
+    const behind = orbitalPositionFromMeanAnomaly(0.5 - Math.PI / 3, 1, 0, inclination)
+    const axis = orbitalAngularMomentumAxis(inclination)
+
+    const l4 = lagrangePointPosition(primary, current, 4, EARTH_SUN_RATIO, axis)
+    const l5 = lagrangePointPosition(primary, current, 5, EARTH_SUN_RATIO, axis)
+
+    l4.forEach((value, i) => expect(value).toBeCloseTo(ahead[i]))
+    l5.forEach((value, i) => expect(value).toBeCloseTo(behind[i]))
+  })
+
+  it('follows the pair wherever they are', () => {
+    const movedPrimary: [number, number, number] = [10, 2, -3]
+    const movedSecondary: [number, number, number] = [10, 2, 1]
+    const l2 = lagrangePointPosition(movedPrimary, movedSecondary, 2, 0.001)
+
+    expect(l2[0]).toBeCloseTo(10)
+    expect(l2[1]).toBeCloseTo(2)
+    expect(l2[2]).toBeGreaterThan(1)
+  })
+
+  it('keeps L1 and L2 at least the minimum offset from the secondary', () => {
+    const l1 = lagrangePointPosition(primary, secondary, 1, EARTH_SUN_RATIO, undefined, 0.2)
+    expect(l1[0]).toBeCloseTo(0.8)
+  })
+
+  it('returns the primary position when the bodies coincide', () => {
+    expect(lagrangePointPosition(primary, primary, 4, 0.1)).toEqual([0, 0, 0])
+  })
+})
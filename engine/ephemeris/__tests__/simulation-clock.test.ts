@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SimulationClock, J2000_EPOCH_MS, SECONDS_PER_DAY } from '../index'
+
+describe('SimulationClock', () => {
+  it('starts at J2000 by default', () => {
+    expect(new SimulationClock().getTime()).toBe(J2000_EPOCH_MS)
+  })
+
+  it('advances by rate × real delta', () => {
+    const clock = new SimulationClock({ startTime: 0, rate: SECONDS_PER_DAY })
+    clock.tick(0.5)
+    expect(clock.getTime()).toBe(0.5 * SECONDS_PER_DAY * 1000)
+  })
+
+  it('is independent of how the real time is split into frames', () => {
+    const fast = new SimulationClock({ startTime: 0, rate: 3600 })
+    const slow = new SimulationClock({ startTime: 0, rate: 3600 })
+    for (let i = 0; i < 120; i++) fast.tick(1 / 120)
+    for (let i = 0; i < 30; i++) slow.tick(1 / 30)
+    expect(fast.getTime()).toBeCloseTo(slow.getTime(), 6)
+  })
+
+  it('does not advance while paused', () => {
+    const clock = new SimulationClock({ startTime: 0, rate: 1000, paused: true })
+    clock.tick(1)
+    expect(clock.getTime()).toBe(0)
+  })
+
+  it('runs backwards with a negative rate', () => {
+    const clock = new SimulationClock({ startTime: 10000, rate: -2 })
+    clock.tick(1)
+    expect(clock.getTime()).toBe(8000)
+  })
+
+  it('notifies subscribers and supports unsubscribing', () => {
+    const clock = new SimulationClock({ startTime: 0 })
+    const listener = vi.fn()
+    const unsubscribe = clock.subscribe(listener)
+
+    clock.setTime(5000)
+    clock.setRate(10)
+    clock.setPaused(true)
+    expect(listener).toHaveBeenCalledTimes(3)
+
+    unsubscribe()
+    clock.setTime(0)
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+
+  it('ignores non-finite times and rates', () => {
+    const clock = new SimulationClock({ startTime: 0, rate: 1 })
+    clock.setTime(NaN)
+    clock.setRate(Infinity)
+    expect(clock.getTime()).toBe(0)
+    expect(clock.getRate()).toBe(1)
+  })
+})
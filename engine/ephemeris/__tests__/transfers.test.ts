@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  biEllipticTransfer,
+  findLaunchWindow,
+  gravitationalParameter,
+  hohmannTransfer,
+  J2000_EPOCH_MS,
+  phaseAngleAt,
+  planTransfer,
+  synodicPeriodDays,
+  transferArcPoints,
+} from '../index'
+import type { OrbitData } from '@/engine/types/orbital-system'
+
+const SUN_MASS_KG = 1.989e30
+const MU_SUN = gravitationalParameter(SUN_MASS_KG)
+const MS_PER_DAY = 86400000
+
+const earth: OrbitData = { parent: 'sol', semi_major_axis: 1, eccentricity: 0, inclination: 0, orbital_period: 365.25 }
+const mars: OrbitData = { parent: 'sol', semi_major_axis: 1.524, eccentricity: 0, inclination: 0, orbital_period: 686.98 }
+
+describe('hohmannTransfer', () => {
+  it('matches the textbook Earth to Mars transfer', () => {
+    const transfer = hohmannTransfer(1, 1.524, MU_SUN)
+    expect(transfer.kind).toBe('hohmann')
+    expect(transfer.burns[0]).toBeCloseTo(2.94, 1)
+    expect(transfer.burns[1]).toBeCloseTo(2.65, 1)
+    expect(transfer.totalDeltaV).toBeCloseTo(5.59, 1)
+    expect(transfer.timeOfFlight).toBeGreaterThan(255)
+    expect(transfer.timeOfFlight).toBeLessThan(262)
+    expect(transfer.sweep).toBeCloseTo(Math.PI)
+  })
+
+  it('costs the same in both directions', () => {
+    expect(hohmannTransfer(1.524, 1, MU_SUN).totalDeltaV).toBeCloseTo(hohmannTransfer(1, 1.524, MU_SUN).totalDeltaV)
+  })
+})
+
+describe('biEllipticTransfer', () => {
+  it('beats Hohmann for radius ratios beyond about 15.58 with a distant apoapsis', () => {
+    const ratio = 20
+    const hohmann = hohmannTransfer(1, ratio, MU_SUN)
+    const biElliptic = biEllipticTransfer(1, ratio, ratio * 10, MU_SUN)
+    expect(biElliptic.burns).toHaveLength(3)
+    expect(biElliptic.totalDeltaV).toBeLessThan(hohmann.totalDeltaV)
+    expect(biElliptic.timeOfFlight).toBeGreaterThan(hohmann.timeOfFlight)
+  })
+
+  it('costs more than Hohmann for nearby orbits', () => {
+    expect(biEllipticTransfer(1, 1.524, 3, MU_SUN).totalDeltaV)
+      .toBeGreaterThan(hohmannTransfer(1, 1.524, MU_SUN).totalDeltaV)
+  })
+})
+
+describe('planTransfer', () => {
+  it('asks for Mars to lead Earth by about 44° at departure', () => {
+    const plan = planTransfer(earth, mars, SUN_MASS_KG, J2000_EPOCH_MS)
+    expect(plan.phaseAngle).toBeCloseTo(44.3, 0)
+    expect(plan.synodicPeriod).toBeCloseTo(780, -1)
+  })
+
+  it('finds a launch window within one synodic period where the phase angle is met', () => {
+    const plan = planTransfer(earth, mars, SUN_MASS_KG, J2000_EPOCH_MS)
+    expect(plan.launchWindow).not.toBeNull()
+    expect(plan.launchWindow!).toBeGreaterThanOrEqual(J2000_EPOCH_MS)
+    expect(plan.launchWindow! - J2000_EPOCH_MS).toBeLessThanOrEqual(plan.synodicPeriod * MS_PER_DAY)
+
+    const phaseAtWindow = phaseAngleAt(earth, mars, plan.launchWindow!) * 180 / Math.PI
+    expect(phaseAtWindow).toBeCloseTo(plan.phaseAngle, 1)
+  })
+})
+
+describe('findLaunchWindow', () => {
+  it('never comes for bodies with the same period', () => {
+    expect(findLaunchWindow(earth, { ...earth, mean_anomaly_at_epoch: 90 }, 1, J2000_EPOCH_MS)).toBeNull()
+    expect(synodicPeriodDays(365.25, 365.25)).toBe(Infinity)
+  })
+})
+
+describe('transferArcPoints', () => {
+  it('runs from the start radius to the end radius on the far side', () => {
+    const points = transferArcPoints(10, 20, 0, 32)
+    const [first, last] = [points[0], points[points.length - 1]]
+    expect(Math.hypot(first[0], first[2])).toBeCloseTo(10)
+    expect(Math.hypot(last[0], last[2])).toBeCloseTo(20)
+    expect(last[0]).toBeLessThan(0)
+    expect(points.every(point => point[1] === 0)).toBe(true)
+  })
+})
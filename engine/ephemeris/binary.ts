@@ -0,0 +1,60 @@
+/**
+ * Two-body motion of a binary star about its barycenter, and the orbital
+ * stability limits for planets in the binary (Holman & Wiegert 1999).
+ */
+
+import { DAYS_PER_YEAR } from './ephemeris'
+
+// P-type planets orbit the whole pair; S-type planets orbit one member of it
+export type BinaryOrbitType = 'P-type' | 'S-type'
+
+/**
+ * Distances of the primary and secondary from the barycenter for a given
+ * separation. Each star's orbit is the relative orbit scaled by the other
+ * star's share of the total mass, so the heavier star moves on the smaller ellipse.
+ */
+export function binaryOrbitRadii(separation: number, primaryMass: number, secondaryMass: number): [number, number] {
+  const total = primaryMass + secondaryMass
+  if (total <= 0) return [separation / 2, separation / 2]
+  return [separation * (secondaryMass / total), separation * (primaryMass / total)]
+}
+
+/**
+ * Orbital period in days of a binary with the given separation (AU) and total mass (M☉)
+ */
+export function binaryPeriodDays(separationAU: number, totalMassSolar: number): number {
+  if (separationAU <= 0 || totalMassSolar <= 0) return 0
+  return DAYS_PER_YEAR * Math.sqrt(Math.pow(separationAU, 3) / totalMassSolar)
+}
+
+/**
+ * Largest stable S-type orbit around one star, in the units of `separation`.
+ * `perturberMassFraction` is the other star's share of the total mass.
+ * Fit valid for 0 ≤ e ≤ 0.8 and 0.1 ≤ μ ≤ 0.9.
+ */
+export function sTypeStabilityLimit(separation: number, eccentricity: number, perturberMassFraction: number): number {
+  const e = eccentricity
+  const mu = perturberMassFraction
+  const ratio = 0.464 - 0.380 * mu - 0.631 * e + 0.586 * mu * e + 0.150 * e * e - 0.198 * mu * e * e
+  return Math.max(ratio, 0) * separation
+}
+
+/**
+ * Smallest stable P-type (circumbinary) orbit, in the units of `separation`.
+ * `secondaryMassFraction` is the lighter star's share of the total mass.
+ * Fit valid for 0 ≤ e ≤ 0.7 and 0.1 ≤ μ ≤ 0.5.
+ */
+export function pTypeStabilityLimit(separation: number, eccentricity: number, secondaryMassFraction: number): number {
+  const e = eccentricity
+  const mu = secondaryMassFraction
+  const ratio = 1.60 + 5.10 * e - 2.22 * e * e + 4.12 * mu - 4.27 * e * mu - 5.09 * mu * mu + 4.61 * e * e * mu * mu
+  return ratio * separation
+}
+
+/**
+ * Whether an orbit of semi-major axis `a` lies on the stable side of a limit:
+ * inside it for S-type orbits, outside it for P-type orbits
+ */
+export function isBinaryOrbitStable(type: BinaryOrbitType, semiMajorAxis: number, limit: number): boolean {
+  return type === 'S-type' ? semiMajorAxis <= limit : semiMajorAxis >= limit
+}
@@ -0,0 +1,116 @@
+import { SECONDS_PER_DAY, DAYS_PER_YEAR, type SimulationTime } from "./ephemeris"
+
+/**
+ * Calendar helpers for presenting and entering simulation time.
+ * Simulation dates are always shown and parsed in UTC so a date means the same
+ * configuration for everyone regardless of their local time zone.
+ */
+
+export interface TimeRatePreset {
+  id: string
+  label: string
+  /** Simulated seconds per real second */
+  secondsPerSecond: number
+}
+
+export const TIME_RATE_PRESETS: TimeRatePreset[] = [
+  { id: 'minute', label: '1 min/s', secondsPerSecond: 60 },
+  { id: 'hour', label: '1 hr/s', secondsPerSecond: 3600 },
+  { id: 'day', label: '1 day/s', secondsPerSecond: SECONDS_PER_DAY },
+  { id: 'week', label: '1 wk/s', secondsPerSecond: 7 * SECONDS_PER_DAY },
+  { id: 'year', label: '1 yr/s', secondsPerSecond: DAYS_PER_YEAR * SECONDS_PER_DAY },
+]
+
+// The rate slider is logarithmic so one sweep covers the slowest preset to the
+// fastest; its position is log10 of simulated days per real second
+export const TIME_RATE_SLIDER_MIN = Math.log10(TIME_RATE_PRESETS[0].secondsPerSecond / SECONDS_PER_DAY)
+export const TIME_RATE_SLIDER_MAX = Math.log10(TIME_RATE_PRESETS[TIME_RATE_PRESETS.length - 1].secondsPerSecond / SECONDS_PER_DAY)
+
+const clampSliderPosition = (position: number) => Math.min(TIME_RATE_SLIDER_MAX, Math.max(TIME_RATE_SLIDER_MIN, position))
+
+/**
+ * Rate slider position for a rate in days per second, held to the slider's ends
+ */
+export function timeRateToSliderPosition(daysPerSecond: number): number {
+  return daysPerSecond > 0 ? clampSliderPosition(Math.log10(daysPerSecond)) : TIME_RATE_SLIDER_MIN
+}
+
+/**
+ * Rate in days per second at a slider position, to three significant figures
+ */
+export function sliderPositionToTimeRate(position: number): number {
+  return Number(Math.pow(10, clampSliderPosition(position)).toPrecision(3))
+}
+
+const RATE_UNITS: { seconds: number; singular: string; plural: string }[] = [
+  { seconds: DAYS_PER_YEAR * SECONDS_PER_DAY, singular: 'year', plural: 'years' },
+  { seconds: 7 * SECONDS_PER_DAY, singular: 'week', plural: 'weeks' },
+  { seconds: SECONDS_PER_DAY, singular: 'day', plural: 'days' },
+  { seconds: 3600, singular: 'hour', plural: 'hours' },
+  { seconds: 60, singular: 'minute', plural: 'minutes' },
+  { seconds: 1, singular: 'second', plural: 'seconds' },
+]
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+/**
+ * Formats a simulation time as "YYYY-MM-DD HH:mm UTC"
+ */
+export function formatSimulationDate(time: SimulationTime): string {
+  const date = new Date(time)
+  if (Number.isNaN(date.getTime())) return 'Invalid date'
+  return `${toDateInputValue(time)} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())} UTC`
+}
+
+/**
+ * Value for an `<input type="date">` ("YYYY-MM-DD", UTC)
+ */
+export function toDateInputValue(time: SimulationTime): string {
+  const date = new Date(time)
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+/**
+ * Value for an `<input type="datetime-local">` ("YYYY-MM-DDTHH:mm", UTC)
+ */
+export function toDateTimeInputValue(time: SimulationTime): string {
+  const date = new Date(time)
+  return `${toDateInputValue(time)}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`
+}
+
+/**
+ * Parses a typed or picked date ("YYYY-MM-DD", "YYYY-MM-DDTHH:mm" or "YYYY-MM-DD HH:mm") as UTC.
+ * Returns null when the value is not a valid date.
+ */
+export function parseSimulationDate(value: string): SimulationTime | null {
+  const match = value.trim().match(/^(-?\d{1,6})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?(?:\s*UTC|Z)?$/i)
+  if (!match) return null
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match
+  const date = new Date(0)
+  date.setUTCFullYear(Number(year), Number(month) - 1, Number(day))
+  date.setUTCHours(Number(hours), Number(minutes), Number(seconds), 0)
+
+  // Reject overflowed values such as 2020-02-31
+  if (
+    date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCDate() !== Number(day) ||
+    date.getUTCHours() !== Number(hours)
+  ) {
+    return null
+  }
+  return date.getTime()
+}
+
+/**
+ * Formats a clock rate (simulated seconds per real second) as e.g. "2.5 days/s" or "-1 year/s"
+ */
+export function formatTimeRate(secondsPerSecond: number): string {
+  if (secondsPerSecond === 0) return 'stopped'
+  const magnitude = Math.abs(secondsPerSecond)
+  const unit = RATE_UNITS.find(candidate => magnitude >= candidate.seconds) ?? RATE_UNITS[RATE_UNITS.length - 1]
+  const value = magnitude / unit.seconds
+  const rounded = value >= 10 ? Math.round(value).toString() : Number(value.toFixed(1)).toString()
+  const sign = secondsPerSecond < 0 ? '-' : ''
+  return `${sign}${rounded} ${rounded === '1' ? unit.singular : unit.plural}/s`
+}
@@ -0,0 +1,149 @@
+import type { OrbitData } from "@/engine/types/orbital-system"
+import { solveKeplersEquation, eccentricToTrueAnomaly, normalizeAngle } from "./kepler"
+
+/** Simulation timestamps are milliseconds since the Unix epoch (same as `Date.getTime()`) */
+export type SimulationTime = number
+
+/** J2000.0 reference epoch (2000-01-01T12:00:00Z), used when an orbit declares no epoch */
+export const J2000_EPOCH_MS: SimulationTime = Date.UTC(2000, 0, 1, 12, 0, 0)
+
+export const SECONDS_PER_DAY = 86400
+export const DAYS_PER_YEAR = 365.25
+
+const DEG_TO_RAD = Math.PI / 180
+
+export interface EphemerisOptions {
+  /** Reference epoch; overrides `orbit.epoch` */
+  epoch?: SimulationTime
+  /** Mean anomaly at the epoch in degrees; overrides `orbit.mean_anomaly_at_epoch` */
+  meanAnomalyAtEpoch?: number
+  /** Distance scale to use instead of `orbit.semi_major_axis` (e.g. view-mode scaled units) */
+  semiMajorAxis?: number
+}
+
+export interface OrbitalState {
+  /** Position relative to the parent, in the units of the semi-major axis */
+  position: [number, number, number]
+  /** Velocity relative to the parent, in semi-major-axis units per second */
+  velocity: [number, number, number]
+  meanAnomaly: number
+  eccentricAnomaly: number
+  trueAnomaly: number
+  /** Distance from the parent, in the units of the semi-major axis */
+  distance: number
+}
+
+/**
+ * Parses an epoch declared in system data (ISO date string or timestamp).
+ * Falls back to J2000 when the value is missing or unparseable.
+ */
+export function parseEpoch(epoch?: string | number): SimulationTime {
+  if (typeof epoch === 'number' && Number.isFinite(epoch)) return epoch
+  if (typeof epoch === 'string') {
+    const parsed = Date.parse(epoch)
+    if (!Number.isNaN(parsed)) return parsed
+  }
+  return J2000_EPOCH_MS
+}
+
+/**
+ * Orbital period in days from Kepler's third law, assuming a solar-mass primary
+ * and a semi-major axis in AU
+ */
+export function keplerPeriodDays(semiMajorAxisAU: number): number {
+  return Math.sqrt(Math.pow(Math.abs(semiMajorAxisAU), 3)) * DAYS_PER_YEAR
+}
+
+/**
+ * Resolves the orbital period in days, preferring the value declared in the data
+ */
+export function resolveOrbitalPeriodDays(orbit: Pick<OrbitData, 'orbital_period' | 'semi_major_axis'>): number {
+  if (orbit.orbital_period > 0) return orbit.orbital_period
+  return keplerPeriodDays(orbit.semi_major_axis)
+}
+
+/**
+ * Mean motion in radians per second
+ */
+export function meanMotion(periodDays: number): number {
+  if (!(periodDays > 0)) return 0
+  return (Math.PI * 2) / (periodDays * SECONDS_PER_DAY)
+}
+
+/**
+ * Mean anomaly (radians, normalised) of an orbit at the given simulation time
+ */
+export function meanAnomalyAt(
+  orbit: OrbitData,
+  time: SimulationTime,
+  options: EphemerisOptions = {}
+): number {
+  const epoch = options.epoch ?? parseEpoch(orbit.epoch)
+  const meanAnomalyAtEpoch = (options.meanAnomalyAtEpoch ?? orbit.mean_anomaly_at_epoch ?? 0) * DEG_TO_RAD
+  const elapsedSeconds = (time - epoch) / 1000
+  return normalizeAngle(meanAnomalyAtEpoch + meanMotion(resolveOrbitalPeriodDays(orbit)) * elapsedSeconds)
+}
+
+/**
+ * Position on an orbit for a given mean anomaly. The orbital plane is the XZ plane,
+ * tilted about the X axis by the inclination (degrees), matching the scene convention.
+ */
+export function orbitalPositionFromMeanAnomaly(
+  meanAnomaly: number,
+  semiMajorAxis: number,
+  eccentricity: number,
+  inclination: number
+): [number, number, number] {
+  const e = clampEccentricity(eccentricity)
+  const E = solveKeplersEquation(meanAnomaly, e)
+  const nu = eccentricToTrueAnomaly(E, e)
+  const r = semiMajorAxis * (1 - e * Math.cos(E))
+  return toScene(r * Math.cos(nu), r * Math.sin(nu), inclination)
+}
+
+/**
+ * Computes the exact position and velocity of a body at a simulation timestamp
+ */
+export function computeOrbitalState(
+  orbit: OrbitData,
+  time: SimulationTime,
+  options: EphemerisOptions = {}
+): OrbitalState {
+  const a = options.semiMajorAxis ?? orbit.semi_major_axis
+  const e = clampEccentricity(orbit.eccentricity)
+  const n = meanMotion(resolveOrbitalPeriodDays(orbit))
+
+  const M = meanAnomalyAt(orbit, time, options)
+  const E = solveKeplersEquation(M, e)
+  const nu = eccentricToTrueAnomaly(E, e)
+
+  const cosE = Math.cos(E)
+  const sinE = Math.sin(E)
+  const denominator = 1 - e * cosE
+  const distance = a * denominator
+
+  // Perifocal position and velocity
+  const px = a * (cosE - e)
+  const py = a * Math.sqrt(1 - e * e) * sinE
+  const vx = (-a * n * sinE) / denominator
+  const vy = (a * n * Math.sqrt(1 - e * e) * cosE) / denominator
+
+  return {
+    position: toScene(px, py, orbit.inclination),
+    velocity: toScene(vx, vy, orbit.inclination),
+    meanAnomaly: M,
+    eccentricAnomaly: E,
+    trueAnomaly: normalizeAngle(nu),
+    distance,
+  }
+}
+
+function clampEccentricity(eccentricity: number): number {
+  if (!Number.isFinite(eccentricity) || eccentricity < 0) return 0
+  return Math.min(eccentricity, 0.999)
+}
+
+function toScene(x: number, y: number, inclination: number): [number, number, number] {
+  const i = (inclination || 0) * DEG_TO_RAD
+  return [x, y * Math.sin(i), y * Math.cos(i)]
+}
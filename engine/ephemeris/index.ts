@@ -0,0 +1,64 @@
+export {
+  J2000_EPOCH_MS,
+  SECONDS_PER_DAY,
+  DAYS_PER_YEAR,
+  parseEpoch,
+  keplerPeriodDays,
+  resolveOrbitalPeriodDays,
+  meanMotion,
+  meanAnomalyAt,
+  orbitalPositionFromMeanAnomaly,
+  computeOrbitalState,
+  type SimulationTime,
+  type EphemerisOptions,
+  type OrbitalState,
+} from './ephemeris'
+export { normalizeAngle, solveKeplersEquation, eccentricToTrueAnomaly } from './kepler'
+export {
+  SimulationClock,
+  type SimulationClockListener,
+  type SimulationClockOptions,
+} from './simulation-clock'
+export {
+  TIME_RATE_PRESETS,
+  TIME_RATE_SLIDER_MIN,
+  TIME_RATE_SLIDER_MAX,
+  formatSimulationDate,
+  formatTimeRate,
+  parseSimulationDate,
+  sliderPositionToTimeRate,
+  timeRateToSliderPosition,
+  toDateInputValue,
+  toDateTimeInputValue,
+  type TimeRatePreset,
+} from './calendar'
+export {
+  lagrangeMassRatio,
+  hillFraction,
+  orbitalAngularMomentumAxis,
+  lagrangePointPosition,
+  type LagrangeIndex,
+} from './lagrange'
+export {
+  binaryOrbitRadii,
+  binaryPeriodDays,
+  sTypeStabilityLimit,
+  pTypeStabilityLimit,
+  isBinaryOrbitStable,
+  type BinaryOrbitType,
+} from './binary'
+export {
+  gravitationalParameter,
+  hohmannTransfer,
+  biEllipticTransfer,
+  requiredPhaseAngle,
+  synodicPeriodDays,
+  phaseAngleAt,
+  findLaunchWindow,
+  planTransfer,
+  transferArcPoints,
+  type TransferKind,
+  type TransferManeuver,
+  type TransferPlan,
+  type TransferOptions,
+} from './transfers'
@@ -0,0 +1,48 @@
+/**
+ * Kepler equation helpers shared by the ephemeris engine and orbit visualisation.
+ * All angles are in radians.
+ */
+
+const KEPLER_TOLERANCE = 1e-10
+const KEPLER_MAX_ITERATIONS = 30
+
+/**
+ * Wraps an angle into the range [0, 2π)
+ */
+export function normalizeAngle(angle: number): number {
+  const twoPi = Math.PI * 2
+  const wrapped = angle % twoPi
+  return wrapped < 0 ? wrapped + twoPi : wrapped
+}
+
+/**
+ * Solves Kepler's equation M = E - e·sin(E) for the eccentric anomaly E
+ * using Newton-Raphson iteration. Valid for elliptical orbits (0 ≤ e < 1).
+ */
+export function solveKeplersEquation(meanAnomaly: number, eccentricity: number): number {
+  const M = normalizeAngle(meanAnomaly)
+  if (eccentricity <= 0) return M
+
+  // High eccentricity converges more reliably when starting from π
+  let E = eccentricity > 0.8 ? Math.PI : M
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const f = E - eccentricity * Math.sin(E) - M
+    const df = 1 - eccentricity * Math.cos(E)
+    const correction = f / df
+    E -= correction
+    if (Math.abs(correction) < KEPLER_TOLERANCE) break
+  }
+
+  return E
+}
+
+/**
+ * Converts an eccentric anomaly into the true anomaly
+ */
+export function eccentricToTrueAnomaly(eccentricAnomaly: number, eccentricity: number): number {
+  return 2 * Math.atan2(
+    Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
+    Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2)
+  )
+}
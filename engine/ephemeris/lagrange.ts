@@ -0,0 +1,107 @@
+/**
+ * Lagrange point geometry for a primary/secondary pair (restricted three-body problem).
+ * Positions are computed from wherever the two bodies currently are, so a point
+ * follows its pair as they move.
+ */
+
+import type { LagrangeIndex } from '../types/orbital-system'
+
+export type { LagrangeIndex }
+
+type Vec3 = [number, number, number]
+
+const DEG_TO_RAD = Math.PI / 180
+const SIXTY_DEGREES = Math.PI / 3
+
+/**
+ * Mass ratio μ = m2 / (m1 + m2). Both masses must be in the same unit.
+ */
+export function lagrangeMassRatio(primaryMass: number, secondaryMass: number): number {
+  const m1 = Math.max(primaryMass || 0, 0)
+  const m2 = Math.max(secondaryMass || 0, 0)
+  if (m1 + m2 === 0) return 0
+  return m2 / (m1 + m2)
+}
+
+/**
+ * Distance of L1/L2 from the secondary as a fraction of the pair's separation (Hill approximation)
+ */
+export function hillFraction(massRatio: number): number {
+  return Math.cbrt(Math.max(massRatio, 0) / 3)
+}
+
+/**
+ * Orbital angular momentum direction for an orbit in the scene convention
+ * (XZ plane tilted about X by the inclination, in degrees). Rotating the
+ * secondary's offset about this axis by a positive angle moves it forward along its orbit.
+ */
+export function orbitalAngularMomentumAxis(inclination = 0): Vec3 {
+  const i = inclination * DEG_TO_RAD
+  return [0, -Math.cos(i), Math.sin(i)]
+}
+
+/**
+ * Position of a Lagrange point given the current positions of the primary and secondary.
+ *
+ * L1 sits between the bodies and L2 beyond the secondary, both at the Hill distance;
+ * L3 is opposite the secondary; L4 leads and L5 trails the secondary by 60°.
+ * `minSecondaryOffset` keeps L1/L2 outside the secondary's rendered body when visual
+ * sizes are exaggerated relative to orbital distances.
+ */
+export function lagrangePointPosition(
+  primary: Vec3,
+  secondary: Vec3,
+  point: LagrangeIndex,
+  massRatio: number,
+  axis: Vec3 = orbitalAngularMomentumAxis(0),
+  minSecondaryOffset = 0
+): Vec3 {
+  const r: Vec3 = [secondary[0] - primary[0], secondary[1] - primary[1], secondary[2] - primary[2]]
+  const separation = Math.hypot(r[0], r[1], r[2])
+  if (separation === 0) return [...primary] as Vec3
+
+  const mu = Math.min(Math.max(massRatio, 0), 0.5)
+  const hillOffset = Math.max(hillFraction(mu) * separation, minSecondaryOffset)
+
+  switch (point) {
+    case 1:
+      return along(primary, r, (separation - hillOffset) / separation)
+    case 2:
+      return along(primary, r, (separation + hillOffset) / separation)
+    case 3:
+      return along(primary, r, -(1 + (5 * mu) / 12))
+    case 4:
+      return add(primary, rotateAboutAxis(r, axis, SIXTY_DEGREES))
+    case 5:
+      return add(primary, rotateAboutAxis(r, axis, -SIXTY_DEGREES))
+    default:
+      throw new Error(`Invalid Lagrange point: L${point}`)
+  }
+}
+
+function along(origin: Vec3, direction: Vec3, factor: number): Vec3 {
+  return [origin[0] + direction[0] * factor, origin[1] + direction[1] * factor, origin[2] + direction[2] * factor]
+}
+
+function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+}
+
+// Rodrigues' rotation formula
+function rotateAboutAxis(v: Vec3, axis: Vec3, angle: number): Vec3 {
+  const length = Math.hypot(axis[0], axis[1], axis[2]) || 1
+  const k: Vec3 = [axis[0] / length, axis[1] / length, axis[2] / length]
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const dot = k[0] * v[0] + k[1] * v[1] + k[2] * v[2]
+  const cross: Vec3 = [
+    k[1] * v[2] - k[2] * v[1],
+    k[2] * v[0] - k[0] * v[2],
+    k[0] * v[1] - k[1] * v[0],
+  ]
+  return [
+    v[0] * cos + cross[0] * sin + k[0] * dot * (1 - cos),
+    v[1] * cos + cross[1] * sin + k[1] * dot * (1 - cos),
+    v[2] * cos + cross[2] * sin + k[2] * dot * (1 - cos),
+  ]
+}
@@ -0,0 +1,78 @@
+import { J2000_EPOCH_MS, type SimulationTime } from "./ephemeris"
+
+export type SimulationClockListener = (clock: SimulationClock) => void
+
+export interface SimulationClockOptions {
+  startTime?: SimulationTime
+  /** Simulated seconds per real second */
+  rate?: number
+  paused?: boolean
+}
+
+/**
+ * Single source of simulation time for a viewer. Rendering code reads `getTime()`
+ * every frame; exactly one driver advances the clock with `tick()`.
+ */
+export class SimulationClock {
+  private time: SimulationTime
+  private rate: number
+  private paused: boolean
+  private listeners = new Set<SimulationClockListener>()
+
+  constructor(options: SimulationClockOptions = {}) {
+    this.time = options.startTime ?? J2000_EPOCH_MS
+    this.rate = options.rate ?? 1
+    this.paused = options.paused ?? false
+  }
+
+  getTime(): SimulationTime {
+    return this.time
+  }
+
+  getRate(): number {
+    return this.rate
+  }
+
+  isPaused(): boolean {
+    return this.paused
+  }
+
+  setTime(time: SimulationTime): void {
+    if (!Number.isFinite(time) || time === this.time) return
+    this.time = time
+    this.notify()
+  }
+
+  setRate(rate: number): void {
+    if (!Number.isFinite(rate) || rate === this.rate) return
+    this.rate = rate
+    this.notify()
+  }
+
+  setPaused(paused: boolean): void {
+    if (paused === this.paused) return
+    this.paused = paused
+    this.notify()
+  }
+
+  /**
+   * Advances simulation time by a real-time delta (seconds). Returns the new time.
+   */
+  tick(realDeltaSeconds: number): SimulationTime {
+    if (this.paused || this.rate === 0 || !(realDeltaSeconds > 0)) return this.time
+    this.time += realDeltaSeconds * this.rate * 1000
+    this.notify()
+    return this.time
+  }
+
+  subscribe(listener: SimulationClockListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this))
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Impulsive transfers between two circular, coplanar orbits about the same
+ * primary: Hohmann and bi-elliptic delta-v and flight time, the phase angle
+ * the target must lead the origin by at departure, and the next time that
+ * geometry occurs on the simulation clock.
+ */
+
+import type { OrbitData } from '@/engine/types/orbital-system'
+import {
+  computeOrbitalState,
+  resolveOrbitalPeriodDays,
+  SECONDS_PER_DAY,
+  type SimulationTime,
+} from './ephemeris'
+import { normalizeAngle } from './kepler'
+
+const G = 6.674e-11 // m³ kg⁻¹ s⁻²
+const METRES_PER_AU = 1.495978707e11
+const TWO_PI = Math.PI * 2
+const RAD_TO_DEG = 180 / Math.PI
+
+export type TransferKind = 'hohmann' | 'bi-elliptic'
+
+export interface TransferManeuver {
+  kind: TransferKind
+  burns: number[] // delta-v of each burn in km/s, in order
+  totalDeltaV: number // km/s
+  timeOfFlight: number // days
+  sweep: number // angle travelled about the primary, radians (π for Hohmann, 2π for bi-elliptic)
+  radii: number[] // AU: departure, any intermediate apoapsis, arrival
+}
+
+export interface TransferPlan extends TransferManeuver {
+  phaseAngle: number // degrees the target must lead the origin by at departure
+  currentPhaseAngle: number // degrees the target leads the origin by now
+  synodicPeriod: number // days between launch windows (Infinity for equal periods)
+  launchWindow: SimulationTime | null // next departure at or after the planning time
+}
+
+export interface TransferOptions {
+  biEllipticApoapsis?: number // AU; plans a bi-elliptic transfer through this radius
+}
+
+/**
+ * Standard gravitational parameter (m³/s²) of a primary of `massKg`
+ */
+export function gravitationalParameter(massKg: number): number {
+  return G * massKg
+}
+
+const circularSpeed = (mu: number, r: number) => Math.sqrt(mu / r)
+const visViva = (mu: number, r: number, a: number) => Math.sqrt(mu * (2 / r - 1 / a))
+const halfPeriodDays = (mu: number, a: number) => Math.PI * Math.sqrt(a * a * a / mu) / SECONDS_PER_DAY
+
+/**
+ * Hohmann transfer between circular orbits of radius `r1` and `r2` (AU)
+ */
+export function hohmannTransfer(r1: number, r2: number, mu: number): TransferManeuver {
+  const [a1, a2] = [r1 * METRES_PER_AU, r2 * METRES_PER_AU]
+  const transferAxis = (a1 + a2) / 2
+  const burns = [
+    Math.abs(visViva(mu, a1, transferAxis) - circularSpeed(mu, a1)),
+    Math.abs(circularSpeed(mu, a2) - visViva(mu, a2, transferAxis)),
+  ].map((v) => v / 1000)
+
+  return {
+    kind: 'hohmann',
+    burns,
+    totalDeltaV: burns[0] + burns[1],
+    timeOfFlight: halfPeriodDays(mu, transferAxis),
+    sweep: Math.PI,
+    radii: [r1, r2],
+  }
+}
+
+/**
+ * Bi-elliptic transfer from `r1` out to `rb` and back to `r2` (AU). Cheaper
+ * than Hohmann for radius ratios above about 11.94, at a much longer flight.
+ */
+export function biEllipticTransfer(r1: number, r2: number, rb: number, mu: number): TransferManeuver {
+  const [a1, a2, ab] = [r1 * METRES_PER_AU, r2 * METRES_PER_AU, rb * METRES_PER_AU]
+  const first = (a1 + ab) / 2
+  const second = (ab + a2) / 2
+  const burns = [
+    Math.abs(visViva(mu, a1, first) - circularSpeed(mu, a1)),
+    Math.abs(visViva(mu, ab, second) - visViva(mu, ab, first)),
+    Math.abs(circularSpeed(mu, a2) - visViva(mu, a2, second)),
+  ].map((v) => v / 1000)
+
+  return {
+    kind: 'bi-elliptic',
+    burns,
+    totalDeltaV: burns[0] + burns[1] + burns[2],
+    timeOfFlight: halfPeriodDays(mu, first) + halfPeriodDays(mu, second),
+    sweep: TWO_PI,
+    radii: [r1, rb, r2],
+  }
+}
+
+/**
+ * Phase angle (radians, 0–2π) the target must lead the origin by at departure
+ * so that it reaches the arrival point together with the spacecraft
+ */
+export function requiredPhaseAngle(maneuver: TransferManeuver, targetPeriodDays: number): number {
+  return normalizeAngle(maneuver.sweep - TWO_PI * maneuver.timeOfFlight / targetPeriodDays)
+}
+
+export function synodicPeriodDays(periodA: number, periodB: number): number {
+  const relative = Math.abs(1 / periodA - 1 / periodB)
+  return relative > 0 ? 1 / relative : Infinity
+}
+
+// Angle in (−π, π]
+const signedAngle = (angle: number) => {
+  const normalized = normalizeAngle(angle)
+  return normalized > Math.PI ? normalized - TWO_PI : normalized
+}
+
+/**
+ * Angle (radians, 0–2π) by which `target` leads `origin` about their primary at `time`
+ */
+export function phaseAngleAt(origin: OrbitData, target: OrbitData, time: SimulationTime): number {
+  return normalizeAngle(computeOrbitalState(target, time).trueAnomaly - computeOrbitalState(origin, time).trueAnomaly)
+}
+
+/**
+ * First time at or after `time` when the target leads the origin by
+ * `phaseAngle` radians, refined on the actual (possibly eccentric) orbits.
+ * Returns null when the two periods are equal and the geometry never changes.
+ */
+export function findLaunchWindow(
+  origin: OrbitData,
+  target: OrbitData,
+  phaseAngle: number,
+  time: SimulationTime
+): SimulationTime | null {
+  const originPeriod = resolveOrbitalPeriodDays(origin)
+  const targetPeriod = resolveOrbitalPeriodDays(target)
+  const relativeRate = TWO_PI / targetPeriod - TWO_PI / originPeriod // radians per day
+  if (!Number.isFinite(relativeRate) || relativeRate === 0) return null
+
+  const msPerRadian = SECONDS_PER_DAY * 1000 / Math.abs(relativeRate)
+  const offset = phaseAngle - phaseAngleAt(origin, target, time)
+  let window = time + normalizeAngle(relativeRate > 0 ? offset : -offset) * msPerRadian
+
+  for (let i = 0; i < 5; i++) {
+    const error = signedAngle(phaseAngle - phaseAngleAt(origin, target, window))
+    window += Math.sign(relativeRate) * error * msPerRadian
+  }
+
+  // Refinement can step back past the planning time; take the following window
+  const synodicMs = synodicPeriodDays(originPeriod, targetPeriod) * SECONDS_PER_DAY * 1000
+  while (window < time) window += synodicMs
+  return window
+}
+
+/**
+ * A complete transfer from `origin` to `target`, which orbit the same primary
+ * of `centralMassKg`. Orbits are treated as circular at their semi-major axes.
+ */
+export function planTransfer(
+  origin: OrbitData,
+  target: OrbitData,
+  centralMassKg: number,
+  time: SimulationTime,
+  options: TransferOptions = {}
+): TransferPlan {
+  const mu = gravitationalParameter(centralMassKg)
+  const maneuver = options.biEllipticApoapsis
+    ? biEllipticTransfer(origin.semi_major_axis, target.semi_major_axis, options.biEllipticApoapsis, mu)
+    : hohmannTransfer(origin.semi_major_axis, target.semi_major_axis, mu)
+
+  const targetPeriod = resolveOrbitalPeriodDays(target)
+  const phaseAngle = requiredPhaseAngle(maneuver, targetPeriod)
+
+  return {
+    ...maneuver,
+    phaseAngle: phaseAngle * RAD_TO_DEG,
+    currentPhaseAngle: phaseAngleAt(origin, target, time) * RAD_TO_DEG,
+    synodicPeriod: synodicPeriodDays(resolveOrbitalPeriodDays(origin), targetPeriod),
+    launchWindow: findLaunchWindow(origin, target, phaseAngle, time),
+  }
+}
+
+/**
+ * Points along one half-ellipse transfer leg in the scene's XZ plane, about a
+ * primary at the origin: from `startRadius` at `startAngle` (radians) to
+ * `endRadius` on the opposite side
+ */
+export function transferArcPoints(
+  startRadius: number,
+  endRadius: number,
+  startAngle: number,
+  segments = 64
+): [number, number, number][] {
+  const periapsis = Math.min(startRadius, endRadius)
+  const apoapsis = Math.max(startRadius, endRadius)
+  const e = (apoapsis - periapsis) / (apoapsis + periapsis)
+  const p = periapsis * (1 + e)
+  const periapsisAngle = startRadius <= endRadius ? startAngle : startAngle + Math.PI
+
+  const points: [number, number, number][] = []
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (i / segments) * Math.PI
+    const r = p / (1 + e * Math.cos(angle - periapsisAngle))
+    points.push([r * Math.cos(angle), 0, r * Math.sin(angle)])
+  }
+  return points
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useGravitationalDomains, calculateDomainOpacity } from '../use-gravitational-domains'
+import type { CelestialObject } from '@/engine/types/orbital-system'
+
+const objects: CelestialObject[] = [
+  {
+    id: 'sol',
+    name: 'Sol',
+    classification: 'star',
+    geometry_type: 'star',
+    properties: { mass: 1, radius: 695700, temperature: 5778 },
+    position: [0, 0, 0],
+  },
+  {
+    id: 'earth',
+    name: 'Earth',
+    classification: 'planet',
+    geometry_type: 'terrestrial',
+    properties: { mass: 1, radius: 6371, temperature: 288 },
+    orbit: { parent: 'sol', semi_major_axis: 1, eccentricity: 0, inclination: 0, orbital_period: 365.25 },
+  },
+  {
+    id: 'luna',
+    name: 'Luna',
+    classification: 'moon',
+    geometry_type: 'rocky',
+    properties: { mass: 0.0123, radius: 1737.4, temperature: 220 },
+    orbit: { parent: 'earth', semi_major_axis: 0.00257, eccentricity: 0, inclination: 0, orbital_period: 27.3 },
+  },
+]
+
+describe('useGravitationalDomains', () => {
+  it('scales true domains by the orbit distance of the view mode', () => {
+    const mechanics = new Map([
+      ['earth', { orbitDistance: 100, visualRadius: 0.5 }],
+      ['luna', { orbitDistance: 4, visualRadius: 1 }],
+    ])
+    const { result } = renderHook(() =>
+      useGravitationalDomains(objects, mechanics, { showDomains: true })
+    )
+
+    const earth = result.current.find((domain) => domain.objectId === 'earth')!
+    expect(earth.hillRadius).toBeCloseTo(100 * 0.01, 1)
+    expect(earth.sphereOfInfluence).toBeCloseTo(100 * 0.00619, 2)
+    expect(earth.sphereOfInfluence).toBeLessThan(earth.hillRadius)
+    // Luna's Hill sphere is smaller than its rendered size here
+    expect(result.current.map((domain) => domain.objectId)).toEqual(['earth'])
+  })
+
+  it('returns nothing when hidden or without orbit distances', () => {
+    const mechanics = new Map([['earth', { orbitDistance: 100 }]])
+    const hidden = renderHook(() =>
+      useGravitationalDomains(objects, mechanics, { showDomains: false })
+    )
+    expect(hidden.result.current).toEqual([])
+
+    const unplaced = renderHook(() =>
+      useGravitationalDomains(objects, new Map(), { showDomains: true })
+    )
+    expect(unplaced.result.current).toEqual([])
+  })
+
+  it('has opacities for every view mode', () => {
+    expect(calculateDomainOpacity('navigational').hill).toBeGreaterThan(0)
+    expect(calculateDomainOpacity('profile')).toEqual(calculateDomainOpacity('explorational'))
+  })
+})
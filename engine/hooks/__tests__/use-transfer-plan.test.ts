@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useTransferPlan, useTransferArc, transferCandidates } from '../use-transfer-plan'
+import { J2000_EPOCH_MS } from '@/engine/ephemeris'
+import type { CelestialObject } from '@/engine/types/orbital-system'
+
+const objects: CelestialObject[] = [
+  {
+    id: 'sol',
+    name: 'Sol',
+    classification: 'star',
+    geometry_type: 'star',
+    properties: { mass: 1, radius: 695700, temperature: 5778 },
+    position: [0, 0, 0],
+  },
+  {
+    id: 'earth',
+    name: 'Earth',
+    classification: 'planet',
+    geometry_type: 'terrestrial',
+    properties: { mass: 1, radius: 6371, temperature: 288 },
+    orbit: { parent: 'sol', semi_major_axis: 1, eccentricity: 0, inclination: 0, orbital_period: 365.25 },
+  },
+  {
+    id: 'mars',
+    name: 'Mars',
+    classification: 'planet',
+    geometry_type: 'rocky',
+    properties: { mass: 0.107, radius: 3389.5, temperature: 210 },
+    orbit: { parent: 'sol', semi_major_axis: 1.524, eccentricity: 0, inclination: 0, orbital_period: 686.98 },
+  },
+  {
+    id: 'luna',
+    name: 'Luna',
+    classification: 'moon',
+    geometry_type: 'rocky',
+    properties: { mass: 0.0123, radius: 1737.4, temperature: 220 },
+    orbit: { parent: 'earth', semi_major_axis: 0.00257, eccentricity: 0, inclination: 0, orbital_period: 27.3 },
+  },
+]
+
+describe('transferCandidates', () => {
+  it('lists bodies on an orbit', () => {
+    expect(transferCandidates(objects).map(obj => obj.id)).toEqual(['earth', 'mars', 'luna'])
+  })
+})
+
+describe('useTransferPlan', () => {
+  it('plans nothing until both bodies are picked', () => {
+    const { result } = renderHook(() => useTransferPlan(objects, { fromId: 'earth', toId: '' }, J2000_EPOCH_MS))
+    expect(result.current).toEqual({ plan: null, error: null })
+  })
+
+  it('plans a Hohmann transfer about the shared primary', () => {
+    const { result } = renderHook(() => useTransferPlan(objects, { fromId: 'earth', toId: 'mars' }, J2000_EPOCH_MS))
+    expect(result.current.error).toBeNull()
+    expect(result.current.plan?.kind).toBe('hohmann')
+    expect(result.current.plan?.totalDeltaV).toBeCloseTo(5.59, 1)
+  })
+
+  it('places a bi-elliptic apoapsis at a multiple of the outer orbit', () => {
+    const { result } = renderHook(() =>
+      useTransferPlan(objects, { fromId: 'earth', toId: 'mars', biElliptic: true, apoapsisRatio: 3 }, J2000_EPOCH_MS)
+    )
+    expect(result.current.plan?.kind).toBe('bi-elliptic')
+    expect(result.current.plan?.radii[1]).toBeCloseTo(1.524 * 3)
+  })
+
+  it('refuses bodies with different primaries', () => {
+    const { result } = renderHook(() => useTransferPlan(objects, { fromId: 'luna', toId: 'mars' }, J2000_EPOCH_MS))
+    expect(result.current.plan).toBeNull()
+    expect(result.current.error).toBe("Luna and Mars don't orbit the same body")
+  })
+})
+
+describe('useTransferArc', () => {
+  it('stays the same while only the clock moves', () => {
+    const { result, rerender } = renderHook(({ time }) =>
+      useTransferArc(useTransferPlan(objects, { fromId: 'earth', toId: 'mars' }, time)),
+    { initialProps: { time: J2000_EPOCH_MS } })
+    const arc = result.current
+    expect(arc?.radii).toEqual([1, 1.524])
+
+    rerender({ time: J2000_EPOCH_MS + 86400000 })
+    expect(result.current).toBe(arc)
+  })
+})
@@ -0,0 +1,62 @@
+import { useMemo } from 'react'
+import { findGravitationalDomains } from '@/engine/utils/derived-physics'
+import type { ViewType } from '@lib/types/effects-level'
+import type { CelestialObject } from '@/engine/types/orbital-system'
+
+// Shell opacity per view mode
+const DOMAIN_OPACITY_CONFIGS: Partial<Record<ViewType, { hill: number; soi: number }>> = {
+  explorational: { hill: 0.12, soi: 0.22 },
+  navigational: { hill: 0.18, soi: 0.3 },
+  scientific: { hill: 0.15, soi: 0.25 },
+}
+const DEFAULT_OPACITY = { hill: 0.12, soi: 0.22 } as const
+
+export interface ScaledGravitationalDomain {
+  objectId: string
+  hillRadius: number // scene units
+  sphereOfInfluence: number // scene units
+}
+
+export interface GravitationalDomainConfig {
+  showDomains: boolean
+}
+
+/**
+ * Hill spheres and spheres of influence in scene units. Each domain keeps its
+ * true size relative to the body's orbit, so it scales with the orbit distance
+ * the active view mode gives the body. Domains hidden inside the rendered body
+ * are left out.
+ *
+ * @param objects - The system's objects
+ * @param orbitalMechanics - Orbit distances and visual radii for the view mode
+ * @param config - Whether to show domains
+ */
+export function useGravitationalDomains(
+  objects: CelestialObject[],
+  orbitalMechanics: Map<string, { orbitDistance?: number; visualRadius?: number }>,
+  config: GravitationalDomainConfig
+): ScaledGravitationalDomain[] {
+  const domains = useMemo(() => findGravitationalDomains(objects), [objects])
+
+  return useMemo(() => {
+    if (!config.showDomains) return []
+
+    return domains.flatMap((domain) => {
+      const mechanics = orbitalMechanics.get(domain.objectId)
+      if (!mechanics?.orbitDistance || domain.semiMajorAxis <= 0) return []
+
+      const scale = mechanics.orbitDistance / domain.semiMajorAxis
+      const hillRadius = domain.hillRadius * scale
+      if (hillRadius <= (mechanics.visualRadius || 0)) return []
+
+      return [{ objectId: domain.objectId, hillRadius, sphereOfInfluence: domain.sphereOfInfluence * scale }]
+    })
+  }, [domains, orbitalMechanics, config.showDomains])
+}
+
+/**
+ * Shell opacity for the view mode
+ */
+export function calculateDomainOpacity(viewType: ViewType): { hill: number; soi: number } {
+  return DOMAIN_OPACITY_CONFIGS[viewType] || DEFAULT_OPACITY
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+import { localSystemStore, type LocalSystemEntry } from '@/engine/local-systems/local-system-store'
+
+/**
+ * Local systems imported into `mode`, kept current as systems are imported
+ * or removed
+ */
+export function useLocalSystems(mode: string): LocalSystemEntry[] {
+  const [entries, setEntries] = useState<LocalSystemEntry[]>(() => localSystemStore.list(mode))
+
+  useEffect(() => {
+    setEntries(localSystemStore.list(mode))
+    return localSystemStore.subscribe(() => setEntries(localSystemStore.list(mode)))
+  }, [mode])
+
+  return entries
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+import { engineSystemLoader } from '@/engine/system-loader'
+import type { CatalogData } from '@/engine/types/catalog'
+
+/**
+ * The object catalog, loaded once through the system loader and shared by
+ * everything that lists or adds catalog objects. `catalog` stays null while
+ * loading and when the catalog can't be read; `loading` tells the two apart.
+ */
+export function useObjectCatalog(): { catalog: CatalogData | null; loading: boolean } {
+  const [catalog, setCatalog] = useState<CatalogData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const data = await engineSystemLoader.loadObjectCatalog()
+        if (!cancelled) setCatalog(data)
+      } catch {
+        if (!cancelled) setCatalog(null)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { catalog, loading }
+}
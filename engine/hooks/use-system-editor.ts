@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useReducer, useState } from 'react'
+import type { OrbitalSystemData } from '@/engine/types/orbital-system'
+import { Validator, type SystemValidationResult } from '@/engine/validation/validators'
+import { createHistory, pushHistory, redoHistory, undoHistory, type EditHistory } from '@/engine/editor/edit-history'
+
+type HistoryAction =
+  | { type: 'reset'; system: OrbitalSystemData | null }
+  | { type: 'push'; system: OrbitalSystemData }
+  | { type: 'undo' }
+  | { type: 'redo' }
+
+function historyReducer(history: EditHistory<OrbitalSystemData | null>, action: HistoryAction): EditHistory<OrbitalSystemData | null> {
+  switch (action.type) {
+    case 'reset':
+      return createHistory(action.system)
+    case 'push':
+      return pushHistory(history, action.system)
+    case 'undo':
+      return undoHistory(history)
+    case 'redo':
+      return redoHistory(history)
+  }
+}
+
+export interface SystemEditor {
+  system: OrbitalSystemData | null
+  validation: SystemValidationResult | null // of the current system, redone after every edit
+  error: string | null // why the last edit was refused
+  canUndo: boolean
+  canRedo: boolean
+  apply: (edit: (system: OrbitalSystemData) => OrbitalSystemData) => boolean
+  undo: () => void
+  redo: () => void
+  clearError: () => void
+}
+
+/**
+ * Edit history of a system, starting over whenever `initial` changes (another
+ * system is opened). `apply` runs one of the `engine/editor/system-editor.ts`
+ * operations as an undoable step; a refused edit leaves the system alone and
+ * sets `error`.
+ */
+export function useSystemEditor(initial: OrbitalSystemData | null): SystemEditor {
+  const [history, dispatch] = useReducer(historyReducer, initial, createHistory)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    dispatch({ type: 'reset', system: initial })
+    setError(null)
+  }, [initial])
+
+  const system = history.present
+  const validation = useMemo(() => (system ? Validator.validateSystemData(system) : null), [system])
+
+  const apply = useCallback((edit: (system: OrbitalSystemData) => OrbitalSystemData) => {
+    if (!system) return false
+    try {
+      dispatch({ type: 'push', system: edit(system) })
+      setError(null)
+      return true
+    } catch (editError) {
+      setError(editError instanceof Error ? editError.message : String(editError))
+      return false
+    }
+  }, [system])
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), [])
+  const redo = useCallback(() => dispatch({ type: 'redo' }), [])
+  const clearError = useCallback(() => setError(null), [])
+
+  return {
+    system,
+    validation,
+    error,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    apply,
+    undo,
+    redo,
+    clearError,
+  }
+}
@@ -0,0 +1,101 @@
+import { useMemo } from 'react'
+import { planTransfer, type SimulationTime, type TransferPlan } from '@/engine/ephemeris'
+import { primaryMassKg } from '@/engine/utils/derived-physics'
+import { isOrbitData, type CelestialObject, type OrbitData } from '@/engine/types/orbital-system'
+
+export interface TransferPlanRequest {
+  fromId: string
+  toId: string
+  biElliptic?: boolean
+  apoapsisRatio?: number // bi-elliptic apoapsis as a multiple of the outer orbit's radius
+}
+
+export interface TransferPlanResult {
+  plan: TransferPlan | null
+  error: string | null
+  origin?: CelestialObject & { orbit: OrbitData }
+  target?: CelestialObject & { orbit: OrbitData }
+}
+
+const DEFAULT_APOAPSIS_RATIO = 2
+
+const withOrbit = (object: CelestialObject | undefined) =>
+  object?.orbit && isOrbitData(object.orbit) ? (object as CelestialObject & { orbit: OrbitData }) : undefined
+
+/**
+ * Bodies a transfer can start or end at: anything on a body orbit. Members of
+ * a binary pair are left out, as their orbit is about a barycenter they share.
+ */
+export function transferCandidates(objects: CelestialObject[]): CelestialObject[] {
+  return objects.filter((obj) => {
+    if (!withOrbit(obj)) return false
+    const parent = objects.find((candidate) => candidate.id === obj.orbit!.parent)
+    return !(obj.classification === 'star' && (!parent || parent.classification === 'barycenter'))
+  })
+}
+
+/**
+ * Transfer between two bodies orbiting the same primary, planned at the
+ * current simulation time. Empty selections give neither a plan nor an error.
+ *
+ * @param objects - The system's objects
+ * @param request - Origin and target IDs and the transfer type
+ * @param time - Simulation time the launch window is searched from
+ */
+export function useTransferPlan(
+  objects: CelestialObject[],
+  request: TransferPlanRequest,
+  time: SimulationTime
+): TransferPlanResult {
+  const { fromId, toId, biElliptic = false, apoapsisRatio = DEFAULT_APOAPSIS_RATIO } = request
+
+  return useMemo(() => {
+    if (!fromId || !toId) return { plan: null, error: null }
+
+    const origin = withOrbit(objects.find((obj) => obj.id === fromId))
+    const target = withOrbit(objects.find((obj) => obj.id === toId))
+    if (!origin || !target) return { plan: null, error: 'Both bodies need an orbit' }
+    if (origin.id === target.id) return { plan: null, error: 'Pick two different bodies' }
+    if (origin.orbit.parent !== target.orbit.parent) {
+      return { plan: null, error: `${origin.name} and ${target.name} don't orbit the same body`, origin, target }
+    }
+
+    const centralMass = primaryMassKg(origin.orbit.parent, objects)
+    if (!(centralMass > 0)) {
+      return { plan: null, error: `"${origin.orbit.parent}" has no mass to transfer about`, origin, target }
+    }
+
+    const outerRadius = Math.max(origin.orbit.semi_major_axis, target.orbit.semi_major_axis)
+    const plan = planTransfer(origin.orbit, target.orbit, centralMass, time, {
+      biEllipticApoapsis: biElliptic ? outerRadius * Math.max(apoapsisRatio, 1) : undefined,
+    })
+    return { plan, error: null, origin, target }
+  }, [objects, fromId, toId, biElliptic, apoapsisRatio, time])
+}
+
+export interface TransferArc {
+  originId: string
+  targetId: string
+  originOrbit: OrbitData
+  radii: number[] // AU, as in TransferManeuver
+  departureTime: SimulationTime
+}
+
+/**
+ * What the scene needs to draw a planned transfer: its radii and the next
+ * launch window. Unlike the plan, this only changes when the transfer or the
+ * window does, not with every clock tick. Nothing is drawn for transfers that
+ * never get a window.
+ */
+export function useTransferArc({ plan, origin, target }: TransferPlanResult): TransferArc | null {
+  const radiiKey = plan ? plan.radii.join(',') : ''
+  const departureTime = plan?.launchWindow ?? null
+  const originId = origin?.id
+  const targetId = target?.id
+  const originOrbit = origin?.orbit
+
+  return useMemo(() => {
+    if (!radiiKey || departureTime === null || !originId || !targetId || !originOrbit) return null
+    return { originId, targetId, originOrbit, radii: radiiKey.split(',').map(Number), departureTime }
+  }, [radiiKey, departureTime, originId, targetId, originOrbit])
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+import { engineSystemLoader } from '@/engine/system-loader'
+import type { UniverseManifest } from '@/engine/universes/manifest'
+
+/**
+ * Manifest of the universe behind `mode`. `universe` stays null while loading
+ * and for data folders without a manifest; `loading` tells the two apart.
+ */
+export function useUniverse(mode: string): { universe: UniverseManifest | null; loading: boolean } {
+  const [universe, setUniverse] = useState<UniverseManifest | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    const load = async () => {
+      try {
+        const manifest = await engineSystemLoader.loadUniverse(mode)
+        if (!cancelled) setUniverse(manifest)
+      } catch {
+        if (!cancelled) setUniverse(null)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [mode])
+
+  return { universe, loading }
+}
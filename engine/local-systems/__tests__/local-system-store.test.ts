@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { LocalSystemStore, parseLocalSystem, isLocalSystemId, toLocalSystemId } from '../local-system-store'
+import type { OrbitalSystemData } from '../../types/orbital-system'
+import type { CatalogData } from '../../types/catalog'
+import objectCatalog from '@/public/data/engine/object-catalog/catalog.json'
+
+const system = (overrides: Partial<OrbitalSystemData> = {}): OrbitalSystemData => ({
+  id: 'draft',
+  name: 'Draft System',
+  description: 'Work in progress',
+  objects: [
+    {
+      id: 'draft-star',
+      name: 'Draft Star',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+  ],
+  lighting: { primary_star: 'draft-star', ambient_level: 0.1, stellar_influence_radius: 100 },
+  ...overrides,
+})
+
+// In-memory stand-in for localStorage, shared between stores to mimic a reload
+function memoryStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() { return items.size },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => { items.delete(key) },
+    setItem: (key, value) => { items.set(key, value) },
+  }
+}
+
+describe('parseLocalSystem', () => {
+  it('accepts a valid system', () => {
+    const result = parseLocalSystem(JSON.stringify(system()))
+    expect(result.issues).toEqual([])
+    expect(result.system?.id).toBe('draft')
+  })
+
+  it('refuses text that is not JSON', () => {
+    const result = parseLocalSystem('{ "id": ')
+    expect(result.system).toBeNull()
+    expect(result.issues[0].message).toMatch(/^Not valid JSON/)
+  })
+
+  it('refuses systems with schema or reference errors, naming the paths', () => {
+    const result = parseLocalSystem(JSON.stringify(system({ lighting: { primary_star: 'nowhere', ambient_level: 0.1, stellar_influence_radius: 100 } })))
+    expect(result.system).toBeNull()
+    expect(result.issues.map(issue => issue.path)).toContain('/lighting/primary_star')
+  })
+
+  it('fills in catalog_ref objects from the object catalog', () => {
+    const text = JSON.stringify(system({ objects: [{ id: 'draft-star', catalog_ref: 'm2v-red-dwarf', position: [0, 0, 0] } as any] }))
+
+    const result = parseLocalSystem(text, objectCatalog as CatalogData)
+    expect(result.issues).toEqual([])
+    expect(result.system?.objects[0]).toMatchObject({ name: 'M2V Red Dwarf', classification: 'star' })
+
+    expect(parseLocalSystem(text).issues[0]).toEqual({ path: '/objects/0/catalog_ref', message: 'The object catalog is not available' })
+  })
+})
+
+describe('LocalSystemStore', () => {
+  let storage: Storage
+  let store: LocalSystemStore
+
+  beforeEach(() => {
+    storage = memoryStorage()
+    store = new LocalSystemStore(() => storage)
+  })
+
+  it('prefixes local system IDs', () => {
+    expect(toLocalSystemId('draft')).toBe('local:draft')
+    expect(toLocalSystemId('local:draft')).toBe('local:draft')
+    expect(isLocalSystemId('draft')).toBe(false)
+  })
+
+  it('keeps systems per mode across store instances', () => {
+    expect(store.save('realistic', system())).toBe('local:draft')
+
+    const reloaded = new LocalSystemStore(() => storage)
+    expect(reloaded.list('realistic').map(entry => [entry.id, entry.name])).toEqual([['local:draft', 'Draft System']])
+    expect(reloaded.get('realistic', 'local:draft')?.objects).toHaveLength(1)
+    expect(reloaded.list('star-citizen')).toEqual([])
+  })
+
+  it('replaces a system imported again and removes systems', () => {
+    store.save('realistic', system())
+    store.save('realistic', system({ id: 'other' }))
+    store.save('realistic', system({ name: 'Draft v2' }))
+    expect(store.list('realistic').map(entry => entry.name)).toEqual(['Draft System', 'Draft v2'])
+
+    store.remove('realistic', 'local:other')
+    store.remove('realistic', 'draft')
+    expect(store.list('realistic')).toEqual([])
+    expect(storage.length).toBe(0)
+  })
+
+  it('notifies subscribers of changes', () => {
+    const listener = vi.fn()
+    const unsubscribe = store.subscribe(listener)
+    store.save('realistic', system())
+    unsubscribe()
+    store.remove('realistic', 'draft')
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports storage that is full or missing', () => {
+    storage.setItem = () => { throw new Error('Quota exceeded') }
+    expect(() => store.save('realistic', system())).toThrow('Could not store local systems: Quota exceeded')
+    expect(() => new LocalSystemStore(() => null).save('realistic', system())).toThrow(/browser storage/)
+  })
+
+  it('ignores unreadable stored data', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    storage.setItem('chart-citizen:local-systems:realistic', '{oops')
+    expect(store.list('realistic')).toEqual([])
+  })
+})
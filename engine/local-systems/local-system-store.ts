@@ -0,0 +1,165 @@
+// Systems imported from the user's own files, kept in the browser so a
+// work-in-progress system can be previewed without copying it into public/.
+
+import type { OrbitalSystemData } from '../types/orbital-system'
+import { Validator, type ValidationIssue } from '../validation/validators'
+import { migrateSystemData } from '../migrations/system-migrations'
+import { normalizeSystemUnits } from '../units/property-units'
+import type { CatalogData } from '../types/catalog'
+import { catalogLookup, resolveCatalogRefs } from '../object-catalog/object-catalog'
+
+// Local system IDs carry this prefix so they never clash with bundled ones
+// (system file IDs can't contain a colon)
+export const LOCAL_SYSTEM_PREFIX = 'local:'
+
+const STORAGE_KEY_PREFIX = 'chart-citizen:local-systems:'
+
+export interface LocalSystemEntry {
+  id: string // prefixed, as used in system lists and URLs
+  name: string
+  description: string
+  importedAt: string // ISO date
+  data: OrbitalSystemData
+}
+
+export interface LocalSystemImport {
+  system: OrbitalSystemData | null // null when there are issues
+  issues: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+export const isLocalSystemId = (systemId: string): boolean => systemId.startsWith(LOCAL_SYSTEM_PREFIX)
+
+export const toLocalSystemId = (systemId: string): string =>
+  isLocalSystemId(systemId) ? systemId : `${LOCAL_SYSTEM_PREFIX}${systemId}`
+
+/**
+ * Dropped or pasted text as JSON, or the issue saying why it isn't
+ */
+export function parseSystemJson(text: string): { data: unknown; issues: ValidationIssue[] } {
+  try {
+    return { data: JSON.parse(text), issues: [] }
+  } catch (error) {
+    return { data: undefined, issues: [{ path: '', message: `Not valid JSON: ${(error as Error).message}` }] }
+  }
+}
+
+/**
+ * Reads parsed JSON as a system file, the way the loader reads bundled ones:
+ * legacy formats are migrated, catalog references filled in from `catalog`
+ * and units normalized first. Unlike bundled files, a system with schema or
+ * reference errors is refused, since the author is there to fix it.
+ */
+export function readLocalSystem(data: unknown, catalog: CatalogData | null = null): LocalSystemImport {
+  let system: unknown
+  let catalogIssues: ValidationIssue[]
+  try {
+    const catalogRefs = resolveCatalogRefs(migrateSystemData(data, { catalog: catalog ? catalogLookup(catalog) : undefined }).data, catalog)
+    catalogIssues = catalogRefs.issues
+    system = normalizeSystemUnits(catalogRefs.data).data
+  } catch (error) {
+    return { system: null, issues: [{ path: '/metadata/version', message: (error as Error).message }], warnings: [] }
+  }
+
+  const result = Validator.validateSystemData(system)
+  const issues = [...catalogIssues, ...result.issues]
+  return {
+    system: issues.length === 0 ? system as OrbitalSystemData : null,
+    issues,
+    warnings: result.warningIssues,
+  }
+}
+
+/**
+ * `readLocalSystem` for dropped or pasted text
+ */
+export function parseLocalSystem(text: string, catalog: CatalogData | null = null): LocalSystemImport {
+  const { data, issues } = parseSystemJson(text)
+  return issues.length > 0 ? { system: null, issues, warnings: [] } : readLocalSystem(data, catalog)
+}
+
+function browserStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    // Storage can be switched off (private browsing, blocked cookies)
+    return null
+  }
+}
+
+/**
+ * Local systems per mode, persisted in localStorage so they survive reloads.
+ * Importing a system with the ID of an existing local one replaces it.
+ */
+export class LocalSystemStore {
+  private listeners: Set<() => void> = new Set()
+
+  constructor(private getStorage: () => Storage | null = browserStorage) {}
+
+  list(mode: string): LocalSystemEntry[] {
+    const storage = this.getStorage()
+    const stored = storage?.getItem(`${STORAGE_KEY_PREFIX}${mode}`)
+    if (!stored) return []
+
+    try {
+      const entries = JSON.parse(stored)
+      return Array.isArray(entries) ? entries : []
+    } catch (error) {
+      console.warn(`⚠️ Ignoring unreadable local systems for mode ${mode}:`, error)
+      return []
+    }
+  }
+
+  get(mode: string, systemId: string): OrbitalSystemData | null {
+    const id = toLocalSystemId(systemId)
+    return this.list(mode).find(entry => entry.id === id)?.data ?? null
+  }
+
+  // Stores the system and returns its local ID
+  save(mode: string, system: OrbitalSystemData): string {
+    const entry: LocalSystemEntry = {
+      id: toLocalSystemId(system.id),
+      name: system.name,
+      description: system.description,
+      importedAt: new Date().toISOString(),
+      data: system,
+    }
+    this.write(mode, [...this.list(mode).filter(existing => existing.id !== entry.id), entry])
+    return entry.id
+  }
+
+  remove(mode: string, systemId: string): void {
+    const id = toLocalSystemId(systemId)
+    this.write(mode, this.list(mode).filter(entry => entry.id !== id))
+  }
+
+  // Called after every change; returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private write(mode: string, entries: LocalSystemEntry[]): void {
+    const storage = this.getStorage()
+    if (!storage) {
+      throw new Error('Local systems need browser storage, which is not available')
+    }
+
+    try {
+      const key = `${STORAGE_KEY_PREFIX}${mode}`
+      if (entries.length > 0) {
+        storage.setItem(key, JSON.stringify(entries))
+      } else {
+        storage.removeItem(key)
+      }
+    } catch (error) {
+      throw new Error(`Could not store local systems: ${(error as Error).message}`)
+    }
+
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const localSystemStore = new LocalSystemStore()
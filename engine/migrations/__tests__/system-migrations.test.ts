@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import {
+  migrateSystemData,
+  detectSystemFormatVersion,
+  describeMigration,
+  SYSTEM_FORMAT_VERSION
+} from '../system-migrations';
+import { Validator } from '../../validation/validators';
+import { DataParsingError } from '../../types/errors';
+
+const readSystem = (...segments: string[]) =>
+  JSON.parse(readFileSync(join(process.cwd(), 'public/data', ...segments), 'utf-8'));
+
+const flatSystem = () => ({
+  id: 'flat-system',
+  name: 'Flat System',
+  objects: [
+    { id: 'star-1', type: 'star', name: 'Star', position: [0, 0, 0], radius: 1, mass: 1 },
+    {
+      id: 'giant',
+      type: 'planet',
+      name: 'Gas Giant',
+      position: [5.2, 0, 0],
+      radius: 11,
+      mass: 318,
+      color: '#c8a165',
+      orbit: { parentId: 'star-1', semiMajorAxis: 5.2, eccentricity: 0.05, inclination: 1.3 },
+    },
+    { id: 'gate', type: 'jump-point', name: 'Gate', position: [10, 0, 0], radius: 0.05, mass: 0 },
+  ],
+});
+
+const catalogRefSystem = () => ({
+  id: 'old-sol',
+  name: 'Old Sol',
+  description: 'Catalog-ref Sol',
+  barycenter: [0, 0, 0],
+  stars: [{ id: 'sun', catalog_ref: 'g2v-main-sequence', name: 'Sun', position: [0, 0, 0] }],
+  planets: [{
+    id: 'earth',
+    catalog_ref: 'terrestrial-rocky',
+    name: 'Earth',
+    orbit: { parent: 'sun', semi_major_axis: 1, eccentricity: 0.017, inclination: 0, orbital_period: 365.25 },
+    customizations: { features: { atmosphere: 'breathable', city_lights: true, ocean_coverage: 0.71 } },
+  }],
+  belts: [{
+    id: 'main-belt',
+    catalog_ref: 'asteroid-belt',
+    name: 'Main Belt',
+    orbit: { parent: 'sun', inner_radius: 2.2, outer_radius: 3.2, inclination: 0, eccentricity: 0 },
+  }],
+  jump_points: [{ id: 'sol-gate' }],
+  lighting: { primary_star: 'sun', ambient_level: 0.1, stellar_influence_radius: 100 },
+});
+
+describe('System format migrations', () => {
+  describe('detectSystemFormatVersion', () => {
+    it('prefers metadata.version', () => {
+      expect(detectSystemFormatVersion({ objects: [], metadata: { version: '3.0' } })).toBe('3.0');
+    });
+
+    it('infers the version of unversioned files from their shape', () => {
+      expect(detectSystemFormatVersion(catalogRefSystem())).toBe('1.0');
+      expect(detectSystemFormatVersion(flatSystem())).toBe('1.1');
+      expect(detectSystemFormatVersion({ objects: [{ id: 'a', classification: 'star' }] })).toBe(SYSTEM_FORMAT_VERSION);
+    });
+  });
+
+  it('returns current systems unchanged', () => {
+    const sol = readSystem('realistic/systems/sol.json');
+    const result = migrateSystemData(sol);
+
+    expect(result.data).toBe(sol);
+    expect(result.applied).toEqual([]);
+    expect(migrateSystemData(readSystem('star-citizen/systems/pyro.json')).applied).toEqual([]);
+  });
+
+  describe('flat objects (1.1)', () => {
+    it('moves typed objects into classified objects with properties', () => {
+      const { data, fromVersion, toVersion } = migrateSystemData(flatSystem());
+      const [star, giant, gate] = data.objects;
+
+      expect([fromVersion, toVersion]).toEqual(['1.1', '2.0']);
+      expect(star).toEqual({
+        id: 'star-1',
+        name: 'Star',
+        classification: 'star',
+        geometry_type: 'star',
+        properties: { mass: 1, radius: 695700, temperature: 5778 },
+        position: [0, 0, 0],
+      });
+      expect(giant.geometry_type).toBe('gas_giant');
+      expect(giant.properties).toEqual({ mass: 318, radius: 70081, temperature: 288, color: '#c8a165' });
+      expect(giant.position).toBeUndefined();
+      expect(gate.classification).toBe('jump_point');
+      expect(data.lighting.primary_star).toBe('star-1');
+      expect(data.metadata?.version).toBe('2.0');
+    });
+
+    it('derives orbital periods from Kepler\'s third law', () => {
+      const { data } = migrateSystemData(flatSystem());
+      const orbit = data.objects[1].orbit as any;
+
+      expect(orbit).toMatchObject({ parent: 'star-1', semi_major_axis: 5.2, eccentricity: 0.05, inclination: 1.3 });
+      expect(orbit.orbital_period).toBeCloseTo(4330, -1); // Jupiter: 11.86 years
+    });
+
+    it('reports each field mapping', () => {
+      const lines = describeMigration(migrateSystemData(flatSystem()));
+
+      expect(lines[0]).toBe('1.1 → 2.0: Flat typed objects to classified objects with properties');
+      expect(lines).toContain('  /objects/1/orbit/parentId → /objects/1/orbit/parent');
+      expect(lines).toContain('  /objects/1/radius → /objects/1/properties/radius (11 R⊕ → 70081 km)');
+      expect(lines).toContain('  /objects/1/color → /objects/1/properties/color');
+      expect(lines).toContain('  /objects/2/type → /objects/2/classification ("jump-point" → "jump_point")');
+      expect(lines).toContain('  /metadata/version → 2.0');
+    });
+  });
+
+  describe('catalog-ref systems (1.0)', () => {
+    it('merges the lists into objects with catalog properties and customizations', () => {
+      const catalog = { 'g2v-main-sequence': { physical: { mass: 1, radius: 695700, temperature: 5778 } } };
+      const { data } = migrateSystemData(catalogRefSystem(), { catalog });
+
+      expect(data.objects.map(obj => [obj.id, obj.classification, obj.geometry_type])).toEqual([
+        ['sun', 'star', 'star'],
+        ['earth', 'planet', 'terrestrial'],
+        ['main-belt', 'belt', 'belt'],
+      ]);
+      expect(data.objects[0].properties).toMatchObject({ mass: 1, radius: 695700, temperature: 5778 });
+      expect(data.objects[1].properties).toMatchObject({ atmosphere: 80, population: 80, water: 71 });
+      expect(data.objects[2].orbit).toEqual({ parent: 'sun', inner_radius: 2.2, outer_radius: 3.2, inclination: 0, eccentricity: 0 });
+    });
+
+    it('notes catalog entries it could not find and what it dropped', () => {
+      const lines = describeMigration(migrateSystemData(catalogRefSystem()));
+
+      expect(lines).toContain('  /stars/0 → /objects/0 (star, star)');
+      expect(lines).toContain('  /stars/0/catalog_ref "g2v-main-sequence" not in the catalog; /objects/0/properties use placeholders');
+      expect(lines).toContain('  /barycenter dropped (objects without orbits carry their own position)');
+      expect(lines).toContain('  /jump_points dropped (1); add them as jump_point objects');
+    });
+  });
+
+  it('rejects versions it has no migration for', () => {
+    expect(() => migrateSystemData({ objects: [], metadata: { version: '0.3' } })).toThrow(DataParsingError);
+    expect(() => migrateSystemData({ objects: [], metadata: { version: '0.3' } })).toThrow('No migration from system format 0.3');
+  });
+
+  it('upgrades the legacy station fixture without placeholder temperatures', () => {
+    const result = migrateSystemData(readSystem('test-systems', 'legacy-station-system.json'));
+    const [, planet, station, trojan] = result.data.objects;
+
+    expect(result.fromVersion).toBe('1.1');
+    expect(planet.properties.radius).toBeCloseTo(6371, 0);
+    expect(planet.orbit).toMatchObject({ parent: 'star-1', orbital_period: expect.closeTo(365.25, 0) });
+    expect(station).toMatchObject({
+      classification: 'station',
+      geometry_type: 'station',
+      orbit: { parent: 'planet-1', semi_major_axis: 0.0003 },
+      properties: { station_type: 'orbital' },
+    });
+    expect(station.properties.temperature).toBeUndefined();
+    expect(trojan.lagrange).toEqual({ primary: 'star-1', secondary: 'planet-1', point: 4 });
+    expect(describeMigration(result)).toContain('  /objects/2/station_type → /objects/2/properties/station_type');
+    expect(Validator.validateSystemData(result.data).errors).toEqual([]);
+  });
+
+  it('upgrades every legacy test system to valid data', () => {
+    const dir = join(process.cwd(), 'public/data/test-systems');
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.json'))) {
+      const { data } = migrateSystemData(readSystem('test-systems', file));
+      expect(Validator.validateSystemData(data).errors, file).toEqual([]);
+    }
+  });
+});
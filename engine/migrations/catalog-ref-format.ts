@@ -0,0 +1,170 @@
+import type { CelestialProperties, Classification } from '../types/orbital-system';
+import type { MigrationContext } from './system-migrations';
+import { legacyGeometryType, defaultLighting } from './legacy-objects';
+import { isPlainObject } from '../validation/system-validation';
+
+// An object catalog entry as the catalog-ref format referenced it (property
+// groups), or an entry of the current catalog (`properties`)
+export interface CatalogRefEntry {
+  id?: string;
+  name?: string;
+  properties?: Record<string, unknown>;
+  physical?: Record<string, unknown>;
+  features?: Record<string, unknown>;
+  appearance?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export type CatalogLookup = Record<string, CatalogRefEntry>;
+
+const OBJECT_LISTS = ['stars', 'planets', 'moons', 'belts'] as const;
+type ObjectList = typeof OBJECT_LISTS[number];
+
+const CUSTOMIZATION_GROUPS = ['physical', 'features', 'appearance', 'habitability'];
+
+function classify(obj: Record<string, unknown>, list: ObjectList): Classification {
+  const name = String(obj.name ?? '').toLowerCase();
+
+  if (list === 'stars' || name.includes('star') || name.includes('sun')) return 'star';
+  if (list === 'belts' || name.includes('belt')) return 'belt';
+  if (list === 'moons' || name.includes('moon')) return 'moon';
+  if (name.includes('pluto') || name.includes('ceres') || name.includes('dwarf')) return 'dwarf-planet';
+  return 'planet';
+}
+
+/**
+ * Properties from the catalog entry and the object's customizations, with the
+ * old descriptive features (atmosphere types, surface types, boolean flags and
+ * coverage fractions) turned into the 0–100 shader properties
+ */
+function convertProperties(catalogEntry: CatalogRefEntry | undefined, customizations: unknown): CelestialProperties {
+  const properties: CelestialProperties = { mass: 1, radius: 1, temperature: 288 };
+  const custom = isPlainObject(customizations) ? customizations : {};
+
+  for (const group of ['properties', 'physical', 'features', 'appearance'] as const) {
+    if (catalogEntry?.[group]) Object.assign(properties, catalogEntry[group]);
+  }
+  for (const group of CUSTOMIZATION_GROUPS) {
+    if (isPlainObject(custom[group])) Object.assign(properties, custom[group]);
+  }
+
+  const features = isPlainObject(custom.features) ? custom.features : {};
+  if (typeof features.atmosphere === 'string') {
+    const atmosphereLevels: Record<string, number> = { breathable: 80, thick: 90, thin: 30 };
+    properties.atmosphere = atmosphereLevels[features.atmosphere] ?? 50;
+  }
+
+  switch (features.surface_type) {
+    case 'rocky':
+      properties.crater_density = properties.crater_density || 60;
+      properties.albedo = properties.albedo || 40;
+      break;
+    case 'volcanic':
+      properties.tectonics = properties.tectonics || 80;
+      properties.temperature = Math.max(properties.temperature ?? 0, 400);
+      break;
+    case 'desert':
+      properties.albedo = properties.albedo || 30;
+      properties.water = 5;
+      break;
+  }
+  delete properties.surface_type;
+
+  if (features.city_lights === true) properties.population = properties.population || 80;
+  if (features.vegetation === true) properties.flora = properties.flora || 60;
+  if (typeof features.ocean_coverage === 'number' && features.ocean_coverage) properties.water = Math.round(features.ocean_coverage * 100);
+  if (typeof features.cloud_coverage === 'number' && features.cloud_coverage) {
+    properties.atmosphere = Math.max(properties.atmosphere || 0, Math.round(features.cloud_coverage * 100));
+  }
+
+  return properties;
+}
+
+/**
+ * Format 1.0 → 2.0. Catalog-ref systems listed stars, planets, moons and belts
+ * separately, each object pointing at an object catalog entry by `catalog_ref`
+ * and adjusting it with `customizations`. Objects without a catalog entry keep
+ * placeholder mass, radius and temperature.
+ */
+export function migrateCatalogRefSystem(data: Record<string, unknown>, { map, catalog = {} }: MigrationContext): Record<string, unknown> {
+  const objects: Record<string, unknown>[] = [];
+
+  for (const list of OBJECT_LISTS) {
+    const entries: unknown[] = Array.isArray(data[list]) ? data[list] : [];
+    entries.forEach((legacy, index) => {
+      const from = `/${list}/${index}`;
+      if (!isPlainObject(legacy)) {
+        map(`${from} dropped (not an object)`);
+        return;
+      }
+      const to = `/objects/${objects.length}`;
+      const classification = classify(legacy, list);
+      const catalogRef = typeof legacy.catalog_ref === 'string' && legacy.catalog_ref ? legacy.catalog_ref : undefined;
+      const catalogEntry = catalogRef ? catalog[catalogRef] : undefined;
+      const geometryType = legacyGeometryType(classification, String(catalogEntry?.name ?? legacy.name ?? ''));
+
+      const obj: Record<string, unknown> = {
+        id: legacy.id,
+        name: legacy.name,
+        classification,
+        geometry_type: geometryType,
+        properties: convertProperties(catalogEntry, legacy.customizations)
+      };
+      map(`${from} → ${to} (${classification}, ${geometryType})`);
+
+      if (catalogRef) {
+        map(catalogEntry
+          ? `${from}/catalog_ref "${catalogRef}" → ${to}/properties`
+          : `${from}/catalog_ref "${catalogRef}" not in the catalog; ${to}/properties use placeholders`);
+      }
+      if (legacy.customizations) {
+        map(`${from}/customizations → ${to}/properties`);
+      }
+
+      const orbit = legacy.orbit;
+      if (isPlainObject(orbit)) {
+        obj.orbit = classification === 'belt' && orbit.inner_radius && orbit.outer_radius
+          ? {
+              parent: orbit.parent,
+              inner_radius: orbit.inner_radius,
+              outer_radius: orbit.outer_radius,
+              inclination: orbit.inclination || 0,
+              eccentricity: orbit.eccentricity || 0
+            }
+          : {
+              parent: orbit.parent,
+              semi_major_axis: orbit.semi_major_axis,
+              eccentricity: orbit.eccentricity || 0,
+              inclination: orbit.inclination || 0,
+              orbital_period: orbit.orbital_period
+            };
+      }
+      if (legacy.position) obj.position = legacy.position;
+
+      objects.push(obj);
+    });
+  }
+
+  if (data.barycenter !== undefined) map('/barycenter dropped (objects without orbits carry their own position)');
+  if (Array.isArray(data.jump_points) && data.jump_points.length > 0) {
+    map(`/jump_points dropped (${data.jump_points.length}); add them as jump_point objects`);
+  }
+
+  const primary = objects.find(obj => obj.classification === 'star');
+  const primaryStar = typeof primary?.id === 'string' ? primary.id : '';
+  if (!data.lighting) map(`/lighting added, lit by "${primaryStar}"`);
+  const metadata = isPlainObject(data.metadata) ? data.metadata : {};
+
+  return {
+    id: data.id,
+    name: data.name,
+    description: data.description ?? '',
+    objects,
+    lighting: data.lighting ?? defaultLighting(primaryStar),
+    metadata: {
+      ...metadata,
+      coordinate_system: metadata.coordinate_system ?? 'heliocentric',
+      distance_unit: metadata.distance_unit ?? 'au'
+    }
+  };
+}
@@ -0,0 +1,166 @@
+import type { Classification } from '../types/orbital-system';
+import { classificationSchema, requiresTemperature } from '../types/orbital-system.schema';
+import { isPlainObject } from '../validation/system-validation';
+import { binaryPeriodDays } from '../ephemeris/binary';
+import type { MigrationContext } from './system-migrations';
+import {
+  SOLAR_RADIUS_KM,
+  EARTH_RADIUS_KM,
+  EARTH_MASSES_PER_SOLAR_MASS,
+  legacyGeometryType,
+  defaultTemperature,
+  defaultLighting
+} from './legacy-objects';
+
+const TYPE_TO_CLASSIFICATION: Record<string, Classification> = {
+  star: 'star',
+  compact: 'compact-object',
+  'compact-object': 'compact-object',
+  planet: 'planet',
+  'dwarf-planet': 'dwarf-planet',
+  moon: 'moon',
+  belt: 'belt',
+  ring: 'ring',
+  barycenter: 'barycenter',
+  'jump-point': 'jump_point',
+  jump_point: 'jump_point',
+  station: 'station',
+  'lagrange-point': 'lagrange_point',
+  lagrange_point: 'lagrange_point'
+};
+
+// Fields that keep their place on a current object; anything else moves into properties
+const OBJECT_FIELDS = [
+  'id', 'name', 'type', 'mass', 'radius', 'position', 'orbit',
+  'classification', 'geometry_type', 'properties', 'rings', 'timeline', 'lagrange', 'destination'
+];
+
+const ORBIT_FIELD_NAMES: Record<string, string> = {
+  parentId: 'parent',
+  semiMajorAxis: 'semi_major_axis',
+  orbitalPeriod: 'orbital_period',
+  innerRadius: 'inner_radius',
+  outerRadius: 'outer_radius',
+  meanAnomalyAtEpoch: 'mean_anomaly_at_epoch'
+};
+
+/**
+ * Format 1.1 → 2.0. Legacy objects kept `type`, `mass` and `radius` at the top
+ * level (stars in solar units, everything else in Earth units) and camelCase
+ * orbits without periods. Radii become km, periods come from Kepler's third
+ * law around the parent, and pre-computed positions of orbiting objects are
+ * dropped since the orbit places them.
+ */
+export function migrateFlatObjectSystem(data: Record<string, unknown>, { map }: MigrationContext): Record<string, unknown> {
+  const legacyObjects: unknown[] = Array.isArray(data.objects) ? data.objects : [];
+  const byId = new Map(legacyObjects.filter(isPlainObject).map(obj => [obj.id, obj]));
+
+  const isClassification = (value: unknown): value is Classification => classificationSchema.safeParse(value).success;
+
+  const classificationOf = (obj: Record<string, unknown>): Classification => {
+    if (isClassification(obj.classification)) return obj.classification;
+    const type = typeof obj.type === 'string' ? obj.type.toLowerCase() : 'planet';
+    return TYPE_TO_CLASSIFICATION[type] ?? 'planet';
+  };
+
+  const massInSolarMasses = (obj: Record<string, unknown> | undefined): number => {
+    if (!obj) return 0;
+    const mass = (isPlainObject(obj.properties) ? obj.properties.mass : undefined) ?? obj.mass;
+    if (typeof mass !== 'number') return 0;
+    return classificationOf(obj) === 'star' ? mass : mass / EARTH_MASSES_PER_SOLAR_MASS;
+  };
+
+  const objects = legacyObjects.map((legacy, index) => {
+    // Anything but an object is left for validation to report
+    if (!isPlainObject(legacy)) return legacy;
+    const at = (field: string) => `/objects/${index}/${field}`;
+    const classification = classificationOf(legacy);
+    const obj: Record<string, unknown> = {
+      id: legacy.id,
+      name: legacy.name ?? legacy.id,
+      classification,
+      geometry_type: legacy.geometry_type ?? legacyGeometryType(classification, String(legacy.name ?? ''))
+    };
+
+    if (legacy.classification !== classification) {
+      const renamed = legacy.type !== classification ? ` (${JSON.stringify(legacy.type)} → "${classification}")` : '';
+      map(`${at('type')} → ${at('classification')}${renamed}`);
+    }
+    if (!legacy.geometry_type) {
+      map(`${at('geometry_type')} set to "${obj.geometry_type}"`);
+    }
+
+    const properties: Record<string, unknown> = isPlainObject(legacy.properties) ? { ...legacy.properties } : {};
+    if (typeof legacy.mass === 'number' && properties.mass === undefined) {
+      properties.mass = legacy.mass;
+      map(`${at('mass')} → ${at('properties/mass')} (${classification === 'star' ? 'M☉' : 'M⊕'})`);
+    }
+    if (typeof legacy.radius === 'number' && properties.radius === undefined) {
+      const isStar = classification === 'star';
+      properties.radius = Math.round(legacy.radius * (isStar ? SOLAR_RADIUS_KM : EARTH_RADIUS_KM) * 10) / 10;
+      map(`${at('radius')} → ${at('properties/radius')} (${legacy.radius} ${isStar ? 'R☉' : 'R⊕'} → ${properties.radius} km)`);
+    }
+    for (const key of ['mass', 'radius'] as const) {
+      if (properties[key] === undefined) {
+        properties[key] = 0;
+        map(`${at('properties/' + key)} defaulted to 0`);
+      }
+    }
+    if (properties.temperature === undefined && requiresTemperature(classification)) {
+      properties.temperature = defaultTemperature(classification);
+      map(`${at('properties/temperature')} defaulted to ${properties.temperature} K`);
+    }
+    Object.keys(legacy).filter(key => !OBJECT_FIELDS.includes(key)).forEach(key => {
+      properties[key] = legacy[key];
+      map(`${at(key)} → ${at('properties/' + key)}`);
+    });
+    obj.properties = properties;
+
+    if (isPlainObject(legacy.orbit)) {
+      const orbit: Record<string, unknown> = {};
+      Object.entries(legacy.orbit).forEach(([key, value]) => {
+        const renamed = ORBIT_FIELD_NAMES[key] ?? key;
+        orbit[renamed] = value;
+        if (renamed !== key) map(`${at('orbit/' + key)} → ${at('orbit/' + renamed)}`);
+      });
+      orbit.eccentricity ??= 0;
+      orbit.inclination ??= 0;
+
+      const isBelt = orbit.inner_radius !== undefined && orbit.outer_radius !== undefined;
+      if (!isBelt && orbit.orbital_period === undefined && typeof orbit.semi_major_axis === 'number') {
+        const parentMass = massInSolarMasses(byId.get(orbit.parent)) || 1;
+        const period = binaryPeriodDays(orbit.semi_major_axis, parentMass + massInSolarMasses(legacy));
+        orbit.orbital_period = Math.round(period * 100) / 100;
+        map(`${at('orbit/orbital_period')} derived from Kepler's third law (${orbit.orbital_period} days)`);
+      }
+      obj.orbit = orbit;
+    }
+
+    if (legacy.position !== undefined) {
+      if (obj.orbit) {
+        map(`${at('position')} dropped (placed by its orbit)`);
+      } else {
+        obj.position = legacy.position;
+      }
+    }
+
+    (['rings', 'timeline', 'lagrange', 'destination'] as const).forEach(key => {
+      if (legacy[key] !== undefined) obj[key] = legacy[key];
+    });
+    return obj;
+  });
+
+  const migrated: Record<string, unknown> = { ...data, objects };
+  if (typeof migrated.description !== 'string') {
+    migrated.description = '';
+    map('/description defaulted to ""');
+  }
+  if (!migrated.lighting) {
+    const idOf = (obj: unknown) => (isPlainObject(obj) && typeof obj.id === 'string' ? obj.id : undefined);
+    const primary = objects.find(obj => isPlainObject(obj) && obj.classification === 'star');
+    const primaryStar = idOf(primary) ?? idOf(objects[0]) ?? '';
+    migrated.lighting = defaultLighting(primaryStar);
+    map(`/lighting added, lit by "${primaryStar}"`);
+  }
+  return migrated;
+}
@@ -0,0 +1,43 @@
+import type { Classification, GeometryType, LightingConfig } from '../types/orbital-system';
+import { getDefaultGeometryType } from '../types/orbital-system';
+
+export const SOLAR_RADIUS_KM = 695700;
+export const EARTH_RADIUS_KM = 6371;
+export const EARTH_MASSES_PER_SOLAR_MASS = 332946;
+
+const GAS_GIANT_NAMES = ['gas', 'jupiter', 'saturn', 'neptune', 'uranus'];
+
+/**
+ * Geometry for a legacy object, which only had a type. Planets named like gas
+ * giants get gas giant geometry; everything else takes its classification's default.
+ */
+export function legacyGeometryType(classification: Classification, name: string): GeometryType {
+  if (classification === 'planet') {
+    const lowerName = name.toLowerCase();
+    return GAS_GIANT_NAMES.some(word => lowerName.includes(word)) ? 'gas_giant' : 'terrestrial';
+  }
+  return getDefaultGeometryType(classification);
+}
+
+/**
+ * Placeholder surface temperature (K) for objects that never had one
+ */
+export function defaultTemperature(classification: Classification): number {
+  switch (classification) {
+    case 'star':
+      return 5778;
+    case 'planet':
+    case 'dwarf-planet':
+    case 'moon':
+      return 288;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Lighting for systems that predate the lighting block, lit by their first star
+ */
+export function defaultLighting(primaryStar: string): LightingConfig {
+  return { primary_star: primaryStar, ambient_level: 0.1, stellar_influence_radius: 100 };
+}
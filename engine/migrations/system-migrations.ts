@@ -0,0 +1,135 @@
+import type { OrbitalSystemData } from '../types/orbital-system';
+import { DataParsingError } from '../types/errors';
+import { isPlainObject } from '../validation/system-validation';
+import { migrateCatalogRefSystem, type CatalogLookup } from './catalog-ref-format';
+import { migrateFlatObjectSystem } from './flat-object-format';
+
+/**
+ * Format version written by the current schema. Files at 2.0 or later (e.g.
+ * Pyro's 3.0, which added timelines) already have the current shape.
+ */
+export const SYSTEM_FORMAT_VERSION = '2.0';
+
+export interface MigrationOptions {
+  // Object catalog entries by ID, used to fill in properties of catalog-ref systems
+  catalog?: CatalogLookup;
+}
+
+export interface MigrationContext extends MigrationOptions {
+  // Records a field mapping, e.g. `/objects/2/orbit/parentId → /objects/2/orbit/parent`
+  map: (mapping: string) => void;
+}
+
+export interface SystemMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: Record<string, unknown>, context: MigrationContext) => Record<string, unknown>;
+}
+
+export interface AppliedMigration {
+  from: string;
+  to: string;
+  description: string;
+  mappings: string[];
+}
+
+export interface MigrationResult {
+  data: OrbitalSystemData;
+  fromVersion: string;
+  toVersion: string;
+  applied: AppliedMigration[]; // empty when the data was already current
+}
+
+/**
+ * Known legacy formats, keyed by the version they upgrade from:
+ * - 1.0: catalog-ref systems with `stars`/`planets`/`moons`/`belts` lists whose
+ *   objects point at the object catalog and carry `customizations`
+ * - 1.1: a flat `objects` list with `type`, top-level `mass`/`radius` and
+ *   camelCase orbits (`parentId`, `semiMajorAxis`)
+ */
+export const SYSTEM_MIGRATIONS: SystemMigration[] = [
+  {
+    from: '1.0',
+    to: SYSTEM_FORMAT_VERSION,
+    description: 'Catalog-ref system lists to self-contained objects',
+    migrate: migrateCatalogRefSystem
+  },
+  {
+    from: '1.1',
+    to: SYSTEM_FORMAT_VERSION,
+    description: 'Flat typed objects to classified objects with properties',
+    migrate: migrateFlatObjectSystem
+  }
+];
+
+function isCurrentVersion(version: string): boolean {
+  const major = parseInt(version, 10);
+  return Number.isFinite(major) && major >= parseInt(SYSTEM_FORMAT_VERSION, 10);
+}
+
+/**
+ * The format version of raw system data: `metadata.version` when present,
+ * otherwise inferred from its shape (older files carry no version)
+ */
+export function detectSystemFormatVersion(data: unknown): string {
+  if (!isPlainObject(data)) return SYSTEM_FORMAT_VERSION;
+
+  const declared = isPlainObject(data.metadata) ? data.metadata.version : undefined;
+  if (typeof declared === 'string' && declared.trim()) return declared.trim();
+
+  if (!Array.isArray(data.objects) && Array.isArray(data.stars)) return '1.0';
+
+  const objects: unknown[] = Array.isArray(data.objects) ? data.objects : [];
+  const isFlat = objects.some(obj => {
+    if (!isPlainObject(obj) || obj.classification !== undefined) return false;
+    const orbit = isPlainObject(obj.orbit) ? obj.orbit : {};
+    return obj.type !== undefined || orbit.parentId !== undefined || orbit.semiMajorAxis !== undefined;
+  });
+  return isFlat ? '1.1' : SYSTEM_FORMAT_VERSION;
+}
+
+/**
+ * Upgrades system data in any known format to the current `OrbitalSystemData`,
+ * applying migrations in turn and recording each field mapping they make.
+ * Current data is returned unchanged. Throws a `DataParsingError` for versions
+ * with no migration path.
+ */
+export function migrateSystemData(data: unknown, options: MigrationOptions = {}): MigrationResult {
+  const fromVersion = detectSystemFormatVersion(data);
+  const applied: AppliedMigration[] = [];
+  let version = fromVersion;
+  let current: unknown = data;
+
+  while (!isCurrentVersion(version)) {
+    const migration = SYSTEM_MIGRATIONS.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw new DataParsingError(`No migration from system format ${version}`, {
+        version,
+        knownVersions: SYSTEM_MIGRATIONS.map(candidate => candidate.from)
+      });
+    }
+
+    // Only objects are detected as a legacy version
+    const source = isPlainObject(current) ? current : {};
+    const mappings: string[] = [];
+    const migrated = migration.migrate(source, { ...options, map: mapping => mappings.push(mapping) });
+    const metadata = isPlainObject(migrated.metadata) ? migrated.metadata : {};
+    current = { ...migrated, metadata: { ...metadata, version: migration.to } };
+    mappings.push(`/metadata/version → ${migration.to}`);
+    applied.push({ from: migration.from, to: migration.to, description: migration.description, mappings });
+    version = migration.to;
+  }
+
+  return { data: current as OrbitalSystemData, fromVersion, toVersion: version, applied };
+}
+
+/**
+ * One line per applied migration and mapping, for logs and the migration CLI
+ */
+export function describeMigration(result: MigrationResult): string[] {
+  return result.applied.flatMap(step => [
+    `${step.from} → ${step.to}: ${step.description}`,
+    ...step.mappings.map(mapping => `  ${mapping}`)
+  ]);
+}
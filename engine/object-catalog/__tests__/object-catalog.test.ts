@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  catalogEntries,
+  catalogEntryToObject,
+  catalogLookup,
+  findCatalogEntry,
+  referencesCatalog,
+  resolveCatalogRefs,
+  validateCatalogData,
+} from '../object-catalog'
+import { migrateSystemData } from '../../migrations/system-migrations'
+import { Validator } from '../../validation/validators'
+import type { CatalogData } from '../../types/catalog'
+import bundledCatalog from '@/public/data/engine/object-catalog/catalog.json'
+
+const catalog = bundledCatalog as CatalogData
+
+const system = (objects: unknown[]) => ({
+  id: 'kepler',
+  name: 'Kepler',
+  description: 'Built from catalog objects',
+  objects,
+  lighting: { primary_star: 'kepler', ambient_level: 0.1, stellar_influence_radius: 100 },
+})
+
+const star = { id: 'kepler', catalog_ref: 'g2v-main-sequence', position: [0, 0, 0] }
+const orbit = { parent: 'kepler', semi_major_axis: 1.2, eccentricity: 0.01, inclination: 0, orbital_period: 480 }
+
+describe('Object catalog', () => {
+  it('bundles a valid catalog', () => {
+    expect(validateCatalogData(catalog)).toEqual([])
+    expect(catalogEntries(catalog).length).toBeGreaterThan(10)
+    expect(findCatalogEntry(catalog, 'earth-like')?.geometry_type).toBe('terrestrial')
+  })
+
+  it('refuses duplicate IDs and malformed entries', () => {
+    const entry = catalog.categories[0].objects[0]
+    expect(validateCatalogData({ categories: [{ name: 'Copies', objects: [entry, entry] }] })).toEqual([
+      { path: '/categories/0/objects/1/id', message: `Duplicate catalog ID "${entry.id}"` },
+    ])
+    expect(validateCatalogData({ categories: [{ name: 'Empty', objects: [] }] }).map(issue => issue.path)).toEqual([
+      '/categories/0/objects',
+    ])
+  })
+
+  it('turns an entry into an object that refers back to it', () => {
+    const object = catalogEntryToObject(findCatalogEntry(catalog, 'rocky-moon')!)
+    expect(object).toMatchObject({ id: 'rocky-moon', catalog_ref: 'rocky-moon', classification: 'moon' })
+    expect(object).not.toHaveProperty('description')
+  })
+
+  it('tells which system files use the catalog, in any format', () => {
+    expect(referencesCatalog(system([star]))).toBe(true)
+    expect(referencesCatalog({ stars: [star] })).toBe(true)
+    expect(referencesCatalog(system([{ id: 'plain' }]))).toBe(false)
+    expect(referencesCatalog(null)).toBe(false)
+  })
+
+  describe('resolveCatalogRefs', () => {
+    it('fills in objects from their entry with overrides on top', () => {
+      const planet = { id: 'kepler-b', name: 'Kepler b', catalog_ref: 'earth-like', properties: { temperature: 300 }, orbit }
+      const { data, issues } = resolveCatalogRefs(system([star, planet]), catalog)
+      const resolved = (data as any).objects
+
+      expect(issues).toEqual([])
+      expect(resolved[1]).toMatchObject({ id: 'kepler-b', name: 'Kepler b', classification: 'planet', orbit })
+      expect(resolved[1].properties).toMatchObject({ radius: 6371, temperature: 300 })
+      expect(resolved[0].name).toBe('G2V Main Sequence Star')
+      expect(Validator.validateSystemData(data).isValid).toBe(true)
+    })
+
+    it('reports unknown entries and a missing catalog', () => {
+      const planet = { id: 'kepler-b', catalog_ref: 'unobtainium', orbit }
+      expect(resolveCatalogRefs(system([star, planet]), catalog).issues).toEqual([
+        { path: '/objects/1/catalog_ref', message: 'Unknown catalog object "unobtainium"' },
+      ])
+      expect(resolveCatalogRefs(system([star]), null).issues).toEqual([
+        { path: '/objects/0/catalog_ref', message: 'The object catalog is not available' },
+      ])
+    })
+  })
+
+  it('gives catalog-ref (1.0) systems their catalog properties', () => {
+    const legacy = {
+      id: 'kepler',
+      name: 'Kepler',
+      stars: [{ id: 'kepler', catalog_ref: 'm2v-red-dwarf', name: 'Kepler', position: [0, 0, 0] }],
+      lighting: { primary_star: 'kepler', ambient_level: 0.1, stellar_influence_radius: 100 },
+    }
+    const { data } = migrateSystemData(legacy, { catalog: catalogLookup(catalog) })
+    expect(data.objects[0].properties.radius).toBe(findCatalogEntry(catalog, 'm2v-red-dwarf')!.properties.radius)
+  })
+})
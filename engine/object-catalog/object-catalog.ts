@@ -0,0 +1,118 @@
+// The object catalog: template objects previewed in the celestial viewer,
+// added by the system editor and built on by system files with `catalog_ref`.
+// One file shared by every universe, loaded through EngineSystemLoader.
+
+import { catalogDataSchema } from '../types/catalog.schema'
+import type { CatalogData, CatalogEntry } from '../types/catalog'
+import type { CelestialObject } from '../types/orbital-system'
+import type { CatalogLookup } from '../migrations/catalog-ref-format'
+import { collectSchemaIssues, isPlainObject } from '../validation/system-validation'
+import type { ValidationIssue } from '../validation/validators'
+
+// Where the catalog sits in the data directory (public/data)
+export const OBJECT_CATALOG_DIR = 'engine/object-catalog'
+export const OBJECT_CATALOG_FILE = 'catalog.json'
+export const OBJECT_CATALOG_URL = `/data/${OBJECT_CATALOG_DIR}/${OBJECT_CATALOG_FILE}`
+
+// Lists of objects in system files: current ones, then the catalog-ref (1.0) format's
+const OBJECT_LISTS = ['objects', 'stars', 'planets', 'moons', 'belts']
+
+/**
+ * Problems with a catalog file, one per offending field. Entry IDs have to be
+ * unique across categories, as `catalog_ref` names them alone.
+ */
+export function validateCatalogData(data: unknown): ValidationIssue[] {
+  const issues = collectSchemaIssues(catalogDataSchema, data)
+  if (issues.length > 0) return issues
+
+  const seen = new Set<string>()
+  ;(data as CatalogData).categories.forEach((category, categoryIndex) => {
+    category.objects.forEach((entry, entryIndex) => {
+      if (seen.has(entry.id)) {
+        issues.push({ path: `/categories/${categoryIndex}/objects/${entryIndex}/id`, message: `Duplicate catalog ID "${entry.id}"` })
+      }
+      seen.add(entry.id)
+    })
+  })
+  return issues
+}
+
+export const catalogEntries = (catalog: CatalogData): CatalogEntry[] =>
+  catalog.categories.flatMap(category => category.objects)
+
+export function findCatalogEntry(catalog: CatalogData, id: string): CatalogEntry | undefined {
+  return catalogEntries(catalog).find(entry => entry.id === id)
+}
+
+// Entries by ID, as the catalog-ref (1.0) migration looks them up
+export function catalogLookup(catalog: CatalogData): CatalogLookup {
+  const lookup: CatalogLookup = {}
+  catalogEntries(catalog).forEach(entry => {
+    lookup[entry.id] = entry
+  })
+  return lookup
+}
+
+/**
+ * The entry as a system object referring back to it. It has no orbit; one is
+ * given where it's placed.
+ */
+export function catalogEntryToObject(entry: CatalogEntry): CelestialObject {
+  const object: CelestialObject = {
+    id: entry.id,
+    name: entry.name,
+    classification: entry.classification,
+    geometry_type: entry.geometry_type,
+    properties: { ...entry.properties },
+    catalog_ref: entry.id,
+  }
+  if (entry.rings) object.rings = entry.rings
+  return object
+}
+
+/**
+ * Whether any object in a system file (in any format) names a catalog entry,
+ * so the catalog has to be loaded before the file can be read
+ */
+export function referencesCatalog(data: unknown): boolean {
+  if (!isPlainObject(data)) return false
+  return OBJECT_LISTS.some(list => {
+    const objects = data[list]
+    return Array.isArray(objects) && objects.some(obj => isPlainObject(obj) && typeof obj.catalog_ref === 'string')
+  })
+}
+
+export interface CatalogResolution {
+  data: unknown
+  issues: ValidationIssue[] // references that couldn't be filled in
+}
+
+/**
+ * Fills in the objects of a system that name a catalog entry with
+ * `catalog_ref`: the entry supplies the name, classification, geometry type,
+ * properties and rings, and anything the object gives itself overrides it,
+ * property by property. Objects naming an unknown entry are left as written
+ * and reported.
+ */
+export function resolveCatalogRefs(data: unknown, catalog: CatalogData | null): CatalogResolution {
+  if (!isPlainObject(data) || !Array.isArray(data.objects) || !referencesCatalog(data)) return { data, issues: [] }
+
+  const issues: ValidationIssue[] = []
+  const resolved = data.objects.map((obj: unknown, index: number) => {
+    if (!isPlainObject(obj) || typeof obj.catalog_ref !== 'string') return obj
+    const entry = catalog ? findCatalogEntry(catalog, obj.catalog_ref) : undefined
+    if (!entry) {
+      issues.push({
+        path: `/objects/${index}/catalog_ref`,
+        message: catalog ? `Unknown catalog object "${obj.catalog_ref}"` : 'The object catalog is not available',
+      })
+      return obj
+    }
+
+    const base = catalogEntryToObject(entry)
+    const properties = isPlainObject(obj.properties) ? obj.properties : {}
+    return { ...base, ...obj, properties: { ...base.properties, ...properties } }
+  })
+
+  return { data: { ...data, objects: resolved }, issues }
+}
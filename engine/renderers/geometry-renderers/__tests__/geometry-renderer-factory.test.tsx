@@ -29,6 +29,12 @@ vi.mock('../ring-renderer', () => ({
 vi.mock('../belt-renderer', () => ({
   BeltRenderer: vi.fn(() => null)
 }))
+vi.mock('../jump-point-renderer', () => ({
+  JumpPointRenderer: vi.fn(() => null)
+}))
+vi.mock('../station-renderer', () => ({
+  StationRenderer: vi.fn(() => null)
+}))
 
 describe('GeometryRendererFactory', () => {
   const createMockObject = (geometryType: GeometryType): CelestialObject => ({
@@ -115,6 +121,20 @@ describe('GeometryRendererFactory', () => {
         render(<GeometryRendererFactory object={object} {...baseProps} />)
       }).not.toThrow()
     })
+
+    it('renders without errors for jump_point geometry', () => {
+      const object = createMockObject('jump_point')
+      expect(() => {
+        render(<GeometryRendererFactory object={object} {...baseProps} />)
+      }).not.toThrow()
+    })
+
+    it('renders without errors for station geometry', () => {
+      const object = createMockObject('station')
+      expect(() => {
+        render(<GeometryRendererFactory object={object} {...baseProps} />)
+      }).not.toThrow()
+    })
   })
 
   describe('None Geometry Type', () => {
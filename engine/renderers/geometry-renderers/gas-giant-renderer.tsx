@@ -156,6 +156,8 @@ export function GasGiantRenderer({
         object.classification === 'ring' || 
         object.classification === 'barycenter' 
           ? 'planet' 
+          : object.classification === 'lagrange_point'
+          ? 'station'
           : (object.classification || 'planet')
       }
       radius={radius}
@@ -13,6 +13,8 @@ import { CompactRenderer } from "./compact-renderer"
 import { RingRenderer } from "./ring-renderer" 
 import { BeltRenderer } from "./belt-renderer"
 import { ExoticRenderer } from "./exotic-renderer"
+import { JumpPointRenderer } from "./jump-point-renderer"
+import { StationRenderer } from "./station-renderer"
 
 /**
  * Factory component that routes to the appropriate geometry-specific renderer
@@ -47,6 +49,12 @@ export function GeometryRendererFactory(props: GeometryRendererProps) {
     case "belt":
       return <BeltRenderer {...props} />
     
+    case "jump_point":
+      return <JumpPointRenderer {...props} />
+    
+    case "station":
+      return <StationRenderer {...props} />
+    
     case "none":
       // Invisible objects like barycenters - render nothing but maintain interactions
       return (
@@ -9,6 +9,8 @@ export { CompactRenderer } from './compact-renderer'
 export { ExoticRenderer } from './exotic-renderer'
 export { RingRenderer } from './ring-renderer'
 export { BeltRenderer } from './belt-renderer'
+export { JumpPointRenderer } from './jump-point-renderer'
+export { StationRenderer } from './station-renderer'
 export { GeometryRendererFactory } from './geometry-renderer-factory'
 
 // Common types and interfaces
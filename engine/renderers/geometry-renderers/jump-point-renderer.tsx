@@ -0,0 +1,140 @@
+"use client"
+
+import React, { useRef, useMemo } from "react"
+import { useFrame } from "@react-three/fiber"
+import { Billboard } from "@react-three/drei"
+import * as THREE from "three"
+import { InteractiveObject } from "../../components/3d-ui/interactive-object"
+import type { GeometryRendererProps } from "./types"
+import type { JumpPointStatus } from "@/engine/types/orbital-system"
+
+const STATUS_COLORS: Record<JumpPointStatus, string> = {
+  active: "#4fc3f7",
+  unstable: "#ffb74d",
+  inactive: "#78909c",
+}
+
+/**
+ * Jump point renderer: a glowing aperture ring around a swirling event surface.
+ * Colour follows `properties.jump_status` unless `properties.aperture_color` overrides it;
+ * inactive jump points don't swirl.
+ */
+export function JumpPointRenderer({
+  object,
+  scale,
+  position = [0, 0, 0],
+  isSelected,
+  timeMultiplier,
+  isPaused,
+  showLabel = true,
+  onHover,
+  onSelect,
+  onFocus,
+  registerRef,
+}: GeometryRendererProps) {
+  const vortexRef = useRef<THREE.Mesh>(null)
+
+  const { properties } = object
+  const radius = scale
+  const status: JumpPointStatus = properties.jump_status || "active"
+  const color = properties.aperture_color || STATUS_COLORS[status] || STATUS_COLORS.active
+
+  // Spiral arms drawn into a canvas so the event surface reads as rotating
+  const vortexTexture = useMemo(() => {
+    const canvas = document.createElement("canvas")
+    canvas.width = 256
+    canvas.height = 256
+    const ctx = canvas.getContext("2d")!
+    const center = 128
+
+    const gradient = ctx.createRadialGradient(center, center, 0, center, center, center)
+    gradient.addColorStop(0, "rgba(255, 255, 255, 0.9)")
+    gradient.addColorStop(0.35, "rgba(255, 255, 255, 0.35)")
+    gradient.addColorStop(1, "rgba(255, 255, 255, 0)")
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, 256, 256)
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.5)"
+    ctx.lineWidth = 3
+    for (let arm = 0; arm < 4; arm++) {
+      ctx.beginPath()
+      for (let t = 0; t <= 1; t += 0.02) {
+        const angle = arm * (Math.PI / 2) + t * Math.PI * 3
+        const r = t * center
+        const x = center + Math.cos(angle) * r
+        const y = center + Math.sin(angle) * r
+        if (t === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      }
+      ctx.stroke()
+    }
+
+    return new THREE.CanvasTexture(canvas)
+  }, [])
+
+  useFrame((_, delta) => {
+    if (vortexRef.current && !isPaused && status !== "inactive") {
+      const swirl = status === "unstable" ? 1.5 : 0.6
+      vortexRef.current.rotation.z -= delta * swirl * Math.min(Math.max(timeMultiplier ?? 1, 0.25), 4)
+    }
+  })
+
+  return (
+    <InteractiveObject
+      objectId={object.id}
+      objectName={object.name}
+      objectType="jump_point"
+      radius={radius}
+      position={position}
+      visualSize={scale}
+      isSelected={isSelected}
+      timeMultiplier={timeMultiplier}
+      isPaused={isPaused}
+      onHover={(id, hovered) => onHover?.(hovered ? id : null)}
+      onSelect={onSelect}
+      onFocus={(obj, name, visualSize) => onFocus?.(obj, name, visualSize || scale, properties.radius, properties.mass, 0)}
+      registerRef={registerRef}
+      showLabel={showLabel}
+      labelAlwaysVisible
+    >
+      {/* The aperture always faces the camera so it reads as a ring from every angle */}
+      <Billboard>
+        {/* Aperture ring */}
+        <mesh>
+          <torusGeometry args={[radius, radius * 0.08, 16, 64]} />
+          <meshBasicMaterial color={color} toneMapped={false} />
+        </mesh>
+
+        {/* Event surface */}
+        <mesh ref={vortexRef}>
+          <circleGeometry args={[radius * 0.95, 48]} />
+          <meshBasicMaterial
+            map={vortexTexture}
+            color={color}
+            transparent
+            opacity={status === "inactive" ? 0.25 : 0.8}
+            blending={THREE.AdditiveBlending}
+            depthWrite={false}
+            side={THREE.DoubleSide}
+          />
+        </mesh>
+
+        {/* Outer glow */}
+        <mesh>
+          <ringGeometry args={[radius * 1.05, radius * 1.6, 64]} />
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={status === "inactive" ? 0.05 : 0.15}
+            blending={THREE.AdditiveBlending}
+            depthWrite={false}
+            side={THREE.DoubleSide}
+          />
+        </mesh>
+      </Billboard>
+    </InteractiveObject>
+  )
+}
+
+// Jump points don't carry rings
+;(JumpPointRenderer as any).supportsRings = false
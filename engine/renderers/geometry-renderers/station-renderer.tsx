@@ -0,0 +1,108 @@
+"use client"
+
+import React, { useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+import { InteractiveObject } from "../../components/3d-ui/interactive-object"
+import type { GeometryRendererProps } from "./types"
+
+const DEFAULT_STATION_COLOR = "#b0bec5"
+const LAGRANGE_MARKER_COLOR = "#ce93d8"
+
+/**
+ * Station renderer: a small hub with a habitat ring and docking spine.
+ * Bare `lagrange_point` objects render as a wireframe octahedron marker instead.
+ * The ring spins slowly unless the simulation is paused.
+ */
+export function StationRenderer({
+  object,
+  scale,
+  position = [0, 0, 0],
+  isSelected,
+  timeMultiplier,
+  isPaused,
+  showLabel = true,
+  onHover,
+  onSelect,
+  onFocus,
+  registerRef,
+}: GeometryRendererProps) {
+  const spinRef = useRef<THREE.Group>(null)
+
+  const { properties } = object
+  const radius = scale
+  const isMarker = object.classification === "lagrange_point"
+  const color = properties.station_color || (isMarker ? LAGRANGE_MARKER_COLOR : DEFAULT_STATION_COLOR)
+
+  useFrame((_, delta) => {
+    if (spinRef.current && !isPaused) {
+      spinRef.current.rotation.y += delta * (isMarker ? 0.4 : 0.2)
+    }
+  })
+
+  return (
+    <InteractiveObject
+      objectId={object.id}
+      objectName={object.name}
+      objectType="station"
+      radius={radius}
+      position={position}
+      visualSize={scale}
+      isSelected={isSelected}
+      timeMultiplier={timeMultiplier}
+      isPaused={isPaused}
+      onHover={(id, hovered) => onHover?.(hovered ? id : null)}
+      onSelect={onSelect}
+      onFocus={(obj, name, visualSize) => onFocus?.(obj, name, visualSize || scale, properties.radius, properties.mass, 0)}
+      registerRef={registerRef}
+      showLabel={showLabel}
+      labelAlwaysVisible
+    >
+      <group ref={spinRef}>
+        {isMarker ? (
+          <mesh>
+            <octahedronGeometry args={[radius, 0]} />
+            <meshBasicMaterial color={color} wireframe toneMapped={false} />
+          </mesh>
+        ) : (
+          <>
+            {/* Central hub */}
+            <mesh>
+              <cylinderGeometry args={[radius * 0.25, radius * 0.25, radius * 0.6, 12]} />
+              <meshStandardMaterial color={color} metalness={0.7} roughness={0.35} />
+            </mesh>
+
+            {/* Habitat ring */}
+            <mesh rotation={[Math.PI / 2, 0, 0]}>
+              <torusGeometry args={[radius * 0.8, radius * 0.1, 8, 32]} />
+              <meshStandardMaterial color={color} metalness={0.6} roughness={0.4} />
+            </mesh>
+
+            {/* Spokes */}
+            {[0, Math.PI / 2].map((angle) => (
+              <mesh key={angle} rotation={[0, angle, Math.PI / 2]}>
+                <cylinderGeometry args={[radius * 0.04, radius * 0.04, radius * 1.6, 6]} />
+                <meshStandardMaterial color={color} metalness={0.6} roughness={0.4} />
+              </mesh>
+            ))}
+
+            {/* Docking spine */}
+            <mesh>
+              <cylinderGeometry args={[radius * 0.06, radius * 0.06, radius * 1.4, 6]} />
+              <meshStandardMaterial color={color} metalness={0.6} roughness={0.4} />
+            </mesh>
+
+            {/* Navigation beacon keeps the station visible against dark sides of planets */}
+            <mesh position={[0, radius * 0.75, 0]}>
+              <sphereGeometry args={[radius * 0.08, 8, 8]} />
+              <meshBasicMaterial color="#ff5252" toneMapped={false} />
+            </mesh>
+          </>
+        )}
+      </group>
+    </InteractiveObject>
+  )
+}
+
+// Stations don't carry rings
+;(StationRenderer as any).supportsRings = false
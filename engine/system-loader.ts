@@ -7,8 +7,19 @@ import {
   isStar,
   isPlanet,
   isMoon,
-  isBelt
+  isBelt,
+  isJumpPoint,
+  isStation
 } from './types/orbital-system'
+import { ValidationError } from './types/errors'
+import { Validator, assertValidStarmapData } from './validation/validators'
+import { migrateSystemData, describeMigration } from './migrations/system-migrations'
+import { normalizeSystemUnits } from './units/property-units'
+import type { StarCatalogData } from './types/star-catalog'
+import { UNIVERSE_MANIFEST_FILE, validateUniverseManifest, type UniverseManifest } from './universes/manifest'
+import { localSystemStore, isLocalSystemId } from './local-systems/local-system-store'
+import type { CatalogData } from './types/catalog'
+import { OBJECT_CATALOG_URL, catalogLookup, referencesCatalog, resolveCatalogRefs, validateCatalogData } from './object-catalog/object-catalog'
 
 // Re-export types that are commonly imported from system-loader
 export type { 
@@ -19,7 +30,9 @@ export type {
   JumpPoint 
 } from './types/orbital-system'
 
-export type { CatalogObject, CatalogData } from './types/catalog'
+export type { CatalogObject, CatalogData, CatalogEntry, CatalogCategory } from './types/catalog'
+export type { StarCatalogData, StarCatalogEntry, ConstellationFigure } from './types/star-catalog'
+export type { UniverseManifest, UniverseFeature } from './universes/manifest'
 
 // Legacy compatibility - export SystemData as alias to OrbitalSystemData
 export type SystemData = OrbitalSystemData
@@ -28,6 +41,63 @@ export class EngineSystemLoader {
   private loadedSystems: Map<string, OrbitalSystemData> = new Map()
   private loadingPromises: Map<string, Promise<OrbitalSystemData | null>> = new Map()
   private starmapCache: Map<string, StarmapData> = new Map()
+  private starCatalog: StarCatalogData | null = null
+  private objectCatalog: CatalogData | null = null
+  private universeCache: Map<string, UniverseManifest | null> = new Map()
+  private universeList: UniverseManifest[] | null = null
+
+  // The manifest of the universe in public/data/<mode>/, or null for folders without one
+  async loadUniverse(mode: string): Promise<UniverseManifest | null> {
+    if (this.universeCache.has(mode)) {
+      return this.universeCache.get(mode)!
+    }
+
+    try {
+      const response = await fetch(`/data/${mode}/${UNIVERSE_MANIFEST_FILE}`)
+      const contentType = response.headers.get("content-type")
+      if (!response.ok || !contentType || !contentType.includes("application/json")) {
+        this.universeCache.set(mode, null)
+        return null
+      }
+
+      const data: unknown = await response.json()
+      const issues = validateUniverseManifest(data, mode)
+      if (issues.length > 0) {
+        throw new ValidationError(`Invalid universe manifest for ${mode}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join(', ')}`, { issues })
+      }
+
+      this.universeCache.set(mode, data as UniverseManifest)
+      return data as UniverseManifest
+    } catch (error) {
+      console.error(`❌ Failed to load universe manifest for mode ${mode}:`, error)
+      return null
+    }
+  }
+
+  // Every universe the server discovered in public/data
+  async listUniverses(): Promise<UniverseManifest[]> {
+    if (this.universeList) {
+      return this.universeList
+    }
+
+    try {
+      const response = await fetch('/api/universes')
+      if (!response.ok) {
+        throw new Error(`Failed to fetch universes: ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (!Array.isArray(data?.universes)) {
+        throw new Error('Invalid universe list: missing universes array')
+      }
+
+      this.universeList = data.universes as UniverseManifest[]
+      return this.universeList
+    } catch (error) {
+      console.error('❌ Failed to list universes:', error)
+      return []
+    }
+  }
 
   async loadStarmap(mode: string): Promise<StarmapData | null> {
     // Check cache first
@@ -50,7 +120,8 @@ export class EngineSystemLoader {
         throw new Error(`Invalid content type for starmap: expected JSON, got ${contentType}`)
       }
 
-      const data = await response.json()
+      const data: unknown = await response.json()
+      assertValidStarmapData(data)
 
       // Cache the result
       this.starmapCache.set(mode, data)
@@ -59,11 +130,75 @@ export class EngineSystemLoader {
       return data
     } catch (error) {
       console.error(`❌ Failed to load starmap for mode ${mode}:`, error)
+      // Broken data is reported with the offending paths rather than treated as missing
+      if (error instanceof ValidationError) throw error
+      return null
+    }
+  }
+
+  // The bright-star catalog behind the real-sky skybox, shared by all modes
+  async loadStarCatalog(): Promise<StarCatalogData | null> {
+    if (this.starCatalog) {
+      return this.starCatalog
+    }
+
+    try {
+      const response = await fetch('/data/sky/bright-stars.json')
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch star catalog: ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (!Array.isArray(data?.stars)) {
+        throw new Error('Invalid star catalog: missing stars array')
+      }
+
+      this.starCatalog = data
+      return data
+    } catch (error) {
+      console.error('❌ Failed to load star catalog:', error)
+      return null
+    }
+  }
+
+  // The object catalog behind the celestial viewer, the system editor and `catalog_ref`, shared by all modes
+  async loadObjectCatalog(): Promise<CatalogData | null> {
+    if (this.objectCatalog) {
+      return this.objectCatalog
+    }
+
+    try {
+      const response = await fetch(OBJECT_CATALOG_URL)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch object catalog: ${response.status}`)
+      }
+
+      const data: unknown = await response.json()
+      const issues = validateCatalogData(data)
+      if (issues.length > 0) {
+        throw new ValidationError(`Invalid object catalog: ${issues.map(issue => `${issue.path}: ${issue.message}`).join(', ')}`, { issues })
+      }
+
+      this.objectCatalog = data as CatalogData
+      return this.objectCatalog
+    } catch (error) {
+      console.error('❌ Failed to load object catalog:', error)
       return null
     }
   }
 
   async loadSystem(mode: string, systemId: string): Promise<OrbitalSystemData | null> {
+    // Local systems are read from the browser store each time, so a re-import shows up at once
+    if (isLocalSystemId(systemId)) {
+      const localSystem = localSystemStore.get(mode, systemId)
+      if (!localSystem) {
+        console.error(`❌ Local system ${systemId} not found in mode ${mode}`)
+      }
+      return localSystem
+    }
+
     const cacheKey = `${mode}:${systemId}`
 
     // Check if already loaded
@@ -130,13 +265,38 @@ export class EngineSystemLoader {
         throw new Error(`Invalid content type for system: expected JSON, got ${contentType}`)
       }
 
-      const systemData: OrbitalSystemData = await response.json()
+      // Objects built on object catalog entries need the catalog before anything else
+      const rawData: unknown = await response.json()
+      const catalog = referencesCatalog(rawData) ? await this.loadObjectCatalog() : null
+
+      // Older formats are upgraded before anything else looks at the data
+      const migration = migrateSystemData(rawData, { catalog: catalog ? catalogLookup(catalog) : undefined })
+      if (migration.applied.length > 0) {
+        console.log(`🔁 Migrated system ${systemId} from format ${migration.fromVersion} to ${migration.toVersion}:\n  ${describeMigration(migration).join('\n  ')}`)
+      }
+      const catalogRefs = resolveCatalogRefs(migration.data, catalog)
+      if (catalogRefs.issues.length > 0) {
+        console.warn(`⚠️ Catalog references in ${systemId} could not be filled in:\n  ${catalogRefs.issues.map(issue => `${issue.path}: ${issue.message}`).join('\n  ')}`)
+      }
+      // Quantities with explicit units are brought into the declared units
+      // (engine/units/property-units.ts)
+      const units = normalizeSystemUnits(catalogRefs.data)
+      if (units.conversions.length > 0) {
+        console.log(`📏 Normalized ${units.conversions.length} property values in ${systemId}:\n  ${units.conversions.map(c => `${c.path}: ${c.from} → ${c.to}`).join('\n  ')}`)
+      }
+      const systemData = units.data as OrbitalSystemData
 
       // Validate system data
       if (!this.validateSystemData(systemData)) {
         throw new Error(`Invalid system data for ${systemId}`)
       }
 
+      // Schema problems are reported but don't stop a renderable system loading
+      const validation = Validator.validateSystemData(systemData)
+      if (validation.errors.length > 0) {
+        console.warn(`⚠️ System ${systemId} (${mode}) does not match the system schema:\n  ${validation.errors.join('\n  ')}`)
+      }
+
       console.log(`✅ Successfully loaded system: ${systemId} (${mode})`)
       return systemData
     } catch (error) {
@@ -155,17 +315,19 @@ export class EngineSystemLoader {
     )
   }
 
+  // Systems on the mode's starmap, followed by the local systems imported into it
   async getAvailableSystems(mode: string): Promise<string[]> {
+    const localSystems = localSystemStore.list(mode).map(entry => entry.id)
     try {
       const starmapData = await this.loadStarmap(mode)
       if (!starmapData?.systems) {
-        return []
+        return localSystems
       }
 
-      return Object.keys(starmapData.systems)
+      return [...Object.keys(starmapData.systems), ...localSystems]
     } catch (error) {
       console.error(`❌ Failed to get available systems for mode ${mode}:`, error)
-      return []
+      return localSystems
     }
   }
 
@@ -191,10 +353,15 @@ export class EngineSystemLoader {
       const keysToDelete = Array.from(this.loadedSystems.keys()).filter(key => key.startsWith(`${mode}:`))
       keysToDelete.forEach(key => this.loadedSystems.delete(key))
       this.starmapCache.delete(mode)
+      this.universeCache.delete(mode)
     } else {
       // Clear all
       this.loadedSystems.clear()
       this.starmapCache.clear()
+      this.starCatalog = null
+      this.objectCatalog = null
+      this.universeCache.clear()
+      this.universeList = null
     }
   }
 
@@ -215,6 +382,14 @@ export class EngineSystemLoader {
     return systemData.objects.filter(isBelt)
   }
 
+  getJumpPoints(systemData: OrbitalSystemData): CelestialObject[] {
+    return systemData.objects.filter(isJumpPoint)
+  }
+
+  getStations(systemData: OrbitalSystemData): CelestialObject[] {
+    return systemData.objects.filter(isStation)
+  }
+
   // Get objects by parent (for hierarchical rendering)
   getObjectsByParent(systemData: OrbitalSystemData, parentId: string): CelestialObject[] {
     return systemData.objects.filter(obj => obj.orbit?.parent === parentId)
@@ -0,0 +1,33 @@
+// Schema for the object catalog (public/data/engine/object-catalog/catalog.json):
+// the template objects the celestial viewer previews, the system editor adds
+// and system files build on through `catalog_ref`. The types in catalog.ts
+// are inferred from these.
+
+import { z } from 'zod/v4'
+import {
+  celestialPropertiesSchema,
+  classificationSchema,
+  geometryTypeSchema,
+  ringDefinitionSchema,
+} from './orbital-system.schema'
+
+export const catalogEntrySchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Only lowercase letters, digits and hyphens are allowed').describe('What system objects put in `catalog_ref`'),
+  name: z.string().min(1),
+  description: z.string(),
+  category: z.string().optional().describe('Kind of object shown in the catalog, e.g. "main_sequence"'),
+  subtype: z.string().optional().describe('e.g. "g2v"'),
+  classification: classificationSchema,
+  geometry_type: geometryTypeSchema,
+  properties: celestialPropertiesSchema,
+  rings: z.array(ringDefinitionSchema).optional(),
+})
+
+export const catalogCategorySchema = z.object({
+  name: z.string().min(1).describe('Heading in the catalog list'),
+  objects: z.array(catalogEntrySchema).min(1),
+})
+
+export const catalogDataSchema = z.object({
+  categories: z.array(catalogCategorySchema).min(1),
+}).describe('Chart Citizen object catalog')
@@ -1,6 +1,21 @@
+import type { z } from 'zod/v4'
+import type { catalogCategorySchema, catalogDataSchema, catalogEntrySchema } from './catalog.schema'
+
+// The object catalog's types are inferred from the schemas in catalog.schema.ts
+
+// One template object, keyed by its ID for `catalog_ref`
+export type CatalogEntry = z.infer<typeof catalogEntrySchema>
+
+// A heading in the catalog list and the entries under it
+export type CatalogCategory = z.infer<typeof catalogCategorySchema>
+
+// The catalog file, loaded through EngineSystemLoader.loadObjectCatalog
+export type CatalogData = z.infer<typeof catalogDataSchema>
+
 /**
  * Catalog object interface for celestial body definitions
- * Used for loading object properties from catalog files
+ * Older catalog shape (physical, features and appearance groups) still read by
+ * the standalone renderers behind object-factory.tsx
  */
 export interface CatalogObject {
   id: string
@@ -36,25 +51,3 @@ export interface CatalogObject {
   }
   [key: string]: any
 }
-
-/**
- * Catalog data structure for organizing celestial objects by type
- */
-export interface CatalogData {
-  stars?: Record<string, CatalogObject>
-  planets?: Record<string, CatalogObject>
-  moons?: Record<string, CatalogObject>
-  belts?: Record<string, CatalogObject>
-  'compact-objects'?: Record<string, CatalogObject>
-  [key: string]: Record<string, CatalogObject> | undefined
-}
-
-/**
- * Catalog loader interface for loading and caching catalog data
- */
-export interface CatalogLoader {
-  loadCatalog(catalogType: string): Promise<Record<string, CatalogObject>>
-  getCatalogObject(id: string): CatalogObject | undefined
-  getAllCatalogObjects(): Map<string, CatalogObject>
-  clearCache(): void
-} 
\ No newline at end of file
@@ -0,0 +1,235 @@
+// Schema for system JSON files. The TypeScript types in orbital-system.ts are
+// inferred from these, `Validator.validateSystemData` checks files against them
+// and scripts/export-system-schema.ts writes them out as a JSON Schema.
+// Based on docs/architecture/orbital-system-json-spec.md
+
+import { z } from 'zod/v4'
+
+const vector3Schema = z.tuple([z.number(), z.number(), z.number()])
+const percentSchema = z.number().min(0).max(100)
+
+export const classificationSchema = z.enum([
+  'star',
+  'compact-object',
+  'planet',
+  'dwarf-planet',
+  'moon',
+  'belt',
+  'ring',
+  'barycenter',
+  'jump_point',
+  'station',
+  'lagrange_point',
+])
+
+// Objects that aren't bodies with a surface (or, for stations, a temperature
+// worth drawing); every other object needs `properties.temperature`
+export const TEMPERATURE_OPTIONAL_CLASSIFICATIONS: readonly z.infer<typeof classificationSchema>[] = [
+  'barycenter',
+  'jump_point',
+  'station',
+  'lagrange_point',
+]
+
+export const requiresTemperature = (classification: z.infer<typeof classificationSchema>): boolean =>
+  !TEMPERATURE_OPTIONAL_CLASSIFICATIONS.includes(classification)
+
+export const geometryTypeSchema = z.enum([
+  'terrestrial',
+  'rocky',
+  'gas_giant',
+  'star',
+  'compact',
+  'exotic',
+  'ring',
+  'belt',
+  'jump_point',
+  'station',
+  'none',
+])
+
+export const ringDensitySchema = z.enum(['sparse', 'moderate', 'dense'])
+export const particleSizeSchema = z.enum(['small', 'medium', 'large'])
+export const jumpPointStatusSchema = z.enum(['active', 'inactive', 'unstable'])
+export const lagrangeIndexSchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)])
+
+// Base orbit structure for planets, moons, stars
+export const orbitDataSchema = z.object({
+  parent: z.string().min(1).describe('ID of the object or barycenter this orbits'),
+  semi_major_axis: z.number().min(0).describe('AU for planets, parent radii for moons'),
+  eccentricity: z.number().min(0).lt(1),
+  inclination: z.number().describe('degrees'),
+  orbital_period: z.number().min(0).describe('days'),
+  epoch: z.string().optional().describe('ISO date the mean anomaly refers to (defaults to J2000)'),
+  mean_anomaly_at_epoch: z.number().optional().describe('degrees (defaults to 0)'),
+})
+
+// Belt orbit structure
+export const beltOrbitDataSchema = z.object({
+  parent: z.string().min(1),
+  inner_radius: z.number().min(0),
+  outer_radius: z.number().min(0),
+  inclination: z.number(),
+  eccentricity: z.number().min(0).lt(1),
+})
+
+// Placement at a Lagrange point of a primary/secondary pair (e.g. star and planet)
+export const lagrangePlacementSchema = z.object({
+  primary: z.string().min(1),
+  secondary: z.string().min(1).describe('must orbit the primary'),
+  point: lagrangeIndexSchema.describe('L1–L5'),
+})
+
+// Unified properties. Further keys are allowed for customization.
+export const celestialPropertiesSchema = z.object({
+  // Shared Physical Properties
+  mass: z.number().min(0).describe('M☉ for stars and compact objects, M⊕ otherwise'),
+  radius: z.number().min(0).describe('km'),
+  temperature: z.number().min(0).optional().describe('surface temperature (K); required except for barycenters, jump points, stations and Lagrange points'),
+  rotation_period: z.number().optional().describe('hours'),
+  axial_tilt: z.number().optional().describe('degrees'),
+  axial_wobble: z.number().optional().describe('degrees (optional, for visuals)'),
+  geomagnetism: percentSchema.optional().describe('0–100 (affects auroras/magnetic fields)'),
+
+  // Terrestrial Planet Properties
+  water: percentSchema.optional().describe('0–100 (ocean/ice coverage)'),
+  tectonics: percentSchema.optional().describe('0–100 (terrain roughness)'),
+  flora: percentSchema.optional().describe('0–100 (vegetation tint)'),
+  population: percentSchema.optional().describe('0–100 (city lights/urban sprawl)'),
+  atmosphere: percentSchema.optional().describe('0–100 (visual shell thickness)'),
+
+  // Rocky Body Properties
+  albedo: percentSchema.optional().describe('0–100 (surface reflectivity)'),
+  surface_variance: percentSchema.optional().describe('0–100 (bumpiness)'),
+  crater_density: percentSchema.optional(),
+  regolith_depth: percentSchema.optional(),
+  surface_color: z.string().optional().describe('hex (e.g. "#aaaaaa")'),
+
+  // Gas Giant Properties
+  band_contrast: percentSchema.optional(),
+  cloud_opacity: percentSchema.optional(),
+  hue_shift: percentSchema.optional().describe('0–100 (color offset)'),
+
+  // Star Properties
+  color_temperature: z.number().min(0).optional().describe('2000–40000 (Kelvin)'),
+  luminosity: z.number().min(0).optional().describe('L☉'),
+  solar_activity: percentSchema.optional(),
+  corona_thickness: percentSchema.optional(),
+  variability: percentSchema.optional(),
+
+  // Ring Properties
+  ring_density: ringDensitySchema.optional(),
+  ring_opacity: percentSchema.optional(),
+  ring_composition: z.array(z.string()).optional().describe('["ice", "rock", etc.]'),
+  ring_color: z.string().optional().describe('hex color'),
+  ring_gap: percentSchema.optional(),
+
+  // Belt Properties
+  belt_density: ringDensitySchema.optional(),
+  particle_size: particleSizeSchema.optional(),
+  belt_composition: z.array(z.string()).optional().describe('["rock", "ice", "metal"]'),
+  brightness: percentSchema.optional(),
+  tint: z.string().optional().describe('hex color'),
+
+  // Station Properties
+  station_type: z.string().optional().describe('e.g. "orbital", "outpost", "rest_stop"'),
+  station_color: z.string().optional().describe('hex color'),
+
+  // Jump Point Properties
+  jump_status: jumpPointStatusSchema.optional().describe("defaults to 'active'"),
+  aperture_color: z.string().optional().describe('hex color'),
+}).catchall(z.any())
+
+// Ring definition for planets
+export const ringDefinitionSchema = z.object({
+  id: z.string().min(1),
+  geometry_type: z.literal('ring'),
+  name: z.string(),
+  radius_start: z.number().min(0),
+  radius_end: z.number().min(0),
+  inclination: z.number(),
+  density: ringDensitySchema,
+  composition: z.array(z.string()),
+  color: z.string().optional(),
+  opacity: z.number().optional(),
+})
+
+export const timelineEventSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+  title: z.string(),
+  description: z.string(),
+  mission_type: z.string().optional(),
+  agency: z.string().optional(),
+})
+
+// Main celestial object
+export const celestialObjectSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  classification: classificationSchema,
+  geometry_type: geometryTypeSchema,
+  orbit: z.union([orbitDataSchema, beltOrbitDataSchema]).optional(),
+  properties: celestialPropertiesSchema,
+  rings: z.array(ringDefinitionSchema).optional(),
+  timeline: z.array(timelineEventSchema).optional(),
+  position: vector3Schema.optional().describe('For objects without orbits (like system center)'),
+  lagrange: lagrangePlacementSchema.optional().describe('Stations and Lagrange points placed at L1–L5 instead of an orbit'),
+  destination: z.string().optional().describe('Jump points only: id of the system this jump point leads to'),
+  catalog_ref: z.string().min(1).optional().describe('ID of the object catalog entry this object is built on'),
+}).superRefine((obj, ctx) => {
+  if (obj.properties.temperature === undefined && requiresTemperature(obj.classification)) {
+    ctx.addIssue({ code: 'custom', path: ['properties', 'temperature'], message: `Missing required number for a ${obj.classification}` })
+  }
+})
+
+// An object built on an object catalog entry, as written in a file: fields the
+// entry provides can be left out, and properties only list overrides
+export const catalogRefObjectSchema = celestialObjectSchema.partial().extend({
+  id: z.string().min(1),
+  catalog_ref: z.string().min(1).describe('ID of the object catalog entry; the fields given here override it'),
+  properties: celestialPropertiesSchema.partial().optional(),
+})
+
+// Lighting configuration
+export const lightingConfigSchema = z.object({
+  primary_star: z.string().min(1),
+  secondary_star: z.string().optional(),
+  ambient_level: z.number().min(0),
+  stellar_influence_radius: z.number().min(0),
+})
+
+export const systemMetadataSchema = z.object({
+  version: z.string().optional(),
+  last_updated: z.string().optional(),
+  coordinate_system: z.string().optional(),
+  distance_unit: z.string().optional(),
+})
+
+// System data
+export const orbitalSystemSchema = z.object({
+  $schema: z.string().optional().describe('Path to this schema, for editor autocompletion'),
+  id: z.string().regex(/^[a-zA-Z0-9-_]+$/, 'Only letters, digits, hyphens and underscores are allowed').min(2).max(50),
+  name: z.string().min(1).max(100),
+  description: z.string(),
+  objects: z.array(celestialObjectSchema).min(1),
+  lighting: lightingConfigSchema,
+  timeline: z.array(timelineEventSchema).optional().describe('System-wide events not tied to a single object'),
+  metadata: systemMetadataSchema.optional(),
+}).describe('Chart Citizen orbital system')
+
+// A system file as written, before catalog references are filled in on load
+export const orbitalSystemFileSchema = orbitalSystemSchema.extend({
+  objects: z.array(z.union([celestialObjectSchema, catalogRefObjectSchema])).min(1),
+}).describe('Chart Citizen orbital system')
+
+/**
+ * JSON Schema (draft 2020-12) for system files, written to
+ * public/schemas/orbital-system.schema.json by scripts/export-system-schema.ts
+ */
+export function getSystemJsonSchema(): Record<string, unknown> {
+  return {
+    ...z.toJSONSchema(orbitalSystemFileSchema, { io: 'input' }),
+    $id: '/schemas/orbital-system.schema.json', // where the app serves it
+    title: 'Orbital system',
+  }
+}
@@ -1,173 +1,79 @@
 // Orbital System JSON Specification TypeScript Interfaces
 // Based on docs/architecture/orbital-system-json-spec.md
 
-export type Classification = 
-  | 'star' 
-  | 'compact-object' 
-  | 'planet' 
-  | 'dwarf-planet' 
-  | 'moon' 
-  | 'belt' 
-  | 'ring' 
-  | 'barycenter'
-
-export type GeometryType = 
-  | 'terrestrial' 
-  | 'rocky' 
-  | 'gas_giant' 
-  | 'star' 
-  | 'compact' 
-  | 'exotic'
-  | 'ring' 
-  | 'belt' 
-  | 'none'
-
-export type RingDensity = 'sparse' | 'moderate' | 'dense'
-export type ParticleSize = 'small' | 'medium' | 'large'
+import type { z } from 'zod/v4'
+import type {
+  classificationSchema,
+  geometryTypeSchema,
+  ringDensitySchema,
+  particleSizeSchema,
+  jumpPointStatusSchema,
+  lagrangeIndexSchema,
+  orbitDataSchema,
+  beltOrbitDataSchema,
+  lagrangePlacementSchema,
+  celestialPropertiesSchema,
+  ringDefinitionSchema,
+  timelineEventSchema,
+  celestialObjectSchema,
+  orbitalSystemSchema,
+  lightingConfigSchema
+} from './orbital-system.schema'
+import type { starmapDataSchema, starmapMetadataSchema, starmapSystemSchema } from './starmap.schema'
+
+// The data types are inferred from the schemas in orbital-system.schema.ts,
+// which also validate system files at runtime
+
+export type Classification = z.infer<typeof classificationSchema>
+export type GeometryType = z.infer<typeof geometryTypeSchema>
+export type RingDensity = z.infer<typeof ringDensitySchema>
+export type ParticleSize = z.infer<typeof particleSizeSchema>
+export type JumpPointStatus = z.infer<typeof jumpPointStatusSchema>
+export type LagrangeIndex = z.infer<typeof lagrangeIndexSchema>
 
 // Base orbit structure for planets, moons, stars
-export interface OrbitData {
-  parent: string
-  semi_major_axis: number
-  eccentricity: number
-  inclination: number
-  orbital_period: number
-}
+export type OrbitData = z.infer<typeof orbitDataSchema>
 
 // Belt orbit structure
-export interface BeltOrbitData {
-  parent: string
-  inner_radius: number
-  outer_radius: number
-  inclination: number
-  eccentricity: number
-}
+export type BeltOrbitData = z.infer<typeof beltOrbitDataSchema>
 
-// Unified properties interface
-export interface CelestialProperties {
-  // Shared Physical Properties
-  mass: number // in Earth or solar units
-  radius: number // in Earth or solar radii
-  temperature: number // surface temperature (K)
-  rotation_period?: number // in hours
-  axial_tilt?: number // degrees
-  axial_wobble?: number // degrees (optional, for visuals)
-  geomagnetism?: number // 0–100 (affects auroras/magnetic fields)
-
-  // Terrestrial Planet Properties
-  water?: number // 0–100 (ocean/ice coverage)
-  tectonics?: number // 0–100 (terrain roughness)
-  flora?: number // 0–100 (vegetation tint)
-  population?: number // 0–100 (city lights/urban sprawl)
-  atmosphere?: number // 0–100 (visual shell thickness)
-
-  // Rocky Body Properties
-  albedo?: number // 0–100 (surface reflectivity)
-  surface_variance?: number // 0–100 (bumpiness)
-  crater_density?: number // 0–100
-  regolith_depth?: number // 0–100
-  surface_color?: string // hex (e.g. "#aaaaaa")
-
-  // Gas Giant Properties
-  band_contrast?: number // 0–100
-  cloud_opacity?: number // 0–100
-  hue_shift?: number // 0–100 (color offset)
-
-  // Star Properties
-  color_temperature?: number // 2000–40000 (Kelvin)
-  luminosity?: number // 0–100
-  solar_activity?: number // 0–100
-  corona_thickness?: number // 0–100
-  variability?: number // 0–100
-
-  // Ring Properties
-  ring_density?: RingDensity
-  ring_opacity?: number // 0–100
-  ring_composition?: string[] // ["ice", "rock", etc.]
-  ring_color?: string // hex color
-  ring_gap?: number // 0–100
-
-  // Belt Properties
-  belt_density?: RingDensity
-  particle_size?: ParticleSize
-  belt_composition?: string[] // ["rock", "ice", "metal"]
-  brightness?: number // 0–100
-  tint?: string // hex color
-
-  // Extended properties for customization
-  [key: string]: any
-}
+// Placement at a Lagrange point of a primary/secondary pair (e.g. star and planet)
+export type LagrangePlacement = z.infer<typeof lagrangePlacementSchema>
+
+// Unified properties (physical, shader-driven and custom keys)
+export type CelestialProperties = z.infer<typeof celestialPropertiesSchema>
 
 // Ring definition for planets
-export interface RingDefinition {
-  id: string
-  geometry_type: 'ring'
-  name: string
-  radius_start: number
-  radius_end: number
-  inclination: number
-  density: RingDensity
-  composition: string[]
-  color?: string
-  opacity?: number
-}
+export type RingDefinition = z.infer<typeof ringDefinitionSchema>
 
-export interface TimelineEvent {
-  date: string // YYYY-MM-DD
-  title: string
-  description: string
-}
+export type TimelineEvent = z.infer<typeof timelineEventSchema>
 
-// Main celestial object interface
-export interface CelestialObject {
-  id: string
-  name: string
-  classification: Classification
-  geometry_type: GeometryType
-  orbit?: OrbitData | BeltOrbitData
-  properties: CelestialProperties
-  rings?: RingDefinition[]
-  timeline?: TimelineEvent[]
-  position?: [number, number, number] // For objects without orbits (like system center)
-}
+// Main celestial object
+export type CelestialObject = z.infer<typeof celestialObjectSchema>
 
-// System data interface
-export interface OrbitalSystemData {
-  id: string
-  name: string
-  description: string
-  objects: CelestialObject[]
-  lighting: LightingConfig
-  metadata?: {
-    version?: string
-    last_updated?: string
-    coordinate_system?: string
-    distance_unit?: string
-  }
-}
+// System data
+export type OrbitalSystemData = z.infer<typeof orbitalSystemSchema>
 
 // Lighting configuration
-export interface LightingConfig {
-  primary_star: string
-  secondary_star?: string
-  ambient_level: number
-  stellar_influence_radius: number
-}
+export type LightingConfig = z.infer<typeof lightingConfigSchema>
 
-// Jump point interface (keeping for compatibility)
+// Jump point summary (jump points themselves are CelestialObjects with classification 'jump_point')
 export interface JumpPoint {
   id: string
   name: string
   position: [number, number, number]
   destination: string
-  status: "active" | "inactive" | "unstable"
+  status: JumpPointStatus
 }
 
-// Starmap data interface
-export interface StarmapData {
-  systems: Record<string, any>
-  metadata: any
-}
+// Starmap data, inferred from the schemas in starmap.schema.ts. Realistic maps
+// describe systems by `status`; Star Citizen maps use `tags` and `jump_routes`.
+// Both share the same schema.
+export type StarmapSystem = z.infer<typeof starmapSystemSchema>
+
+export type StarmapMetadata = z.infer<typeof starmapMetadataSchema>
+
+export type StarmapData = z.infer<typeof starmapDataSchema>
 
 // Utility type guards
 export function isOrbitData(orbit: OrbitData | BeltOrbitData): orbit is OrbitData {
@@ -198,6 +104,18 @@ export function isBarycenter(object: CelestialObject): boolean {
   return object != null && object.classification === 'barycenter'
 }
 
+export function isJumpPoint(object: CelestialObject): boolean {
+  return object != null && object.classification === 'jump_point'
+}
+
+export function isStation(object: CelestialObject): boolean {
+  return object != null && object.classification === 'station'
+}
+
+export function isLagrangePoint(object: CelestialObject): boolean {
+  return object != null && object.classification === 'lagrange_point'
+}
+
 // Helper function to determine geometry type from classification
 export function getDefaultGeometryType(classification: Classification): GeometryType {
   switch (classification) {
@@ -217,6 +135,11 @@ export function getDefaultGeometryType(classification: Classification): Geometry
       return 'ring'
     case 'barycenter':
       return 'none'
+    case 'jump_point':
+      return 'jump_point'
+    case 'station':
+    case 'lagrange_point':
+      return 'station'
     default:
       return 'rocky'
   }
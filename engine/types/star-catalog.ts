@@ -0,0 +1,34 @@
+/**
+ * Star catalog used to draw the real night sky behind a system.
+ * Positions are J2000 equatorial coordinates as seen from Sol.
+ */
+export interface StarCatalogEntry {
+  id: string
+  name?: string
+  ra: number // right ascension, degrees
+  dec: number // declination, degrees
+  distance: number // light years from Sol
+  mag: number // apparent V magnitude from Sol
+  bv: number // B-V colour index
+  absolute_mag?: number // required when distance is 0 (the Sun itself)
+  system_id?: string // starmap system this star belongs to; hidden when viewing from that system
+}
+
+export interface ConstellationFigure {
+  id: string
+  name: string
+  lines: Array<[string, string]> // pairs of star IDs
+}
+
+export interface StarCatalogData {
+  stars: StarCatalogEntry[]
+  constellations?: ConstellationFigure[]
+  metadata?: {
+    version?: string
+    description?: string
+    epoch?: string
+    coordinate_system?: string
+    distance_unit?: string
+    last_updated?: string
+  }
+}
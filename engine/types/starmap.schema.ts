@@ -0,0 +1,36 @@
+// Schema for starmap files (public/data/<universe>/starmap-systems.json). The
+// starmap types in orbital-system.ts are inferred from these, and
+// `Validator.validateStarmapData` checks files against them before checking
+// routes and positions across systems.
+
+import { z } from 'zod/v4'
+
+export const starmapSystemSchema = z.object({
+  id: z.string()
+    .min(2, 'System ID is too short (min 2 characters)')
+    .max(50, 'System ID is too long (max 50 characters)')
+    .regex(/^[a-zA-Z0-9-_]+$/, 'System ID contains invalid characters (only alphanumeric, hyphens, and underscores allowed)')
+    .describe('Same as the key the system is listed under'),
+  name: z.string().min(1, 'System must have a name'),
+  position: z.tuple([z.number(), z.number(), z.number()]).describe('In metadata.distance_unit'),
+  description: z.string().optional(),
+  status: z.string().optional().describe("e.g. 'inhabited', 'unexplored'"),
+  tags: z.array(z.string()).optional(),
+  jump_routes: z.array(z.string()).optional().describe('IDs of directly reachable systems; every route is listed at both ends'),
+})
+
+export const starmapMetadataSchema = z.object({
+  version: z.string().optional(),
+  mode: z.string().optional(),
+  description: z.string().optional(),
+  last_updated: z.string().optional(),
+  total_systems: z.number().optional(),
+  coordinate_system: z.string().optional(),
+  distance_unit: z.string().optional().describe("'light_years' | 'astronomical_units'"),
+  seed: z.number().optional().describe('Generated maps only'),
+})
+
+export const starmapDataSchema = z.object({
+  systems: z.record(z.string(), starmapSystemSchema),
+  metadata: starmapMetadataSchema.optional(),
+}).describe('Chart Citizen starmap')
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { convertLength, convertMass, formatQuantity, resolveUnit } from '../units';
+import { checkPropertyRanges, massUnitFor, normalizeSystemUnits } from '../property-units';
+
+const system = (objects: any[]) => ({
+  id: 'test',
+  name: 'Test',
+  description: 'Test system',
+  objects,
+  lighting: { primary_star: 'star', ambient_level: 0.1, stellar_influence_radius: 100 }
+});
+
+const star = (properties: Record<string, unknown> = {}) => ({
+  id: 'star',
+  name: 'Star',
+  classification: 'star',
+  geometry_type: 'star',
+  properties: { mass: 1, radius: 695700, temperature: 5778, ...properties },
+  position: [0, 0, 0]
+});
+
+const planet = (properties: Record<string, unknown> = {}) => ({
+  id: 'planet',
+  name: 'Planet',
+  classification: 'planet',
+  geometry_type: 'terrestrial',
+  properties: { mass: 1, radius: 6371, temperature: 288, ...properties },
+  orbit: { parent: 'star', semi_major_axis: 1, eccentricity: 0, inclination: 0, orbital_period: 365 }
+});
+
+describe('units', () => {
+  it('converts lengths and masses between units', () => {
+    expect(convertLength(1, 'R☉', 'km')).toBe(695700);
+    expect(convertLength(695700, 'km', 'R⊕')).toBeCloseTo(109.2, 1);
+    expect(convertMass(1, 'M☉', 'M⊕')).toBeCloseTo(332950, -1);
+    expect(convertMass(1, 'M⊕', 'kg')).toBe(5.9722e24);
+  });
+
+  it('resolves ASCII unit names', () => {
+    expect(resolveUnit('solar_radii')).toBe('R☉');
+    expect(resolveUnit('M_EARTH')).toBe('M⊕');
+    expect(resolveUnit('furlongs')).toBeUndefined();
+  });
+
+  it('formats extreme values in exponent notation', () => {
+    expect(formatQuantity(695700, 'km')).toBe('695,700 km');
+    expect(formatQuantity(5.9722e24)).toBe('5.972e24');
+    expect(formatQuantity(0)).toBe('0');
+  });
+});
+
+describe('normalizeSystemUnits', () => {
+  it('converts quantities into the declared unit for the classification', () => {
+    const { data, conversions } = normalizeSystemUnits(system([
+      star({ radius: { value: 1, unit: 'R☉' }, mass: { value: 1.98847e30, unit: 'kg' } }),
+      planet({ mass: { value: 1, unit: 'M_jupiter' }, temperature: { value: 15, unit: '°C' } })
+    ]));
+
+    expect(data.objects[0].properties.radius).toBe(695700);
+    expect(data.objects[0].properties.mass).toBeCloseTo(1);
+    expect(data.objects[1].properties.mass).toBeCloseTo(317.8, 1);
+    expect(data.objects[1].properties.temperature).toBeCloseTo(288.15);
+    expect(conversions.map(c => c.path)).toEqual([
+      '/objects/0/properties/mass',
+      '/objects/0/properties/radius',
+      '/objects/1/properties/mass',
+      '/objects/1/properties/temperature'
+    ]);
+  });
+
+  it('converts percentages given as explicit fractions to 0–100', () => {
+    const albedo = { value: 0.3, unit: 'fraction' };
+    const { data, conversions } = normalizeSystemUnits(system([star(), planet({ albedo, tectonics: 45, water: 0 })]));
+
+    expect(data.objects[1].properties).toMatchObject({ albedo: 30, tectonics: 45, water: 0 });
+    expect(conversions).toEqual([{ path: '/objects/1/properties/albedo', from: '0.3 fraction', to: '30 %' }]);
+  });
+
+  it('keeps plain percentages below 1 as written', () => {
+    const input = system([star({ variability: 0.1 }), planet({ albedo: 0.5 })]);
+    const { data, conversions } = normalizeSystemUnits(input);
+
+    expect(data).toBe(input);
+    expect(conversions).toEqual([]);
+    expect(checkPropertyRanges(data).map(w => w.path)).toEqual([
+      '/objects/0/properties/variability',
+      '/objects/1/properties/albedo'
+    ]);
+  });
+
+  it('returns data already in declared units unchanged', () => {
+    const input = system([star(), planet({ albedo: 30 })]);
+    const { data, conversions } = normalizeSystemUnits(input);
+
+    expect(data).toBe(input);
+    expect(conversions).toEqual([]);
+  });
+
+  it('leaves unknown units for validation to report', () => {
+    const { data } = normalizeSystemUnits(system([star({ radius: { value: 3, unit: 'furlongs' } })]));
+    expect(data.objects[0].properties.radius).toEqual({ value: 3, unit: 'furlongs' });
+  });
+});
+
+describe('checkPropertyRanges', () => {
+  it('uses solar masses for stars and Earth masses otherwise', () => {
+    expect(massUnitFor('star')).toBe('M☉');
+    expect(massUnitFor('compact-object')).toBe('M☉');
+    expect(massUnitFor('moon')).toBe('M⊕');
+  });
+
+  it('accepts realistic values', () => {
+    expect(checkPropertyRanges(system([star(), planet({ albedo: 30 })]))).toEqual([]);
+  });
+
+  it('flags values that look like the wrong unit', () => {
+    const warnings = checkPropertyRanges(system([star({ radius: 1 }), planet({ mass: 5.97e24, albedo: 0.3 })]));
+
+    expect(warnings.map(w => w.path)).toEqual([
+      '/objects/0/properties/radius',
+      '/objects/1/properties/mass',
+      '/objects/1/properties/albedo'
+    ]);
+    expect(warnings[0].message).toBe('Radius 1 km is outside the expected 5000–2000000000 km for a star');
+  });
+});
@@ -0,0 +1,194 @@
+import type { ValidationIssue } from '../validation/validators';
+import { isPlainObject } from '../validation/system-validation';
+import { convertLength, convertMass, isLengthUnit, isMassUnit, resolveUnit } from './units';
+import type { LengthUnit, MassUnit } from './units';
+
+/**
+ * Units of the numeric fields in `CelestialProperties`. System files store
+ * plain numbers in these units; `normalizeSystemUnits` brings quantities with an
+ * explicit unit into them.
+ */
+
+export type PropertyQuantity = 'length' | 'mass' | 'temperature' | 'luminosity' | 'percent';
+
+export interface PropertyUnit {
+  quantity: PropertyQuantity;
+  unit: string; // declared unit; mass depends on classification, see massUnitFor
+}
+
+export const PERCENT_PROPERTIES = [
+  'geomagnetism', 'water', 'tectonics', 'flora', 'population', 'atmosphere',
+  'albedo', 'surface_variance', 'crater_density', 'regolith_depth',
+  'band_contrast', 'cloud_opacity', 'hue_shift',
+  'solar_activity', 'corona_thickness', 'variability',
+  'ring_opacity', 'ring_gap', 'brightness'
+] as const;
+
+export const PROPERTY_UNITS: Record<string, PropertyUnit> = {
+  mass: { quantity: 'mass', unit: 'M⊕' },
+  radius: { quantity: 'length', unit: 'km' },
+  temperature: { quantity: 'temperature', unit: 'K' },
+  color_temperature: { quantity: 'temperature', unit: 'K' },
+  luminosity: { quantity: 'luminosity', unit: 'L☉' },
+  ...Object.fromEntries(PERCENT_PROPERTIES.map(key => [key, { quantity: 'percent', unit: '%' } as PropertyUnit]))
+};
+
+/**
+ * Stars and compact objects give their mass in solar masses, everything else
+ * in Earth masses
+ */
+export function massUnitFor(classification: string | undefined): MassUnit {
+  return classification === 'star' || classification === 'compact-object' ? 'M☉' : 'M⊕';
+}
+
+export function radiusUnitFor(): LengthUnit {
+  return 'km';
+}
+
+export interface UnitConversion {
+  path: string; // JSON pointer to the converted field
+  from: string;
+  to: string;
+}
+
+export interface UnitNormalizationResult<T = unknown> {
+  data: T;
+  conversions: UnitConversion[];
+}
+
+interface Quantity {
+  value: number;
+  unit: string;
+}
+
+function isQuantity(value: unknown): value is Quantity {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as Quantity).value === 'number' && typeof (value as Quantity).unit === 'string';
+}
+
+function convertTemperature(value: number, unit: string): number | undefined {
+  switch (unit.trim().toLowerCase()) {
+    case 'k':
+    case 'kelvin':
+      return value;
+    case '°c':
+    case 'c':
+    case 'celsius':
+      return value + 273.15;
+    default:
+      return undefined;
+  }
+}
+
+function convertQuantity(quantity: Quantity, property: string, classification: string | undefined): number | undefined {
+  const declared = PROPERTY_UNITS[property];
+  const unit = resolveUnit(quantity.unit);
+
+  switch (declared?.quantity) {
+    case 'mass':
+      return unit && isMassUnit(unit) ? convertMass(quantity.value, unit, massUnitFor(classification)) : undefined;
+    case 'length':
+      return unit && isLengthUnit(unit) ? convertLength(quantity.value, unit, radiusUnitFor()) : undefined;
+    case 'temperature':
+      return convertTemperature(quantity.value, quantity.unit);
+    case 'percent':
+      if (quantity.unit.trim().toLowerCase() === 'fraction') return Math.round(quantity.value * 1e4) / 100;
+      return quantity.unit.trim() === declared.unit ? quantity.value : undefined;
+    default:
+      return quantity.unit.trim() === declared?.unit ? quantity.value : undefined;
+  }
+}
+
+/**
+ * A copy of `system` with every declared property in its declared unit.
+ * Quantities written as `{ "value": 1.2, "unit": "R☉" }` become plain numbers;
+ * a percentage may be given as `{ "value": 0.3, "unit": "fraction" }`. Plain
+ * numbers are kept as written, and values that can't be converted are left for
+ * validation to report.
+ */
+export function normalizeSystemUnits<T>(system: T): UnitNormalizationResult<T> {
+  const conversions: UnitConversion[] = [];
+  if (!isPlainObject(system) || !Array.isArray(system.objects)) return { data: system, conversions };
+
+  const objects = system.objects.map((obj: unknown, index: number) => {
+    if (!isPlainObject(obj) || !isPlainObject(obj.properties)) return obj;
+    const properties = obj.properties;
+    const classification = typeof obj.classification === 'string' ? obj.classification : undefined;
+
+    let normalized: Record<string, unknown> | undefined;
+    const set = (key: string, value: number, from: string, to: string) => {
+      normalized = { ...(normalized || properties), [key]: value };
+      conversions.push({ path: `/objects/${index}/properties/${key}`, from, to });
+    };
+
+    Object.keys(PROPERTY_UNITS).forEach(key => {
+      const value = properties[key];
+      const declared = PROPERTY_UNITS[key];
+      const unit = declared.quantity === 'mass' ? massUnitFor(classification) : declared.unit;
+
+      if (isQuantity(value)) {
+        const converted = convertQuantity(value, key, classification);
+        if (converted !== undefined) set(key, converted, `${value.value} ${value.unit}`, `${converted} ${unit}`);
+      }
+    });
+
+    return normalized ? { ...obj, properties: normalized } : obj;
+  });
+
+  return conversions.length > 0 ? { data: { ...system, objects } as T, conversions } : { data: system, conversions };
+}
+
+/**
+ * Plausible ranges per classification, in declared units. Values outside them
+ * are usually a unit mix-up, such as a radius in solar radii or a planet mass
+ * in kilograms.
+ */
+const PLAUSIBLE_RANGES: Record<string, Partial<Record<'mass' | 'radius' | 'temperature', [number, number]>>> = {
+  star: { mass: [0.07, 300], radius: [5000, 2e9], temperature: [2000, 60000] },
+  'compact-object': { mass: [0.1, 1e11], radius: [0, 5e8] },
+  planet: { mass: [0.01, 5000], radius: [1000, 2.5e5], temperature: [0, 5000] },
+  'dwarf-planet': { mass: [1e-6, 0.01], radius: [100, 1500], temperature: [0, 1000] },
+  moon: { mass: [0, 1], radius: [1, 5000], temperature: [0, 2000] }
+};
+
+const QUANTITY_NAMES: Record<string, string> = { mass: 'Mass', radius: 'Radius', temperature: 'Temperature' };
+
+/**
+ * Warnings for property values outside the plausible range for the object's
+ * classification. Expects numbers in declared units, as after
+ * `normalizeSystemUnits`.
+ */
+export function checkPropertyRanges(system: unknown): ValidationIssue[] {
+  const warnings: ValidationIssue[] = [];
+  const objects: unknown[] = isPlainObject(system) && Array.isArray(system.objects) ? system.objects : [];
+
+  objects.forEach((obj, index) => {
+    if (!isPlainObject(obj) || !isPlainObject(obj.properties)) return;
+    const properties = obj.properties;
+    const classification = typeof obj.classification === 'string' ? obj.classification : '';
+
+    const ranges = PLAUSIBLE_RANGES[classification] || {};
+    (Object.keys(ranges) as Array<keyof typeof ranges>).forEach(key => {
+      const value = properties[key];
+      const [min, max] = ranges[key]!;
+      if (typeof value !== 'number' || (value >= min && value <= max)) return;
+      const unit = key === 'mass' ? massUnitFor(classification) : PROPERTY_UNITS[key].unit;
+      warnings.push({
+        path: `/objects/${index}/properties/${key}`,
+        message: `${QUANTITY_NAMES[key]} ${value} ${unit} is outside the expected ${min}–${max} ${unit} for a ${classification}`
+      });
+    });
+
+    PERCENT_PROPERTIES.forEach(key => {
+      const value = properties[key];
+      if (typeof value === 'number' && value > 0 && value < 1) {
+        warnings.push({
+          path: `/objects/${index}/properties/${key}`,
+          message: `${value} looks like a fraction; ${key} is a percentage (0–100)`
+        });
+      }
+    });
+  });
+
+  return warnings;
+}
@@ -0,0 +1,82 @@
+/**
+ * Physical units used by system data and their conversions. Lengths convert
+ * through kilometres and masses through kilograms.
+ */
+
+export type LengthUnit = 'm' | 'km' | 'R⊕' | 'R♃' | 'R☉' | 'AU';
+export type MassUnit = 'kg' | 'M⊕' | 'M♃' | 'M☉';
+
+export const KM_PER_LENGTH_UNIT: Record<LengthUnit, number> = {
+  m: 0.001,
+  km: 1,
+  'R⊕': 6371,
+  'R♃': 69911,
+  'R☉': 695700,
+  AU: 149597870.7
+};
+
+export const KG_PER_MASS_UNIT: Record<MassUnit, number> = {
+  kg: 1,
+  'M⊕': 5.9722e24,
+  'M♃': 1.89813e27,
+  'M☉': 1.98847e30
+};
+
+// Units offered in the details panel, smallest first
+export const RADIUS_DISPLAY_UNITS: LengthUnit[] = ['km', 'R⊕', 'R☉'];
+export const MASS_DISPLAY_UNITS: MassUnit[] = ['kg', 'M⊕', 'M☉'];
+
+// ASCII spellings accepted in data files
+const UNIT_ALIASES: Record<string, LengthUnit | MassUnit> = {
+  r_earth: 'R⊕',
+  earth_radii: 'R⊕',
+  r_jupiter: 'R♃',
+  jupiter_radii: 'R♃',
+  r_sun: 'R☉',
+  solar_radii: 'R☉',
+  au: 'AU',
+  m_earth: 'M⊕',
+  earth_masses: 'M⊕',
+  m_jupiter: 'M♃',
+  jupiter_masses: 'M♃',
+  m_sun: 'M☉',
+  solar_masses: 'M☉'
+};
+
+export function isLengthUnit(unit: string): unit is LengthUnit {
+  return Object.prototype.hasOwnProperty.call(KM_PER_LENGTH_UNIT, unit);
+}
+
+export function isMassUnit(unit: string): unit is MassUnit {
+  return Object.prototype.hasOwnProperty.call(KG_PER_MASS_UNIT, unit);
+}
+
+/**
+ * The unit a data file means by `unit`, accepting symbols (`R☉`) and ASCII
+ * names (`r_sun`, `solar_radii`) in any case
+ */
+export function resolveUnit(unit: string): LengthUnit | MassUnit | undefined {
+  const trimmed = unit.trim();
+  if (isLengthUnit(trimmed) || isMassUnit(trimmed)) return trimmed;
+  return UNIT_ALIASES[trimmed.toLowerCase()];
+}
+
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  return value * KM_PER_LENGTH_UNIT[from] / KM_PER_LENGTH_UNIT[to];
+}
+
+export function convertMass(value: number, from: MassUnit, to: MassUnit): number {
+  return value * KG_PER_MASS_UNIT[from] / KG_PER_MASS_UNIT[to];
+}
+
+/**
+ * A value for display: four significant figures, grouped thousands, and
+ * exponent notation for very large or small magnitudes
+ */
+export function formatQuantity(value: number, unit?: string): string {
+  const magnitude = Math.abs(value);
+  const number = magnitude !== 0 && (magnitude >= 1e9 || magnitude < 1e-3)
+    ? value.toExponential(3).replace('e+', 'e')
+    : Number(value.toPrecision(4)).toLocaleString('en-US', { maximumFractionDigits: 4 });
+  return unit ? `${number} ${unit}` : number;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { validateUniverseManifest, universeHasFeature, type UniverseManifest } from '../manifest'
+import { discoverUniverses, findUniverse } from '../discover'
+
+const manifest = (overrides: Partial<UniverseManifest> = {}): UniverseManifest => ({
+  id: 'frontier',
+  title: 'Frontier',
+  description: 'Test universe',
+  default_system: 'outpost',
+  features: ['starmap'],
+  ...overrides,
+})
+
+describe('Universe manifests', () => {
+  it('accepts a complete manifest', () => {
+    expect(validateUniverseManifest(manifest({ theme: { sidebar_title: 'Frontier', accent_color: '#123abc' } }), 'frontier')).toEqual([])
+  })
+
+  it('reports bad fields and a mismatched folder', () => {
+    const issues = validateUniverseManifest({ ...manifest(), features: ['warp-drive'], theme: { accent_color: 'blue' } }, 'elsewhere')
+    expect(issues.map(issue => issue.path)).toEqual(['/theme/accent_color', '/features/0', '/id'])
+  })
+
+  it('turns every feature on when there is no manifest', () => {
+    expect(universeHasFeature(null, 'catalog-sky')).toBe(true)
+    expect(universeHasFeature(manifest(), 'starmap')).toBe(true)
+    expect(universeHasFeature(manifest(), 'jump-travel')).toBe(false)
+  })
+})
+
+describe('Universe discovery', () => {
+  let dataDir = ''
+
+  afterEach(() => {
+    if (dataDir) rmSync(dataDir, { recursive: true, force: true })
+    dataDir = ''
+    vi.restoreAllMocks()
+  })
+
+  const writeUniverse = (folder: string, content: unknown) => {
+    mkdirSync(join(dataDir, folder), { recursive: true })
+    if (content !== undefined) {
+      writeFileSync(join(dataDir, folder, 'universe.json'), typeof content === 'string' ? content : JSON.stringify(content))
+    }
+  }
+
+  it('finds the shipped universes', () => {
+    expect(discoverUniverses().map(universe => universe.id)).toEqual(['realistic', 'star-citizen'])
+    expect(findUniverse('star-citizen')?.default_system).toBe('stanton')
+  })
+
+  it('picks up new folders and skips ones without a valid manifest', () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'universes-'))
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    writeUniverse('frontier', manifest())
+    writeUniverse('sky', undefined)
+    writeUniverse('broken', '{ not json')
+    writeUniverse('misnamed', manifest({ id: 'frontier' }))
+
+    expect(discoverUniverses(dataDir).map(universe => universe.id)).toEqual(['frontier'])
+    expect(findUniverse('frontier', dataDir)?.title).toBe('Frontier')
+    expect(findUniverse('misnamed', dataDir)).toBeNull()
+    expect(warn).toHaveBeenCalled()
+  })
+
+  it('returns nothing for a missing data directory', () => {
+    expect(discoverUniverses(join(tmpdir(), 'no-such-universes-dir'))).toEqual([])
+  })
+})
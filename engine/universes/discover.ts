@@ -0,0 +1,44 @@
+// Server-side universe discovery. Reads the data folders from disk, so only
+// server components, route handlers and scripts may import it.
+
+import fs from 'fs'
+import path from 'path'
+import { UNIVERSE_MANIFEST_FILE, validateUniverseManifest, type UniverseManifest } from './manifest'
+
+export const DEFAULT_DATA_DIR = path.join(process.cwd(), 'public', 'data')
+
+/**
+ * Every universe under `dataDir`, in folder order: the folders holding a valid
+ * universe.json. Folders without one (the sky catalog, test systems) aren't
+ * universes; broken manifests are skipped with a warning so one bad folder
+ * doesn't take the others down.
+ */
+export function discoverUniverses(dataDir: string = DEFAULT_DATA_DIR): UniverseManifest[] {
+  if (!fs.existsSync(dataDir)) return []
+
+  return fs.readdirSync(dataDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .flatMap(folder => {
+      const manifestPath = path.join(dataDir, folder, UNIVERSE_MANIFEST_FILE)
+      if (!fs.existsSync(manifestPath)) return []
+
+      try {
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+        const issues = validateUniverseManifest(manifest, folder)
+        if (issues.length > 0) {
+          console.warn(`⚠️ Skipping universe "${folder}": ${issues.map(issue => `${issue.path}: ${issue.message}`).join(', ')}`)
+          return []
+        }
+        return [manifest as UniverseManifest]
+      } catch (error) {
+        console.warn(`⚠️ Skipping universe "${folder}": ${error instanceof Error ? error.message : error}`)
+        return []
+      }
+    })
+}
+
+export function findUniverse(id: string, dataDir: string = DEFAULT_DATA_DIR): UniverseManifest | null {
+  return discoverUniverses(dataDir).find(universe => universe.id === id) ?? null
+}
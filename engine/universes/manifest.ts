@@ -0,0 +1,56 @@
+// Universe manifests: each data folder (public/data/<id>/) that holds a
+// universe.json is a universe, with its own route, starmap and systems.
+
+import { z } from 'zod/v4'
+import { collectSchemaIssues } from '../validation/system-validation'
+import type { ValidationIssue } from '../validation/validators'
+
+export const UNIVERSE_MANIFEST_FILE = 'universe.json'
+
+export const universeFeatureSchema = z.enum([
+  'starmap',
+  'catalog-sky',
+  'jump-travel',
+  'transfer-planner',
+])
+
+export const universeThemeSchema = z.object({
+  sidebar_title: z.string().min(1).optional().describe('Sidebar heading (defaults to "3D Starfield")'),
+  accent_color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex color like "#9333ea"').optional(),
+})
+
+export const universeManifestSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Only lowercase letters, digits and hyphens are allowed').describe('Must match the folder name'),
+  title: z.string().min(1),
+  description: z.string(),
+  default_system: z.string().min(1).describe('System opened first, and the fallback for unknown systems'),
+  theme: universeThemeSchema.optional(),
+  features: z.array(universeFeatureSchema).describe('Optional parts of the viewer this universe turns on'),
+})
+
+export type UniverseFeature = z.infer<typeof universeFeatureSchema>
+export type UniverseTheme = z.infer<typeof universeThemeSchema>
+export type UniverseManifest = z.infer<typeof universeManifestSchema>
+
+export const DEFAULT_SIDEBAR_TITLE = '3D Starfield'
+
+/**
+ * Problems with a manifest read from the folder `folderId`, one per offending
+ * field. The manifest's ID has to name the folder it sits in.
+ */
+export function validateUniverseManifest(data: unknown, folderId?: string): ValidationIssue[] {
+  const issues = collectSchemaIssues(universeManifestSchema, data)
+  const id = (data as any)?.id
+  if (folderId !== undefined && typeof id === 'string' && id !== folderId) {
+    issues.push({ path: '/id', message: `ID "${id}" does not match its folder "${folderId}"` })
+  }
+  return issues
+}
+
+/**
+ * Whether a universe turns on `feature`. Folders without a manifest (test data,
+ * ad hoc modes) keep every feature.
+ */
+export function universeHasFeature(universe: UniverseManifest | null | undefined, feature: UniverseFeature): boolean {
+  return !universe || universe.features.includes(feature)
+}
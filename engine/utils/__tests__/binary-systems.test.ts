@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { findBinaryPairs, getBinaryStarIndex, classifyBinaryOrbit } from '../binary-systems';
+import { calculateSystemOrbitalMechanics, clearOrbitalMechanicsCache } from '../orbital-mechanics-calculator';
+import type { CelestialObject } from '../../types/orbital-system';
+
+const createBarycenter = (id: string): CelestialObject => ({
+  id,
+  name: id,
+  classification: 'barycenter',
+  geometry_type: 'none',
+  properties: { mass: 0, radius: 0, temperature: 0 },
+  position: [0, 0, 0]
+});
+
+const createStar = (id: string, mass: number, parent: string, semiMajorAxis: number): CelestialObject => ({
+  id,
+  name: id,
+  classification: 'star',
+  geometry_type: 'star',
+  properties: { mass, radius: 695700, temperature: 5778 },
+  orbit: { parent, semi_major_axis: semiMajorAxis, eccentricity: 0.1, inclination: 0, orbital_period: 3044 }
+});
+
+const createPlanet = (id: string, parent: string, semiMajorAxis: number): CelestialObject => ({
+  id,
+  name: id,
+  classification: 'planet',
+  geometry_type: 'terrestrial',
+  properties: { mass: 1, radius: 6371, temperature: 288 },
+  orbit: { parent, semi_major_axis: semiMajorAxis, eccentricity: 0, inclination: 0, orbital_period: 365 }
+});
+
+describe('Binary systems', () => {
+  const system = [
+    createBarycenter('ab'),
+    createStar('b', 0.8, 'ab', 2.78),
+    createStar('a', 1, 'ab', 2.22),
+    createStar('c', 0.1, 'ab', 500),
+    createPlanet('s-type', 'a', 0.8),
+    createPlanet('p-type', 'ab', 16),
+    createPlanet('too-close', 'ab', 8)
+  ];
+
+  describe('findBinaryPairs', () => {
+    it('pairs the two most massive stars about a barycenter', () => {
+      const [pair, ...rest] = findBinaryPairs(system);
+      expect(rest).toHaveLength(0);
+      expect(pair.barycenterId).toBe('ab');
+      expect(pair.primary.id).toBe('a');
+      expect(pair.secondary.id).toBe('b');
+      expect(pair.separation).toBeCloseTo(5);
+      expect(pair.massFraction).toBeCloseTo(0.8 / 1.8);
+      expect(pair.sTypeLimits.a).toBeGreaterThan(pair.sTypeLimits.b);
+      expect(pair.pTypeLimit).toBeGreaterThan(pair.separation);
+    });
+
+    it('accepts a shared parent that is not listed as an object', () => {
+      const pairs = findBinaryPairs([createStar('a', 1, 'implicit', 1), createStar('b', 1, 'implicit', 1)]);
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0].barycenterId).toBe('implicit');
+    });
+
+    it('ignores stars orbiting another star', () => {
+      const hierarchical = [
+        { ...createStar('a', 1, 'x', 0), orbit: undefined, position: [0, 0, 0] as [number, number, number] },
+        createStar('b', 0.5, 'a', 10),
+        createStar('c', 0.3, 'a', 40)
+      ];
+      expect(findBinaryPairs(hierarchical)).toEqual([]);
+    });
+  });
+
+  describe('getBinaryStarIndex', () => {
+    it('identifies the primary and secondary', () => {
+      const pairs = findBinaryPairs(system);
+      expect(getBinaryStarIndex('a', pairs)).toBe(0);
+      expect(getBinaryStarIndex('b', pairs)).toBe(1);
+      expect(getBinaryStarIndex('c', pairs)).toBeUndefined();
+    });
+  });
+
+  describe('classifyBinaryOrbit', () => {
+    const pairs = findBinaryPairs(system);
+    const byId = (id: string) => system.find(obj => obj.id === id)!;
+
+    it('classifies orbits around one star as S-type', () => {
+      expect(classifyBinaryOrbit(byId('s-type'), pairs)).toMatchObject({ type: 'S-type', stable: true });
+    });
+
+    it('classifies orbits around the barycenter as P-type', () => {
+      expect(classifyBinaryOrbit(byId('p-type'), pairs)).toMatchObject({ type: 'P-type', stable: true });
+      expect(classifyBinaryOrbit(byId('too-close'), pairs)).toMatchObject({ type: 'P-type', stable: false });
+    });
+
+    it('does not classify the binary stars themselves', () => {
+      expect(classifyBinaryOrbit(byId('a'), pairs)).toBeNull();
+    });
+  });
+
+  describe('orbital layout', () => {
+    beforeEach(() => {
+      clearOrbitalMechanicsCache();
+    });
+
+    it('places the pair in mass ratio with other barycenter orbits outside it', () => {
+      const mechanics = calculateSystemOrbitalMechanics(system, 'explorational');
+      const a = mechanics.get('a')!.orbitDistance!;
+      const b = mechanics.get('b')!.orbitDistance!;
+      expect(a / b).toBeCloseTo(0.8, 2);
+      expect(mechanics.get('p-type')!.orbitDistance!).toBeGreaterThan(a + b);
+      expect(mechanics.get('c')!.orbitDistance!).toBeGreaterThan(a + b);
+    });
+  });
+});
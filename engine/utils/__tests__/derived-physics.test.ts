@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { CelestialObject } from '../../types/orbital-system';
+import {
+  derivePhysics,
+  equilibriumTemperature,
+  escapeVelocity,
+  findGravitationalDomains,
+  findPhysicsDisagreements,
+  keplerOrbitalPeriod,
+  meanDensity,
+  surfaceGravity
+} from '../derived-physics';
+
+const EARTH_KG = 5.9722e24;
+const SUN_KG = 1.98847e30;
+
+const sun: CelestialObject = {
+  id: 'sol',
+  name: 'Sol',
+  classification: 'star',
+  geometry_type: 'star',
+  properties: { mass: 1, radius: 695700, temperature: 5778, luminosity: 1 },
+  position: [0, 0, 0]
+};
+
+const earth: CelestialObject = {
+  id: 'earth',
+  name: 'Earth',
+  classification: 'planet',
+  geometry_type: 'terrestrial',
+  properties: { mass: 1, radius: 6371, temperature: 288, albedo: 30 },
+  orbit: { parent: 'sol', semi_major_axis: 1, eccentricity: 0.0167, inclination: 0, orbital_period: 365.25 }
+};
+
+const luna: CelestialObject = {
+  id: 'luna',
+  name: 'Luna',
+  classification: 'moon',
+  geometry_type: 'rocky',
+  properties: { mass: 0.0123, radius: 1737.4, temperature: 220 },
+  orbit: { parent: 'earth', semi_major_axis: 0.00257, eccentricity: 0.0549, inclination: 5.1, orbital_period: 27.32 }
+};
+
+describe('derived physics formulas', () => {
+  it('matches Earth surface values', () => {
+    expect(surfaceGravity(EARTH_KG, 6371)).toBeCloseTo(1, 2);
+    expect(escapeVelocity(EARTH_KG, 6371)).toBeCloseTo(11.19, 2);
+    expect(meanDensity(EARTH_KG, 6371)).toBeCloseTo(5.51, 2);
+  });
+
+  it('gives Earth a one-year orbit and a black-body temperature near 255 K', () => {
+    expect(keplerOrbitalPeriod(1, SUN_KG)).toBeCloseTo(365.25, 0);
+    expect(equilibriumTemperature(1, 1, 0.3)).toBeCloseTo(255, 0);
+  });
+});
+
+describe('derivePhysics', () => {
+  const objects = [sun, earth, luna];
+
+  it('derives surface, orbital and thermal values', () => {
+    const derived = derivePhysics(earth, objects);
+
+    expect(derived.gravity).toBeCloseTo(1, 2);
+    expect(derived.orbital_period).toBeCloseTo(365.25, 0);
+    expect(derived.hill_radius).toBeCloseTo(0.0098, 4);
+    expect(derived.roche_limit).toBeGreaterThan(695700);
+    expect(derived.equilibrium_temperature).toBeCloseTo(255, 0);
+  });
+
+  it('lights moons by their planet’s distance from the star', () => {
+    const derived = derivePhysics(luna, objects);
+
+    expect(derived.orbital_period).toBeCloseTo(27.3, 0);
+    expect(derived.roche_limit).toBeCloseTo(18300, -3);
+    expect(derived.equilibrium_temperature).toBeCloseTo(278.6, 0);
+  });
+
+  it('skips orbit-based values for stars in a binary pair', () => {
+    const a = { ...sun, id: 'a', orbit: { parent: 'ab', semi_major_axis: 10, eccentricity: 0, inclination: 0, orbital_period: 80 } };
+    const b = { ...a, id: 'b' };
+    const derived = derivePhysics(a, [a, b]);
+
+    expect(derived.gravity).toBeGreaterThan(0);
+    expect(derived.orbital_period).toBeUndefined();
+    expect(derived.equilibrium_temperature).toBeUndefined();
+  });
+
+  it('uses both stars of a pair for circumbinary planets', () => {
+    const a = { ...sun, id: 'a', orbit: { parent: 'ab', semi_major_axis: 0.1, eccentricity: 0, inclination: 0, orbital_period: 10 } };
+    const b = { ...a, id: 'b' };
+    const planet = { ...earth, orbit: { ...earth.orbit!, parent: 'ab', semi_major_axis: 2 } };
+    const derived = derivePhysics(planet, [a, b, planet]);
+
+    expect(derived.orbital_period).toBeCloseTo(keplerOrbitalPeriod(2, 2 * SUN_KG, EARTH_KG), 3);
+    expect(derived.equilibrium_temperature).toBeCloseTo(equilibriumTemperature(2, 2, 0.3), 3);
+  });
+});
+
+describe('findGravitationalDomains', () => {
+  it('lists the Hill sphere and sphere of influence of each orbiting body', () => {
+    const domains = findGravitationalDomains([sun, earth, luna]);
+
+    expect(domains.map(d => d.objectId)).toEqual(['earth', 'luna']);
+    expect(domains[0].hillRadius).toBeCloseTo(0.0098, 4);
+    expect(domains[0].sphereOfInfluence).toBeCloseTo(0.00619, 4);
+    expect(domains[1].semiMajorAxis).toBe(0.00257);
+  });
+});
+
+describe('findPhysicsDisagreements', () => {
+  it('flags hand-entered values that differ from the derived ones', () => {
+    const mercury: CelestialObject = {
+      ...earth,
+      id: 'mercury',
+      properties: { mass: 0.055, radius: 2439.7, temperature: 440, gravity: 1, escape_velocity: 11.186, density: 5.43 },
+      orbit: { ...earth.orbit!, semi_major_axis: 0.387, orbital_period: 88 }
+    };
+    const disagreements = findPhysicsDisagreements(mercury, derivePhysics(mercury, [sun, mercury]));
+
+    expect(disagreements.map(d => d.property)).toEqual(['gravity', 'escape_velocity']);
+    expect(disagreements[0].declared).toBe(1);
+    expect(disagreements[0].derived).toBeCloseTo(0.377, 2);
+  });
+
+  it('ignores values that are missing or within tolerance', () => {
+    expect(findPhysicsDisagreements(earth, derivePhysics(earth, [sun, earth]))).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  equatorialToGalactic,
+  catalogStarPosition,
+  absoluteMagnitude,
+  bvToTemperature,
+  starmapPositionInLightYears,
+  skyObserverPosition,
+  projectSky
+} from '../star-catalog';
+import type { StarCatalogData, StarCatalogEntry } from '../../types/star-catalog';
+
+const sun: StarCatalogEntry = { id: 'sol', ra: 0, dec: 0, distance: 0, mag: -26.74, absolute_mag: 4.83, bv: 0.65, system_id: 'sol' };
+const sirius: StarCatalogEntry = { id: 'sirius', ra: 101.287, dec: -16.716, distance: 8.6, mag: -1.46, bv: 0 };
+const alphaCen: StarCatalogEntry = { id: 'alpha-centauri-a', ra: 219.902, dec: -60.834, distance: 4.37, mag: 0.01, bv: 0.71, system_id: 'alpha-centauri' };
+const proxima: StarCatalogEntry = { id: 'proxima-centauri', ra: 217.429, dec: -62.68, distance: 4.24, mag: 11.13, bv: 1.82 };
+
+const catalog: StarCatalogData = {
+  stars: [sun, sirius, alphaCen, proxima],
+  constellations: [{ id: 'test', name: 'Test', lines: [['alpha-centauri-a', 'proxima-centauri'], ['sirius', 'missing']] }]
+};
+
+const length = (v: number[]) => Math.hypot(v[0], v[1], v[2]);
+
+describe('Star catalog', () => {
+  describe('equatorialToGalactic', () => {
+    it('maps the galactic centre and north pole onto the galactic axes', () => {
+      const centre = equatorialToGalactic(266.405, -28.936);
+      expect(centre[0]).toBeCloseTo(1, 3);
+      const pole = equatorialToGalactic(192.859, 27.128);
+      expect(pole[2]).toBeCloseTo(1, 3);
+    });
+  });
+
+  describe('magnitudes and colours', () => {
+    it('derives absolute magnitude from distance', () => {
+      expect(absoluteMagnitude(sirius)).toBeCloseTo(1.43, 1);
+      expect(absoluteMagnitude(sun)).toBe(4.83);
+    });
+
+    it('estimates temperature from the colour index', () => {
+      expect(bvToTemperature(0.65)).toBeCloseTo(5800, -2);
+      expect(bvToTemperature(1.8)).toBeLessThan(bvToTemperature(0));
+    });
+  });
+
+  describe('starmapPositionInLightYears', () => {
+    it('converts starmap units to light years', () => {
+      expect(starmapPositionInLightYears([4.37, 0, 0], 'light_years')).toEqual([4.37, 0, 0]);
+      expect(starmapPositionInLightYears([1, 0, 0], 'parsecs')[0]).toBeCloseTo(3.26, 2);
+      expect(starmapPositionInLightYears([63241.077, 0, 0], 'astronomical_units')[0]).toBeCloseTo(1);
+    });
+  });
+
+  describe('skyObserverPosition', () => {
+    it("places a system at its catalog star rather than its starmap position", () => {
+      expect(skyObserverPosition(catalog, 'alpha-centauri', [4.37, 0, 0])).toEqual(catalogStarPosition(alphaCen));
+    });
+
+    it('falls back to the starmap position, then Sol', () => {
+      expect(skyObserverPosition(catalog, 'kepler-442', [1206, 0, 0])).toEqual([1206, 0, 0]);
+      expect(skyObserverPosition(catalog, 'kepler-442')).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('projectSky', () => {
+    it('reproduces catalog magnitudes as seen from Sol', () => {
+      const sky = projectSky(catalog, [0, 0, 0], { excludeSystemId: 'sol' });
+      const byId = Object.fromEntries(sky.stars.map(star => [star.id, star]));
+      expect(byId.sirius.magnitude).toBeCloseTo(-1.46);
+      expect(byId.sol).toBeUndefined();
+      // Proxima is far below naked-eye brightness from Sol
+      expect(byId['proxima-centauri']).toBeUndefined();
+    });
+
+    it('reprojects the sky from another system', () => {
+      // The starmap puts Alpha Centauri on +X, away from its catalog direction
+      const observer = skyObserverPosition(catalog, 'alpha-centauri', [4.37, 0, 0]);
+      const sky = projectSky(catalog, observer, { excludeSystemId: 'alpha-centauri' });
+      const byId = Object.fromEntries(sky.stars.map(star => [star.id, star]));
+
+      // The Sun is a bright star in Cassiopeia seen from Alpha Centauri
+      expect(byId.sol.magnitude).toBeCloseTo(0.47, 1);
+      expect(byId['alpha-centauri-a']).toBeUndefined();
+
+      const fromSol = projectSky(catalog, [0, 0, 0]).stars.find(star => star.id === 'sirius')!;
+      expect(byId.sirius.direction).not.toEqual(fromSol.direction);
+      expect(length(byId.sirius.direction)).toBeCloseTo(1);
+    });
+
+    it('skips catalog stars at the observer position', () => {
+      const sky = projectSky(catalog, [0, 0, 0]);
+      expect(sky.stars.some(star => star.id === 'sol')).toBe(false);
+    });
+
+    it('draws constellation lines to faint stars but not missing ones', () => {
+      const sky = projectSky(catalog, [0, 0, 0]);
+      expect(sky.constellationSegments).toHaveLength(1);
+    });
+  });
+});
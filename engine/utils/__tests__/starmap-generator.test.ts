@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { generateStarmap } from '../starmap-generator'
+import { findRoute, validateRoute } from '../starmap-routing'
+
+describe('generateStarmap', () => {
+  it('generates the requested number of systems', () => {
+    const starmap = generateStarmap({ count: 250 })
+    expect(Object.keys(starmap.systems)).toHaveLength(250)
+    expect(starmap.metadata?.total_systems).toBe(250)
+  })
+
+  it('is deterministic for a seed', () => {
+    expect(generateStarmap({ count: 50, seed: 7 })).toEqual(generateStarmap({ count: 50, seed: 7 }))
+    expect(generateStarmap({ count: 50, seed: 7 })).not.toEqual(generateStarmap({ count: 50, seed: 8 }))
+  })
+
+  it('only creates symmetric routes between existing systems', () => {
+    const starmap = generateStarmap({ count: 200, seed: 3 })
+    for (const system of Object.values(starmap.systems)) {
+      for (const target of system.jump_routes ?? []) {
+        expect(starmap.systems[target]).toBeDefined()
+        expect(starmap.systems[target].jump_routes).toContain(system.id)
+        expect(target).not.toBe(system.id)
+      }
+    }
+  })
+
+  it('produces a connected map', () => {
+    const starmap = generateStarmap({ count: 300, seed: 11, extraRoutes: 0 })
+    const ids = Object.keys(starmap.systems)
+    const route = findRoute(starmap, ids[0], ids[ids.length - 1], { algorithm: 'dijkstra' })
+    expect(route).not.toBeNull()
+    expect(validateRoute(route!.systems, starmap).valid).toBe(true)
+  })
+
+  it('keeps systems within the requested radius', () => {
+    const starmap = generateStarmap({ count: 100, radius: 20, thickness: 0.1 })
+    for (const system of Object.values(starmap.systems)) {
+      const [x, y, z] = system.position
+      expect(Math.hypot(x, z)).toBeLessThanOrEqual(20)
+      expect(Math.abs(y)).toBeLessThanOrEqual(2)
+    }
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { findRoute, validateRoute, describeRoute, jumpDistance } from '../starmap-routing'
+import type { StarmapData } from '../../types/orbital-system'
+
+// A ── B ── D
+//  \       /
+//   C ─────     (C is lawless, B is dangerous)
+//  E is isolated
+const createStarmap = (): StarmapData => ({
+  systems: {
+    a: { id: 'a', name: 'Alpha', position: [0, 0, 0], jump_routes: ['b', 'c'], tags: [] },
+    b: { id: 'b', name: 'Beta', position: [10, 0, 0], jump_routes: ['a', 'd'], tags: ['dangerous'] },
+    c: { id: 'c', name: 'Gamma', position: [0, 12, 0], jump_routes: ['a', 'd'], tags: ['lawless'] },
+    d: { id: 'd', name: 'Delta', position: [20, 0, 0], jump_routes: ['b', 'c'], tags: [] },
+    e: { id: 'e', name: 'Epsilon', position: [50, 50, 0], jump_routes: [], tags: [] },
+  },
+  metadata: {},
+})
+
+describe('starmap routing', () => {
+  describe('validateRoute', () => {
+    it('accepts a connected route', () => {
+      expect(validateRoute(['a', 'b', 'd'], createStarmap())).toEqual({ valid: true })
+    })
+
+    it('accepts empty and single-system routes', () => {
+      expect(validateRoute([], createStarmap()).valid).toBe(true)
+      expect(validateRoute(['a'], createStarmap()).valid).toBe(true)
+    })
+
+    it('rejects non-adjacent systems with the offending index', () => {
+      const result = validateRoute(['a', 'd'], createStarmap())
+      expect(result.valid).toBe(false)
+      expect(result.invalidIndex).toBe(1)
+      expect(result.error).toContain('Alpha')
+      expect(result.error).toContain('Delta')
+    })
+
+    it('rejects unknown systems', () => {
+      const result = validateRoute(['a', 'nowhere'], createStarmap())
+      expect(result.valid).toBe(false)
+      expect(result.invalidIndex).toBe(1)
+      expect(result.error).toContain('nowhere')
+    })
+  })
+
+  describe('findRoute', () => {
+    it('finds the shortest route by distance', () => {
+      const route = findRoute(createStarmap(), 'a', 'd')
+      expect(route?.systems).toEqual(['a', 'b', 'd'])
+      expect(route?.totalDistance).toBeCloseTo(20)
+      expect(route?.totalCost).toBeCloseTo(20)
+    })
+
+    it('gives the same cost with Dijkstra and A*', () => {
+      const starmap = createStarmap()
+      const weights = { tagPenalties: { dangerous: 5 } }
+      const dijkstra = findRoute(starmap, 'a', 'd', { algorithm: 'dijkstra', weights })
+      const astar = findRoute(starmap, 'a', 'd', { algorithm: 'astar', weights })
+      expect(astar?.totalCost).toBeCloseTo(dijkstra!.totalCost)
+      expect(astar?.systems).toEqual(dijkstra?.systems)
+    })
+
+    it('detours around tagged systems when they are penalised', () => {
+      const route = findRoute(createStarmap(), 'a', 'd', { weights: { tagPenalties: { dangerous: 100 } } })
+      expect(route?.systems).toEqual(['a', 'c', 'd'])
+    })
+
+    it('picks the lesser penalty when every route crosses a tagged system', () => {
+      const route = findRoute(createStarmap(), 'a', 'd', {
+        weights: { tagPenalties: { dangerous: 100, lawless: 10 } },
+      })
+      expect(route?.systems).toEqual(['a', 'c', 'd'])
+    })
+
+    it('never enters avoided systems', () => {
+      const route = findRoute(createStarmap(), 'a', 'd', { avoid: ['b'] })
+      expect(route?.systems).toEqual(['a', 'c', 'd'])
+      expect(findRoute(createStarmap(), 'a', 'd', { avoid: ['b', 'c'] })).toBeNull()
+    })
+
+    it('ignores the start and destination in the avoid list', () => {
+      const route = findRoute(createStarmap(), 'a', 'd', { avoid: ['a', 'd'] })
+      expect(route?.systems).toEqual(['a', 'b', 'd'])
+    })
+
+    it('counts a flat cost per jump', () => {
+      const route = findRoute(createStarmap(), 'a', 'd', { weights: { distance: 0, jump: 1 } })
+      expect(route?.legs).toHaveLength(2)
+      expect(route?.totalCost).toBe(2)
+    })
+
+    it('returns null for unreachable or unknown systems', () => {
+      expect(findRoute(createStarmap(), 'a', 'e')).toBeNull()
+      expect(findRoute(createStarmap(), 'a', 'nowhere')).toBeNull()
+    })
+
+    it('returns a zero-length route when start and destination match', () => {
+      const route = findRoute(createStarmap(), 'a', 'a')
+      expect(route?.systems).toEqual(['a'])
+      expect(route?.legs).toEqual([])
+      expect(route?.totalCost).toBe(0)
+    })
+
+    it('rejects negative weights', () => {
+      expect(() => findRoute(createStarmap(), 'a', 'd', { weights: { jump: -1 } })).toThrow(/non-negative/)
+    })
+  })
+
+  describe('describeRoute', () => {
+    it('lists legs with cumulative costs', () => {
+      const starmap = createStarmap()
+      const route = describeRoute(['a', 'b', 'd'], starmap, { jump: 2 })
+      expect(route.legs.map(leg => [leg.from, leg.to])).toEqual([['a', 'b'], ['b', 'd']])
+      expect(route.legs[0].cost).toBeCloseTo(jumpDistance(starmap, 'a', 'b') + 2)
+      expect(route.legs[1].cumulativeCost).toBeCloseTo(24)
+      expect(route.totalCost).toBeCloseTo(24)
+    })
+  })
+})
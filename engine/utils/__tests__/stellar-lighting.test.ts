@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blackbodyColor,
+  blackbodyHex,
+  getStarLuminosity,
+  computeStarLights,
+  PRIMARY_STAR_INTENSITY,
+  STAR_ROLE_WEIGHTS
+} from '../stellar-lighting';
+import type { CelestialObject } from '../../types/orbital-system';
+
+const createStar = (id: string, properties: CelestialObject['properties']): CelestialObject => ({
+  id,
+  name: id,
+  classification: 'star',
+  geometry_type: 'star',
+  properties
+});
+
+describe('Stellar lighting', () => {
+  describe('blackbodyColor', () => {
+    it('is red for cool stars, near white for the Sun and blue for hot stars', () => {
+      const [coolR, , coolB] = blackbodyColor(3000);
+      expect(coolR).toBe(1);
+      expect(coolB).toBeLessThan(0.5);
+
+      const sun = blackbodyColor(5778);
+      sun.forEach(channel => expect(channel).toBeGreaterThan(0.85));
+
+      const [hotR, , hotB] = blackbodyColor(20000);
+      expect(hotB).toBe(1);
+      expect(hotR).toBeLessThan(0.8);
+    });
+
+    it('clamps temperatures outside the fitted range', () => {
+      expect(blackbodyColor(100)).toEqual(blackbodyColor(1000));
+      expect(blackbodyColor(1e6)).toEqual(blackbodyColor(40000));
+    });
+
+    it('formats as a hex colour', () => {
+      expect(blackbodyHex(6600)).toMatch(/^#ff[0-9a-f]{4}$/);
+    });
+  });
+
+  describe('getStarLuminosity', () => {
+    it('prefers the given luminosity', () => {
+      expect(getStarLuminosity(createStar('a', { mass: 1, radius: 695700, temperature: 5778, luminosity: 0.38 }))).toBe(0.38);
+    });
+
+    it('derives luminosity from radius and temperature', () => {
+      expect(getStarLuminosity(createStar('sun', { mass: 1, radius: 695700, temperature: 5778 }))).toBeCloseTo(1);
+      expect(getStarLuminosity(createStar('big', { mass: 1, radius: 695700 * 2, temperature: 5778 }))).toBeCloseTo(4);
+    });
+  });
+
+  describe('computeStarLights', () => {
+    const primary = createStar('a', { mass: 1, radius: 695700, temperature: 5778, luminosity: 1 });
+    const secondary = createStar('b', { mass: 0.93, radius: 695700, temperature: 5260, luminosity: 0.36 });
+    const distant = createStar('c', { mass: 0.12, radius: 695700, temperature: 3240, luminosity: 0.0055 });
+
+    it('weights lights by role and relative luminosity', () => {
+      const lights = computeStarLights([secondary, distant, primary], { primary_star: 'a', secondary_star: 'b' });
+      const byId = Object.fromEntries(lights.map(light => [light.id, light]));
+
+      expect(byId.a).toMatchObject({ role: 'primary', intensity: PRIMARY_STAR_INTENSITY });
+      expect(byId.b.role).toBe('secondary');
+      expect(byId.b.intensity).toBeCloseTo(PRIMARY_STAR_INTENSITY * STAR_ROLE_WEIGHTS.secondary * 0.6);
+      // Very dim stars are floored rather than vanishing
+      expect(byId.c.intensity).toBeCloseTo(PRIMARY_STAR_INTENSITY * STAR_ROLE_WEIGHTS.other * 0.1);
+    });
+
+    it('colours each light by its own temperature', () => {
+      const [a, b] = computeStarLights([primary, secondary], { primary_star: 'a' });
+      expect(a.color).toBe(blackbodyHex(5778));
+      expect(b.color).toBe(blackbodyHex(5260));
+      expect(a.color).not.toBe(b.color);
+    });
+
+    it('falls back to the most luminous star when the primary is unknown', () => {
+      const lights = computeStarLights([distant, secondary], { primary_star: 'missing' });
+      expect(lights.find(light => light.role === 'primary')?.id).toBe('b');
+    });
+
+    it('returns no lights for a system without stars', () => {
+      expect(computeStarLights([], { primary_star: 'a' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { collectTimelineEvents, getTimelineRange, timeToFraction, fractionToTime } from '../timeline'
+import type { OrbitalSystemData } from '../../types/orbital-system'
+
+const createSystem = (): OrbitalSystemData => ({
+  id: 'test-system',
+  name: 'Test System',
+  description: 'Timeline fixture',
+  lighting: {
+    primary_star: 'star',
+    ambient_level: 0.1,
+    stellar_influence_radius: 100,
+  },
+  timeline: [
+    { date: '2000-06-01', title: 'System surveyed', description: 'First survey' },
+  ],
+  objects: [
+    {
+      id: 'star',
+      name: 'Star',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+      timeline: [
+        { date: '2010-01-01', title: 'Flare', description: 'Large flare' },
+      ],
+    },
+    {
+      id: 'planet',
+      name: 'Planet',
+      classification: 'planet',
+      geometry_type: 'terrestrial',
+      properties: { mass: 1, radius: 6371, temperature: 288 },
+      orbit: {
+        parent: 'star',
+        semi_major_axis: 1,
+        eccentricity: 0,
+        inclination: 0,
+        orbital_period: 365.25,
+      },
+      timeline: [
+        { date: '1990-03-15', title: 'Landing', description: 'First landing', agency: 'UEE' },
+        { date: '2000-Present', title: 'Ongoing', description: 'No fixed date' },
+      ],
+    },
+  ],
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('collectTimelineEvents', () => {
+  it('collects object and system events in chronological order', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const events = collectTimelineEvents(createSystem())
+
+    expect(events.map(event => event.title)).toEqual(['Landing', 'System surveyed', 'Flare'])
+    expect(events[0]).toMatchObject({
+      id: 'planet:0',
+      objectId: 'planet',
+      objectName: 'Planet',
+      agency: 'UEE',
+      time: Date.UTC(1990, 2, 15),
+    })
+  })
+
+  it('leaves system-wide events without an object', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const survey = collectTimelineEvents(createSystem()).find(event => event.title === 'System surveyed')
+
+    expect(survey?.objectId).toBeUndefined()
+    expect(survey?.id).toBe('test-system:0')
+  })
+
+  it('skips events whose date cannot be parsed', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const events = collectTimelineEvents(createSystem())
+
+    expect(events.find(event => event.title === 'Ongoing')).toBeUndefined()
+    expect(warn).toHaveBeenCalled()
+  })
+})
+
+describe('getTimelineRange', () => {
+  it('returns null when there are no events', () => {
+    expect(getTimelineRange([])).toBeNull()
+  })
+
+  it('pads the range around the first and last events', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const events = collectTimelineEvents(createSystem())
+    const range = getTimelineRange(events)!
+
+    expect(range.start).toBeLessThan(events[0].time)
+    expect(range.end).toBeGreaterThan(events[events.length - 1].time)
+  })
+
+  it('gives a single event a non-empty window centred on it', () => {
+    const time = Date.UTC(2020, 0, 1)
+    const range = getTimelineRange([{ id: 'a', time, date: '2020-01-01', title: 'A', description: '' }])!
+
+    expect(range.end).toBeGreaterThan(range.start)
+    expect(timeToFraction(time, range)).toBeCloseTo(0.5)
+  })
+})
+
+describe('timeToFraction / fractionToTime', () => {
+  it('round-trips times within the range', () => {
+    const range = { start: 1000, end: 5000 }
+    expect(timeToFraction(2000, range)).toBeCloseTo(0.25)
+    expect(fractionToTime(0.25, range)).toBeCloseTo(2000)
+  })
+})
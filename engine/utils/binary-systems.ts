@@ -0,0 +1,132 @@
+import {
+  CelestialObject,
+  isBarycenter,
+  isBeltOrbitData,
+  isOrbitData,
+  isStar
+} from '../types/orbital-system';
+import {
+  isBinaryOrbitStable,
+  pTypeStabilityLimit,
+  sTypeStabilityLimit,
+  type BinaryOrbitType
+} from '../ephemeris/binary';
+
+/**
+ * Two stars orbiting a common barycenter. Distances are in AU.
+ */
+export interface BinaryPair {
+  barycenterId: string; // the barycenter object, or the shared parent ID when no such object is listed
+  primary: CelestialObject;
+  secondary: CelestialObject;
+  separation: number; // semi-major axis of the relative orbit
+  eccentricity: number;
+  massFraction: number; // secondary's share of the total mass
+  pTypeLimit: number; // circumbinary orbits are stable beyond this distance from the barycenter
+  sTypeLimits: Record<string, number>; // orbits around each star are stable within this distance of it
+}
+
+export interface BinaryOrbitClassification {
+  pair: BinaryPair;
+  type: BinaryOrbitType;
+  limit: number;
+  stable: boolean;
+}
+
+const starMass = (star: CelestialObject) => Math.max(star.properties.mass || 0, 0);
+
+/**
+ * Binary pairs in a system: for each barycenter (or unlisted shared parent) with
+ * at least two stars, its two most massive stars. Further stars around the same
+ * barycenter, like Proxima Centauri around Alpha Centauri AB, orbit the pair.
+ */
+export function findBinaryPairs(objects: CelestialObject[]): BinaryPair[] {
+  const starsByParent = new Map<string, CelestialObject[]>();
+
+  for (const obj of objects) {
+    const parentId = obj.orbit?.parent;
+    if (!parentId || !isStar(obj) || !obj.orbit || !isOrbitData(obj.orbit)) continue;
+    const parent = objects.find(candidate => candidate.id === parentId);
+    // Stars orbiting another star are hierarchical, not a pair about a barycenter
+    if (parent && !isBarycenter(parent)) continue;
+    if (!starsByParent.has(parentId)) starsByParent.set(parentId, []);
+    starsByParent.get(parentId)!.push(obj);
+  }
+
+  const pairs: BinaryPair[] = [];
+  starsByParent.forEach((stars, barycenterId) => {
+    if (stars.length < 2) return;
+    const [primary, secondary] = [...stars].sort((a, b) => starMass(b) - starMass(a) || a.id.localeCompare(b.id));
+    const primaryOrbit = primary.orbit && isOrbitData(primary.orbit) ? primary.orbit : null;
+    const secondaryOrbit = secondary.orbit && isOrbitData(secondary.orbit) ? secondary.orbit : null;
+    if (!primaryOrbit || !secondaryOrbit) return;
+
+    const separation = primaryOrbit.semi_major_axis + secondaryOrbit.semi_major_axis;
+    const eccentricity = primaryOrbit.eccentricity || 0;
+    const totalMass = starMass(primary) + starMass(secondary);
+    const massFraction = totalMass > 0 ? starMass(secondary) / totalMass : 0.5;
+
+    pairs.push({
+      barycenterId,
+      primary,
+      secondary,
+      separation,
+      eccentricity,
+      massFraction,
+      pTypeLimit: pTypeStabilityLimit(separation, eccentricity, massFraction),
+      sTypeLimits: {
+        [primary.id]: sTypeStabilityLimit(separation, eccentricity, massFraction),
+        [secondary.id]: sTypeStabilityLimit(separation, eccentricity, 1 - massFraction)
+      }
+    });
+  });
+
+  return pairs;
+}
+
+/**
+ * Index of a star within its binary pair (0 = primary, 1 = secondary), if it is in one
+ */
+export function getBinaryStarIndex(objectId: string, pairs: BinaryPair[]): 0 | 1 | undefined {
+  for (const pair of pairs) {
+    if (pair.primary.id === objectId) return 0;
+    if (pair.secondary.id === objectId) return 1;
+  }
+  return undefined;
+}
+
+/**
+ * P-type or S-type classification of an object orbiting a binary, with the
+ * relevant stability limit. Belts are judged by their nearest edge to the
+ * unstable region. Returns null for objects that don't orbit a binary.
+ */
+export function classifyBinaryOrbit(object: CelestialObject, pairs: BinaryPair[]): BinaryOrbitClassification | null {
+  const parentId = object.orbit?.parent;
+  if (!parentId || !object.orbit) return null;
+
+  for (const pair of pairs) {
+    if (object.id === pair.primary.id || object.id === pair.secondary.id) return null;
+
+    let type: BinaryOrbitType;
+    let limit: number;
+    if (parentId === pair.barycenterId) {
+      type = 'P-type';
+      limit = pair.pTypeLimit;
+    } else if (parentId in pair.sTypeLimits) {
+      type = 'S-type';
+      limit = pair.sTypeLimits[parentId];
+    } else {
+      continue;
+    }
+
+    const distance = isOrbitData(object.orbit)
+      ? object.orbit.semi_major_axis
+      : isBeltOrbitData(object.orbit)
+        ? (type === 'P-type' ? object.orbit.inner_radius : object.orbit.outer_radius)
+        : 0;
+
+    return { pair, type, limit, stable: isBinaryOrbitStable(type, distance, limit) };
+  }
+
+  return null;
+}
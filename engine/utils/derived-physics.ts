@@ -0,0 +1,261 @@
+import { CelestialObject, isBarycenter, isOrbitData, isStar } from '../types/orbital-system';
+import { convertMass, KM_PER_LENGTH_UNIT } from '../units/units';
+import { massUnitFor } from '../units/property-units';
+import { getStarLuminosity } from './stellar-lighting';
+
+const G = 6.674e-11; // m³ kg⁻¹ s⁻²
+const STANDARD_GRAVITY = 9.80665; // m/s², 1 g
+const M_PER_KM = 1000;
+const M_PER_AU = KM_PER_LENGTH_UNIT.AU * M_PER_KM;
+const SECONDS_PER_DAY = 86400;
+
+// Equilibrium temperature of a black body 1 AU from a 1 L☉ star
+const EQUILIBRIUM_TEMPERATURE_1AU = 278.6;
+
+// Fluid-body Roche limit coefficient
+const ROCHE_COEFFICIENT = 2.44;
+
+// Hand-entered values within this fraction of the derived value agree
+export const DEFAULT_PHYSICS_TOLERANCE = 0.1;
+
+/**
+ * Physical quantities derived from an object's mass, radius and orbit. Only
+ * the quantities the data supports are present.
+ */
+export interface DerivedPhysics {
+  gravity?: number; // surface gravity in g
+  escape_velocity?: number; // km/s
+  density?: number; // mean density in g/cm³
+  orbital_period?: number; // days, from Kepler's third law
+  hill_radius?: number; // AU
+  sphere_of_influence?: number; // AU (Laplace)
+  roche_limit?: number; // km from the parent's centre, for a fluid body
+  equilibrium_temperature?: number; // K
+}
+
+/**
+ * Hand-entered properties that can be checked against a derived value, with
+ * the unit the data uses for them
+ */
+export const CHECKED_PHYSICS_PROPERTIES = {
+  gravity: 'g',
+  escape_velocity: 'km/s',
+  density: 'g/cm³',
+  orbital_period: 'days'
+} as const;
+
+export type CheckedPhysicsProperty = keyof typeof CHECKED_PHYSICS_PROPERTIES;
+
+export interface PhysicsDisagreement {
+  property: CheckedPhysicsProperty;
+  declared: number;
+  derived: number;
+}
+
+export function surfaceGravity(massKg: number, radiusKm: number): number {
+  const radius = radiusKm * M_PER_KM;
+  return G * massKg / (radius * radius) / STANDARD_GRAVITY;
+}
+
+export function escapeVelocity(massKg: number, radiusKm: number): number {
+  return Math.sqrt(2 * G * massKg / (radiusKm * M_PER_KM)) / M_PER_KM;
+}
+
+export function meanDensity(massKg: number, radiusKm: number): number {
+  const radiusCm = radiusKm * 1e5;
+  return massKg * 1000 / (4 / 3 * Math.PI * Math.pow(radiusCm, 3));
+}
+
+/**
+ * Orbital period in days of a body of mass `massKg` about a primary of
+ * `centralMassKg` (Kepler's third law)
+ */
+export function keplerOrbitalPeriod(semiMajorAxisAU: number, centralMassKg: number, massKg = 0): number {
+  const a = semiMajorAxisAU * M_PER_AU;
+  return 2 * Math.PI * Math.sqrt(a * a * a / (G * (centralMassKg + massKg))) / SECONDS_PER_DAY;
+}
+
+/**
+ * Hill sphere radius in AU at periapsis: r = a(1 − e)∛(m / 3M)
+ */
+export function hillSphereRadius(semiMajorAxisAU: number, eccentricity: number, massKg: number, centralMassKg: number): number {
+  return semiMajorAxisAU * (1 - eccentricity) * Math.cbrt(massKg / (3 * centralMassKg));
+}
+
+/**
+ * Laplace sphere of influence in AU: r = a (m / M)^⅖, where patched-conic
+ * trajectories switch from the primary's gravity to the body's
+ */
+export function sphereOfInfluenceRadius(semiMajorAxisAU: number, massKg: number, centralMassKg: number): number {
+  return semiMajorAxisAU * Math.pow(massKg / centralMassKg, 0.4);
+}
+
+/**
+ * Distance in km from a primary's centre inside which a fluid satellite of
+ * density `satelliteDensity` is pulled apart: d = 2.44 R (ρ_M / ρ_m)^⅓
+ */
+export function rocheLimit(primaryRadiusKm: number, primaryDensity: number, satelliteDensity: number): number {
+  return ROCHE_COEFFICIENT * primaryRadiusKm * Math.cbrt(primaryDensity / satelliteDensity);
+}
+
+/**
+ * Black-body equilibrium temperature in K at `distanceAU` from stars of total
+ * `luminosity` (L☉), for a Bond albedo of 0–1
+ */
+export function equilibriumTemperature(luminosity: number, distanceAU: number, albedo = 0): number {
+  return EQUILIBRIUM_TEMPERATURE_1AU * Math.pow(luminosity * (1 - albedo), 0.25) / Math.sqrt(distanceAU);
+}
+
+/**
+ * Mass in kg of an object, from its mass in the declared unit for its classification
+ */
+export function objectMassKg(object: CelestialObject): number {
+  const mass = object.properties.mass;
+  return typeof mass === 'number' && mass > 0 ? convertMass(mass, massUnitFor(object.classification), 'kg') : 0;
+}
+
+function hasSize(object: CelestialObject): boolean {
+  return objectMassKg(object) > 0 && typeof object.properties.radius === 'number' && object.properties.radius > 0;
+}
+
+// Stars sharing a barycenter (listed or implicit), which together act as the primary
+function starsAbout(barycenterId: string, objects: CelestialObject[]): CelestialObject[] {
+  return objects.filter(obj => isStar(obj) && obj.orbit?.parent === barycenterId);
+}
+
+/**
+ * Mass in kg that bodies orbiting `parentId` move about: the parent object, or
+ * the stars sharing a barycenter when the parent is one (listed or implicit)
+ */
+export function primaryMassKg(parentId: string, objects: CelestialObject[]): number {
+  const parent = objects.find(obj => obj.id === parentId);
+  return !parent || isBarycenter(parent)
+    ? starsAbout(parentId, objects).reduce((sum, star) => sum + objectMassKg(star), 0)
+    : objectMassKg(parent);
+}
+
+/**
+ * Everything derivable for `object` from its own properties, its orbit and the
+ * objects it orbits. Objects in a binary pair get no orbit-based values, as
+ * their orbit is about the barycenter rather than a primary.
+ */
+export function derivePhysics(object: CelestialObject, objects: CelestialObject[]): DerivedPhysics {
+  const derived: DerivedPhysics = {};
+  const mass = objectMassKg(object);
+  const radius = object.properties.radius;
+
+  if (hasSize(object)) {
+    derived.gravity = surfaceGravity(mass, radius);
+    derived.escape_velocity = escapeVelocity(mass, radius);
+    derived.density = meanDensity(mass, radius);
+  }
+
+  const orbit = object.orbit && isOrbitData(object.orbit) ? object.orbit : null;
+  if (!orbit || orbit.semi_major_axis <= 0) return derived;
+
+  const parent = objects.find(obj => obj.id === orbit.parent);
+  const aboutBarycenter = !parent || isBarycenter(parent);
+  if (aboutBarycenter && isStar(object)) return derived;
+
+  const centralMass = primaryMassKg(orbit.parent, objects);
+
+  if (centralMass > 0) {
+    derived.orbital_period = keplerOrbitalPeriod(orbit.semi_major_axis, centralMass, mass);
+    if (mass > 0) {
+      derived.hill_radius = hillSphereRadius(orbit.semi_major_axis, orbit.eccentricity, mass, centralMass);
+      derived.sphere_of_influence = sphereOfInfluenceRadius(orbit.semi_major_axis, mass, centralMass);
+    }
+  }
+
+  if (parent && !aboutBarycenter && hasSize(parent) && derived.density) {
+    derived.roche_limit = rocheLimit(parent.properties.radius, meanDensity(objectMassKg(parent), parent.properties.radius), derived.density);
+  }
+
+  if (!isStar(object)) {
+    const illumination = findIllumination(object, objects);
+    if (illumination) {
+      const albedo = typeof object.properties.albedo === 'number' ? object.properties.albedo / 100 : 0;
+      derived.equilibrium_temperature = equilibriumTemperature(illumination.luminosity, illumination.distance, albedo);
+    }
+  }
+
+  return derived;
+}
+
+/**
+ * A body's gravitational domain: its Hill sphere and sphere of influence, with
+ * the semi-major axis they were computed from (all AU)
+ */
+export interface GravitationalDomain {
+  objectId: string;
+  semiMajorAxis: number;
+  hillRadius: number;
+  sphereOfInfluence: number;
+}
+
+/**
+ * Gravitational domains of every body with a mass and an orbit about a massive
+ * primary, from true physical values
+ */
+export function findGravitationalDomains(objects: CelestialObject[]): GravitationalDomain[] {
+  const domains: GravitationalDomain[] = [];
+  for (const object of objects) {
+    const { hill_radius, sphere_of_influence } = derivePhysics(object, objects);
+    if (hill_radius === undefined || sphere_of_influence === undefined) continue;
+    const orbit = object.orbit && isOrbitData(object.orbit) ? object.orbit : null;
+    domains.push({ objectId: object.id, semiMajorAxis: orbit!.semi_major_axis, hillRadius: hill_radius, sphereOfInfluence: sphere_of_influence });
+  }
+  return domains;
+}
+
+/**
+ * Total luminosity (L☉) lighting an object and its distance from the source in
+ * AU: the orbit of the object, or of the planet it belongs to, about the nearest
+ * star or stellar barycenter
+ */
+function findIllumination(object: CelestialObject, objects: CelestialObject[]): { luminosity: number; distance: number } | null {
+  const visited = new Set<string>();
+  let current: CelestialObject | undefined = object;
+
+  while (current?.orbit && isOrbitData(current.orbit) && !visited.has(current.id)) {
+    visited.add(current.id);
+    const parentId: string = current.orbit.parent;
+    const parent = objects.find(obj => obj.id === parentId);
+    const stars = !parent || isBarycenter(parent) ? starsAbout(parentId, objects) : isStar(parent) ? [parent] : [];
+
+    if (stars.length > 0) {
+      const luminosity = stars.reduce((sum, star) => sum + getStarLuminosity(star), 0);
+      return current.orbit.semi_major_axis > 0 ? { luminosity, distance: current.orbit.semi_major_axis } : null;
+    }
+    current = parent;
+  }
+  return null;
+}
+
+/**
+ * Hand-entered `gravity`, `escape_velocity`, `density` and orbital period that
+ * differ from the derived value by more than `tolerance` (a fraction)
+ */
+export function findPhysicsDisagreements(
+  object: CelestialObject,
+  derived: DerivedPhysics,
+  tolerance = DEFAULT_PHYSICS_TOLERANCE
+): PhysicsDisagreement[] {
+  const declaredValues: Record<CheckedPhysicsProperty, unknown> = {
+    gravity: object.properties.gravity,
+    escape_velocity: object.properties.escape_velocity,
+    density: object.properties.density,
+    orbital_period: object.orbit && isOrbitData(object.orbit) ? object.orbit.orbital_period : undefined
+  };
+
+  const disagreements: PhysicsDisagreement[] = [];
+  (Object.keys(CHECKED_PHYSICS_PROPERTIES) as CheckedPhysicsProperty[]).forEach(property => {
+    const declared = declaredValues[property];
+    const value = derived[property];
+    if (typeof declared !== 'number' || !(declared > 0) || value === undefined) return;
+    if (Math.abs(declared - value) > tolerance * value) {
+      disagreements.push({ property, declared, derived: value });
+    }
+  });
+  return disagreements;
+}
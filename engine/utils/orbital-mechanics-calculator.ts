@@ -88,6 +88,8 @@
 import { ViewType } from '@lib/types/effects-level';
 import { CelestialObject, isOrbitData, isBeltOrbitData } from '@/engine/types/orbital-system';
 import { getOrbitalMechanicsConfig } from '@/engine/core/view-modes/compatibility';
+import { binaryOrbitRadii } from '@/engine/ephemeris/binary';
+import { findBinaryPairs, type BinaryPair } from '@/engine/utils/binary-systems';
 // Import view modes to ensure they are registered
 import '@/engine/core/view-modes';
 
@@ -100,11 +102,22 @@ let memoizedResults: Map<string, {
 
 let lastCalculationKey = '';
 
+// Placement is logged step by step for debugging in the browser; headless
+// callers (the data lint) turn it off with `quiet`
+type LayoutLog = (...args: unknown[]) => void;
+
+export interface OrbitalMechanicsOptions {
+  quiet?: boolean;
+}
+
 /**
  * Generate a key for memoization based on objects, view type, and paused state
  */
 function generateCalculationKey(objects: CelestialObject[], viewType: ViewType, isPaused: boolean): string {
-  const objectsKey = objects.map(obj => `${obj.id}-${obj.properties.radius}-${obj.orbit?.parent || 'root'}`).join('|');
+  const orbitSize = (obj: CelestialObject) =>
+    obj.orbit && isOrbitData(obj.orbit) ? obj.orbit.semi_major_axis :
+    obj.orbit && isBeltOrbitData(obj.orbit) ? `${obj.orbit.inner_radius}-${obj.orbit.outer_radius}` : '';
+  const objectsKey = objects.map(obj => `${obj.id}-${obj.properties.radius}-${obj.orbit?.parent || 'root'}-${orbitSize(obj)}`).join('|');
   return `${viewType}-${isPaused}-${objectsKey}`;
 }
 
@@ -121,6 +134,11 @@ function calculateVisualRadius(
 ): number {
   const radiusKm = object.properties.radius || 1;
   
+  // Stations and Lagrange points are tiny markers; they never scale with the natural bodies
+  if ((viewType === 'scientific' || viewType === 'explorational') && isArtificialMarker(object)) {
+    return config.minVisualSize;
+  }
+  
   // SCIENTIFIC MODE: Use true-to-life scaling with actual radius values
   if (viewType === 'scientific') {
     // Scale the actual radius directly with minimal visual scaling
@@ -195,6 +213,22 @@ function calculateVisualRadius(
   return config.minVisualSize + (normalizedSize * (config.maxVisualSize - config.minVisualSize));
 }
 
+/**
+ * Stations and Lagrange points are sized as markers rather than by their radius
+ */
+function isArtificialMarker(object: CelestialObject): boolean {
+  return object.classification === 'station' || object.classification === 'lagrange_point';
+}
+
+/**
+ * Moons, and stations orbiting a planet or moon, are spaced out together around
+ * their parent so a station doesn't land on top of a moon
+ */
+function isSatelliteOf(object: CelestialObject, parent: CelestialObject): boolean {
+  const parentIsBody = ['planet', 'dwarf-planet', 'moon'].includes(parent.classification);
+  return object.classification === 'moon' || (isArtificialMarker(object) && parentIsBody);
+}
+
 /**
  * Analyze system size range for logarithmic scaling
  */
@@ -203,6 +237,9 @@ function analyzeSystemSizes(objects: CelestialObject[]): { logMinRadius: number;
   let maxRadius = 0;
   
   for (const obj of objects) {
+    // Station and jump point radii (a few hundred metres to a few km) would stretch the logarithmic
+    // range of the natural bodies, and barycenters have no size at all
+    if (isArtificialMarker(obj) || obj.classification === 'jump_point' || obj.classification === 'barycenter') continue;
     const radius = obj.properties.radius || 1;
     if (radius > 0) {
       minRadius = Math.min(minRadius, radius);
@@ -230,7 +267,8 @@ function calculateEffectiveOrbitalRadius(
   allObjects: CelestialObject[],
   results: Map<string, any>,
   config: any,
-  viewType?: ViewType
+  viewType?: ViewType,
+  log: LayoutLog = console.log
 ): number {
   const objectVisualRadius = results.get(object.id)?.visualRadius || 0;
 
@@ -251,7 +289,7 @@ function calculateEffectiveOrbitalRadius(
     const profileEffectiveRadius = objectVisualRadius * 2; // Small multiplier for minimal clearance
     
     // DEBUG: Log effective radius calculation
-    console.log(`🌙 EFFECTIVE RADIUS (${object.name}): profile mode = ${profileEffectiveRadius} (visual: ${objectVisualRadius})`);
+    log(`🌙 EFFECTIVE RADIUS (${object.name}): profile mode = ${profileEffectiveRadius} (visual: ${objectVisualRadius})`);
     
     return profileEffectiveRadius;
   }
@@ -480,6 +518,52 @@ function adjustForGlobalCollisions(
   }
 }
 
+/**
+ * Place the two stars of each binary on mass-ratio-correct orbits about their
+ * barycenter: each star's distance is the separation times the other star's share
+ * of the mass, so the heavier star moves on the smaller orbit. The separation is
+ * scaled like any other orbit, widened if needed so the stars stay apart at
+ * closest approach (profile mode uses that minimum directly).
+ *
+ * Returns, per barycenter, the distance its other children must start beyond.
+ */
+function placeBinaryPairs(
+  pairs: BinaryPair[],
+  results: Map<string, any>,
+  config: any,
+  viewType: ViewType
+): Map<string, number> {
+  const clearances = new Map<string, number>();
+
+  for (const pair of pairs) {
+    const primaryRadius = results.get(pair.primary.id)?.visualRadius || 0;
+    const secondaryRadius = results.get(pair.secondary.id)?.visualRadius || 0;
+    // Profile and navigational orbits are drawn circular
+    const eccentricity = viewType === 'profile' || viewType === 'navigational' ? 0 : pair.eccentricity;
+
+    const minSeparation = ((primaryRadius + secondaryRadius) * config.safetyMultiplier + config.minDistance) / (1 - eccentricity);
+    const separation = viewType === 'profile'
+      ? minSeparation
+      : Math.max(pair.separation * config.orbitScaling, minSeparation);
+
+    const [primaryDistance, secondaryDistance] = binaryOrbitRadii(
+      separation,
+      pair.primary.properties.mass || 0,
+      pair.secondary.properties.mass || 0
+    );
+    results.get(pair.primary.id)!.orbitDistance = primaryDistance;
+    results.get(pair.secondary.id)!.orbitDistance = secondaryDistance;
+
+    const outerStar = Math.max(
+      primaryDistance + primaryRadius * config.safetyMultiplier,
+      secondaryDistance + secondaryRadius * config.safetyMultiplier
+    );
+    clearances.set(pair.barycenterId, outerStar * (1 + eccentricity) + config.minDistance);
+  }
+
+  return clearances;
+}
+
 /**
  * CORE ORBITAL POSITIONING ALGORITHM (Two-Pass System)
  * =====================================================
@@ -507,7 +591,8 @@ function calculateClearedOrbits(
   objects: CelestialObject[],
   results: Map<string, any>,
   config: any,
-  viewType: ViewType
+  viewType: ViewType,
+  log: LayoutLog
 ): void {
   // Group objects by their parent for efficient processing
   const parentGroups = new Map<string, CelestialObject[]>();
@@ -522,6 +607,11 @@ function calculateClearedOrbits(
     }
   }
   
+  // Binary stars are placed as pairs about their barycenter before anything else
+  const binaryPairs = findBinaryPairs(objects);
+  const binaryStarIds = new Set(binaryPairs.flatMap(pair => [pair.primary.id, pair.secondary.id]));
+  const binaryClearances = placeBinaryPairs(binaryPairs, results, config, viewType);
+
   // ========================================================================
   // PASS 1: MOON ORBIT CALCULATION
   // ========================================================================
@@ -534,82 +624,29 @@ function calculateClearedOrbits(
     
     // Special handling for objects with non-existent parents (like "barycenter")
     if (!parent) {
-      console.log(`🔍 Processing objects with non-existent parent "${parentId}"`);
-      
-      // Check if this is a binary star system (multiple stars orbiting barycenter)
-      const starChildren = children.filter(child => child.classification === 'star');
-      const isBinarySystem = parentId === 'barycenter' && starChildren.length >= 2;
-      
-      if (isBinarySystem) {
-        console.log(`🌟 Binary star system detected with ${starChildren.length} stars`);
-        
-        // Sort stars by semi_major_axis to maintain order
-        const sortedStars = [...starChildren].sort((a, b) => {
-          const aAU = a.orbit && isOrbitData(a.orbit) ? a.orbit.semi_major_axis : 0;
-          const bAU = b.orbit && isOrbitData(b.orbit) ? b.orbit.semi_major_axis : 0;
-          return aAU - bAU;
-        });
-        
-        // For binary stars, position them opposite each other around the barycenter
-        // Use the average of their semi_major_axes as the orbital distance
-        if (sortedStars.length >= 2) {
-          const primaryStar = sortedStars[0];
-          const secondaryStar = sortedStars[1];
-          
-          const avgDistance = ((primaryStar.orbit && isOrbitData(primaryStar.orbit) ? primaryStar.orbit.semi_major_axis : 0) +
-                              (secondaryStar.orbit && isOrbitData(secondaryStar.orbit) ? secondaryStar.orbit.semi_major_axis : 0)) / 2;
-          
-          const binaryOrbitDistance = avgDistance * config.orbitScaling;
-          
-          console.log(`   🌟 Placing binary stars at distance ${binaryOrbitDistance} (opposite each other)`);
-          
-          // Both stars get the same orbital distance but will be positioned opposite via orbital mechanics
-          results.get(primaryStar.id)!.orbitDistance = binaryOrbitDistance;
-          results.get(secondaryStar.id)!.orbitDistance = binaryOrbitDistance;
-          
-          // Handle additional stars (like Proxima) normally
-          for (let i = 2; i < sortedStars.length; i++) {
-            const additionalStar = sortedStars[i];
-            if (additionalStar.orbit && isOrbitData(additionalStar.orbit)) {
-              const orbitDistance = additionalStar.orbit.semi_major_axis * config.orbitScaling;
-              console.log(`   📍 Placing additional star ${additionalStar.name} at distance ${orbitDistance}`);
-              results.get(additionalStar.id)!.orbitDistance = orbitDistance;
-            }
-          }
-        }
-        
-        // Process any non-star children normally
-        const nonStarChildren = children.filter(child => child.classification !== 'star');
-        for (const child of nonStarChildren) {
-          if (child.orbit && isOrbitData(child.orbit)) {
-            const orbitDistance = child.orbit.semi_major_axis * config.orbitScaling;
-            console.log(`   📍 Placing non-star ${child.name} at distance ${orbitDistance}`);
-            results.get(child.id)!.orbitDistance = orbitDistance;
-          }
-        }
-      } else {
-        // For non-binary systems, process all children normally
-        // Sort by semi_major_axis to maintain order
-        const sortedChildren = [...children].sort((a, b) => {
+      // Binary stars about an unlisted barycenter were already placed by placeBinaryPairs;
+      // anything else orbiting it (a third star, circumbinary planets) clears the pair
+      const clearance = binaryClearances.get(parentId) || 0;
+      const sortedChildren = children
+        .filter(child => !binaryStarIds.has(child.id))
+        .sort((a, b) => {
           const aAU = a.orbit && isOrbitData(a.orbit) ? a.orbit.semi_major_axis : 0;
           const bAU = b.orbit && isOrbitData(b.orbit) ? b.orbit.semi_major_axis : 0;
           return aAU - bAU;
         });
-        
-        // Calculate positions for all children
-        for (const child of sortedChildren) {
-          if (child.orbit && isOrbitData(child.orbit)) {
-            const orbitDistance = child.orbit.semi_major_axis * config.orbitScaling;
-            console.log(`   📍 Placing ${child.name} at distance ${orbitDistance}`);
-            results.get(child.id)!.orbitDistance = orbitDistance;
-          }
+
+      for (const child of sortedChildren) {
+        if (child.orbit && isOrbitData(child.orbit)) {
+          const orbitDistance = Math.max(child.orbit.semi_major_axis * config.orbitScaling, clearance);
+          log(`   📍 Placing ${child.name} at distance ${orbitDistance}`);
+          results.get(child.id)!.orbitDistance = orbitDistance;
         }
       }
       return;
     }
     
-    // Only process moons in this pass - planets and belts are handled in Pass 2
-    const moons = children.filter(child => child.classification === 'moon');
+    // Only process moons (and stations alongside them) in this pass - planets and belts are handled in Pass 2
+    const moons = children.filter(child => isSatelliteOf(child, parent));
     if (moons.length === 0) return;
     
     const parentVisualRadius = results.get(parentId)?.visualRadius || 0;
@@ -667,8 +704,8 @@ function calculateClearedOrbits(
     
     const parentVisualRadius = results.get(parentId)?.visualRadius || 0;
     
-    // Only process non-moon children in this pass (planets, belts)
-    const nonMoonChildren = children.filter(child => child.classification !== 'moon');
+    // Only process non-moon children in this pass (planets, belts); binary stars are already placed
+    const nonMoonChildren = children.filter(child => !isSatelliteOf(child, parent) && !binaryStarIds.has(child.id));
     if (nonMoonChildren.length === 0) return;
     
     // Sort children by their original orbital distance (AU) to maintain natural ordering
@@ -680,10 +717,11 @@ function calculateClearedOrbits(
       return aAU - bAU;
     });
     
-    // Start placing orbits after the parent's safe zone
+    // Start placing orbits after the parent's safe zone (or outside a binary about this barycenter)
     let nextAvailableDistance = Math.max(
       parentVisualRadius * config.safetyMultiplier,
-      config.minDistance
+      config.minDistance,
+      binaryClearances.get(parentId) || 0
     );
 
     // Keep track of previously placed child so we can account for its full size
@@ -699,7 +737,7 @@ function calculateClearedOrbits(
         
         // CRITICAL: Calculate effective orbital radius including moon systems
         // This now works correctly because all moon positions were calculated in Pass 1
-        const effectiveOrbitalRadius = calculateEffectiveOrbitalRadius(child, objects, results, config, viewType);
+        const effectiveOrbitalRadius = calculateEffectiveOrbitalRadius(child, objects, results, config, viewType, log);
 
         // Calculate minimum clearance needed from previous object
         const requiredInnerEdge = previousChild
@@ -716,14 +754,14 @@ function calculateClearedOrbits(
           actualDistance = requiredCenter;
           
           // DEBUG: Log profile mode planet placement
-          console.log(`🪐 PROFILE PLANET: ${child.name}`);
-          console.log(`  📏 Child visual radius: ${childVisualRadius}`);
-          console.log(`  🌙 Effective orbital radius: ${effectiveOrbitalRadius}`);
-          console.log(`  📍 Previous child: ${previousChild ? `${previousChild.actualDistance} + ${previousChild.effectiveRadius}` : 'none'}`);
-          console.log(`  📐 Required inner edge: ${requiredInnerEdge}`);
-          console.log(`  🎯 Required center: ${requiredCenter}`);
-          console.log(`  ✅ Final distance: ${actualDistance}`);
-          console.log(`  📏 Gap from previous: ${previousChild ? actualDistance - (previousChild.actualDistance + previousChild.effectiveRadius) : 'N/A'}`);
+          log(`🪐 PROFILE PLANET: ${child.name}`);
+          log(`  📏 Child visual radius: ${childVisualRadius}`);
+          log(`  🌙 Effective orbital radius: ${effectiveOrbitalRadius}`);
+          log(`  📍 Previous child: ${previousChild ? `${previousChild.actualDistance} + ${previousChild.effectiveRadius}` : 'none'}`);
+          log(`  📐 Required inner edge: ${requiredInnerEdge}`);
+          log(`  🎯 Required center: ${requiredCenter}`);
+          log(`  ✅ Final distance: ${actualDistance}`);
+          log(`  📏 Gap from previous: ${previousChild ? actualDistance - (previousChild.actualDistance + previousChild.effectiveRadius) : 'N/A'}`);
         } else {
           // Other modes: Use scaled astronomical distances
           const desiredDistance = child.orbit.semi_major_axis * config.orbitScaling;
@@ -732,11 +770,11 @@ function calculateClearedOrbits(
 
         // Record the final orbit distance
         if (child.name === 'Neptune') {
-          console.log(`🔥 NEPTUNE RESULT ASSIGNMENT: Setting orbitDistance to ${actualDistance}`);
+          log(`🔥 NEPTUNE RESULT ASSIGNMENT: Setting orbitDistance to ${actualDistance}`);
         }
         results.get(child.id)!.orbitDistance = actualDistance;
         if (child.name === 'Neptune') {
-          console.log(`🔥 NEPTUNE RESULT AFTER ASSIGNMENT:`, results.get(child.id));
+          log(`🔥 NEPTUNE RESULT AFTER ASSIGNMENT:`, results.get(child.id));
         }
 
         // Update tracking for next object
@@ -767,14 +805,14 @@ function calculateClearedOrbits(
           actualOuterRadius = actualInnerRadius + profileBeltWidth;
           
           // DEBUG: Log profile mode belt placement
-          console.log(`⚫ PROFILE BELT: ${child.name}`);
-          console.log(`  📐 Next available distance: ${nextAvailableDistance}`);
-          console.log(`  📐 Clearance from previous: ${clearanceFromPrevious}`);
-          console.log(`  📍 Inner radius: ${actualInnerRadius}`);
-          console.log(`  📏 Belt width: ${profileBeltWidth}`);
-          console.log(`  📍 Outer radius: ${actualOuterRadius}`);
-          console.log(`  🎯 Center: ${(actualInnerRadius + actualOuterRadius) / 2}`);
-          console.log(`  📏 Effective radius: ${(actualOuterRadius - actualInnerRadius) / 2}`);
+          log(`⚫ PROFILE BELT: ${child.name}`);
+          log(`  📐 Next available distance: ${nextAvailableDistance}`);
+          log(`  📐 Clearance from previous: ${clearanceFromPrevious}`);
+          log(`  📍 Inner radius: ${actualInnerRadius}`);
+          log(`  📏 Belt width: ${profileBeltWidth}`);
+          log(`  📍 Outer radius: ${actualOuterRadius}`);
+          log(`  🎯 Center: ${(actualInnerRadius + actualOuterRadius) / 2}`);
+          log(`  📏 Effective radius: ${(actualOuterRadius - actualInnerRadius) / 2}`);
           
         } else {
           // Other modes: Use scaled astronomical distances with reasonable belt width limits
@@ -787,7 +825,7 @@ function calculateClearedOrbits(
           // In explorational mode, belts should be thin visual elements, not massive obstacles
           const maxBeltWidth = viewType === 'explorational' ? config.minDistance * 2 : config.orbitScaling * 0.5;
           if (beltWidth > maxBeltWidth) {
-            console.log(`🎯 BELT WIDTH LIMITATION: ${child.name} belt width reduced from ${beltWidth} to ${maxBeltWidth}`);
+            log(`🎯 BELT WIDTH LIMITATION: ${child.name} belt width reduced from ${beltWidth} to ${maxBeltWidth}`);
             beltWidth = maxBeltWidth;
           }
           
@@ -926,12 +964,14 @@ function enforceParentChildSizeHierarchy(
  * @param objects - Array of celestial objects to calculate positions for
  * @param viewType - View mode that determines scaling and sizing behavior
  * @param isPaused - Whether the system is paused (for rendering compatibility)
+ * @param options - `quiet` turns off the step-by-step placement logging
  * @returns Map of object IDs to their calculated visual and orbital properties
  */
 export function calculateSystemOrbitalMechanics(
   objects: CelestialObject[],
   viewType: ViewType,
-  isPaused: boolean = false
+  isPaused: boolean = false,
+  options: OrbitalMechanicsOptions = {}
 ): Map<string, {
   visualRadius: number;
   orbitDistance?: number;
@@ -987,7 +1027,7 @@ export function calculateSystemOrbitalMechanics(
   // - Pass 1: Calculate all moon orbits first (independent of planet positions)
   // - Pass 2: Calculate planet orbits using the now-available moon positions
   // This prevents the circular dependency where planets need moon positions but moons need planet positions
-  calculateClearedOrbits(objects, results, orbitConfig, viewType);
+  calculateClearedOrbits(objects, results, orbitConfig, viewType, options.quiet ? () => {} : console.log);
   
   // STEP 3: GLOBAL COLLISION DETECTION AND ADJUSTMENT
   // ==================================================
@@ -1027,6 +1067,49 @@ export function calculateSystemOrbitalMechanics(
   return results;
 }
 
+// Bisection steps when mapping a scene distance back to AU, and how many times
+// the search may double the orbit looking for one that reaches far enough
+const ORBIT_SEARCH_STEPS = 50;
+const ORBIT_SEARCH_DOUBLINGS = 40;
+
+/**
+ * The semi-major axis (AU) at which the `viewType` layout puts `objectId`
+ * `orbitDistance` scene units from its parent, or null when no orbit lands
+ * there (inside the clearance the layout keeps, or in a view that ignores
+ * orbit sizes). Layouts scale AU and then push orbits out to clear their
+ * neighbours, so this searches the layout rather than dividing by its scale.
+ */
+export function semiMajorAxisForOrbitDistance(
+  objects: CelestialObject[],
+  objectId: string,
+  orbitDistance: number,
+  viewType: ViewType
+): number | null {
+  const orbit = objects.find(obj => obj.id === objectId)?.orbit;
+  if (!orbit || !isOrbitData(orbit) || !(orbitDistance > 0)) return null;
+
+  const distanceAt = (semiMajorAxis: number): number => {
+    const trial = objects.map(obj => obj.id === objectId ? { ...obj, orbit: { ...orbit, semi_major_axis: semiMajorAxis } } : obj);
+    return calculateSystemOrbitalMechanics(trial, viewType, false, { quiet: true }).get(objectId)?.orbitDistance ?? 0;
+  };
+
+  let low = 0;
+  let high = orbit.semi_major_axis > 0 ? orbit.semi_major_axis : 1;
+  for (let i = 0; distanceAt(high) < orbitDistance; i++) {
+    if (i === ORBIT_SEARCH_DOUBLINGS) return null;
+    low = high;
+    high *= 2;
+  }
+  if (low === 0 && distanceAt(0) >= orbitDistance) return null;
+
+  for (let i = 0; i < ORBIT_SEARCH_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (distanceAt(mid) < orbitDistance) low = mid;
+    else high = mid;
+  }
+  return high;
+}
+
 /**
  * Clear memoized results (call when system data changes)
  */
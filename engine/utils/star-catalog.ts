@@ -0,0 +1,161 @@
+import type { StarCatalogData, StarCatalogEntry } from '../types/star-catalog';
+import { blackbodyColor } from './stellar-lighting';
+
+type Vec3 = [number, number, number];
+
+const LIGHT_YEARS_PER_PARSEC = 3.26156;
+const AU_PER_LIGHT_YEAR = 63241.077;
+
+// Stars fainter than this (after reprojection) are left out of the sky
+export const DEFAULT_LIMITING_MAGNITUDE = 6.5;
+
+// A catalog star this close to the observer is the observer's own star
+const MIN_OBSERVER_DISTANCE_LY = 0.05;
+
+/**
+ * Rotation from J2000 equatorial to galactic coordinates (Hipparcos). Galactic
+ * X points at the galactic centre, Y along galactic rotation and Z at the north
+ * galactic pole, matching the starmap's `galactic` coordinate system.
+ */
+const EQUATORIAL_TO_GALACTIC = [
+  [-0.0548755604, -0.8734370902, -0.4838350155],
+  [0.4941094279, -0.44482963, 0.7469822445],
+  [-0.867666149, -0.1980763734, 0.4559837762]
+];
+
+export interface ProjectedStar {
+  id: string;
+  name?: string;
+  direction: Vec3; // unit vector in scene coordinates
+  magnitude: number; // apparent magnitude from the observer
+  color: Vec3; // RGB, 0–1
+}
+
+export interface ProjectedSky {
+  stars: ProjectedStar[];
+  constellationSegments: Array<[Vec3, Vec3]>; // pairs of scene directions
+}
+
+export interface ProjectSkyOptions {
+  limitingMagnitude?: number;
+  excludeSystemId?: string; // hide the stars of the system being viewed
+}
+
+/**
+ * Galactic unit vector for a J2000 right ascension and declination in degrees
+ */
+export function equatorialToGalactic(raDeg: number, decDeg: number): Vec3 {
+  const ra = raDeg * Math.PI / 180;
+  const dec = decDeg * Math.PI / 180;
+  const equatorial = [Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec)];
+  return EQUATORIAL_TO_GALACTIC.map(row =>
+    row[0] * equatorial[0] + row[1] * equatorial[1] + row[2] * equatorial[2]
+  ) as Vec3;
+}
+
+/**
+ * Galactic position of a catalog star in light years, with Sol at the origin
+ */
+export function catalogStarPosition(star: StarCatalogEntry): Vec3 {
+  const [x, y, z] = equatorialToGalactic(star.ra, star.dec);
+  return [x * star.distance, y * star.distance, z * star.distance];
+}
+
+export function absoluteMagnitude(star: StarCatalogEntry): number {
+  if (typeof star.absolute_mag === 'number') return star.absolute_mag;
+  if (star.distance <= 0) return star.mag;
+  return star.mag - 5 * Math.log10(star.distance / LIGHT_YEARS_PER_PARSEC / 10);
+}
+
+/**
+ * Apparent magnitude of a star with absolute magnitude `absoluteMag` at `distanceLy`
+ */
+export function apparentMagnitude(absoluteMag: number, distanceLy: number): number {
+  return absoluteMag + 5 * Math.log10(distanceLy / LIGHT_YEARS_PER_PARSEC / 10);
+}
+
+/**
+ * Effective temperature from the B-V colour index (Ballesteros 2012)
+ */
+export function bvToTemperature(bv: number): number {
+  return 4600 * (1 / (0.92 * bv + 1.7) + 1 / (0.92 * bv + 0.62));
+}
+
+/**
+ * A starmap position converted to light years. Starmaps declare their
+ * `distance_unit`; positions in unknown units are taken as light years.
+ */
+export function starmapPositionInLightYears(position: Vec3, distanceUnit?: string): Vec3 {
+  let scale = 1;
+  switch (distanceUnit) {
+    case 'parsecs':
+      scale = LIGHT_YEARS_PER_PARSEC;
+      break;
+    case 'astronomical_units':
+    case 'au':
+      scale = 1 / AU_PER_LIGHT_YEAR;
+      break;
+  }
+  return [position[0] * scale, position[1] * scale, position[2] * scale];
+}
+
+/**
+ * Where `systemId` sees the sky from, in galactic light years. A catalog star
+ * belonging to the system places it in the catalog's own frame; systems with no
+ * catalog star fall back to their starmap position, and to Sol without one.
+ */
+export function skyObserverPosition(catalog: StarCatalogData, systemId: string, starmapPosition?: Vec3): Vec3 {
+  const star = catalog.stars.find(entry => entry.system_id === systemId);
+  if (star) return catalogStarPosition(star);
+  return starmapPosition ?? [0, 0, 0];
+}
+
+/**
+ * Galactic coordinates in the scene frame: the galactic plane lies on the
+ * scene's XZ plane with the north galactic pole up (+Y)
+ */
+export function galacticToScene([x, y, z]: Vec3): Vec3 {
+  return [x, z, -y];
+}
+
+/**
+ * The sky as seen from `observer` (galactic, light years): each catalog star's
+ * direction and apparent magnitude from there, and the constellation figures
+ * drawn between the reprojected stars.
+ */
+export function projectSky(catalog: StarCatalogData, observer: Vec3, options: ProjectSkyOptions = {}): ProjectedSky {
+  const limitingMagnitude = options.limitingMagnitude ?? DEFAULT_LIMITING_MAGNITUDE;
+  const projected = new Map<string, ProjectedStar>();
+
+  for (const star of catalog.stars) {
+    if (options.excludeSystemId && star.system_id === options.excludeSystemId) continue;
+
+    const position = catalogStarPosition(star);
+    const offset: Vec3 = [position[0] - observer[0], position[1] - observer[1], position[2] - observer[2]];
+    const distance = Math.hypot(offset[0], offset[1], offset[2]);
+    if (distance < MIN_OBSERVER_DISTANCE_LY) continue;
+
+    projected.set(star.id, {
+      id: star.id,
+      name: star.name,
+      direction: galacticToScene([offset[0] / distance, offset[1] / distance, offset[2] / distance]),
+      magnitude: apparentMagnitude(absoluteMagnitude(star), distance),
+      color: blackbodyColor(bvToTemperature(star.bv))
+    });
+  }
+
+  // Figures keep their lines even where a star has dropped below the limit
+  const constellationSegments: Array<[Vec3, Vec3]> = [];
+  for (const figure of catalog.constellations || []) {
+    for (const [fromId, toId] of figure.lines) {
+      const from = projected.get(fromId);
+      const to = projected.get(toId);
+      if (from && to) constellationSegments.push([from.direction, to.direction]);
+    }
+  }
+
+  return {
+    stars: Array.from(projected.values()).filter(star => star.magnitude <= limitingMagnitude),
+    constellationSegments
+  };
+}
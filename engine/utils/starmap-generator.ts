@@ -0,0 +1,112 @@
+import type { StarmapData } from "../types/orbital-system"
+
+export interface StarmapGeneratorOptions {
+  count: number
+  seed?: number
+  radius?: number // systems are scattered through a flattened disc of this radius
+  thickness?: number // fraction of the radius used for vertical spread
+  extraRoutes?: number // additional nearest-neighbour routes per system beyond the spanning tree
+  tags?: string[]
+  tagChance?: number // probability that a system gets each tag
+}
+
+const DEFAULT_TAGS = ["inhabited", "industrial", "frontier", "dangerous", "lawless"]
+
+// Small deterministic PRNG (mulberry32) so generated maps are reproducible across runs
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generates a connected starmap with symmetric jump routes, for tests and
+ * performance checks. Every system links to its nearest already-placed neighbour
+ * (a spanning tree, so the map is always connected), plus a few extra routes to
+ * nearby systems.
+ */
+export function generateStarmap({
+  count,
+  seed = 1,
+  radius = 100,
+  thickness = 0.15,
+  extraRoutes = 2,
+  tags = DEFAULT_TAGS,
+  tagChance = 0.15,
+}: StarmapGeneratorOptions): StarmapData {
+  const random = createRandom(seed)
+  const ids = Array.from({ length: count }, (_, i) => `sys-${i.toString().padStart(4, "0")}`)
+  const positions: [number, number, number][] = []
+  const routes = ids.map(() => new Set<number>())
+
+  for (let i = 0; i < count; i++) {
+    // Uniform over the disc area
+    const r = Math.sqrt(random()) * radius
+    const angle = random() * Math.PI * 2
+    const height = (random() - 0.5) * 2 * radius * thickness
+    positions.push([r * Math.cos(angle), height, r * Math.sin(angle)])
+  }
+
+  const distanceSq = (a: number, b: number) => {
+    const pa = positions[a]
+    const pb = positions[b]
+    return (pa[0] - pb[0]) ** 2 + (pa[1] - pb[1]) ** 2 + (pa[2] - pb[2]) ** 2
+  }
+  const link = (a: number, b: number) => {
+    if (a === b) return
+    routes[a].add(b)
+    routes[b].add(a)
+  }
+
+  for (let i = 1; i < count; i++) {
+    let nearest = 0
+    for (let j = 1; j < i; j++) {
+      if (distanceSq(i, j) < distanceSq(i, nearest)) nearest = j
+    }
+    link(i, nearest)
+  }
+
+  if (extraRoutes > 0) {
+    for (let i = 0; i < count; i++) {
+      // Keep the k closest candidates without sorting the whole map
+      const closest: number[] = []
+      for (let j = 0; j < count; j++) {
+        if (j === i) continue
+        if (closest.length < extraRoutes || distanceSq(i, j) < distanceSq(i, closest[closest.length - 1])) {
+          closest.push(j)
+          closest.sort((a, b) => distanceSq(i, a) - distanceSq(i, b))
+          if (closest.length > extraRoutes) closest.pop()
+        }
+      }
+      closest.forEach(j => link(i, j))
+    }
+  }
+
+  const systems: StarmapData["systems"] = {}
+  ids.forEach((id, i) => {
+    systems[id] = {
+      id,
+      name: `System ${i + 1}`,
+      position: positions[i],
+      tags: tags.filter(() => random() < tagChance),
+      jump_routes: Array.from(routes[i]).sort((a, b) => a - b).map(j => ids[j]),
+      description: `Procedurally generated system ${i + 1}`,
+    }
+  })
+
+  return {
+    systems,
+    metadata: {
+      version: "1.0",
+      total_systems: count,
+      coordinate_system: "generated",
+      distance_unit: "light_years",
+      seed,
+    },
+  }
+}
@@ -0,0 +1,229 @@
+import type { StarmapData } from "../types/orbital-system"
+
+export type RouteAlgorithm = 'dijkstra' | 'astar'
+
+/**
+ * Cost model for a jump. A jump costs `distance × jumpLength + jump`, plus the
+ * penalty for every tag of the system being entered.
+ */
+export interface RouteWeights {
+  distance: number // per unit of jump length (starmap position units)
+  jump: number // flat cost per jump
+  tagPenalties: Record<string, number> // e.g. { dangerous: 50, lawless: 25 }
+}
+
+export interface RouteOptions {
+  algorithm?: RouteAlgorithm
+  weights?: Partial<RouteWeights>
+  avoid?: string[] // system ids that must not be entered (the start and destination are always allowed)
+}
+
+export interface RouteLeg {
+  from: string
+  to: string
+  distance: number
+  cost: number
+  cumulativeCost: number
+}
+
+export interface StarmapRoute {
+  systems: string[] // start → destination
+  legs: RouteLeg[]
+  totalCost: number
+  totalDistance: number
+}
+
+export interface RouteValidationResult {
+  valid: boolean
+  error?: string
+  invalidIndex?: number // index in the route of the first offending system
+}
+
+export const DEFAULT_ROUTE_WEIGHTS: RouteWeights = {
+  distance: 1,
+  jump: 0,
+  tagPenalties: {},
+}
+
+type Position = [number, number, number]
+
+function getPosition(starmap: StarmapData, id: string): Position {
+  const position = starmap.systems[id]?.position
+  return Array.isArray(position) && position.length === 3 ? position as Position : [0, 0, 0]
+}
+
+function getJumpRoutes(starmap: StarmapData, id: string): string[] {
+  const routes = starmap.systems[id]?.jump_routes
+  return Array.isArray(routes) ? routes : []
+}
+
+/**
+ * Straight-line distance between two systems in starmap units
+ */
+export function jumpDistance(starmap: StarmapData, from: string, to: string): number {
+  const a = getPosition(starmap, from)
+  const b = getPosition(starmap, to)
+  return Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2])
+}
+
+/**
+ * Cost of jumping from one system into a neighbouring one
+ */
+export function jumpCost(starmap: StarmapData, from: string, to: string, weights: RouteWeights): number {
+  const tags: unknown = starmap.systems[to]?.tags
+  const tagPenalty = Array.isArray(tags)
+    ? tags.reduce((sum: number, tag: string) => sum + (weights.tagPenalties[tag] || 0), 0)
+    : 0
+  return weights.distance * jumpDistance(starmap, from, to) + weights.jump + tagPenalty
+}
+
+function resolveWeights(weights?: Partial<RouteWeights>): RouteWeights {
+  const resolved: RouteWeights = {
+    ...DEFAULT_ROUTE_WEIGHTS,
+    ...weights,
+    tagPenalties: { ...DEFAULT_ROUTE_WEIGHTS.tagPenalties, ...weights?.tagPenalties },
+  }
+  // Negative costs would break both Dijkstra and the A* heuristic
+  if (resolved.distance < 0 || resolved.jump < 0 || Object.values(resolved.tagPenalties).some(p => p < 0)) {
+    throw new Error('Route weights must be non-negative')
+  }
+  return resolved
+}
+
+/**
+ * Checks that every system in a route exists and each one is reachable from the
+ * previous one through its `jump_routes`
+ */
+export function validateRoute(route: string[], starmap: StarmapData): RouteValidationResult {
+  for (let i = 0; i < route.length; i++) {
+    const id = route[i]
+    if (!starmap.systems[id]) {
+      return { valid: false, error: `Unknown system "${id}"`, invalidIndex: i }
+    }
+    if (i > 0 && !getJumpRoutes(starmap, route[i - 1]).includes(id)) {
+      const fromName = starmap.systems[route[i - 1]]?.name || route[i - 1]
+      const toName = starmap.systems[id]?.name || id
+      return { valid: false, error: `No jump route from ${fromName} to ${toName}`, invalidIndex: i }
+    }
+  }
+  return { valid: true }
+}
+
+/**
+ * Breaks a route into legs with per-leg and cumulative costs
+ */
+export function describeRoute(route: string[], starmap: StarmapData, weights?: Partial<RouteWeights>): StarmapRoute {
+  const resolved = resolveWeights(weights)
+  const legs: RouteLeg[] = []
+  let totalCost = 0
+  let totalDistance = 0
+
+  for (let i = 1; i < route.length; i++) {
+    const from = route[i - 1]
+    const to = route[i]
+    const distance = jumpDistance(starmap, from, to)
+    const cost = jumpCost(starmap, from, to, resolved)
+    totalCost += cost
+    totalDistance += distance
+    legs.push({ from, to, distance, cost, cumulativeCost: totalCost })
+  }
+
+  return { systems: [...route], legs, totalCost, totalDistance }
+}
+
+/**
+ * Cheapest route between two systems along `jump_routes`, or null if the destination
+ * can't be reached. A* uses straight-line distance as its heuristic, which never
+ * overestimates because every jump costs at least its weighted length.
+ */
+export function findRoute(
+  starmap: StarmapData,
+  from: string,
+  to: string,
+  options: RouteOptions = {}
+): StarmapRoute | null {
+  if (!starmap.systems[from] || !starmap.systems[to]) return null
+
+  const weights = resolveWeights(options.weights)
+  if (from === to) return describeRoute([from], starmap, weights)
+
+  const avoid = new Set((options.avoid || []).filter(id => id !== from && id !== to))
+  const heuristic = options.algorithm === 'dijkstra'
+    ? () => 0
+    : (id: string) => weights.distance * jumpDistance(starmap, id, to)
+
+  const costs = new Map<string, number>([[from, 0]])
+  const previous = new Map<string, string>()
+  const visited = new Set<string>()
+  const open = new MinHeap()
+  open.push(from, heuristic(from))
+
+  while (open.size > 0) {
+    const current = open.pop()!
+    if (visited.has(current)) continue
+    if (current === to) break
+    visited.add(current)
+
+    const currentCost = costs.get(current)!
+    for (const next of getJumpRoutes(starmap, current)) {
+      if (!starmap.systems[next] || avoid.has(next) || visited.has(next)) continue
+      const cost = currentCost + jumpCost(starmap, current, next, weights)
+      if (cost < (costs.get(next) ?? Infinity)) {
+        costs.set(next, cost)
+        previous.set(next, current)
+        open.push(next, cost + heuristic(next))
+      }
+    }
+  }
+
+  if (!costs.has(to)) return null
+
+  const systems = [to]
+  while (systems[0] !== from) {
+    systems.unshift(previous.get(systems[0])!)
+  }
+  return describeRoute(systems, starmap, weights)
+}
+
+// Binary min-heap keyed by priority; stale entries are skipped by the caller
+class MinHeap {
+  private items: { id: string; priority: number }[] = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(id: string, priority: number): void {
+    const items = this.items
+    items.push({ id, priority })
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent].priority <= items[i].priority) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): string | undefined {
+    const items = this.items
+    if (items.length === 0) return undefined
+    const top = items[0]
+    const last = items.pop()!
+    if (items.length > 0) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right
+        if (smallest === i) break
+        ;[items[smallest], items[i]] = [items[i], items[smallest]]
+        i = smallest
+      }
+    }
+    return top.id
+  }
+}
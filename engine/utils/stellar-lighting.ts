@@ -0,0 +1,104 @@
+import type { CelestialObject, LightingConfig } from '../types/orbital-system';
+
+const SOLAR_RADIUS_KM = 695700;
+const SOLAR_TEMPERATURE_K = 5778;
+
+// Scene light intensity of the primary star; other stars are scaled from it
+export const PRIMARY_STAR_INTENSITY = 25;
+
+/**
+ * Role weights applied on top of relative luminosity. The secondary star keeps a
+ * strong, clearly separate light; any further stars only add a faint fill.
+ */
+export const STAR_ROLE_WEIGHTS = {
+  primary: 1,
+  secondary: 0.6,
+  other: 0.3
+} as const;
+
+// Relative brightness is compressed (square root) and clamped so a dim companion
+// still casts visible light and a giant doesn't wash the scene out
+const MIN_RELATIVE_BRIGHTNESS = 0.1;
+const MAX_RELATIVE_BRIGHTNESS = 2;
+
+export type StarRole = keyof typeof STAR_ROLE_WEIGHTS;
+
+export interface StarLight {
+  id: string;
+  role: StarRole;
+  color: string; // hex
+  intensity: number;
+}
+
+/**
+ * Approximate RGB colour (0–1 per channel) of a blackbody at the given temperature.
+ * Fit of the CIE 1964 blackbody locus by Tanner Helland, valid for ~1000–40000 K.
+ */
+export function blackbodyColor(temperatureK: number): [number, number, number] {
+  const t = Math.min(Math.max(temperatureK, 1000), 40000) / 100;
+
+  const red = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const green = t <= 66
+    ? 99.4708025861 * Math.log(t) - 161.1195681661
+    : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const blue = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 255) / 255;
+  return [clamp(red), clamp(green), clamp(blue)];
+}
+
+export function blackbodyHex(temperatureK: number): string {
+  return '#' + blackbodyColor(temperatureK)
+    .map(channel => Math.round(channel * 255).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function getStarTemperature(star: CelestialObject): number {
+  return star.properties.color_temperature || star.properties.temperature || SOLAR_TEMPERATURE_K;
+}
+
+/**
+ * Luminosity in L☉: the star's `luminosity` if given, otherwise derived from its
+ * radius and temperature (Stefan–Boltzmann, L ∝ R²T⁴).
+ */
+export function getStarLuminosity(star: CelestialObject): number {
+  if (typeof star.properties.luminosity === 'number' && star.properties.luminosity > 0) {
+    return star.properties.luminosity;
+  }
+  const radius = (star.properties.radius || SOLAR_RADIUS_KM) / SOLAR_RADIUS_KM;
+  const temperature = getStarTemperature(star) / SOLAR_TEMPERATURE_K;
+  return radius * radius * Math.pow(temperature, 4);
+}
+
+/**
+ * Colour and intensity of each star's scene light. `lighting.primary_star` sets the
+ * reference brightness and `secondary_star` the second-strongest role; when the
+ * primary isn't one of the stars, the most luminous star takes its place.
+ */
+export function computeStarLights(stars: CelestialObject[], lighting?: Partial<LightingConfig>): StarLight[] {
+  if (stars.length === 0) return [];
+
+  const luminosities = new Map(stars.map(star => [star.id, getStarLuminosity(star)]));
+  const primary = stars.find(star => star.id === lighting?.primary_star) ??
+    stars.reduce((brightest, star) => (luminosities.get(star.id)! > luminosities.get(brightest.id)! ? star : brightest));
+  const referenceLuminosity = luminosities.get(primary.id)!;
+
+  return stars.map(star => {
+    const role: StarRole = star.id === primary.id
+      ? 'primary'
+      : star.id === lighting?.secondary_star ? 'secondary' : 'other';
+    const relative = role === 'primary'
+      ? 1
+      : Math.min(
+        Math.max(Math.sqrt(luminosities.get(star.id)! / referenceLuminosity), MIN_RELATIVE_BRIGHTNESS),
+        MAX_RELATIVE_BRIGHTNESS
+      );
+
+    return {
+      id: star.id,
+      role,
+      color: blackbodyHex(getStarTemperature(star)),
+      intensity: PRIMARY_STAR_INTENSITY * STAR_ROLE_WEIGHTS[role] * relative
+    };
+  });
+}
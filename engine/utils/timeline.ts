@@ -0,0 +1,74 @@
+import type { OrbitalSystemData, TimelineEvent } from "../types/orbital-system"
+import { parseSimulationDate } from "../ephemeris"
+
+/**
+ * A timeline event placed on the simulation calendar, with the object it belongs to
+ */
+export interface SystemTimelineEvent extends TimelineEvent {
+  id: string
+  time: number // simulation time (ms since Unix epoch, UTC)
+  objectId?: string // undefined for system-wide events
+  objectName?: string
+}
+
+export interface TimelineRange {
+  start: number
+  end: number
+}
+
+const DAY_MS = 86400000
+
+/**
+ * Collects timeline events from every object (and the system itself), sorted chronologically.
+ * Events with unparseable dates are skipped.
+ */
+export function collectTimelineEvents(systemData: OrbitalSystemData): SystemTimelineEvent[] {
+  const events: SystemTimelineEvent[] = []
+
+  const addEvents = (timeline: TimelineEvent[] | undefined, ownerId: string, objectId?: string, objectName?: string) => {
+    if (!Array.isArray(timeline)) return
+    timeline.forEach((event, index) => {
+      const time = typeof event?.date === 'string' ? parseSimulationDate(event.date) : null
+      if (time === null) {
+        console.warn(`Skipping timeline event "${event?.title}" on ${ownerId}: invalid date "${event?.date}"`)
+        return
+      }
+      events.push({ ...event, id: `${ownerId}:${index}`, time, objectId, objectName })
+    })
+  }
+
+  addEvents(systemData.timeline, systemData.id)
+  systemData.objects.forEach(object => addEvents(object.timeline, object.id, object.id, object.name))
+
+  return events.sort((a, b) => a.time - b.time || a.id.localeCompare(b.id))
+}
+
+/**
+ * Time range covering all events, padded on both sides so markers don't sit on the edges
+ */
+export function getTimelineRange(events: SystemTimelineEvent[], paddingFraction = 0.05): TimelineRange | null {
+  if (events.length === 0) return null
+
+  const first = events[0].time
+  const last = events[events.length - 1].time
+  // A single event (or events on one day) still gets a one-year window
+  const span = Math.max(last - first, 365 * DAY_MS)
+  const padding = span * paddingFraction
+  const center = (first + last) / 2
+
+  return {
+    start: center - span / 2 - padding,
+    end: center + span / 2 + padding,
+  }
+}
+
+/**
+ * Fraction (0–1) of the range at which a time falls; values outside the range are not clamped
+ */
+export function timeToFraction(time: number, range: TimelineRange): number {
+  return (time - range.start) / (range.end - range.start)
+}
+
+export function fractionToTime(fraction: number, range: TimelineRange): number {
+  return range.start + fraction * (range.end - range.start)
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  lintSystemData,
+  lintObjectCatalog,
+  lintStarmapData,
+  lintUniverseManifest,
+  summarizeLintReport,
+  formatLintReport
+} from '../data-lint';
+import { checkLayoutCollisions } from '../layout-validation';
+import type { CelestialObject, OrbitalSystemData } from '../../types/orbital-system';
+import type { CatalogData } from '../../types/catalog';
+import objectCatalog from '@/public/data/engine/object-catalog/catalog.json';
+
+const body = (
+  id: string,
+  classification: CelestialObject['classification'],
+  geometry_type: CelestialObject['geometry_type'],
+  radius: number,
+  parent: string,
+  semi_major_axis: number
+): CelestialObject => ({
+  id,
+  name: id,
+  classification,
+  geometry_type,
+  properties: { mass: 1, radius, temperature: 288 },
+  orbit: { parent, semi_major_axis, eccentricity: 0, inclination: 0, orbital_period: 10 },
+});
+
+// A planet listed just inside a gas giant's moon, laid out with the planets rather than the moons
+const createSystem = (): OrbitalSystemData => ({
+  id: 'crowded',
+  name: 'Crowded',
+  description: 'A gas giant with a moon and a captured planet',
+  objects: [
+    {
+      id: 'star',
+      name: 'Star',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+    body('giant', 'planet', 'gas_giant', 6371, 'star', 1.28),
+    body('moon', 'moon', 'rocky', 1737, 'giant', 0.008),
+    body('captured', 'planet', 'rocky', 3000, 'giant', 0.0004),
+  ],
+  lighting: { primary_star: 'star', ambient_level: 0.1, stellar_influence_radius: 100 },
+});
+
+describe('Data lint', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('layout collisions', () => {
+    it('reports siblings the layout cannot keep apart', () => {
+      expect(checkLayoutCollisions(createSystem().objects, 'navigational')).toEqual([
+        { path: '/objects/3/orbit', message: 'navigational layout overlaps "captured" with "moon"' },
+      ]);
+    });
+
+    it('spaces a station orbiting a planet out with its moons', () => {
+      const system = createSystem();
+      system.objects[3] = body('station', 'station', 'station', 0.8, 'giant', 0.0004);
+      expect(checkLayoutCollisions(system.objects, 'explorational')).toEqual([]);
+      expect(checkLayoutCollisions(system.objects, 'navigational')).toEqual([]);
+    });
+
+    it('lays out the realistic Sol system without collisions', () => {
+      const sol: OrbitalSystemData = JSON.parse(
+        readFileSync(join(process.cwd(), 'public/data/realistic/systems/sol.json'), 'utf-8')
+      );
+      expect(checkLayoutCollisions(sol.objects, 'explorational')).toEqual([]);
+      expect(checkLayoutCollisions(sol.objects, 'navigational')).toEqual([]);
+    });
+  });
+
+  describe('lintSystemData', () => {
+    it('reports layout collisions in each view type as errors', () => {
+      const issues = lintSystemData(createSystem(), ['explorational', 'navigational']);
+      expect(issues.map(issue => [issue.severity, issue.message])).toEqual([
+        ['error', 'explorational layout overlaps "captured" with "moon"'],
+        ['error', 'navigational layout overlaps "captured" with "moon"'],
+      ]);
+    });
+
+    it('skips the layout for systems that fail validation', () => {
+      const system: any = createSystem();
+      delete system.objects[2].properties;
+
+      expect(lintSystemData(system)).toEqual([
+        { path: '/objects/2/properties', message: 'Missing required object', severity: 'error' },
+      ]);
+    });
+
+    it('keeps validator warnings as warnings', () => {
+      const system: any = createSystem();
+      system.objects.splice(2, 2);
+      system.objects.push(body('a', 'planet', 'rocky', 3000, 'pair', 1), body('b', 'planet', 'rocky', 3000, 'pair', 2));
+
+      const warnings = lintSystemData(system, []).filter(issue => issue.severity === 'warning');
+      expect(warnings.map(issue => issue.path)).toEqual(['/objects/2/orbit/parent', '/objects/3/orbit/parent']);
+    });
+
+    it('fills in catalog_ref objects from the object catalog before validating', () => {
+      const system: any = createSystem();
+      system.objects[2] = { id: 'moon', catalog_ref: 'rocky-moon', orbit: system.objects[2].orbit };
+
+      expect(lintSystemData(system, [], objectCatalog as CatalogData)).toEqual([]);
+      expect(lintSystemData(system, [])).toContainEqual(
+        { path: '/objects/2/catalog_ref', message: 'The object catalog is not available', severity: 'error' }
+      );
+    });
+  });
+
+  it('finds nothing to report in the bundled systems', () => {
+    const dataDir = join(process.cwd(), 'public/data');
+    const systemFiles = readdirSync(dataDir)
+      .map(mode => join(dataDir, mode, 'systems'))
+      .filter(systemsDir => existsSync(systemsDir))
+      .flatMap(systemsDir => readdirSync(systemsDir).filter(name => name.endsWith('.json')).map(name => join(systemsDir, name)));
+    expect(systemFiles.length).toBeGreaterThan(5);
+
+    const reports = systemFiles.map(file => ({
+      file: file.slice(dataDir.length + 1),
+      issues: lintSystemData(JSON.parse(readFileSync(file, 'utf-8')), undefined, objectCatalog as CatalogData),
+    }));
+    expect(reports.filter(report => report.issues.length > 0)).toEqual([]);
+  });
+
+  it('checks the object catalog for duplicate IDs', () => {
+    expect(lintObjectCatalog(objectCatalog)).toEqual([]);
+
+    const entry = objectCatalog.categories[0].objects[0];
+    const duplicated = { categories: [...objectCatalog.categories, { name: 'Copies', objects: [entry] }] };
+    expect(lintObjectCatalog(duplicated)).toEqual([
+      { path: `/categories/${objectCatalog.categories.length}/objects/0/id`, message: `Duplicate catalog ID "${entry.id}"`, severity: 'error' },
+    ]);
+  });
+
+  it('checks starmaps against the system files next to them', () => {
+    const starmap = { systems: { crowded: { id: 'crowded', name: 'Crowded', position: [0, 0, 0] } } };
+    expect(lintStarmapData(starmap, ['crowded'])).toEqual([
+      { path: '/metadata', message: 'Starmap has no metadata', severity: 'warning' },
+    ]);
+    expect(lintStarmapData(starmap, []).map(issue => issue.severity)).toEqual(['error', 'warning']);
+  });
+
+  it('checks universe manifests against their folder and system files', () => {
+    const manifest = { id: 'frontier', title: 'Frontier', description: '', default_system: 'crowded', features: [] };
+    expect(lintUniverseManifest(manifest, 'frontier', ['crowded'])).toEqual([]);
+    expect(lintUniverseManifest(manifest, 'other', [])).toEqual([
+      { path: '/id', message: 'ID "frontier" does not match its folder "other"', severity: 'error' },
+      { path: '/default_system', message: 'Default system "crowded" has no file in systems/', severity: 'error' },
+    ]);
+  });
+
+  it('summarizes and formats a report', () => {
+    const report = summarizeLintReport([
+      { file: 'realistic/starmap-systems.json', kind: 'starmap', issues: [] },
+      {
+        file: 'realistic/systems/crowded.json',
+        kind: 'system',
+        issues: [
+          { path: '/objects/3/orbit', message: 'navigational layout overlaps "captured" with "moon"', severity: 'error' },
+          { path: '/objects/2/orbit/parent', message: 'Parent "pair" is not listed', severity: 'warning' },
+        ],
+      },
+    ]);
+
+    expect(report.errorCount).toBe(1);
+    expect(report.warningCount).toBe(1);
+    expect(formatLintReport(report).split('\n')).toEqual([
+      'realistic/systems/crowded.json',
+      '  ❌ /objects/3/orbit: navigational layout overlaps "captured" with "moon"',
+      '  ⚠️  /objects/2/orbit/parent: Parent "pair" is not listed',
+      '',
+      '2 files checked, 1 clean: 1 errors, 1 warnings',
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Validator, assertValidStarmapData } from '../validators';
+import { ValidationError } from '../../types/errors';
+import type { StarmapData } from '../../types/orbital-system';
+
+const createStarmap = (): StarmapData => ({
+  systems: {
+    stanton: { id: 'stanton', name: 'Stanton', position: [0, 0, 0], tags: ['core'], jump_routes: ['pyro'] },
+    pyro: { id: 'pyro', name: 'Pyro', position: [15, -8, 3], tags: ['lawless'], jump_routes: ['stanton'] },
+    sol: { id: 'sol', name: 'Sol', position: [-25, 10, -5], status: 'inhabited' },
+  },
+  metadata: { version: '1.0', total_systems: 3, distance_unit: 'light_years' },
+});
+
+const pathsOf = (data: unknown, options?: Parameters<typeof Validator.validateStarmapData>[1]) =>
+  Validator.validateStarmapData(data, options).issues.map(issue => issue.path);
+
+describe('Starmap validation', () => {
+  it('accepts a well-formed starmap', () => {
+    const result = Validator.validateStarmapData(createStarmap());
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('rejects data without a systems object', () => {
+    expect(pathsOf(null)).toEqual(['']);
+    expect(pathsOf({ systems: [] })).toEqual(['/systems']);
+  });
+
+  it('reports malformed fields by path', () => {
+    const starmap: any = createStarmap();
+    starmap.systems.pyro.id = 'p';
+    starmap.systems.pyro.position = [15, 'x', 3];
+    starmap.systems.sol.tags = ['historic', 7];
+    starmap.metadata.version = 1;
+
+    expect(pathsOf(starmap).sort()).toEqual([
+      '/metadata/version',
+      '/systems/pyro/id',
+      '/systems/pyro/position/1',
+      '/systems/sol/tags/1',
+    ]);
+  });
+
+  it('detects IDs that differ from their key', () => {
+    const starmap = createStarmap();
+    starmap.systems.pyro.id = 'nyx';
+    expect(Validator.validateStarmapData(starmap).errors).toEqual([
+      '/systems/pyro/id: ID "nyx" does not match its key "pyro"',
+    ]);
+  });
+
+  it('detects asymmetric routes and routes to unknown systems', () => {
+    const starmap = createStarmap();
+    starmap.systems.sol.jump_routes = ['stanton', 'nyx'];
+
+    const result = Validator.validateStarmapData(starmap);
+    expect(result.issues).toEqual([
+      { path: '/systems/sol/jump_routes/0', message: 'Jump route to "stanton" is not listed back in /systems/stanton/jump_routes' },
+      { path: '/systems/sol/jump_routes/1', message: 'Jump route to unknown system "nyx"' },
+    ]);
+  });
+
+  it('detects systems sharing a position', () => {
+    const starmap = createStarmap();
+    starmap.systems.sol.position = [0, 0, 0];
+    expect(Validator.validateStarmapData(starmap).errors).toEqual([
+      '/systems/sol/position: Position [0, 0, 0] is already used by "stanton"',
+    ]);
+  });
+
+  it('detects systems without a system file when files are listed', () => {
+    expect(pathsOf(createStarmap(), { systemFileIds: ['stanton', 'pyro'] })).toEqual(['/systems/sol']);
+  });
+
+  it('warns when total_systems disagrees with the system count', () => {
+    const starmap = createStarmap();
+    starmap.metadata!.total_systems = 4;
+    const result = Validator.validateStarmapData(starmap);
+    expect(result.isValid).toBe(true);
+    expect(result.warningIssues.map(issue => issue.path)).toEqual(['/metadata/total_systems']);
+  });
+
+  it('throws a ValidationError carrying the issues', () => {
+    const starmap = createStarmap();
+    starmap.systems.pyro.jump_routes = [];
+
+    expect(() => assertValidStarmapData(starmap)).toThrow(ValidationError);
+    try {
+      assertValidStarmapData(starmap);
+    } catch (error) {
+      expect((error as ValidationError).context?.issues).toEqual([
+        expect.objectContaining({ path: '/systems/stanton/jump_routes/0' }),
+      ]);
+    }
+  });
+
+  it.each(['realistic', 'star-citizen'])('accepts the shipped %s starmap', (mode) => {
+    const dataDir = join(process.cwd(), 'public', 'data', mode);
+    const starmap = JSON.parse(readFileSync(join(dataDir, 'starmap-systems.json'), 'utf-8'));
+    const systemFileIds = readdirSync(join(dataDir, 'systems')).map(file => file.replace(/\.json$/, ''));
+
+    const result = Validator.validateStarmapData(starmap, { systemFileIds });
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Validator, assertValidSystemData } from '../validators';
+import { toJsonPointer } from '../system-validation';
+import { DataParsingError } from '../../types/errors';
+import { getSystemJsonSchema } from '../../types/orbital-system.schema';
+import type { OrbitalSystemData } from '../../types/orbital-system';
+
+const createSystem = (): OrbitalSystemData => ({
+  id: 'test-system',
+  name: 'Test System',
+  description: 'A star, a planet with a moon and rings, a belt and a station',
+  objects: [
+    {
+      id: 'star',
+      name: 'Star',
+      classification: 'star',
+      geometry_type: 'star',
+      properties: { mass: 1, radius: 695700, temperature: 5778 },
+      position: [0, 0, 0],
+    },
+    {
+      id: 'planet',
+      name: 'Planet',
+      classification: 'planet',
+      geometry_type: 'gas_giant',
+      properties: { mass: 95, radius: 58232, temperature: 134 },
+      orbit: { parent: 'star', semi_major_axis: 9.5, eccentricity: 0.05, inclination: 2.5, orbital_period: 10759 },
+      rings: [{
+        id: 'planet-rings',
+        geometry_type: 'ring',
+        name: 'Rings',
+        radius_start: 1.2,
+        radius_end: 2.3,
+        inclination: 0,
+        density: 'dense',
+        composition: ['ice'],
+      }],
+    },
+    {
+      id: 'moon',
+      name: 'Moon',
+      classification: 'moon',
+      geometry_type: 'rocky',
+      properties: { mass: 0.02, radius: 2575, temperature: 94 },
+      orbit: { parent: 'planet', semi_major_axis: 20, eccentricity: 0.03, inclination: 0.3, orbital_period: 16 },
+    },
+    {
+      id: 'belt',
+      name: 'Belt',
+      classification: 'belt',
+      geometry_type: 'belt',
+      properties: { mass: 0.0005, radius: 0, temperature: 165 },
+      orbit: { parent: 'star', inner_radius: 2.2, outer_radius: 3.2, inclination: 0, eccentricity: 0 },
+    },
+    {
+      id: 'station',
+      name: 'Station',
+      classification: 'station',
+      geometry_type: 'station',
+      properties: { mass: 0, radius: 1, temperature: 290 },
+      lagrange: { primary: 'star', secondary: 'planet', point: 4 },
+    },
+  ],
+  lighting: { primary_star: 'star', ambient_level: 0.1, stellar_influence_radius: 100 },
+});
+
+const validate = (system: unknown) => Validator.validateSystemData(system);
+const pathsOf = (system: unknown) => validate(system).issues.map(issue => issue.path);
+
+describe('System validation', () => {
+  it('accepts a well-formed system', () => {
+    const result = validate(createSystem());
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reports schema problems as JSON pointers', () => {
+    const system: any = createSystem();
+    system.objects[1].properties.water = 140;
+    system.objects[2].orbit.eccentricity = 1.2;
+    system.objects[4].lagrange.point = 6;
+    delete system.lighting.ambient_level;
+
+    expect(pathsOf(system)).toEqual([
+      '/objects/1/properties/water',
+      '/objects/2/orbit/eccentricity',
+      '/objects/4/lagrange/point',
+      '/lighting/ambient_level',
+    ]);
+    expect(validate(system).errors).toContain('/lighting/ambient_level: Missing required number');
+  });
+
+  it('reports orbit problems against the orbit shape the data resembles', () => {
+    const system: any = createSystem();
+    system.objects[3].orbit.outer_radius = 'far';
+    system.objects[2].orbit.semi_major_axis = -1;
+
+    expect(pathsOf(system)).toEqual([
+      '/objects/2/orbit/semi_major_axis',
+      '/objects/3/orbit/outer_radius',
+    ]);
+  });
+
+  it('requires a temperature on bodies but not on stations', () => {
+    const system: any = createSystem();
+    delete system.objects[4].properties.temperature;
+    expect(validate(system).isValid).toBe(true);
+
+    delete system.objects[2].properties.temperature;
+    expect(validate(system).errors).toEqual(['/objects/2/properties/temperature: Missing required number for a moon']);
+  });
+
+  it('escapes pointer segments', () => {
+    expect(toJsonPointer(['objects', 0, 'a/b', 'c~d'])).toBe('/objects/0/a~1b/c~0d');
+    expect(toJsonPointer([])).toBe('');
+  });
+
+  describe('references', () => {
+    it('rejects duplicate IDs', () => {
+      const system = createSystem();
+      system.objects[2].id = 'planet';
+      expect(validate(system).errors).toContain('/objects/2/id: Duplicate object ID "planet" (first used at /objects/1)');
+    });
+
+    it('rejects unknown parents', () => {
+      const system: any = createSystem();
+      system.objects[2].orbit.parent = 'nowhere';
+      expect(validate(system).errors).toEqual(['/objects/2/orbit/parent: Unknown parent "nowhere"']);
+    });
+
+    it('warns about parents shared as an implicit barycenter', () => {
+      const system: any = createSystem();
+      system.objects.pop(); // the station's Lagrange pair needs the planet to orbit the star
+      system.objects[1].orbit.parent = 'barycenter';
+      system.objects[3].orbit.parent = 'barycenter';
+
+      const result = validate(system);
+      expect(result.isValid).toBe(true);
+      expect(result.warningIssues.map(issue => issue.path)).toEqual([
+        '/objects/1/orbit/parent',
+        '/objects/3/orbit/parent',
+      ]);
+    });
+
+    it('rejects orbit cycles once', () => {
+      const system: any = createSystem();
+      system.objects.pop();
+      system.objects[1].orbit.parent = 'moon';
+      expect(validate(system).errors).toEqual(['/objects/1/orbit/parent: Orbit cycle: planet → moon → planet']);
+    });
+
+    it('requires lighting to name stars in the system', () => {
+      const system = createSystem();
+      system.lighting.primary_star = 'planet';
+      system.lighting.secondary_star = 'companion';
+
+      expect(validate(system).errors).toEqual([
+        '/lighting/primary_star: "planet" is a planet, not a star',
+        '/lighting/secondary_star: "companion" is not an object in this system',
+      ]);
+    });
+
+    it('requires belt and ring radii in order', () => {
+      const system: any = createSystem();
+      system.objects[3].orbit.inner_radius = 4;
+      system.objects[1].rings[0].radius_end = 1.2;
+
+      expect(pathsOf(system)).toEqual([
+        '/objects/1/rings/0/radius_end',
+        '/objects/3/orbit/outer_radius',
+      ]);
+    });
+
+    it('requires Lagrange placements on an orbiting pair', () => {
+      const system: any = createSystem();
+      system.objects[4].lagrange = { primary: 'planet', secondary: 'belt', point: 4 };
+      expect(validate(system).errors).toEqual(['/objects/4/lagrange/secondary: "belt" does not orbit "planet"']);
+
+      system.objects[4].lagrange = { primary: 'ghost', secondary: 'planet', point: 4 };
+      expect(validate(system).errors).toEqual(['/objects/4/lagrange/primary: Unknown object "ghost"']);
+    });
+  });
+
+  it('throws a DataParsingError carrying the issues', () => {
+    const system: any = createSystem();
+    delete system.id;
+
+    expect(() => assertValidSystemData(system)).toThrow(DataParsingError);
+    try {
+      assertValidSystemData(system);
+    } catch (error) {
+      expect((error as DataParsingError).context?.issues).toEqual([{ path: '/id', message: 'Missing required string' }]);
+    }
+  });
+
+  it('accepts every realistic system', () => {
+    const dir = join(process.cwd(), 'public/data/realistic/systems');
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.json'))) {
+      const result = validate(JSON.parse(readFileSync(join(dir, file), 'utf-8')));
+      expect(result.errors, file).toEqual([]);
+    }
+  });
+
+  it("accepts Stanton's orbital and Lagrange stations", () => {
+    const stanton = JSON.parse(readFileSync(join(process.cwd(), 'public/data/star-citizen/systems/stanton.json'), 'utf-8'));
+    const stations = stanton.objects.filter((obj: any) => obj.classification === 'station');
+
+    expect(stations.map((obj: any) => obj.id)).toEqual(['port-olisar', 'cru-l1', 'cru-l4']);
+    const result = validate(stanton);
+    expect(result.isValid).toBe(true);
+    expect([...result.issues, ...result.warningIssues]).toEqual([]);
+  });
+
+  it('matches the exported JSON Schema', () => {
+    const exported = JSON.parse(readFileSync(join(process.cwd(), 'public/schemas/orbital-system.schema.json'), 'utf-8'));
+    expect(exported).toEqual(getSystemJsonSchema());
+  });
+});
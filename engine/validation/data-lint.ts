@@ -0,0 +1,131 @@
+import type { ViewType } from '@lib/types/effects-level';
+import type { OrbitalSystemData } from '../types/orbital-system';
+import type { CatalogData } from '../types/catalog';
+import { Validator, type ValidationIssue } from './validators';
+import { checkLayoutCollisions, LAYOUT_VIEW_TYPES } from './layout-validation';
+import { migrateSystemData } from '../migrations/system-migrations';
+import { normalizeSystemUnits } from '../units/property-units';
+import { validateUniverseManifest } from '../universes/manifest';
+import { catalogLookup, resolveCatalogRefs, validateCatalogData } from '../object-catalog/object-catalog';
+
+export type DataLintSeverity = 'error' | 'warning';
+
+export interface DataLintIssue extends ValidationIssue {
+  severity: DataLintSeverity;
+}
+
+export interface DataLintFileReport {
+  file: string; // relative to the data directory, e.g. realistic/systems/sol.json
+  kind: 'system' | 'starmap' | 'universe' | 'catalog';
+  issues: DataLintIssue[];
+}
+
+export interface DataLintReport {
+  files: DataLintFileReport[];
+  errorCount: number;
+  warningCount: number;
+}
+
+const withSeverity = (severity: DataLintSeverity) => (issue: ValidationIssue): DataLintIssue => ({ ...issue, severity });
+
+/**
+ * Everything wrong with one system file as the viewer would load it: legacy
+ * formats are migrated, `catalog_ref` objects filled in from `catalog` and
+ * property units normalized first (migration and units flagged), then schema and reference problems
+ * come from `Validator.validateSystemData` and layout collisions from each
+ * view type. The layout only runs on systems that pass validation, as the
+ * calculator assumes well-formed objects.
+ */
+export function lintSystemData(
+  data: unknown,
+  viewTypes: ViewType[] = LAYOUT_VIEW_TYPES,
+  catalog: CatalogData | null = null
+): DataLintIssue[] {
+  const issues: DataLintIssue[] = [];
+  let system: unknown = data;
+  try {
+    const migration = migrateSystemData(data, { catalog: catalog ? catalogLookup(catalog) : undefined });
+    if (migration.applied.length > 0) {
+      issues.push({
+        path: '/metadata/version',
+        message: `Format ${migration.fromVersion} is migrated to ${migration.toVersion} on load; run \`npm run migrate:data -- --write\` to upgrade the file`,
+        severity: 'warning'
+      });
+    }
+    const catalogRefs = resolveCatalogRefs(migration.data, catalog);
+    issues.push(...catalogRefs.issues.map(withSeverity('error')));
+    const units = normalizeSystemUnits(catalogRefs.data);
+    issues.push(...units.conversions.map(({ path, from, to }): DataLintIssue => ({
+      path,
+      message: `${from} is normalized to ${to} on load; store it in the declared unit`,
+      severity: 'warning'
+    })));
+    system = units.data;
+  } catch (error) {
+    return [{ path: '/metadata/version', message: (error as Error).message, severity: 'error' }];
+  }
+
+  const result = Validator.validateSystemData(system);
+  issues.push(...result.issues.map(withSeverity('error')), ...result.warningIssues.map(withSeverity('warning')));
+  if (!result.isValid) return issues;
+
+  const { objects } = system as OrbitalSystemData;
+  for (const viewType of viewTypes) {
+    issues.push(...checkLayoutCollisions(objects, viewType).map(withSeverity('error')));
+  }
+  return issues;
+}
+
+/**
+ * Problems in the object catalog: schema errors and duplicate entry IDs
+ */
+export function lintObjectCatalog(data: unknown): DataLintIssue[] {
+  return validateCatalogData(data).map(withSeverity('error'));
+}
+
+/**
+ * Problems in a starmap; `systemFileIds` are the systems that have a file next to it
+ */
+export function lintStarmapData(data: unknown, systemFileIds: string[]): DataLintIssue[] {
+  const result = Validator.validateStarmapData(data, { systemFileIds });
+  return [...result.issues.map(withSeverity('error')), ...result.warningIssues.map(withSeverity('warning'))];
+}
+
+/**
+ * Problems in a universe.json read from `folderId`; its default system needs a
+ * file among `systemFileIds` for the universe to open
+ */
+export function lintUniverseManifest(data: unknown, folderId: string, systemFileIds: string[]): DataLintIssue[] {
+  const issues = validateUniverseManifest(data, folderId).map(withSeverity('error'));
+  const defaultSystem = (data as any)?.default_system;
+  if (typeof defaultSystem === 'string' && defaultSystem && !systemFileIds.includes(defaultSystem)) {
+    issues.push({ path: '/default_system', message: `Default system "${defaultSystem}" has no file in systems/`, severity: 'error' });
+  }
+  return issues;
+}
+
+export function summarizeLintReport(files: DataLintFileReport[]): DataLintReport {
+  const count = (severity: DataLintSeverity) =>
+    files.reduce((total, file) => total + file.issues.filter(issue => issue.severity === severity).length, 0);
+  return { files, errorCount: count('error'), warningCount: count('warning') };
+}
+
+/**
+ * Human-readable report: each file with problems, one line per issue, then totals
+ */
+export function formatLintReport(report: DataLintReport): string {
+  const lines: string[] = [];
+
+  for (const file of report.files) {
+    if (file.issues.length === 0) continue;
+    lines.push(file.file);
+    for (const issue of file.issues) {
+      lines.push(`  ${issue.severity === 'error' ? '❌' : '⚠️ '} ${issue.path || '/'}: ${issue.message}`);
+    }
+    lines.push('');
+  }
+
+  const clean = report.files.filter(file => file.issues.length === 0).length;
+  lines.push(`${report.files.length} files checked, ${clean} clean: ${report.errorCount} errors, ${report.warningCount} warnings`);
+  return lines.join('\n');
+}
@@ -0,0 +1,81 @@
+import type { ViewType } from '@lib/types/effects-level';
+import type { CelestialObject } from '../types/orbital-system';
+import { calculateSystemOrbitalMechanics } from '../utils/orbital-mechanics-calculator';
+import { findBinaryPairs } from '../utils/binary-systems';
+import type { ValidationIssue } from './validators';
+
+// View types the viewer lays systems out for
+export const LAYOUT_VIEW_TYPES: ViewType[] = ['explorational', 'navigational', 'profile', 'scientific'];
+
+type Extent = [number, number]; // nearest and farthest distance from the parent
+
+/**
+ * Runs the viewer's orbital-mechanics layout for `viewType` and reports what it
+ * couldn't keep apart: sizes or orbits that aren't finite, objects placed inside
+ * their parent and siblings whose orbits overlap. Binary partners sit on
+ * opposite sides of their barycenter and are not compared with each other.
+ */
+export function checkLayoutCollisions(objects: CelestialObject[], viewType: ViewType): ValidationIssue[] {
+  const layout = calculateSystemOrbitalMechanics(objects, viewType, false, { quiet: true });
+  const issues: ValidationIssue[] = [];
+  const pointer = (index: number, field?: string) => `/objects/${index}${field ? '/' + field : ''}`;
+
+  const binaryPartners = new Set<string>();
+  findBinaryPairs(objects).forEach(pair => {
+    binaryPartners.add(`${pair.primary.id}|${pair.secondary.id}`);
+    binaryPartners.add(`${pair.secondary.id}|${pair.primary.id}`);
+  });
+
+  const extents = new Map<string, Extent>();
+  objects.forEach((obj, index) => {
+    const data = layout.get(obj.id);
+    if (!data) return;
+
+    const values = [data.visualRadius, data.orbitDistance, data.beltData?.innerRadius, data.beltData?.outerRadius];
+    if (values.some(value => value !== undefined && !Number.isFinite(value))) {
+      issues.push({ path: pointer(index), message: `${viewType} layout has no finite size or orbit for "${obj.id}"` });
+      return;
+    }
+
+    if (data.beltData) {
+      extents.set(obj.id, [data.beltData.innerRadius, data.beltData.outerRadius]);
+    } else if (data.orbitDistance !== undefined) {
+      extents.set(obj.id, [data.orbitDistance - data.visualRadius, data.orbitDistance + data.visualRadius]);
+    }
+  });
+
+  objects.forEach((obj, index) => {
+    const parentId = obj.orbit?.parent;
+    const extent = extents.get(obj.id);
+    const parent = layout.get(parentId ?? '');
+    if (!parentId || !extent || !parent) return;
+    if (extent[0] < parent.visualRadius) {
+      issues.push({ path: pointer(index, 'orbit'), message: `${viewType} layout places "${obj.id}" inside its parent "${parentId}"` });
+    }
+  });
+
+  // Siblings in order of distance from their shared parent
+  const siblingsByParent = new Map<string, number[]>();
+  objects.forEach((obj, index) => {
+    const parentId = obj.orbit?.parent;
+    if (!parentId || !extents.has(obj.id)) return;
+    siblingsByParent.set(parentId, [...(siblingsByParent.get(parentId) || []), index]);
+  });
+
+  siblingsByParent.forEach(indices => {
+    const sorted = indices.slice().sort((a, b) => extents.get(objects[a].id)![0] - extents.get(objects[b].id)![0]);
+    sorted.forEach((index, i) => {
+      const obj = objects[index];
+      // Compare with every nearer sibling that reaches past this one's inner edge
+      for (const otherIndex of sorted.slice(0, i)) {
+        const other = objects[otherIndex];
+        if (binaryPartners.has(`${obj.id}|${other.id}`)) continue;
+        if (extents.get(other.id)![1] > extents.get(obj.id)![0]) {
+          issues.push({ path: pointer(index, 'orbit'), message: `${viewType} layout overlaps "${obj.id}" with "${other.id}"` });
+        }
+      }
+    });
+  });
+
+  return issues;
+}
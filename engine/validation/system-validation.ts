@@ -0,0 +1,184 @@
+import type { z } from 'zod/v4';
+import type { ValidationIssue } from './validators';
+
+type PathSegment = PropertyKey;
+
+// A JSON object (not an array or null), for reading data that hasn't been validated yet
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * JSON pointer (RFC 6901) for a path into the data, e.g. `/objects/3/orbit/parent`
+ */
+export function toJsonPointer(path: readonly PathSegment[]): string {
+  return path
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+function valueAt(data: unknown, path: readonly PathSegment[]): unknown {
+  let value: any = data;
+  for (const segment of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = value[segment as any];
+  }
+  return value;
+}
+
+/**
+ * Schema problems in `data`, one issue per offending field. Union failures
+ * (e.g. an orbit that is neither a body nor a belt orbit) are reported against
+ * the branch the data most resembles, so the path names the field to fix.
+ */
+export function collectSchemaIssues(schema: z.ZodType, data: unknown): ValidationIssue[] {
+  const result = schema.safeParse(data);
+  return result.success ? [] : flattenIssues(result.error.issues, [], data);
+}
+
+function flattenIssues(issues: readonly z.core.$ZodIssue[], basePath: PathSegment[], data: unknown): ValidationIssue[] {
+  const flattened: ValidationIssue[] = [];
+
+  for (const issue of issues) {
+    const path = [...basePath, ...issue.path];
+
+    if (issue.code === 'invalid_union' && issue.errors.length > 0) {
+      // Prefer the branch with the fewest missing fields, then the fewest problems
+      const missingFields = (branch: z.core.$ZodIssue[]) =>
+        branch.filter(branchIssue => valueAt(data, [...path, ...branchIssue.path]) === undefined).length;
+      const best = issue.errors.reduce((a, b) =>
+        missingFields(b) < missingFields(a) || (missingFields(b) === missingFields(a) && b.length < a.length) ? b : a
+      );
+      flattened.push(...flattenIssues(best, path, data));
+      continue;
+    }
+
+    const missing = issue.code === 'invalid_type' && valueAt(data, path) === undefined;
+    flattened.push({
+      path: toJsonPointer(path),
+      message: missing ? `Missing required ${issue.expected}` : issue.message
+    });
+  }
+
+  return flattened;
+}
+
+export interface ReferenceIssues {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Checks across the object graph that the schema can't express: unique IDs,
+ * orbit parents that exist and don't form cycles, lighting stars, belt and ring
+ * radii in order, and Lagrange placements on real primary/secondary pairs.
+ * Expects data that already matches the schema's overall shape.
+ */
+export function checkSystemReferences(system: any): ReferenceIssues {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const objects: any[] = Array.isArray(system?.objects) ? system.objects : [];
+
+  const indexById = new Map<string, number>();
+  objects.forEach((obj, index) => {
+    if (typeof obj?.id !== 'string') return;
+    const first = indexById.get(obj.id);
+    if (first !== undefined) {
+      errors.push({ path: `/objects/${index}/id`, message: `Duplicate object ID "${obj.id}" (first used at /objects/${first})` });
+    } else {
+      indexById.set(obj.id, index);
+    }
+  });
+
+  const parentOf = (obj: any): string | undefined =>
+    typeof obj?.orbit?.parent === 'string' ? obj.orbit.parent : undefined;
+
+  // Parents listed by no object are allowed as implicit barycenters when shared
+  const childCounts = new Map<string, number>();
+  objects.forEach(obj => {
+    const parent = parentOf(obj);
+    if (parent) childCounts.set(parent, (childCounts.get(parent) || 0) + 1);
+  });
+
+  objects.forEach((obj, index) => {
+    const parent = parentOf(obj);
+    if (!parent || indexById.has(parent)) return;
+    const path = `/objects/${index}/orbit/parent`;
+    if ((childCounts.get(parent) || 0) > 1) {
+      warnings.push({ path, message: `Parent "${parent}" is not listed; treating it as an implicit barycenter` });
+    } else {
+      errors.push({ path, message: `Unknown parent "${parent}"` });
+    }
+  });
+
+  // Orbit cycles, each reported once at the first object on the cycle
+  const reported = new Set<string>();
+  objects.forEach((obj, index) => {
+    const chain: string[] = [];
+    let current: any = obj;
+    while (current && typeof current.id === 'string' && !chain.includes(current.id)) {
+      chain.push(current.id);
+      const parent = parentOf(current);
+      current = parent !== undefined && indexById.has(parent) ? objects[indexById.get(parent)!] : undefined;
+    }
+    if (!current || chain[0] !== current.id || reported.has(current.id)) return;
+    chain.forEach(id => reported.add(id));
+    errors.push({
+      path: `/objects/${index}/orbit/parent`,
+      message: `Orbit cycle: ${[...chain, chain[0]].join(' → ')}`
+    });
+  });
+
+  (['primary_star', 'secondary_star'] as const).forEach(key => {
+    const starId = system?.lighting?.[key];
+    if (typeof starId !== 'string') return;
+    const index = indexById.get(starId);
+    const path = `/lighting/${key}`;
+    if (index === undefined) {
+      errors.push({ path, message: `"${starId}" is not an object in this system` });
+    } else if (objects[index].classification !== 'star') {
+      errors.push({ path, message: `"${starId}" is a ${objects[index].classification}, not a star` });
+    }
+  });
+
+  objects.forEach((obj, index) => {
+    const orbit = obj?.orbit;
+    if (typeof orbit?.inner_radius === 'number' && typeof orbit?.outer_radius === 'number' &&
+      orbit.inner_radius >= orbit.outer_radius) {
+      errors.push({
+        path: `/objects/${index}/orbit/outer_radius`,
+        message: `Outer radius ${orbit.outer_radius} must be greater than inner radius ${orbit.inner_radius}`
+      });
+    }
+
+    if (Array.isArray(obj?.rings)) {
+      obj.rings.forEach((ring: any, ringIndex: number) => {
+        if (typeof ring?.radius_start === 'number' && typeof ring?.radius_end === 'number' &&
+          ring.radius_start >= ring.radius_end) {
+          errors.push({
+            path: `/objects/${index}/rings/${ringIndex}/radius_end`,
+            message: `Ring end radius ${ring.radius_end} must be greater than start radius ${ring.radius_start}`
+          });
+        }
+      });
+    }
+
+    const lagrange = obj?.lagrange;
+    if (lagrange) {
+      (['primary', 'secondary'] as const).forEach(key => {
+        if (typeof lagrange[key] === 'string' && !indexById.has(lagrange[key])) {
+          errors.push({ path: `/objects/${index}/lagrange/${key}`, message: `Unknown object "${lagrange[key]}"` });
+        }
+      });
+      const secondary = indexById.has(lagrange.secondary) ? objects[indexById.get(lagrange.secondary)!] : undefined;
+      if (secondary && indexById.has(lagrange.primary) && parentOf(secondary) !== lagrange.primary) {
+        errors.push({
+          path: `/objects/${index}/lagrange/secondary`,
+          message: `"${lagrange.secondary}" does not orbit "${lagrange.primary}"`
+        });
+      }
+    }
+  });
+
+  return { errors, warnings };
+}
@@ -1,4 +1,16 @@
+import { z } from 'zod/v4';
 import { ValidationError, DataParsingError, UserInputError } from '../types/errors';
+import type { OrbitalSystemData, StarmapData } from '../types/orbital-system';
+import {
+  orbitalSystemSchema,
+  celestialObjectSchema,
+  orbitDataSchema,
+  beltOrbitDataSchema
+} from '../types/orbital-system.schema';
+import { starmapDataSchema } from '../types/starmap.schema';
+import { collectSchemaIssues, checkSystemReferences, isPlainObject, toJsonPointer } from './system-validation';
+import type { ReferenceIssues } from './system-validation';
+import { checkPropertyRanges } from '../units/property-units';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -6,6 +18,28 @@ export interface ValidationResult {
   warnings?: string[];
 }
 
+// A problem at a specific location in the data; `path` is a JSON pointer, e.g.
+// `/objects/3/orbit/parent` or `/systems/pyro/jump_routes/1`
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface StarmapValidationResult extends ValidationResult {
+  issues: ValidationIssue[];
+  warningIssues: ValidationIssue[];
+}
+
+export interface SystemValidationResult extends ValidationResult {
+  issues: ValidationIssue[]; // paths are JSON pointers
+  warningIssues: ValidationIssue[];
+}
+
+export interface StarmapValidationOptions {
+  // Ids that have a `systems/<id>.json` file; when given, every starmap system must be among them
+  systemFileIds?: string[];
+}
+
 export interface ValidationRule<T> {
   name: string;
   validate: (value: T) => ValidationResult;
@@ -45,167 +79,49 @@ export class Validator {
     };
   }
 
-  static validateSystemData(data: unknown): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    if (!data || typeof data !== 'object') {
-      errors.push('System data must be an object');
-      return { isValid: false, errors, warnings };
-    }
-
-    const systemData = data as any;
-
-    // Required fields validation
-    if (!systemData.id || typeof systemData.id !== 'string') {
-      errors.push('System data must have a valid ID');
-    } else {
-      const idValidation = this.validateSystemId(systemData.id);
-      if (!idValidation.isValid) {
-        errors.push(...idValidation.errors.map(e => `System ID: ${e}`));
-      }
-      if (idValidation.warnings) {
-        warnings.push(...idValidation.warnings.map(w => `System ID: ${w}`));
-      }
-    }
-
-    if (!systemData.name || typeof systemData.name !== 'string') {
-      errors.push('System data must have a valid name');
-    } else if (systemData.name.length > 100) {
-      errors.push('System name is too long (max 100 characters)');
-    }
-
-    if (!Array.isArray(systemData.objects)) {
-      errors.push('System data must have an objects array');
-    } else {
-      // Validate each object in the system
-      systemData.objects.forEach((obj: any, index: number) => {
-        const objValidation = this.validateSystemObject(obj);
-        if (!objValidation.isValid) {
-          errors.push(...objValidation.errors.map(e => `Object ${index}: ${e}`));
-        }
-        if (objValidation.warnings) {
-          warnings.push(...objValidation.warnings.map(w => `Object ${index}: ${w}`));
-        }
-      });
-    }
-
-    // Optional fields validation
-    if (systemData.description && typeof systemData.description !== 'string') {
-      warnings.push('System description should be a string');
-    }
+  /**
+   * Checks system data against the system schema, then cross-checks the
+   * object graph. Issue paths are JSON pointers, e.g. `/objects/3/orbit/parent`.
+   * Implausible property values are reported as warnings.
+   */
+  static validateSystemData(data: unknown): SystemValidationResult {
+    const issues = collectSchemaIssues(orbitalSystemSchema, data);
+    const warningIssues: ValidationIssue[] = [];
 
-    if (systemData.version && typeof systemData.version !== 'string') {
-      warnings.push('System version should be a string');
+    if (isPlainObject(data)) {
+      const references = checkSystemReferences(data);
+      issues.push(...references.errors);
+      warningIssues.push(...references.warnings, ...checkPropertyRanges(data));
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+    return issueResult(issues, warningIssues);
   }
 
-  static validateSystemObject(obj: unknown): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    if (!obj || typeof obj !== 'object') {
-      errors.push('System object must be an object');
-      return { isValid: false, errors, warnings };
-    }
-
-    const systemObj = obj as any;
-
-    // Required fields
-    if (!systemObj.id || typeof systemObj.id !== 'string') {
-      errors.push('Object must have a valid ID');
-    }
-
-    if (!systemObj.name || typeof systemObj.name !== 'string') {
-      errors.push('Object must have a valid name');
-    }
-
-    if (!systemObj.type || typeof systemObj.type !== 'string') {
-      errors.push('Object must have a valid type');
-    } else {
-      const validTypes = ['star', 'planet', 'moon', 'asteroid', 'comet', 'black-hole', 'neutron-star'];
-      if (!validTypes.includes(systemObj.type)) {
-        warnings.push(`Unknown object type: ${systemObj.type}`);
-      }
-    }
-
-    // Numerical validations
-    if (systemObj.mass !== undefined) {
-      if (typeof systemObj.mass !== 'number' || systemObj.mass < 0) {
-        errors.push('Object mass must be a non-negative number');
-      }
-    }
-
-    if (systemObj.radius !== undefined) {
-      if (typeof systemObj.radius !== 'number' || systemObj.radius <= 0) {
-        errors.push('Object radius must be a positive number');
-      }
-    }
-
-    // Orbital parameters validation
-    if (systemObj.orbit) {
-      const orbitValidation = this.validateOrbitData(systemObj.orbit);
-      if (!orbitValidation.isValid) {
-        errors.push(...orbitValidation.errors.map(e => `Orbit: ${e}`));
-      }
-      if (orbitValidation.warnings) {
-        warnings.push(...orbitValidation.warnings.map(w => `Orbit: ${w}`));
-      }
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+  static validateSystemObject(obj: unknown): SystemValidationResult {
+    return issueResult(collectSchemaIssues(celestialObjectSchema, obj), []);
   }
 
-  static validateOrbitData(orbit: unknown): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    if (!orbit || typeof orbit !== 'object') {
-      errors.push('Orbit data must be an object');
-      return { isValid: false, errors, warnings };
-    }
-
-    const orbitData = orbit as any;
-
-    if (typeof orbitData.semiMajorAxis !== 'number' || orbitData.semiMajorAxis <= 0) {
-      errors.push('Semi-major axis must be a positive number');
-    }
-
-    if (orbitData.eccentricity !== undefined) {
-      if (typeof orbitData.eccentricity !== 'number' || orbitData.eccentricity < 0 || orbitData.eccentricity >= 1) {
-        errors.push('Eccentricity must be a number between 0 and 1 (exclusive)');
-      }
-    }
+  static validateOrbitData(orbit: unknown): SystemValidationResult {
+    return issueResult(collectSchemaIssues(z.union([orbitDataSchema, beltOrbitDataSchema]), orbit), []);
+  }
 
-    if (orbitData.inclination !== undefined) {
-      if (typeof orbitData.inclination !== 'number') {
-        errors.push('Inclination must be a number');
-      } else if (Math.abs(orbitData.inclination) > 180) {
-        warnings.push('Inclination is outside typical range (-180 to 180 degrees)');
-      }
-    }
+  /**
+   * Checks starmap data against the starmap schema, then across systems: IDs
+   * that match their keys, unique positions, two-way routes to known systems
+   * and, when `systemFileIds` is given, a system file for every system. The
+   * cross-system checks only run once the data matches the schema.
+   */
+  static validateStarmapData(data: unknown, options: StarmapValidationOptions = {}): StarmapValidationResult {
+    const issues = collectSchemaIssues(starmapDataSchema, data);
+    const warningIssues: ValidationIssue[] = [];
 
-    if (orbitData.period !== undefined) {
-      if (typeof orbitData.period !== 'number' || orbitData.period <= 0) {
-        errors.push('Orbital period must be a positive number');
-      }
+    if (issues.length === 0) {
+      const references = checkStarmapReferences(data as StarmapData, options);
+      issues.push(...references.errors);
+      warningIssues.push(...references.warnings);
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+    return issueResult(issues, warningIssues);
   }
 
   static validateViewMode(viewMode: string): ValidationResult {
@@ -307,6 +223,82 @@ export class Validator {
   }
 }
 
+/**
+ * Checks across the systems of a starmap that matches the schema
+ */
+function checkStarmapReferences(starmap: StarmapData, options: StarmapValidationOptions): ReferenceIssues {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const error = (path: string, message: string) => errors.push({ path, message });
+  const warn = (path: string, message: string) => warnings.push({ path, message });
+  const { systems, metadata } = starmap;
+
+  const systemCount = Object.keys(systems).length;
+  if (!metadata) {
+    warn('/metadata', 'Starmap has no metadata');
+  } else if (metadata.total_systems !== undefined && metadata.total_systems !== systemCount) {
+    warn('/metadata/total_systems', `total_systems is ${metadata.total_systems} but the starmap lists ${systemCount} systems`);
+  }
+
+  const positions = new Map<string, string>();
+
+  Object.entries(systems).forEach(([key, system]) => {
+    const path = toJsonPointer(['systems', key]);
+
+    if (system.id !== key) {
+      error(`${path}/id`, `ID "${system.id}" does not match its key "${key}"`);
+    }
+
+    const positionKey = system.position.join(',');
+    const other = positions.get(positionKey);
+    if (other) {
+      error(`${path}/position`, `Position [${system.position.join(', ')}] is already used by "${other}"`);
+    } else {
+      positions.set(positionKey, key);
+    }
+
+    const seen = new Set<string>();
+    (system.jump_routes ?? []).forEach((target, i) => {
+      const routePath = `${path}/jump_routes/${i}`;
+      if (target === key) {
+        error(routePath, 'System has a jump route to itself');
+      } else if (seen.has(target)) {
+        warn(routePath, `Duplicate jump route to "${target}"`);
+      } else if (!systems[target]) {
+        error(routePath, `Jump route to unknown system "${target}"`);
+      } else if (!systems[target].jump_routes?.includes(key)) {
+        error(routePath, `Jump route to "${target}" is not listed back in ${toJsonPointer(['systems', target, 'jump_routes'])}`);
+      }
+      seen.add(target);
+    });
+  });
+
+  if (options.systemFileIds) {
+    const available = new Set(options.systemFileIds);
+    Object.keys(systems).forEach(key => {
+      if (!available.has(key)) {
+        error(toJsonPointer(['systems', key]), `No system file systems/${key}.json`);
+      }
+    });
+  }
+
+  return { errors, warnings };
+}
+
+function formatIssue({ path, message }: ValidationIssue): string {
+  return path ? `${path}: ${message}` : message;
+}
+
+function issueResult(issues: ValidationIssue[], warningIssues: ValidationIssue[]): SystemValidationResult {
+  return {
+    isValid: issues.length === 0,
+    errors: issues.map(formatIssue),
+    warnings: warningIssues.map(formatIssue),
+    issues,
+    warningIssues
+  };
+}
+
 // Utility functions for throwing validation errors
 export function assertValidSystemId(systemId: string): void {
   const result = Validator.validateSystemId(systemId);
@@ -315,10 +307,17 @@ export function assertValidSystemId(systemId: string): void {
   }
 }
 
-export function assertValidSystemData(data: unknown): void {
+export function assertValidSystemData(data: unknown): asserts data is OrbitalSystemData {
   const result = Validator.validateSystemData(data);
   if (!result.isValid) {
-    throw new DataParsingError(`Invalid system data: ${result.errors.join(', ')}`, { data });
+    throw new DataParsingError(`Invalid system data: ${result.errors.join(', ')}`, { issues: result.issues });
+  }
+}
+
+export function assertValidStarmapData(data: unknown, options?: StarmapValidationOptions): asserts data is StarmapData {
+  const result = Validator.validateStarmapData(data, options);
+  if (!result.isValid) {
+    throw new ValidationError(`Invalid starmap data: ${result.errors.join(', ')}`, { issues: result.issues });
   }
 }
 
@@ -2,359 +2,165 @@
 
 import * as fs from 'fs'
 import * as path from 'path'
-import { 
-  OrbitalSystemData, 
-  CelestialObject, 
-  Classification, 
-  GeometryType,
-  CelestialProperties,
-  getDefaultGeometryType 
-} from '../engine/types/orbital-system'
-
-// Old system interfaces (for conversion)
-interface OldSystemData {
-  id: string
-  name: string
-  description: string
-  barycenter: [number, number, number]
-  stars: OldSystemObject[]
-  planets?: OldSystemObject[]
-  moons?: OldSystemObject[]
-  belts?: OldSystemObject[]
-  jump_points?: any[]
-  lighting: any
+import {
+  migrateSystemData,
+  describeMigration,
+  SYSTEM_FORMAT_VERSION
+} from '../engine/migrations/system-migrations'
+import type { CatalogLookup } from '../engine/migrations/catalog-ref-format'
+import {
+  OBJECT_CATALOG_DIR,
+  OBJECT_CATALOG_FILE,
+  catalogLookup,
+  validateCatalogData
+} from '../engine/object-catalog/object-catalog'
+
+// Upgrades system files in any legacy format to the current one with the same
+// migrations EngineSystemLoader applies on load, and reports the field mappings.
+//
+// Usage: npm run migrate:data -- [--write] [--check] [--json] [--catalog <dir>] [paths...]
+//   --write    rewrite migrated files in place (otherwise only report)
+//   --check    exit 1 if any file still needs migrating
+//   --json     print the report as JSON
+//   --catalog  directory holding the object catalog's catalog.json, for
+//              catalog-ref (1.0) systems (default: public/data/engine/object-catalog)
+//   paths      files or directories; defaults to public/data/*/systems and public/data/test-systems
+
+interface ConverterOptions {
+  write: boolean
+  check: boolean
+  json: boolean
+  catalogDir: string
+  paths: string[]
 }
 
-interface OldSystemObject {
-  id: string
-  catalog_ref: string
-  name: string
-  position?: [number, number, number]
-  orbit?: {
-    parent: string
-    semi_major_axis: number
-    eccentricity: number
-    inclination: number
-    orbital_period: number
-    inner_radius?: number
-    outer_radius?: number
-  }
-  customizations?: any
+interface FileReport {
+  file: string
+  fromVersion?: string
+  toVersion?: string
+  migrations: string[]
+  written: boolean
+  error?: string
 }
 
-interface CatalogObject {
-  id: string
-  name: string
-  category?: string
-  subtype?: string
-  physical?: any
-  features?: any
-  appearance?: any
-  composition?: any
-  [key: string]: any
-}
+const DATA_DIR = path.join(process.cwd(), 'public', 'data')
 
 class OrbitalSystemConverter {
-  private catalogCache: Map<string, CatalogObject> = new Map()
-
-  async loadCatalogs(): Promise<void> {
-    const catalogDir = path.join(process.cwd(), 'public/data/engine/object-catalog')
-    const catalogFiles = ['stars.json', 'planets.json', 'moons.json', 'belts.json', 'compact-objects.json']
-
-    for (const catalogFile of catalogFiles) {
-      try {
-        const filePath = path.join(catalogDir, catalogFile)
-        if (fs.existsSync(filePath)) {
-          const catalogData = JSON.parse(fs.readFileSync(filePath, 'utf8'))
-          Object.entries(catalogData).forEach(([key, value]) => {
-            this.catalogCache.set(key, value as CatalogObject)
-          })
-          console.log(`✅ Loaded catalog: ${catalogFile}`)
-        }
-      } catch (error) {
-        console.warn(`⚠️ Failed to load catalog ${catalogFile}:`, error)
+  private catalog: CatalogLookup = {}
+
+  constructor(private options: ConverterOptions) {}
+
+  loadCatalog(): void {
+    const filePath = path.join(this.options.catalogDir, OBJECT_CATALOG_FILE)
+    if (!fs.existsSync(filePath)) return
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+      const issues = validateCatalogData(data)
+      if (issues.length > 0) {
+        console.warn(`⚠️ Skipping invalid catalog ${filePath}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join(', ')}`)
+        return
       }
+      this.catalog = catalogLookup(data)
+    } catch (error) {
+      console.warn(`⚠️ Failed to load catalog ${filePath}:`, error)
     }
   }
 
-  private determineClassification(object: OldSystemObject, objectType: string): Classification {
-    const name = object.name.toLowerCase()
-    
-    if (objectType === 'stars' || name.includes('star') || name.includes('sun')) {
-      return 'star'
-    }
-    
-    if (objectType === 'belts' || name.includes('belt')) {
-      return 'belt'
-    }
-    
-    if (objectType === 'moons' || name.includes('moon')) {
-      return 'moon'
-    }
-    
-    if (objectType === 'planets') {
-      // Check if it's a dwarf planet
-      if (name.includes('pluto') || name.includes('ceres') || name.includes('dwarf')) {
-        return 'dwarf-planet'
-      }
-      return 'planet'
-    }
-    
-    return 'planet' // default
+  systemFiles(): string[] {
+    const targets = this.options.paths.length > 0
+      ? this.options.paths.map(target => path.resolve(target))
+      : [
+          ...fs.readdirSync(DATA_DIR)
+            .map(mode => path.join(DATA_DIR, mode, 'systems'))
+            .filter(dir => fs.existsSync(dir)),
+          path.join(DATA_DIR, 'test-systems')
+        ].filter(dir => fs.existsSync(dir))
+
+    return targets.flatMap(target => fs.statSync(target).isDirectory()
+      ? fs.readdirSync(target).filter(name => name.endsWith('.json')).sort().map(name => path.join(target, name))
+      : [target])
   }
 
-  private determineGeometryType(classification: Classification, catalogObject?: CatalogObject, customizations?: any): GeometryType {
-    // Use customizations or catalog data to refine geometry type
-    if (classification === 'planet') {
-      const name = catalogObject?.name?.toLowerCase() || ''
-      if (name.includes('gas') || name.includes('jupiter') || name.includes('saturn') || 
-          name.includes('neptune') || name.includes('uranus')) {
-        return 'gas_giant'
+  convertFile(file: string): FileReport {
+    const report: FileReport = { file: path.relative(process.cwd(), file), migrations: [], written: false }
+    try {
+      const result = migrateSystemData(JSON.parse(fs.readFileSync(file, 'utf8')), { catalog: this.catalog })
+      report.fromVersion = result.fromVersion
+      report.toVersion = result.toVersion
+      report.migrations = describeMigration(result)
+
+      if (this.options.write && result.applied.length > 0) {
+        fs.writeFileSync(file, JSON.stringify(result.data, null, 2))
+        report.written = true
       }
-      return 'terrestrial'
+    } catch (error) {
+      report.error = (error as Error).message
     }
-    
-    return getDefaultGeometryType(classification)
+    return report
   }
 
-  private convertProperties(
-    catalogObject: CatalogObject | undefined, 
-    customizations: any, 
-    classification: Classification
-  ): CelestialProperties {
-    const properties: CelestialProperties = {
-      mass: 1,
-      radius: 1,
-      temperature: 288
-    }
-
-    // Merge catalog physical properties
-    if (catalogObject?.physical) {
-      Object.assign(properties, catalogObject.physical)
-    }
-
-    // Merge catalog features
-    if (catalogObject?.features) {
-      Object.assign(properties, catalogObject.features)
-    }
-
-    // Merge catalog appearance
-    if (catalogObject?.appearance) {
-      Object.assign(properties, catalogObject.appearance)
-    }
-
-    // Apply customizations
-    if (customizations?.physical) {
-      Object.assign(properties, customizations.physical)
-    }
-
-    if (customizations?.features) {
-      Object.assign(properties, customizations.features)
-    }
-
-    if (customizations?.appearance) {
-      Object.assign(properties, customizations.appearance)
-    }
-
-    if (customizations?.habitability) {
-      Object.assign(properties, customizations.habitability)
-    }
-
-    // Convert specific legacy properties to new format
-    this.convertLegacyProperties(properties, customizations)
-
-    return properties
+  run(): FileReport[] {
+    this.loadCatalog()
+    return this.systemFiles().map(file => this.convertFile(file))
   }
+}
 
-  private convertLegacyProperties(properties: CelestialProperties, customizations: any): void {
-    // Convert atmosphere types to numeric values
-    if (customizations?.features?.atmosphere) {
-      const atm = customizations.features.atmosphere
-      if (typeof atm === 'string') {
-        switch (atm) {
-          case 'breathable':
-            properties.atmosphere = 80
-            break
-          case 'thick':
-            properties.atmosphere = 90
-            break
-          case 'thin':
-            properties.atmosphere = 30
-            break
-          default:
-            properties.atmosphere = 50
-        }
-      }
-    }
-
-    // Convert surface types to appropriate properties
-    if (customizations?.features?.surface_type) {
-      const surface = customizations.features.surface_type
-      switch (surface) {
-        case 'rocky':
-          properties.crater_density = properties.crater_density || 60
-          properties.albedo = properties.albedo || 40
-          break
-        case 'volcanic':
-          properties.tectonics = properties.tectonics || 80
-          properties.temperature = Math.max(properties.temperature, 400)
-          break
-        case 'desert':
-          properties.albedo = properties.albedo || 30
-          properties.water = 5
-          break
-      }
-      delete properties.surface_type
-    }
-
-    // Convert boolean flags to numeric values
-    if (customizations?.features?.city_lights === true) {
-      properties.population = properties.population || 80
-    }
-
-    if (customizations?.features?.vegetation === true) {
-      properties.flora = properties.flora || 60
-    }
-
-    if (customizations?.features?.ocean_coverage) {
-      properties.water = Math.round(customizations.features.ocean_coverage * 100)
-    }
-
-    if (customizations?.features?.cloud_coverage) {
-      properties.atmosphere = Math.max(properties.atmosphere || 0, Math.round(customizations.features.cloud_coverage * 100))
-    }
+function parseArgs(args: string[]): ConverterOptions | null {
+  const options: ConverterOptions = {
+    write: false,
+    check: false,
+    json: false,
+    catalogDir: path.join(DATA_DIR, OBJECT_CATALOG_DIR),
+    paths: []
   }
-
-  private convertObject(object: OldSystemObject, objectType: string): CelestialObject {
-    const catalogObject = this.catalogCache.get(object.catalog_ref)
-    const classification = this.determineClassification(object, objectType)
-    const geometry_type = this.determineGeometryType(classification, catalogObject, object.customizations)
-    
-    const celestialObject: CelestialObject = {
-      id: object.id,
-      name: object.name,
-      classification,
-      geometry_type,
-      properties: this.convertProperties(catalogObject, object.customizations, classification)
-    }
-
-    // Add orbit data if present
-    if (object.orbit) {
-      if (classification === 'belt' && object.orbit.inner_radius && object.orbit.outer_radius) {
-        celestialObject.orbit = {
-          parent: object.orbit.parent,
-          inner_radius: object.orbit.inner_radius,
-          outer_radius: object.orbit.outer_radius,
-          inclination: object.orbit.inclination || 0,
-          eccentricity: object.orbit.eccentricity || 0
-        }
-      } else {
-        celestialObject.orbit = {
-          parent: object.orbit.parent,
-          semi_major_axis: object.orbit.semi_major_axis,
-          eccentricity: object.orbit.eccentricity || 0,
-          inclination: object.orbit.inclination || 0,
-          orbital_period: object.orbit.orbital_period
-        }
-      }
-    }
-
-    // Add position for objects without orbits (usually stars at system center)
-    if (object.position) {
-      celestialObject.position = object.position
-    }
-
-    return celestialObject
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--write') options.write = true
+    else if (arg === '--check') options.check = true
+    else if (arg === '--json') options.json = true
+    else if (arg === '--catalog' && args[i + 1]) options.catalogDir = path.resolve(args[++i])
+    else if (arg.startsWith('-')) return null
+    else options.paths.push(arg)
   }
+  return options
+}
 
-  async convertSystem(oldSystemPath: string): Promise<OrbitalSystemData> {
-    const oldSystemData: OldSystemData = JSON.parse(fs.readFileSync(oldSystemPath, 'utf8'))
-    
-    console.log(`🔄 Converting system: ${oldSystemData.name}`)
-
-    const objects: CelestialObject[] = []
-
-    // Convert stars
-    for (const star of oldSystemData.stars) {
-      objects.push(this.convertObject(star, 'stars'))
-    }
-
-    // Convert planets
-    if (oldSystemData.planets) {
-      for (const planet of oldSystemData.planets) {
-        objects.push(this.convertObject(planet, 'planets'))
-      }
-    }
-
-    // Convert moons
-    if (oldSystemData.moons) {
-      for (const moon of oldSystemData.moons) {
-        objects.push(this.convertObject(moon, 'moons'))
-      }
-    }
-
-    // Convert belts
-    if (oldSystemData.belts) {
-      for (const belt of oldSystemData.belts) {
-        objects.push(this.convertObject(belt, 'belts'))
-      }
-    }
-
-    const newSystemData: OrbitalSystemData = {
-      id: oldSystemData.id,
-      name: oldSystemData.name,
-      description: oldSystemData.description,
-      objects,
-      lighting: oldSystemData.lighting,
-      metadata: {
-        version: '2.0',
-        last_updated: new Date().toISOString().split('T')[0],
-        coordinate_system: 'heliocentric',
-        distance_unit: 'au'
-      }
+function printReport(reports: FileReport[], options: ConverterOptions): void {
+  for (const report of reports) {
+    if (report.error) {
+      console.log(`❌ ${report.file}: ${report.error}`)
+    } else if (report.migrations.length === 0) {
+      console.log(`✅ ${report.file}: current (${report.fromVersion})`)
+    } else {
+      console.log(`🔁 ${report.file}: ${report.fromVersion} → ${report.toVersion}${report.written ? ' (written)' : ''}`)
+      report.migrations.forEach(line => console.log(`    ${line}`))
     }
-
-    console.log(`✅ Converted ${objects.length} objects in ${oldSystemData.name}`)
-    return newSystemData
   }
 
-  async convertAllSystems(): Promise<void> {
-    await this.loadCatalogs()
-
-    const modes = ['realistic', 'star-citizen']
-    
-    for (const mode of modes) {
-      const systemsDir = path.join(process.cwd(), 'public/data', mode, 'systems')
-      
-      if (!fs.existsSync(systemsDir)) {
-        console.warn(`⚠️ Systems directory not found: ${systemsDir}`)
-        continue
-      }
+  const pending = reports.filter(report => report.migrations.length > 0 && !report.written).length
+  const failed = reports.filter(report => report.error).length
+  console.log(`\n${reports.length} files, ${pending} need migrating to ${SYSTEM_FORMAT_VERSION}, ${failed} failed` +
+    (pending > 0 && !options.write ? ' (rerun with --write to upgrade them)' : ''))
+}
 
-      const files = fs.readdirSync(systemsDir).filter(f => f.endsWith('.json'))
-      
-      for (const file of files) {
-        try {
-          const oldSystemPath = path.join(systemsDir, file)
-          const newSystemData = await this.convertSystem(oldSystemPath)
-          
-          // Write converted data back to the same file
-          fs.writeFileSync(oldSystemPath, JSON.stringify(newSystemData, null, 2))
-          console.log(`💾 Updated: ${file}`)
-        } catch (error) {
-          console.error(`❌ Failed to convert ${file}:`, error)
-        }
-      }
-    }
+function main() {
+  const options = parseArgs(process.argv.slice(2))
+  if (!options) {
+    console.error('Usage: npm run migrate:data -- [--write] [--check] [--json] [--catalog <dir>] [paths...]')
+    process.exitCode = 2
+    return
+  }
 
-    console.log('🎉 Conversion complete!')
+  const reports = new OrbitalSystemConverter(options).run()
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2))
+  } else {
+    printReport(reports, options)
   }
-}
 
-// Run conversion if this script is executed directly
-if (require.main === module) {
-  const converter = new OrbitalSystemConverter()
-  converter.convertAllSystems().catch(console.error)
+  const failed = reports.some(report => report.error)
+  const pending = reports.some(report => report.migrations.length > 0 && !report.written)
+  process.exitCode = failed || (options.check && pending) ? 1 : 0
 }
 
-export { OrbitalSystemConverter } 
\ No newline at end of file
+main()
@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { getSystemJsonSchema } from '../engine/types/orbital-system.schema'
+
+// Writes the JSON Schema for system files so editors can validate and
+// autocomplete them. Run after changing engine/types/orbital-system.schema.ts:
+//   npm run schema:export
+
+const outputPath = path.join(process.cwd(), 'public', 'schemas', 'orbital-system.schema.json')
+
+fs.mkdirSync(path.dirname(outputPath), { recursive: true })
+fs.writeFileSync(outputPath, JSON.stringify(getSystemJsonSchema(), null, 2) + '\n')
+console.log(`✅ Wrote ${path.relative(process.cwd(), outputPath)}`)
@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  formatLintReport,
+  lintObjectCatalog,
+  lintStarmapData,
+  lintSystemData,
+  lintUniverseManifest,
+  summarizeLintReport,
+  type DataLintFileReport,
+  type DataLintIssue
+} from '../engine/validation/data-lint'
+import type { CatalogData } from '../engine/types/catalog'
+import { OBJECT_CATALOG_DIR, OBJECT_CATALOG_FILE } from '../engine/object-catalog/object-catalog'
+
+// Checks the object catalog and every mode's universe.json,
+// starmap-systems.json and systems/*.json with the same validators and
+// orbital-mechanics layout the viewer uses. Systems are checked with their
+// `catalog_ref` objects filled in from the catalog.
+//
+// Usage: npm run lint:data -- [--json] [--strict] [data-dir]
+//   --json    print the report as JSON
+//   --strict  fail on warnings as well as errors
+//   data-dir  defaults to public/data
+//
+// Exits 1 when there are errors (or warnings with --strict), 2 on bad usage.
+
+interface LintOptions {
+  json: boolean
+  strict: boolean
+  dataDir: string
+}
+
+function parseArgs(args: string[]): LintOptions | null {
+  const options: LintOptions = { json: false, strict: false, dataDir: path.join(process.cwd(), 'public', 'data') }
+  for (const arg of args) {
+    if (arg === '--json') options.json = true
+    else if (arg === '--strict') options.strict = true
+    else if (arg.startsWith('-')) return null
+    else options.dataDir = path.resolve(arg)
+  }
+  return options
+}
+
+function readJson(file: string): { data?: unknown; issue?: DataLintIssue } {
+  try {
+    return { data: JSON.parse(fs.readFileSync(file, 'utf-8')) }
+  } catch (error) {
+    return { issue: { path: '', message: `Unreadable JSON: ${(error as Error).message}`, severity: 'error' } }
+  }
+}
+
+// The catalog's report, and the catalog itself when it's usable by systems
+function lintCatalog(dataDir: string): { report: DataLintFileReport | null; catalog: CatalogData | null } {
+  const catalogFile = path.join(dataDir, OBJECT_CATALOG_DIR, OBJECT_CATALOG_FILE)
+  if (!fs.existsSync(catalogFile)) return { report: null, catalog: null }
+
+  const { data, issue } = readJson(catalogFile)
+  const issues = issue ? [issue] : lintObjectCatalog(data)
+  return {
+    report: { file: path.relative(dataDir, catalogFile), kind: 'catalog', issues },
+    catalog: issues.length === 0 ? data as CatalogData : null
+  }
+}
+
+function lintMode(dataDir: string, mode: string, catalog: CatalogData | null): DataLintFileReport[] {
+  const reports: DataLintFileReport[] = []
+  const systemsDir = path.join(dataDir, mode, 'systems')
+  const systemFiles = fs.existsSync(systemsDir)
+    ? fs.readdirSync(systemsDir).filter(name => name.endsWith('.json')).sort()
+    : []
+  const systemFileIds = systemFiles.map(name => path.basename(name, '.json'))
+
+  const manifestFile = path.join(dataDir, mode, 'universe.json')
+  if (fs.existsSync(manifestFile)) {
+    const { data, issue } = readJson(manifestFile)
+    reports.push({
+      file: path.relative(dataDir, manifestFile),
+      kind: 'universe',
+      issues: issue ? [issue] : lintUniverseManifest(data, mode, systemFileIds)
+    })
+  }
+
+  const starmapFile = path.join(dataDir, mode, 'starmap-systems.json')
+  if (fs.existsSync(starmapFile)) {
+    const { data, issue } = readJson(starmapFile)
+    reports.push({
+      file: path.relative(dataDir, starmapFile),
+      kind: 'starmap',
+      issues: issue ? [issue] : lintStarmapData(data, systemFileIds)
+    })
+  }
+
+  for (const name of systemFiles) {
+    const file = path.join(systemsDir, name)
+    const { data, issue } = readJson(file)
+    reports.push({
+      file: path.relative(dataDir, file),
+      kind: 'system',
+      issues: issue ? [issue] : lintSystemData(data, undefined, catalog)
+    })
+  }
+
+  return reports
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2))
+  if (!options) {
+    console.error('Usage: npm run lint:data -- [--json] [--strict] [data-dir]')
+    process.exitCode = 2
+    return
+  }
+  if (!fs.existsSync(options.dataDir)) {
+    console.error(`❌ Data directory not found: ${options.dataDir}`)
+    process.exitCode = 2
+    return
+  }
+
+  const modes = fs.readdirSync(options.dataDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+  const { report: catalogReport, catalog } = lintCatalog(options.dataDir)
+  const report = summarizeLintReport([
+    ...(catalogReport ? [catalogReport] : []),
+    ...modes.flatMap(mode => lintMode(options.dataDir, mode, catalog))
+  ])
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatLintReport(report))
+
+  const failed = report.errorCount > 0 || (options.strict && report.warningCount > 0)
+  process.exitCode = failed ? 1 : 0
+}
+
+main()